@@ -0,0 +1,140 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { countChangesBySubtree, type ChangeKind, type JsonChange } from "../lib/differ";
+import { stringifyLossless } from "../lib/losslessNumber";
+import type { JsonValue } from "../lib/fileLoader";
+
+interface ChangesPanelProps {
+  /** diffJson(sourceData, editedData) */
+  changes: JsonChange[];
+  /** Array identities the diff was run with, as `attributes[*].name`, comma-separated */
+  identityKeys: string;
+  onIdentityKeysChange: (keys: string) => void;
+  /** Scroll both panes to the change's node */
+  onSelect: (change: JsonChange) => void;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 100;
+
+const KIND_COLOURS: Record<ChangeKind, string> = {
+  added: "#4ade80",
+  removed: "#ef4444",
+  modified: "#e3b341",
+  moved: "#ab47bc",
+};
+
+const KINDS: ChangeKind[] = ["added", "removed", "modified", "moved"];
+
+const cellStyle = { padding: "0.1rem 0.5rem", whiteSpace: "nowrap" as const, overflow: "hidden", textOverflow: "ellipsis", maxWidth: "24rem" };
+
+function preview(value: JsonValue | undefined): string {
+  if (value === undefined) return "";
+  const text = stringifyLossless(value);
+  return text.length > 80 ? `${text.slice(0, 79)}…` : text;
+}
+
+function detail(change: JsonChange): string {
+  if (change.kind === "moved") return `${change.identity ? `${change.identity}  ` : ""}position ${change.from} → ${change.to}`;
+  if (change.kind === "added") return preview(change.newValue);
+  if (change.kind === "removed") return preview(change.oldValue);
+  return `${preview(change.oldValue)} → ${preview(change.newValue)}`;
+}
+
+/**
+ * Every structural difference between the source and the edited document,
+ * narrowed to a subtree and a kind of change, with counts for that subtree.
+ * Clicking an entry shows its node in both panes.
+ */
+export default function ChangesPanel({ changes, identityKeys, onIdentityKeysChange, onSelect, onClose }: ChangesPanelProps) {
+  const [within, setWithin] = useState("");
+  // Edited here, applied on Enter or leaving the box, so the diff isn't rerun per keystroke
+  const [keysDraft, setKeysDraft] = useState(identityKeys);
+  const [kinds, setKinds] = useState<Set<ChangeKind>>(new Set(KINDS));
+  const [page, setPage] = useState(0);
+
+  const counts = useMemo(() => countChangesBySubtree(changes), [changes]);
+  const subtree = within.trim();
+  const shown = useMemo(
+    () => changes.filter((c) => kinds.has(c.kind) && (!subtree || c.path === subtree || c.path.startsWith(`${subtree}.`))),
+    [changes, kinds, subtree]
+  );
+  const subtreeCounts = counts.get(subtree) ?? { added: 0, removed: 0, modified: 0, moved: 0 };
+  const reorderOnly = subtreeCounts.moved > 0 && subtreeCounts.added + subtreeCounts.removed + subtreeCounts.modified === 0;
+
+  const pages = Math.max(1, Math.ceil(shown.length / PAGE_SIZE));
+  const current = Math.min(page, pages - 1);
+  const rows = shown.slice(current * PAGE_SIZE, (current + 1) * PAGE_SIZE);
+
+  const toggleKind = (kind: ChangeKind) => {
+    const next = new Set(kinds);
+    if (next.has(kind)) next.delete(kind);
+    else next.add(kind);
+    setKinds(next);
+    setPage(0);
+  };
+
+  return (
+    <div style={{ borderBottom: "1px solid #e3b341", background: "rgba(227,179,65,0.06)", padding: "0.4rem 1rem", fontSize: "12px", fontFamily: "monospace", flexShrink: 0 }}>
+      <div style={{ display: "flex", gap: "1rem", alignItems: "center", flexWrap: "wrap" }}>
+        <b style={{ color: "#e3b341" }}>Changes</b>
+        <input
+          type="text"
+          placeholder="within path (all)"
+          value={within}
+          onChange={(e) => { setWithin(e.target.value); setPage(0); }}
+          title="Only changes at or under this path, e.g. view.classes.apple"
+          style={{ width: "16rem", padding: "0.15rem 0.4rem", background: "#1e293b", border: "1px solid #555", borderRadius: "3px", color: "#fff", fontFamily: "monospace" }}
+        />
+        {KINDS.map((kind) => (
+          <label key={kind} style={{ display: "flex", gap: "0.3rem", alignItems: "center", color: KIND_COLOURS[kind] }}>
+            <input type="checkbox" checked={kinds.has(kind)} onChange={() => toggleKind(kind)} />
+            {kind} ({subtreeCounts[kind]})
+          </label>
+        ))}
+        <input
+          type="text"
+          placeholder="identity keys (inferred)"
+          value={keysDraft}
+          onChange={(e) => setKeysDraft(e.target.value)}
+          onBlur={() => onIdentityKeysChange(keysDraft)}
+          onKeyDown={(e) => { if (e.key === "Enter") onIdentityKeysChange(keysDraft); }}
+          title="Match array elements by a field, e.g. attributes[*].name, tags[*]; other arrays use a unique field if one pairs them up"
+          style={{ width: "14rem", padding: "0.15rem 0.4rem", background: "#1e293b", border: "1px solid #555", borderRadius: "3px", color: "#fff", fontFamily: "monospace" }}
+        />
+        {reorderOnly && <b style={{ color: "#4ade80" }}>✓ Only reordered — no content changed</b>}
+        <button onClick={onClose} style={{ marginLeft: "auto", background: "transparent", border: "none", color: "#888", cursor: "pointer", fontSize: "14px" }}>✕</button>
+      </div>
+
+      <div style={{ maxHeight: "14rem", overflow: "auto", marginTop: "0.3rem" }}>
+        <table style={{ borderCollapse: "collapse", width: "100%" }}>
+          <tbody>
+            {rows.map((change, i) => (
+              <tr
+                key={`${current}-${i}`}
+                onClick={() => onSelect(change)}
+                title="Show in both panes"
+                style={{ borderTop: "1px solid var(--border)", cursor: "pointer" }}
+              >
+                <td style={{ ...cellStyle, color: KIND_COLOURS[change.kind], width: "5rem" }}>{change.kind}</td>
+                <td style={cellStyle} title={change.oldPath ? `${change.path} (was ${change.oldPath})` : change.path}>{change.path || "(root)"}</td>
+                <td style={{ ...cellStyle, color: "#94a3b8" }}>{detail(change)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rows.length === 0 && (
+          <div style={{ color: "#888", padding: "0.3rem" }}>{changes.length === 0 ? "The documents are the same." : "No changes match."}</div>
+        )}
+      </div>
+      {pages > 1 && (
+        <div style={{ display: "flex", gap: "0.5rem", alignItems: "center", marginTop: "0.3rem" }}>
+          <button onClick={() => setPage(current - 1)} disabled={current === 0}>‹ Prev</button>
+          <span>page {current + 1} of {pages} ({shown.length} changes)</span>
+          <button onClick={() => setPage(current + 1)} disabled={current >= pages - 1}>Next ›</button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { JsonValue } from "../lib/fileLoader";
+import { scanStructure } from "../lib/structureScanner";
+import { encodeText, type OutputEncoding } from "../lib/encoding";
+import {
+  exportValue,
+  valueAtPath,
+  DEFAULT_TABLE_OPTIONS,
+  EXPORT_EXTENSIONS,
+  type ExportFormat,
+  type TableOptions,
+} from "../lib/exporters";
+
+interface ExportDialogProps {
+  data: JsonValue;
+  /** Source file name; the export is saved next to it as `<name>_export.<ext>` */
+  fileName: string;
+  /** BOM and line endings from the toolbar's save settings */
+  output: OutputEncoding;
+  onClose: () => void;
+}
+
+const PREVIEW_RECORDS = 20;
+const PREVIEW_CHARS = 20000;
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  tsv: "TSV",
+  markdown: "Markdown table",
+  yaml: "YAML",
+  ndjson: "NDJSON",
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  tsv: "text/tab-separated-values",
+  markdown: "text/markdown",
+  yaml: "application/yaml",
+  ndjson: "application/x-ndjson",
+};
+
+const fieldStyle = { padding: "0.4rem", background: "var(--surface)", color: "var(--text)", border: "1px solid #00ffff", borderRadius: "4px" };
+const labelStyle = { display: "flex", alignItems: "center", gap: "0.5rem", border: "none" };
+
+export default function ExportDialog({ data, fileName, output, onClose }: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [path, setPath] = useState<string>("");
+  const [options, setOptions] = useState<TableOptions>(DEFAULT_TABLE_OPTIONS);
+
+  // Array containers are the natural CSV sources; computed once per dialog
+  const containers = useMemo(() => scanStructure(data).containers, [data]);
+  const isTable = format === "csv" || format === "tsv" || format === "markdown";
+
+  // Default the table source to the first container found
+  const [pathTouched, setPathTouched] = useState(false);
+  const effectivePath = !pathTouched && isTable && containers.length > 0 ? containers[0].path : path;
+  const source = useMemo(() => valueAtPath(data, effectivePath), [data, effectivePath]);
+
+  const preview = useMemo(() => {
+    if (source === undefined) return "";
+    const sample = Array.isArray(source) ? source.slice(0, PREVIEW_RECORDS) : source;
+    const text = exportValue(sample, format, options);
+    return text.length > PREVIEW_CHARS ? text.slice(0, PREVIEW_CHARS) + "\n…" : text;
+  }, [source, format, options]);
+
+  const download = () => {
+    if (source === undefined) return;
+    const text = exportValue(source, format, options);
+    const blob = new Blob([encodeText(text, output)], { type: MIME_TYPES[format] });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${fileName.replace(/\.[^.]+$/, "")}_export.${EXPORT_EXTENSIONS[format]}`;
+    a.click();
+    URL.revokeObjectURL(url);
+    onClose();
+  };
+
+  return (
+    <div
+      onClick={onClose}
+      style={{ position: "fixed", inset: 0, background: "rgba(0,0,0,0.7)", zIndex: 9000, display: "flex", alignItems: "center", justifyContent: "center" }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          background: "var(--bg)", border: "1px solid #00ffff", borderRadius: "8px", padding: "1rem",
+          width: "min(900px, 92vw)", maxHeight: "88vh", display: "flex", flexDirection: "column", gap: "0.75rem", fontSize: "13px"
+        }}
+      >
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+          <b style={{ color: "#00ffff" }}>Export</b>
+          <button onClick={onClose} style={{ background: "transparent", border: "none", color: "#888", cursor: "pointer", fontSize: "16px" }}>✕</button>
+        </div>
+
+        <div style={{ display: "flex", flexWrap: "wrap", gap: "0.75rem" }}>
+          <label style={labelStyle}>
+            Format
+            <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} style={fieldStyle}>
+              {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((f) => (
+                <option key={f} value={f}>{FORMAT_LABELS[f]}</option>
+              ))}
+            </select>
+          </label>
+          <label style={labelStyle} title="Dotted path of the array (or subtree) to export; empty exports the whole document">
+            {isTable ? "Rows from" : "Subtree"}
+            <input
+              list="export-containers"
+              value={effectivePath}
+              placeholder="(whole document)"
+              onChange={(e) => { setPath(e.target.value); setPathTouched(true); }}
+              style={{ ...fieldStyle, width: "18rem" }}
+            />
+            <datalist id="export-containers">
+              {containers.map((c) => (
+                <option key={c.path} value={c.path}>{c.elementCount} items</option>
+              ))}
+            </datalist>
+          </label>
+        </div>
+
+        {isTable && (
+          <div style={{ display: "flex", flexWrap: "wrap", gap: "0.75rem" }}>
+            <label style={labelStyle} title="How arrays inside a row become cells">
+              Arrays
+              <select value={options.arrays} onChange={(e) => setOptions({ ...options, arrays: e.target.value as TableOptions["arrays"] })} style={fieldStyle}>
+                <option value="join">Join values</option>
+                <option value="columns">One column per item (tags.0, tags.1…)</option>
+                <option value="json">JSON text</option>
+              </select>
+            </label>
+            {options.arrays === "join" && (
+              <label style={labelStyle}>
+                Separator
+                <input value={options.arrayJoin} onChange={(e) => setOptions({ ...options, arrayJoin: e.target.value })} style={{ ...fieldStyle, width: "4rem" }} />
+              </label>
+            )}
+            {format !== "markdown" && (
+              <>
+                <label style={labelStyle}>
+                  Quoting
+                  <select value={options.quoting} onChange={(e) => setOptions({ ...options, quoting: e.target.value as TableOptions["quoting"] })} style={fieldStyle}>
+                    <option value="minimal">Only when needed</option>
+                    <option value="all">Every cell</option>
+                  </select>
+                </label>
+                <label style={labelStyle}>
+                  <input type="checkbox" checked={options.header} onChange={(e) => setOptions({ ...options, header: e.target.checked })} />
+                  Header row
+                </label>
+              </>
+            )}
+          </div>
+        )}
+
+        {source === undefined ? (
+          <div className="validation-err">Nothing at path “{effectivePath}”</div>
+        ) : (
+          <>
+            <div style={{ color: "#888" }}>
+              Preview{Array.isArray(source) && source.length > PREVIEW_RECORDS ? ` (first ${PREVIEW_RECORDS} of ${source.length} records)` : ""}
+            </div>
+            <pre style={{ margin: 0, padding: "0.5rem", overflow: "auto", flex: 1, minHeight: "8rem", background: "var(--surface)", border: "1px solid var(--border)", borderRadius: "4px" }}>
+              {preview}
+            </pre>
+          </>
+        )}
+
+        <div style={{ display: "flex", justifyContent: "flex-end", gap: "0.5rem" }}>
+          <button onClick={onClose}>Cancel</button>
+          <button onClick={download} disabled={source === undefined}>
+            Download .{EXPORT_EXTENSIONS[format]}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
 "use client";
 
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect, useRef } from "react";
 import { List } from "react-window";
 import { AutoSizer } from "react-virtualized-auto-sizer";
 import VirtualJsonNode, { VirtualItem } from "./VirtualJsonNode";
+import type { LazyNode } from "../lib/streamParser";
+import { isLosslessNumber } from "../lib/losslessNumber";
 
 type JsonValue = string | number | boolean | null | JsonObject | JsonArray;
 type JsonObject = { [key: string]: JsonValue };
@@ -19,6 +21,11 @@ interface JsonEditorProps {
   toggleCollapse: (path: string) => void;
   searchTerm?: string;
   lineMap?: Map<string, number>;
+  /** Index mode: subtrees still on disk, keyed by path. Expanding one calls onLoadLazy. */
+  lazyNodes?: Map<string, LazyNode>;
+  onLoadLazy?: (path: string) => void;
+  /** Scroll to and select this node; a new object each time, so the same path can be shown again */
+  focus?: { path: string } | null;
 }
 
 export default function JsonEditor({
@@ -28,8 +35,12 @@ export default function JsonEditor({
   toggleCollapse,
   searchTerm,
   lineMap,
+  lazyNodes,
+  onLoadLazy,
+  focus,
 }: JsonEditorProps) {
   const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const listRef = useRef<any>(null);
 
   // Flatten data based on expanded state
   const flattenedItems = useMemo(() => {
@@ -46,10 +57,11 @@ export default function JsonEditor({
       depth: number,
       isLast: boolean
     ) => {
-      const isObj = current !== null && typeof current === 'object' && !Array.isArray(current);
+      const isObj = current !== null && typeof current === 'object' && !Array.isArray(current) && !isLosslessNumber(current);
       const isArr = Array.isArray(current);
       const isExpandable = isObj || isArr;
-      const isExpanded = isExpandable && !collapsedPaths.has(path);
+      const lazy = lazyNodes?.get(path);
+      const isExpanded = isExpandable && !lazy && !collapsedPaths.has(path);
       const myLine = runningLineNumber++;
       const originalLine = lineMap?.get(path);
 
@@ -66,7 +78,8 @@ export default function JsonEditor({
         indexInParent: -1, // Not strictly needed for display
         lineNumber: myLine,
         originalLine,
-        type: isArr ? 'array' : isObj ? 'object' : 'primitive'
+        type: isArr ? 'array' : isObj ? 'object' : 'primitive',
+        lazyCount: lazy?.childCount
       });
 
       if (isExpanded) {
@@ -143,7 +156,22 @@ export default function JsonEditor({
     });
 
     return items;
-  }, [data, collapsedPaths, lineMap]);
+  }, [data, collapsedPaths, lineMap, lazyNodes]);
+
+  // The caller expands the node's ancestors in the same update, so its row is already listed
+  useEffect(() => {
+    if (!focus) return;
+    const index = flattenedItems.findIndex((item) => !item.closing && item.path === (focus.path || 'root'));
+    if (index < 0) return;
+    listRef.current?.scrollToRow({ index, align: 'center' });
+    setSelectedPath(flattenedItems[index].path);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [focus]);
+
+  const handleToggle = (path: string) => {
+    if (lazyNodes?.has(path) && onLoadLazy) onLoadLazy(path);
+    else toggleCollapse(path);
+  };
 
   if (!data) return null;
 
@@ -173,6 +201,7 @@ export default function JsonEditor({
 
           return (
             <ListComponent
+              listRef={listRef}
               height={h}
               rowCount={flattenedItems.length}
               rowHeight={24} // Fixed row height
@@ -180,7 +209,7 @@ export default function JsonEditor({
               rowComponent={Row}
               rowProps={{
                 items: flattenedItems,
-                onToggle: toggleCollapse,
+                onToggle: handleToggle,
                 onSelect: setSelectedPath,
                 selectedPath,
                 searchTerm,
@@ -1,19 +1,56 @@
 import React from 'react';
+import type { JobProgress } from '../lib/jobs';
 
 interface LoadingOverlayProps {
   isLoading: boolean;
   message?: string;
   onCancel?: () => void;
+  /** Byte progress for chunked reads; shows a bar when set */
+  progress?: { done: number; total: number } | null;
+  /** Latest checkpoint of a worker job: phase, items done and the time left */
+  jobProgress?: (JobProgress & { etaMs?: number }) | null;
 }
 
-const LoadingOverlay: React.FC<LoadingOverlayProps> = ({ isLoading, message = "Loading...", onCancel }) => {
+const formatEta = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds < 60 ? `about ${seconds}s left` : `about ${Math.floor(seconds / 60)}m ${seconds % 60}s left`;
+};
+
+const LoadingOverlay: React.FC<LoadingOverlayProps> = ({ isLoading, message = "Loading...", onCancel, progress, jobProgress }) => {
   if (!isLoading) return null;
+  const percent = progress && progress.total > 0 ? Math.min(100, Math.round((progress.done / progress.total) * 100)) : null;
+  const jobPercent = jobProgress && jobProgress.total > 0 ? Math.min(100, Math.round((jobProgress.processed / jobProgress.total) * 100)) : null;
+  const mb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
 
   return (
     <div className="loading-overlay">
       <div className="loading-content">
         <div className="hourglass"></div>
         <div className="loading-text">{message}</div>
+        {progress && percent !== null && (
+          <div className="loading-progress">
+            <div className="loading-progress-track">
+              <div className="loading-progress-bar" style={{ width: `${percent}%` }} />
+            </div>
+            <div className="loading-progress-label">
+              {percent}% — {mb(progress.done)} / {mb(progress.total)} MB
+            </div>
+          </div>
+        )}
+        {jobProgress && (
+          <div className="loading-progress">
+            {jobPercent !== null && (
+              <div className="loading-progress-track">
+                <div className="loading-progress-bar" style={{ width: `${jobPercent}%` }} />
+              </div>
+            )}
+            <div className="loading-progress-label">
+              {jobProgress.phase}
+              {jobProgress.total > 0 ? ` — ${jobProgress.processed.toLocaleString()} / ${jobProgress.total.toLocaleString()}` : ''}
+              {jobProgress.etaMs !== undefined ? ` — ${formatEta(jobProgress.etaMs)}` : ''}
+            </div>
+          </div>
+        )}
         {onCancel && (
           <button
             onClick={onCancel}
@@ -70,6 +107,28 @@ const LoadingOverlay: React.FC<LoadingOverlayProps> = ({ isLoading, message = "L
           font-weight: bold;
         }
 
+        .loading-progress {
+          width: 320px;
+        }
+        .loading-progress-track {
+          height: 8px;
+          background: #1e293b;
+          border: 1px solid #334155;
+          border-radius: 4px;
+          overflow: hidden;
+        }
+        .loading-progress-bar {
+          height: 100%;
+          background: #00ffff;
+          transition: width 0.2s;
+        }
+        .loading-progress-label {
+          margin-top: 0.4rem;
+          color: #94a3b8;
+          font-family: monospace;
+          font-size: 0.8rem;
+        }
+
         /* Hourglass Animation */
         .hourglass {
           display: inline-block;
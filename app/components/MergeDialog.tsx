@@ -0,0 +1,195 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { detectDialect, detectImportFormat, importBytes, parseJsonBytes, type JsonValue } from "../lib/fileLoader";
+import { mergeDocuments, type ArrayStrategy, type ConflictKind, type MergeMode } from "../lib/merger";
+import { stringifyLossless } from "../lib/losslessNumber";
+
+export interface MergeLayer {
+  fileName: string;
+  data: JsonValue;
+}
+
+interface MergeDialogProps {
+  /** The document being edited, offered as the base layer */
+  current: MergeLayer | null;
+  /** Array identities from the changes panel, as `servers[*].name`, comma-separated */
+  identityKeys: string;
+  /** The merged document and a name for it */
+  onApply: (data: JsonValue, fileName: string) => void;
+  onClose: () => void;
+}
+
+const MODE_LABELS: Record<MergeMode, string> = {
+  "merge-patch": "JSON Merge Patch (RFC 7386)",
+  deep: "Deep merge",
+};
+
+const ARRAY_LABELS: Record<ArrayStrategy, string> = {
+  replace: "Arrays: replace",
+  concat: "Arrays: concatenate",
+  union: "Arrays: union by identity key",
+};
+
+const KIND_COLOURS: Record<ConflictKind, string> = {
+  value: "#e3b341",
+  type: "#ef4444",
+  removed: "#94a3b8",
+};
+
+const MAX_CONFLICTS = 200;
+
+const fieldStyle = { padding: "0.4rem", background: "var(--surface)", color: "var(--text)", border: "1px solid #38bdf8", borderRadius: "4px" };
+const labelStyle = { display: "flex", alignItems: "center", gap: "0.5rem", border: "none" };
+const cellStyle = { padding: "0.1rem 0.5rem", whiteSpace: "nowrap" as const, overflow: "hidden", textOverflow: "ellipsis", maxWidth: "20rem" };
+
+function preview(value: JsonValue | undefined): string {
+  if (value === undefined) return "(removed)";
+  const text = stringifyLossless(value);
+  return text.length > 60 ? `${text.slice(0, 59)}…` : text;
+}
+
+/**
+ * Overlay files in order, e.g. `prod.json` over `base.json`: each layer wins
+ * over the ones above it, and every value a layer overrode is listed by path.
+ * The merged document replaces the one being edited.
+ */
+export default function MergeDialog({ current, identityKeys, onApply, onClose }: MergeDialogProps) {
+  const [layers, setLayers] = useState<MergeLayer[]>(current ? [current] : []);
+  const [mode, setMode] = useState<MergeMode>("merge-patch");
+  const [arrays, setArrays] = useState<ArrayStrategy>("replace");
+  const [keys, setKeys] = useState(identityKeys);
+  const [loadErrors, setLoadErrors] = useState<string[]>([]);
+
+  const result = useMemo(
+    () => layers.length < 2 ? null : mergeDocuments(layers.map((l) => l.data), {
+      mode,
+      arrays,
+      identityKeys: keys.split(",").map((k) => k.trim()).filter(Boolean),
+    }),
+    [layers, mode, arrays, keys]
+  );
+
+  const addFiles = () => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.multiple = true;
+    input.accept = ".json,.jsonc,.json5,.yaml,.yml,.toml";
+    input.onchange = () => {
+      const files = Array.from(input.files ?? []);
+      Promise.all(files.map((file) => file.arrayBuffer().then((buffer) => {
+        const bytes = new Uint8Array(buffer);
+        const importFormat = detectImportFormat(file.name);
+        const loaded = importFormat
+          ? importBytes(bytes, file.name, importFormat)
+          : parseJsonBytes(bytes, file.name, { dialect: detectDialect(file.name), format: "json" });
+        return { file, loaded };
+      }))).then((read) => {
+        setLoadErrors(read.filter((r) => r.loaded.error !== undefined).map((r) => `${r.file.name}: ${r.loaded.error}`));
+        const added = read.filter((r) => r.loaded.error === undefined).map((r) => ({ fileName: r.file.name, data: r.loaded.data! }));
+        setLayers((prev) => prev.concat(added));
+      }).catch((err: unknown) => {
+        setLoadErrors([`Could not read the files: ${err instanceof Error ? err.message : String(err)}`]);
+      });
+    };
+    input.click();
+  };
+
+  const moveLayer = (index: number, by: number) => {
+    const next = layers.slice();
+    const [layer] = next.splice(index, 1);
+    next.splice(index + by, 0, layer);
+    setLayers(next);
+  };
+
+  const mergedName = layers.length > 0 ? layers[layers.length - 1].fileName.replace(/(\.[^.]+)?$/, ".merged.json") : "merged.json";
+  const conflicts = result?.conflicts ?? [];
+
+  return (
+    <div
+      onClick={onClose}
+      style={{ position: "fixed", inset: 0, background: "rgba(0,0,0,0.7)", zIndex: 9000, display: "flex", alignItems: "center", justifyContent: "center" }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          background: "var(--bg)", border: "1px solid #38bdf8", borderRadius: "8px", padding: "1rem",
+          width: "min(820px, 92vw)", maxHeight: "90vh", display: "flex", flexDirection: "column", gap: "0.75rem", fontSize: "13px"
+        }}
+      >
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+          <b style={{ color: "#38bdf8" }}>Merge files</b>
+          <button onClick={onClose} style={{ background: "transparent", border: "none", color: "#888", cursor: "pointer", fontSize: "16px" }}>✕</button>
+        </div>
+
+        <div style={{ display: "flex", flexDirection: "column", gap: "0.25rem", fontFamily: "monospace" }}>
+          {layers.map((layer, i) => (
+            <div key={`${i}-${layer.fileName}`} style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}>
+              <span style={{ color: "#888", width: "4rem" }}>{i === 0 ? "base" : `layer ${i}`}</span>
+              <span style={{ flex: 1 }}>{layer.fileName}</span>
+              <button onClick={() => moveLayer(i, -1)} disabled={i === 0} title="Merge earlier">↑</button>
+              <button onClick={() => moveLayer(i, 1)} disabled={i === layers.length - 1} title="Merge later">↓</button>
+              <button onClick={() => setLayers(layers.filter((_, j) => j !== i))} title="Leave out">✕</button>
+            </div>
+          ))}
+          {layers.length === 0 && <span style={{ color: "#888" }}>No files yet</span>}
+        </div>
+
+        <div style={{ display: "flex", flexWrap: "wrap", gap: "0.75rem", alignItems: "center" }}>
+          <button onClick={addFiles}>Add files…</button>
+          <select value={mode} onChange={(e) => setMode(e.target.value as MergeMode)} style={fieldStyle}>
+            {(Object.keys(MODE_LABELS) as MergeMode[]).map((m) => (
+              <option key={m} value={m}>{MODE_LABELS[m]}</option>
+            ))}
+          </select>
+          {mode === "deep" && (
+            <select value={arrays} onChange={(e) => setArrays(e.target.value as ArrayStrategy)} style={fieldStyle}>
+              {(Object.keys(ARRAY_LABELS) as ArrayStrategy[]).map((a) => (
+                <option key={a} value={a}>{ARRAY_LABELS[a]}</option>
+              ))}
+            </select>
+          )}
+          {mode === "deep" && arrays === "union" && (
+            <label style={labelStyle} title="Match array elements by a field, e.g. servers[*].name, tags[*]; other arrays are unioned by value">
+              Identity keys
+              <input value={keys} onChange={(e) => setKeys(e.target.value)} placeholder="(by value)" style={{ ...fieldStyle, width: "14rem" }} />
+            </label>
+          )}
+        </div>
+        {mode === "merge-patch" && (
+          <div style={{ color: "#888" }}>A null removes the member; arrays and other values are replaced by the later layer.</div>
+        )}
+
+        {loadErrors.map((e) => <div key={e} className="validation-err">{e}</div>)}
+
+        {result && (
+          <div style={{ overflow: "auto", minHeight: 0, fontFamily: "monospace", fontSize: "12px" }}>
+            <div style={{ color: conflicts.length ? "#e3b341" : "#4ade80", marginBottom: "0.25rem" }}>
+              {conflicts.length === 0 ? "✓ No conflicts — no layer overrides another" : `${conflicts.length} conflict${conflicts.length === 1 ? "" : "s"}`}
+            </div>
+            <table style={{ borderCollapse: "collapse", width: "100%" }}>
+              <tbody>
+                {conflicts.slice(0, MAX_CONFLICTS).map((c, i) => (
+                  <tr key={i} style={{ borderTop: "1px solid var(--border)" }}>
+                    <td style={{ ...cellStyle, color: KIND_COLOURS[c.kind], width: "4rem" }}>{c.kind}</td>
+                    <td style={cellStyle} title={c.path}>{c.path || "(root)"}</td>
+                    <td style={{ ...cellStyle, color: "#94a3b8" }}>{preview(c.previous)} → {preview(c.value)}</td>
+                    <td style={{ ...cellStyle, color: "#888" }}>{layers[c.layer].fileName}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {conflicts.length > MAX_CONFLICTS && <div style={{ color: "#888" }}>…and {conflicts.length - MAX_CONFLICTS} more</div>}
+          </div>
+        )}
+
+        <div style={{ display: "flex", justifyContent: "flex-end", gap: "0.5rem" }}>
+          <button onClick={onClose}>Cancel</button>
+          <button onClick={() => result && onApply(result.data, mergedName)} disabled={!result} title="Edit the merged document in place of the current one; Undo brings that back">
+            Use merged result
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { JsonValue } from "../lib/fileLoader";
+import {
+  exportOrderList,
+  parseOrderList,
+  ORDER_FILE_EXTENSIONS,
+  type OrderFileFormat,
+  type OrderFileOptions,
+  type OrderList,
+  type OrderSortParams,
+  type UnmatchedPolicy,
+} from "../lib/orderList";
+
+export interface OrderListSettings {
+  fileName: string;
+  text: string;
+  fileOptions: OrderFileOptions;
+  params: OrderSortParams;
+}
+
+interface OrderListDialogProps {
+  data: JsonValue;
+  /** Source file name; an exported order is saved as `<name>_order.<ext>` */
+  sourceFileName: string;
+  /** Last applied settings; the dialog starts from them */
+  initial: OrderListSettings;
+  /** Container paths from the structure scan, offered for the container field */
+  containerPaths: string[];
+  onApply: (settings: OrderListSettings, list: OrderList) => void;
+  onClose: () => void;
+}
+
+const FORMAT_LABELS: Record<OrderFileFormat, string> = {
+  csv: "CSV",
+  json: "JSON array",
+  lines: "Plain lines",
+};
+
+const UNMATCHED_LABELS: Record<UnmatchedPolicy, string> = {
+  append: "Append unlisted elements",
+  prepend: "Prepend unlisted elements",
+  fail: "Fail if any element is unlisted",
+};
+
+const fieldStyle = { padding: "0.4rem", background: "var(--surface)", color: "var(--text)", border: "1px solid #ab47bc", borderRadius: "4px" };
+const labelStyle = { display: "flex", alignItems: "center", gap: "0.5rem", border: "none" };
+
+/**
+ * Order containers exactly as a reference list says: the list file, how to read
+ * it, and what it applies to. The same settings export the current order as a
+ * list file, to apply a manual reorder to other files with the same structure.
+ */
+export default function OrderListDialog({ data, sourceFileName, initial, containerPaths, onApply, onClose }: OrderListDialogProps) {
+  const [settings, setSettings] = useState<OrderListSettings>(initial);
+  const { fileOptions, params } = settings;
+  const setFileOptions = (next: Partial<OrderFileOptions>) => setSettings({ ...settings, fileOptions: { ...fileOptions, ...next } });
+  const setParams = (next: Partial<OrderSortParams>) => setSettings({ ...settings, params: { ...params, ...next } });
+
+  const parsed = useMemo(() => (settings.text ? parseOrderList(settings.text, fileOptions) : null), [settings.text, fileOptions]);
+  const groups = parsed?.list ? Object.keys(parsed.list.groups) : [];
+
+  const chooseFile = () => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ".txt,.csv,.tsv,.json";
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (!file) return;
+      file.text().then((text) => {
+        const format: OrderFileFormat = /\.json$/i.test(file.name) ? "json" : /\.(csv|tsv)$/i.test(file.name) ? "csv" : fileOptions.format;
+        setSettings({ ...settings, fileName: file.name, text, fileOptions: { ...fileOptions, format } });
+      });
+    };
+    input.click();
+  };
+
+  const [exportNote, setExportNote] = useState<{ ok: boolean; msg: string } | null>(null);
+  const exportOrder = () => {
+    const result = exportOrderList(data, params, fileOptions);
+    if (!result.text) {
+      setExportNote({ ok: false, msg: result.error ?? "Nothing to export" });
+      return;
+    }
+    const blob = new Blob([result.text], { type: fileOptions.format === "json" ? "application/json" : "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${(sourceFileName || "data").replace(/\.[^.]+$/, "")}_order.${ORDER_FILE_EXTENSIONS[fileOptions.format]}`;
+    a.click();
+    URL.revokeObjectURL(url);
+    setExportNote({ ok: true, msg: `Exported ${result.entryCount} entries${result.skipped ? `; ${result.skipped} elements had no ${params.matchKey || "value"} and were left out` : ""}` });
+  };
+
+  const showColumns = fileOptions.format !== "lines";
+
+  return (
+    <div
+      onClick={onClose}
+      style={{ position: "fixed", inset: 0, background: "rgba(0,0,0,0.7)", zIndex: 9000, display: "flex", alignItems: "center", justifyContent: "center" }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          background: "var(--bg)", border: "1px solid #ab47bc", borderRadius: "8px", padding: "1rem",
+          width: "min(760px, 92vw)", display: "flex", flexDirection: "column", gap: "0.75rem", fontSize: "13px"
+        }}
+      >
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+          <b style={{ color: "#ab47bc" }}>Order by list</b>
+          <button onClick={onClose} style={{ background: "transparent", border: "none", color: "#888", cursor: "pointer", fontSize: "16px" }}>✕</button>
+        </div>
+
+        <div style={{ display: "flex", flexWrap: "wrap", gap: "0.75rem", alignItems: "center" }}>
+          <button onClick={chooseFile}>{settings.fileName ? "Change file…" : "Choose order file…"}</button>
+          <span style={{ color: "#888" }}>{settings.fileName || "No file chosen"}</span>
+          <label style={labelStyle}>
+            Format
+            <select value={fileOptions.format} onChange={(e) => setFileOptions({ format: e.target.value as OrderFileFormat })} style={fieldStyle}>
+              {(Object.keys(FORMAT_LABELS) as OrderFileFormat[]).map((f) => (
+                <option key={f} value={f}>{FORMAT_LABELS[f]}</option>
+              ))}
+            </select>
+          </label>
+          {fileOptions.format === "csv" && (
+            <label style={labelStyle}>
+              <input type="checkbox" checked={fileOptions.headerRow} onChange={(e) => setFileOptions({ headerRow: e.target.checked })} />
+              Header row
+            </label>
+          )}
+        </div>
+
+        {showColumns && (
+          <div style={{ display: "flex", flexWrap: "wrap", gap: "0.75rem" }}>
+            <label style={labelStyle} title="Column header, 1-based column number or JSON field naming each entry's group; empty for one list for every container">
+              Group column
+              <input value={fileOptions.groupColumn} onChange={(e) => setFileOptions({ groupColumn: e.target.value })} placeholder="(none)" style={{ ...fieldStyle, width: "8rem" }} />
+            </label>
+            <label style={labelStyle} title="Column header, 1-based column number or JSON field holding the value to match">
+              Match column
+              <input value={fileOptions.matchColumn} onChange={(e) => setFileOptions({ matchColumn: e.target.value })} style={{ ...fieldStyle, width: "8rem" }} />
+            </label>
+          </div>
+        )}
+
+        <div style={{ display: "flex", flexWrap: "wrap", gap: "0.75rem" }}>
+          <label style={labelStyle} title="Container path or pattern, e.g. view.classes.*.attributes">
+            Containers
+            <input
+              list="order-list-containers"
+              value={params.containerPath}
+              onChange={(e) => setParams({ containerPath: e.target.value })}
+              style={{ ...fieldStyle, width: "16rem" }}
+            />
+            <datalist id="order-list-containers">
+              {containerPaths.map((p) => <option key={p} value={p} />)}
+            </datalist>
+          </label>
+          <label style={labelStyle} title="Field of each container's parent naming its group, e.g. name for a class; empty uses the ungrouped list">
+            Group key
+            <input value={params.groupKey} onChange={(e) => setParams({ groupKey: e.target.value })} placeholder="(none)" style={{ ...fieldStyle, width: "8rem" }} />
+          </label>
+          <label style={labelStyle} title="Field of each element matched against the list; empty matches the element itself">
+            Match key
+            <input value={params.matchKey} onChange={(e) => setParams({ matchKey: e.target.value })} placeholder="(element)" style={{ ...fieldStyle, width: "8rem" }} />
+          </label>
+          <select value={params.unmatched} onChange={(e) => setParams({ unmatched: e.target.value as UnmatchedPolicy })} style={fieldStyle}>
+            {(Object.keys(UNMATCHED_LABELS) as UnmatchedPolicy[]).map((u) => (
+              <option key={u} value={u}>{UNMATCHED_LABELS[u]}</option>
+            ))}
+          </select>
+        </div>
+
+        {parsed?.error && <div className="validation-err">{parsed.error}</div>}
+        {parsed?.list && (
+          <div style={{ color: "#888" }}>
+            {parsed.list.entryCount} entries
+            {groups.length > 1 || groups[0] !== "" ? ` in ${groups.length} group${groups.length === 1 ? "" : "s"} (${groups.slice(0, 5).join(", ")}${groups.length > 5 ? ", …" : ""})` : ", ungrouped"}
+            {params.groupKey.trim() && groups.length === 1 && groups[0] === "" && " — the list has no groups; clear the group key"}
+          </div>
+        )}
+
+        {exportNote && <div className={exportNote.ok ? "validation-ok" : "validation-err"}>{exportNote.msg}</div>}
+
+        <div style={{ display: "flex", justifyContent: "flex-end", gap: "0.5rem" }}>
+          <button
+            onClick={exportOrder}
+            disabled={!params.containerPath.trim()}
+            title="Write the current order of these containers as an order file in the chosen format"
+            style={{ marginRight: "auto" }}
+          >
+            Export current order
+          </button>
+          <button onClick={onClose}>Cancel</button>
+          <button onClick={() => parsed?.list && onApply(settings, parsed.list)} disabled={!parsed?.list || !params.containerPath.trim()}>
+            Apply order
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
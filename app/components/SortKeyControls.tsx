@@ -0,0 +1,59 @@
+"use client";
+
+import { COMPARATORS, type CollatorSensitivity, type ComparatorId } from "../lib/comparators";
+import type { SortKeySpec } from "../lib/sorter";
+
+interface SortKeyControlsProps {
+  spec: Pick<SortKeySpec, "type" | "nulls" | "ignoreCase" | "locale" | "sensitivity">;
+  onChange: (next: Partial<SortKeySpec>) => void;
+}
+
+const SENSITIVITY_LABELS: Record<CollatorSensitivity, string> = {
+  variant: "Exact",
+  case: "Ignore accents",
+  accent: "Ignore case",
+  base: "Ignore case and accents",
+};
+
+/** Comparator, collation and missing-value placement for one sort key */
+export default function SortKeyControls({ spec, onChange }: SortKeyControlsProps) {
+  const usesCollator = COMPARATORS[spec.type]?.usesCollator ?? false;
+  const sensitivity = spec.sensitivity ?? (spec.ignoreCase ? "accent" : "variant");
+  return (
+    <>
+      <select value={spec.type} onChange={(e) => onChange({ type: e.target.value as ComparatorId })} title="How values compare">
+        {(Object.keys(COMPARATORS) as ComparatorId[]).map((id) => (
+          <option key={id} value={id}>{COMPARATORS[id].label}</option>
+        ))}
+      </select>
+      {usesCollator && (
+        <>
+          <input
+            value={spec.locale ?? ""}
+            placeholder="locale"
+            onChange={(e) => onChange({ locale: e.target.value.trim() || undefined })}
+            title="Collation locale, e.g. de, sv or en-US; empty uses the browser's"
+            style={{ width: "4.5rem", padding: "0.2rem", background: "var(--bg)", color: "var(--text)", border: "1px solid var(--border)" }}
+          />
+          <select
+            value={sensitivity}
+            onChange={(e) => onChange({ sensitivity: e.target.value as CollatorSensitivity, ignoreCase: undefined })}
+            title="Which differences count"
+          >
+            {(Object.keys(SENSITIVITY_LABELS) as CollatorSensitivity[]).map((s) => (
+              <option key={s} value={s}>{SENSITIVITY_LABELS[s]}</option>
+            ))}
+          </select>
+        </>
+      )}
+      <select
+        value={spec.nulls}
+        onChange={(e) => onChange({ nulls: e.target.value as SortKeySpec["nulls"] })}
+        title="Where missing, null and unreadable values go, whatever the direction"
+      >
+        <option value="last">Missing last</option>
+        <option value="first">Missing first</option>
+      </select>
+    </>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { describeSortKeys, type MovementEntry, type SortReport } from "../lib/sorter";
+
+interface SortPreviewProps {
+  /** Report of a dry-run sort */
+  report: SortReport;
+  onApply: () => void;
+  onDiscard: () => void;
+}
+
+const PAGE_SIZE = 100;
+
+const cellStyle = { padding: "0.1rem 0.5rem", whiteSpace: "nowrap" as const, overflow: "hidden", textOverflow: "ellipsis", maxWidth: "22rem" };
+
+function label(entry: MovementEntry): string {
+  const values = entry.keyTuple.map((v) => (v === "" ? "(missing)" : v)).join(", ");
+  return entry.entryKey !== undefined ? `${JSON.stringify(entry.entryKey)}  ${values}` : values;
+}
+
+function shift(entry: MovementEntry): string {
+  const delta = entry.newIndex - entry.oldIndex;
+  return delta === 0 ? "" : delta < 0 ? `▲${-delta}` : `▼${delta}`;
+}
+
+/**
+ * Dry-run result, side by side: position by position, what sits there before
+ * the sort and after it, with where each element goes or comes from.
+ */
+export default function SortPreview({ report, onApply, onDiscard }: SortPreviewProps) {
+  const containers = report.containers.length > 0 ? report.containers : [{ path: report.containerPath, movementLog: report.movementLog }];
+  const [containerIndex, setContainerIndex] = useState(0);
+  const [onlyMoved, setOnlyMoved] = useState(true);
+  const [page, setPage] = useState(0);
+
+  const log = containers[Math.min(containerIndex, containers.length - 1)].movementLog;
+  // movementLog is in new order; index it by old position as well
+  const { byOld, positions, moved } = useMemo(() => {
+    const byOld: MovementEntry[] = new Array(log.length);
+    log.forEach((e) => (byOld[e.oldIndex] = e));
+    const all = log.map((_, i) => i);
+    const changed = all.filter((i) => log[i].oldIndex !== i);
+    return { byOld, positions: onlyMoved ? changed : all, moved: changed.length };
+  }, [log, onlyMoved]);
+
+  const pages = Math.max(1, Math.ceil(positions.length / PAGE_SIZE));
+  const current = Math.min(page, pages - 1);
+  const rows = positions.slice(current * PAGE_SIZE, (current + 1) * PAGE_SIZE);
+  const totalMoved = report.movementLog.filter((e) => e.oldIndex !== e.newIndex).length;
+
+  return (
+    <div style={{ borderBottom: "1px solid #ffb74d", background: "rgba(255,183,77,0.06)", padding: "0.4rem 1rem", fontSize: "12px", fontFamily: "monospace", flexShrink: 0 }}>
+      <div style={{ display: "flex", gap: "1rem", alignItems: "center", flexWrap: "wrap" }}>
+        <b style={{ color: "#ffb74d" }}>Preview (not applied)</b>
+        <span>path: <b>{report.containerPath}</b></span>
+        <span>keys: <b>{describeSortKeys(report.keys) || "(keys)"}</b></span>
+        <span>{totalMoved} of {report.countBefore} elements move</span>
+        {report.error && <span style={{ color: "#ef4444" }}>{report.error}</span>}
+        {containers.length > 1 && (
+          <select value={containerIndex} onChange={(e) => { setContainerIndex(Number(e.target.value)); setPage(0); }}>
+            {containers.map((c, i) => (
+              <option key={c.path} value={i}>{c.path || "(root)"} ({c.movementLog.length})</option>
+            ))}
+          </select>
+        )}
+        <label style={{ display: "flex", gap: "0.3rem", alignItems: "center" }}>
+          <input type="checkbox" checked={onlyMoved} onChange={(e) => { setOnlyMoved(e.target.checked); setPage(0); }} />
+          Only moved ({moved})
+        </label>
+        <span style={{ marginLeft: "auto", display: "flex", gap: "0.5rem" }}>
+          <button onClick={onApply} disabled={!report.integrityPassed} style={{ padding: "0.15rem 0.6rem" }}>Apply</button>
+          <button onClick={onDiscard} style={{ padding: "0.15rem 0.6rem" }}>Discard</button>
+        </span>
+      </div>
+
+      {report.integrityPassed && (
+        <>
+          <div style={{ maxHeight: "14rem", overflow: "auto", marginTop: "0.3rem" }}>
+            <table style={{ borderCollapse: "collapse", width: "100%" }}>
+              <thead>
+                <tr style={{ color: "#888", textAlign: "left" }}>
+                  <th style={cellStyle}>#</th>
+                  <th style={cellStyle}>Before</th>
+                  <th style={cellStyle}>goes to</th>
+                  <th style={cellStyle}>After</th>
+                  <th style={cellStyle}>came from</th>
+                  <th style={cellStyle}>line</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((i) => {
+                  const before = byOld[i];
+                  const after = log[i];
+                  return (
+                    <tr key={i} style={{ borderTop: "1px solid var(--border)" }}>
+                      <td style={{ ...cellStyle, color: "#888" }}>{i}</td>
+                      <td style={cellStyle} title={label(before)}>{label(before)}</td>
+                      <td style={{ ...cellStyle, color: before.newIndex === i ? "#888" : "#ffb74d" }}>
+                        {before.newIndex === i ? "stays" : `#${before.newIndex} ${shift(before)}`}
+                      </td>
+                      <td style={cellStyle} title={label(after)}>{label(after)}</td>
+                      <td style={{ ...cellStyle, color: after.oldIndex === i ? "#888" : "#4ade80" }}>
+                        {after.oldIndex === i ? "stays" : `#${after.oldIndex}`}
+                      </td>
+                      <td style={{ ...cellStyle, color: "#888" }}>{after.fromLine} → {after.toLine}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {rows.length === 0 && <div style={{ color: "#888", padding: "0.3rem" }}>Nothing moves in this container.</div>}
+          </div>
+          {pages > 1 && (
+            <div style={{ display: "flex", gap: "0.5rem", alignItems: "center", marginTop: "0.3rem" }}>
+              <button onClick={() => setPage(current - 1)} disabled={current === 0}>‹ Prev</button>
+              <span>page {current + 1} of {pages}</span>
+              <button onClick={() => setPage(current + 1)} disabled={current >= pages - 1}>Next ›</button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
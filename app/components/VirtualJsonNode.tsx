@@ -1,4 +1,5 @@
 import React, { memo } from 'react';
+import { isLosslessNumber } from '../lib/losslessNumber';
 
 // Define the shape of a flattened item for the virtual list
 export interface VirtualItem {
@@ -16,8 +17,12 @@ export interface VirtualItem {
     originalLine?: number;
     type: 'object' | 'array' | 'primitive';
     closing?: boolean; // traverse end
+    lazyCount?: number; // index mode: children not yet loaded from the file
 }
 
+// Lossless numbers are { isLosslessNumber, value } objects; show their digits
+const scalarText = (value: any): string => (isLosslessNumber(value) ? value.value : String(value));
+
 interface VirtualJsonNodeProps {
     item: VirtualItem;
     style: React.CSSProperties;
@@ -28,7 +33,7 @@ interface VirtualJsonNodeProps {
 }
 
 const VirtualJsonNode: React.FC<VirtualJsonNodeProps> = memo(({ item, style, onToggle, onSelect, isSelected, searchTerm }) => {
-    const { path, keyName, value, depth, isExpanded, isExpandable, isLast, lineNumber, originalLine, type, closing } = item;
+    const { path, keyName, value, depth, isExpanded, isExpandable, isLast, lineNumber, originalLine, type, closing, lazyCount } = item;
 
     const handleToggle = (e: React.MouseEvent) => {
         e.stopPropagation();
@@ -70,7 +75,7 @@ const VirtualJsonNode: React.FC<VirtualJsonNodeProps> = memo(({ item, style, onT
         if (!searchTerm || !searchTerm.trim()) return false;
         const term = searchTerm.toLowerCase();
         const keyStr = keyName !== undefined ? String(keyName).toLowerCase() : '';
-        const valStr = value !== undefined && value !== null && !isExpandable ? String(value).toLowerCase() : '';
+        const valStr = value !== undefined && value !== null && !isExpandable ? scalarText(value).toLowerCase() : '';
         return keyStr.includes(term) || valStr.includes(term);
     })();
 
@@ -119,7 +124,9 @@ const VirtualJsonNode: React.FC<VirtualJsonNodeProps> = memo(({ item, style, onT
                         <>
                             <span className="text-white">{type === 'object' ? '{' : '['}</span>
                             {!isExpanded && (
-                                <span className="text-gray-500 italic mx-1">...</span>
+                                <span className="text-gray-500 italic mx-1">
+                                    {lazyCount !== undefined ? `${lazyCount} items (not loaded)` : '...'}
+                                </span>
                             )}
                             {!isExpanded && (
                                 <span className="text-white">{type === 'object' ? '}' : ']'}{!isLast ? ',' : ''}</span>
@@ -129,10 +136,10 @@ const VirtualJsonNode: React.FC<VirtualJsonNodeProps> = memo(({ item, style, onT
                         <>
                             <span className={
                                 typeof value === 'string' ? 'text-[#ce9178]' :
-                                    typeof value === 'number' ? 'text-[#b5cea8]' :
+                                    typeof value === 'number' || isLosslessNumber(value) ? 'text-[#b5cea8]' :
                                         'text-[#569cd6]'
                             }>
-                                {JSON.stringify(value)}
+                                {isLosslessNumber(value) ? value.value : JSON.stringify(value)}
                             </span>
                             <span className="text-white">{!isLast ? ',' : ''}</span>
                         </>
@@ -5,12 +5,15 @@ export interface VirtualSourceViewerProps {
     jsonString: string;
     searchTerm: string;
     diffLines?: Set<number>;
+    /** 1-based line to flag as an error (e.g. parse failure location) */
+    markedLine?: number;
     editable?: boolean;
     onEdit?: (newValue: string) => void;
 }
 
 export interface VirtualSourceViewerRef {
     scrollTo: (scrollTop: number) => void;
+    scrollToLine: (line: number) => void;
     getScrollTop: () => number;
 }
 
@@ -25,6 +28,8 @@ const DIFF_ROW = 'rgba(227,179,65,0.10)';
 const DIFF_BAR = '#e3b341';
 const SRCH_ROW = 'rgba(0,255,255,0.08)';
 const SRCH_BAR = '#00ffff';
+const MARK_ROW = 'rgba(239,68,68,0.18)';
+const MARK_BAR = '#ef4444';
 const SYN = {
     key: '#7dd3fc', str: '#86efac', num: '#fcd34d',
     bool: '#c084fc', null: '#a0a0a0', punct: '#8892a4',
@@ -60,17 +65,19 @@ interface RowExtraProps {
     lines: string[];
     searchTerm: string;
     diffLines?: Set<number>;
+    markedLine?: number;
 }
 
-const VSRow = memo(({ index, style, lines, searchTerm, diffLines }: {
+const VSRow = memo(({ index, style, lines, searchTerm, diffLines, markedLine }: {
     index: number; style: React.CSSProperties;
 } & RowExtraProps) => {
     const line = lines[index] ?? '';
     const lineNum = index + 1;
     const isDiff = diffLines?.has(lineNum) ?? false;
     const isMatch = !!searchTerm?.trim() && line.toLowerCase().includes(searchTerm.toLowerCase());
-    const rowBg = isMatch ? SRCH_ROW : isDiff ? DIFF_ROW : BG;
-    const leftBar = isMatch ? `2px solid ${SRCH_BAR}` : isDiff ? `2px solid ${DIFF_BAR}` : '2px solid transparent';
+    const isMarked = markedLine === lineNum;
+    const rowBg = isMarked ? MARK_ROW : isMatch ? SRCH_ROW : isDiff ? DIFF_ROW : BG;
+    const leftBar = isMarked ? `2px solid ${MARK_BAR}` : isMatch ? `2px solid ${SRCH_BAR}` : isDiff ? `2px solid ${DIFF_BAR}` : '2px solid transparent';
 
     return (
         <div style={{ ...style, display: 'flex', alignItems: 'center', background: rowBg, borderLeft: leftBar }}>
@@ -96,7 +103,7 @@ VSRow.displayName = 'VSRow';
 
 // Main viewer component
 const VirtualSourceViewer = forwardRef<VirtualSourceViewerRef, VirtualSourceViewerProps>(({
-    jsonString, searchTerm, diffLines,
+    jsonString, searchTerm, diffLines, markedLine,
 }, ref) => {
     const containerRef = useRef<HTMLDivElement>(null);
     const listRef = useRef<any>(null);
@@ -119,6 +126,9 @@ const VirtualSourceViewer = forwardRef<VirtualSourceViewerRef, VirtualSourceView
 
     useImperativeHandle(ref, () => ({
         scrollTo: (scrollTop: number) => { listRef.current?.scrollTo(scrollTop); },
+        scrollToLine: (line: number) => {
+            listRef.current?.scrollToRow({ index: Math.max(0, line - 1), align: 'center' });
+        },
         getScrollTop: () => listRef.current?.state?.scrollOffset ?? 0,
     }));
 
@@ -134,7 +144,7 @@ const VirtualSourceViewer = forwardRef<VirtualSourceViewerRef, VirtualSourceView
                     rowCount={lines.length}
                     rowHeight={ROW_H}
                     rowComponent={VSRow}
-                    rowProps={{ lines, searchTerm, diffLines }}
+                    rowProps={{ lines, searchTerm, diffLines, markedLine }}
                     overscanCount={5}
                 />
             )}
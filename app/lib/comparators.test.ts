@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import { losslessNumber } from "./losslessNumber";
+import { COMPARATORS, createComparator, compareSemver, parseIp, parseSemver, readDate, type ComparatorId, type CompareOptions, type ScalarValue } from "./comparators";
+
+/** Values the comparator can read, in ascending order */
+function order(id: ComparatorId, values: ScalarValue[], options: CompareOptions = {}): ScalarValue[] {
+  const c = createComparator(id, options);
+  return values
+    .map((v) => ({ v, key: c.read(v) }))
+    .filter((x) => x.key !== undefined)
+    .sort((a, b) => c.compare(a.key, b.key))
+    .map((x) => x.v);
+}
+
+describe("text comparators", () => {
+  it("orders digits by value in natural order", () => {
+    expect(order("natural", ["item10", "item2", "item1"])).toEqual(["item1", "item2", "item10"]);
+    expect(order("string", ["item10", "item2"], { locale: "en" })).toEqual(["item10", "item2"]);
+  });
+
+  it("collates by locale", () => {
+    expect(order("string", ["z", "ä", "a"], { locale: "de" })).toEqual(["a", "ä", "z"]);
+    expect(order("string", ["z", "ä", "a"], { locale: "sv" })).toEqual(["a", "z", "ä"]);
+  });
+
+  it("ties values that differ only in what the sensitivity ignores", () => {
+    const c = createComparator("string", { locale: "en", sensitivity: "base" });
+    expect(c.compare(c.read("Résumé"), c.read("resume"))).toBe(0);
+    const exact = createComparator("string", { locale: "en" });
+    expect(exact.compare(exact.read("a"), exact.read("A"))).not.toBe(0);
+    const folded = createComparator("string", { locale: "en", ignoreCase: true });
+    expect(folded.compare(folded.read("a"), folded.read("A"))).toBe(0);
+  });
+
+  it("falls back to the default locale for a bad tag", () => {
+    expect(order("string", ["b", "a"], { locale: "not a locale!" })).toEqual(["a", "b"]);
+  });
+
+  it("case-folds before an ordinal comparison", () => {
+    const c = createComparator("casefold");
+    expect(c.compare(c.read("STRASSE"), c.read("Straße"))).toBe(0);
+    expect(order("casefold", ["b", "A", "a", "B"])).toEqual(["A", "a", "b", "B"]);
+  });
+
+  it("orders by UTF-16 code units without a collator", () => {
+    expect(order("ordinal", ["b", "a", "B", "é", "A"])).toEqual(["A", "B", "a", "b", "é"]);
+  });
+});
+
+describe("number and auto", () => {
+  it("compares big numbers exactly", () => {
+    expect(order("number", [losslessNumber("9007199254740993"), "9007199254740992", 3, "x", true])).toEqual([
+      3,
+      "9007199254740992",
+      losslessNumber("9007199254740993"),
+    ]);
+  });
+
+  it("keeps the original numeric-then-text order for auto", () => {
+    expect(order("auto", ["b", "10", "9", "a"])).toEqual(["9", "10", "a", "b"]);
+  });
+});
+
+describe("dates", () => {
+  it("reads ISO-8601 text and epoch seconds or milliseconds", () => {
+    expect(readDate("2024-01-02T03:04:05Z")).toBe(Date.UTC(2024, 0, 2, 3, 4, 5));
+    expect(readDate(1700000000)).toBe(1700000000000);
+    expect(readDate("1700000000000")).toBe(1700000000000);
+    expect(readDate("yesterday")).toBeUndefined();
+    expect(order("date", ["2024-03-01", 1700000000, "2023-12-31T23:59:59+01:00"])).toEqual([
+      1700000000,
+      "2023-12-31T23:59:59+01:00",
+      "2024-03-01",
+    ]);
+  });
+});
+
+describe("semver", () => {
+  it("follows SemVer 2.0.0 precedence", () => {
+    const versions = ["1.0.0", "1.0.0-rc.1", "1.0.0-beta.11", "1.0.0-beta.2", "1.0.0-beta", "1.0.0-alpha.beta", "1.0.0-alpha.1", "1.0.0-alpha"];
+    expect(order("semver", versions)).toEqual([
+      "1.0.0-alpha",
+      "1.0.0-alpha.1",
+      "1.0.0-alpha.beta",
+      "1.0.0-beta",
+      "1.0.0-beta.2",
+      "1.0.0-beta.11",
+      "1.0.0-rc.1",
+      "1.0.0",
+    ]);
+    expect(order("semver", ["1.10.0", "1.9.0", "v2", "1.2"])).toEqual(["1.2", "1.9.0", "1.10.0", "v2"]);
+  });
+
+  it("ignores build metadata and rejects non-versions", () => {
+    expect(compareSemver(parseSemver("1.0.0+a")!, parseSemver("1.0.0+b")!)).toBe(0);
+    expect(parseSemver("1.0.0.0")).toBeUndefined();
+    expect(parseSemver("latest")).toBeUndefined();
+  });
+});
+
+describe("ip addresses", () => {
+  it("sorts IPv4 numerically and maps it among IPv6", () => {
+    expect(order("ip", ["10.0.0.10", "10.0.0.2", "::1", "192.168.0.1", "2001:db8::1", "9.255.255.255"])).toEqual([
+      "::1",
+      "9.255.255.255",
+      "10.0.0.2",
+      "10.0.0.10",
+      "192.168.0.1",
+      "2001:db8::1",
+    ]);
+  });
+
+  it("reads compressed IPv6, embedded IPv4, zones and prefixes", () => {
+    expect(parseIp("::ffff:10.0.0.1")).toEqual(parseIp("10.0.0.1"));
+    expect(parseIp("fe80::1%eth0")).toEqual([0xfe80, 0, 0, 0, 0, 0, 0, 1, 128]);
+    expect(parseIp("10.0.0.0/8")).toEqual([0, 0, 0, 0, 0, 0xffff, 0x0a00, 0, 104]);
+    expect(order("ip", ["10.0.0.0/16", "10.0.0.0/8"])).toEqual(["10.0.0.0/8", "10.0.0.0/16"]);
+  });
+
+  it("rejects malformed addresses", () => {
+    for (const bad of ["256.0.0.1", "1.2.3", "1::2::3", "1:2:3:4:5:6:7:8:9", "10.0.0.1/33", "host"]) {
+      expect(parseIp(bad)).toBeUndefined();
+    }
+  });
+});
+
+describe("COMPARATORS", () => {
+  it("labels every comparator and flags the collating ones", () => {
+    for (const id of Object.keys(COMPARATORS) as ComparatorId[]) expect(COMPARATORS[id].label).toBeTruthy();
+    expect(COMPARATORS.natural.usesCollator).toBe(true);
+    expect(COMPARATORS.semver.usesCollator).toBe(false);
+  });
+});
@@ -0,0 +1,261 @@
+import { compareNumericText, isLosslessNumber, type LosslessNumber } from "./losslessNumber";
+
+/** A sortable leaf: objects and arrays never reach a comparator */
+export type ScalarValue = string | number | boolean | LosslessNumber;
+
+export type ComparatorId = "auto" | "string" | "ordinal" | "casefold" | "natural" | "number" | "date" | "boolean" | "semver" | "ip";
+
+export type CollatorSensitivity = "base" | "accent" | "case" | "variant";
+
+export interface CompareOptions {
+  /** BCP 47 tag for text comparators; empty or unset uses the browser's locale */
+  locale?: string;
+  /** Intl.Collator sensitivity for text comparators; "base" also ignores accents */
+  sensitivity?: CollatorSensitivity;
+  /** Shorthand for sensitivity "accent" when no sensitivity is set */
+  ignoreCase?: boolean;
+}
+
+/**
+ * One way of ordering values. `read` turns a value into its sort key once per
+ * element (undefined when the value cannot be read this way, e.g. "abc" as a
+ * date), `compare` orders two keys ascending.
+ */
+export interface Comparator<K = unknown> {
+  read(value: ScalarValue): K | undefined;
+  compare(a: K, b: K): number;
+}
+
+export interface ComparatorInfo {
+  label: string;
+  /** Whether locale and sensitivity apply */
+  usesCollator: boolean;
+  create(options: CompareOptions): Comparator;
+}
+
+function textOf(value: ScalarValue): string {
+  return isLosslessNumber(value) ? value.value : String(value);
+}
+
+/** Numeric when both sides read as numbers, text otherwise — the original sort order */
+export function compareValues(a: string, b: string): number {
+  const na = Number(a);
+  const nb = Number(b);
+  if (!isNaN(na) && !isNaN(nb)) {
+    if (na !== nb) return na - nb;
+    // Big IDs can round to the same double; fall back to the exact digits
+    const exact = compareNumericText(a, b);
+    return isNaN(exact) ? 0 : exact;
+  }
+  return a.localeCompare(b);
+}
+
+function makeCollator(options: CompareOptions, numeric: boolean): Intl.Collator {
+  const sensitivity = options.sensitivity ?? (options.ignoreCase ? "accent" : "variant");
+  try {
+    return new Intl.Collator(options.locale || undefined, { numeric, sensitivity });
+  } catch {
+    // An invalid locale tag falls back to the default locale rather than failing the sort
+    return new Intl.Collator(undefined, { numeric, sensitivity });
+  }
+}
+
+function collatorComparator(numeric: boolean) {
+  return (options: CompareOptions): Comparator<string> => {
+    const collator = makeCollator(options, numeric);
+    return { read: textOf, compare: (a, b) => collator.compare(a, b) };
+  };
+}
+
+const ordinal = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+/** Full case folding is close enough to upper-then-lower: "Straße" and "STRASSE" fold alike */
+function caseFold(text: string): string {
+  return text.toUpperCase().toLowerCase();
+}
+
+const numberComparator: Comparator<{ num: number; text: string }> = {
+  read(value) {
+    if (typeof value === "boolean") return undefined;
+    const text = textOf(value);
+    const num = typeof value === "string" && !text.trim() ? NaN : Number(text);
+    return isNaN(num) ? undefined : { num, text: text.trim() };
+  },
+  compare: (a, b) => (a.num !== b.num ? a.num - b.num : compareNumericText(a.text, b.text) || 0),
+};
+
+// Below this an epoch number is taken as seconds: 1e11 seconds is the year 5138, 1e11 ms is 1973
+const EPOCH_SECONDS_BELOW = 1e11;
+
+/** Milliseconds since the epoch from ISO-8601 text (or anything Date.parse reads) or an epoch number */
+export function readDate(value: ScalarValue): number | undefined {
+  if (typeof value === "boolean") return undefined;
+  const text = textOf(value).trim();
+  let ms: number;
+  if (/^-?\d+(\.\d+)?$/.test(text)) {
+    const n = Number(text);
+    ms = Math.abs(n) < EPOCH_SECONDS_BELOW ? n * 1000 : n;
+  } else {
+    ms = Date.parse(text);
+  }
+  return isNaN(ms) ? undefined : ms;
+}
+
+const dateComparator: Comparator<number> = { read: readDate, compare: (a, b) => a - b };
+
+const booleanComparator: Comparator<number> = {
+  read(value) {
+    if (typeof value === "boolean") return value ? 1 : 0;
+    if (typeof value !== "string") return undefined;
+    const lower = value.trim().toLowerCase();
+    return lower === "true" ? 1 : lower === "false" ? 0 : undefined;
+  },
+  compare: (a, b) => a - b,
+};
+
+export interface SemVer {
+  core: number[];
+  prerelease: string[];
+}
+
+const SEMVER = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?$/;
+
+/** `1.10.0-rc.1+build` → core and pre-release parts; "1.2" and "v3" are read as 1.2.0 and 3.0.0 */
+export function parseSemver(text: string): SemVer | undefined {
+  const m = SEMVER.exec(text.trim());
+  if (!m) return undefined;
+  return { core: [Number(m[1]), Number(m[2] ?? 0), Number(m[3] ?? 0)], prerelease: m[4] ? m[4].split(".") : [] };
+}
+
+/** Semantic Versioning 2.0.0 precedence; build metadata is ignored */
+export function compareSemver(a: SemVer, b: SemVer): number {
+  for (let i = 0; i < 3; i++) {
+    if (a.core[i] !== b.core[i]) return a.core[i] - b.core[i];
+  }
+  // A pre-release sorts before its release
+  if (!a.prerelease.length || !b.prerelease.length) return b.prerelease.length - a.prerelease.length;
+  for (let i = 0; i < Math.min(a.prerelease.length, b.prerelease.length); i++) {
+    const x = a.prerelease[i];
+    const y = b.prerelease[i];
+    const xNum = /^\d+$/.test(x);
+    const yNum = /^\d+$/.test(y);
+    if (xNum && yNum) {
+      const cmp = compareNumericText(x, y);
+      if (cmp !== 0) return cmp;
+    } else if (xNum !== yNum) {
+      return xNum ? -1 : 1;
+    } else if (x !== y) {
+      return ordinal(x, y);
+    }
+  }
+  return a.prerelease.length - b.prerelease.length;
+}
+
+const semverComparator: Comparator<SemVer> = {
+  read: (value) => (typeof value === "string" ? parseSemver(value) : undefined),
+  compare: compareSemver,
+};
+
+function parseIpv4(text: string): number[] | undefined {
+  const parts = text.split(".");
+  if (parts.length !== 4 || !parts.every((p) => /^\d{1,3}$/.test(p) && Number(p) <= 255)) return undefined;
+  const b = parts.map(Number);
+  return [(b[0] << 8) | b[1], (b[2] << 8) | b[3]];
+}
+
+/**
+ * IPv4 or IPv6 address (an optional `/prefix` and `%zone` are allowed) as
+ * eight 16-bit groups plus the prefix length. IPv4 is mapped into IPv6
+ * (::ffff:a.b.c.d), so both kinds sort together.
+ */
+export function parseIp(text: string): number[] | undefined {
+  const m = /^([^/%]+)(%[^/]+)?(?:\/(\d{1,3}))?$/.exec(text.trim());
+  if (!m) return undefined;
+  const address = m[1];
+  const prefix = m[3] !== undefined ? Number(m[3]) : -1;
+  const v4 = parseIpv4(address);
+  if (v4) {
+    if (prefix > 32) return undefined;
+    return [0, 0, 0, 0, 0, 0xffff, v4[0], v4[1], prefix < 0 ? 128 : prefix + 96];
+  }
+  if (prefix > 128 || !address.includes(":")) return undefined;
+
+  const halves = address.split("::");
+  if (halves.length > 2) return undefined;
+  const groups = (half: string): number[] | undefined => {
+    if (!half) return [];
+    const out: number[] = [];
+    const parts = half.split(":");
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i];
+      if (i === parts.length - 1 && part.includes(".")) {
+        const tail = parseIpv4(part);
+        if (!tail) return undefined;
+        out.push(tail[0], tail[1]);
+      } else if (/^[0-9A-Fa-f]{1,4}$/.test(part)) {
+        out.push(parseInt(part, 16));
+      } else {
+        return undefined;
+      }
+    }
+    return out;
+  };
+  const head = groups(halves[0]);
+  const tail = halves.length === 2 ? groups(halves[1]) : [];
+  if (!head || !tail) return undefined;
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return undefined;
+  return head.concat(Array.from({ length: missing }, () => 0), tail, [prefix < 0 ? 128 : prefix]);
+}
+
+const ipComparator: Comparator<number[]> = {
+  read: (value) => (typeof value === "string" ? parseIp(value) : undefined),
+  compare(a, b) {
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] !== b[i]) return a[i] - b[i];
+    }
+    return 0;
+  },
+};
+
+/** Every comparator the sort toolbar offers, by id */
+export const COMPARATORS: Record<ComparatorId, ComparatorInfo> = {
+  auto: {
+    label: "Auto",
+    usesCollator: false,
+    create: () => ({ read: textOf, compare: compareValues }) as Comparator<string>,
+  },
+  string: { label: "Text", usesCollator: true, create: collatorComparator(false) },
+  ordinal: {
+    label: "Text, code-unit order",
+    usesCollator: false,
+    create: () => ({ read: textOf, compare: ordinal }) as Comparator<string>,
+  },
+  casefold: {
+    label: "Text, case-folded",
+    usesCollator: false,
+    create: () => ({ read: (v: ScalarValue) => caseFold(textOf(v)), compare: ordinal }) as Comparator<string>,
+  },
+  natural: { label: "Natural (item2 < item10)", usesCollator: true, create: collatorComparator(true) },
+  number: { label: "Number", usesCollator: false, create: () => numberComparator as Comparator },
+  date: { label: "Date (ISO-8601 / epoch)", usesCollator: false, create: () => dateComparator as Comparator },
+  boolean: { label: "Boolean", usesCollator: false, create: () => booleanComparator as Comparator },
+  semver: { label: "Version (semver)", usesCollator: false, create: () => semverComparator as Comparator },
+  ip: { label: "IP address", usesCollator: false, create: () => ipComparator as Comparator },
+};
+
+/**
+ * Explicit order from a list: a value's key is the position of its trimmed
+ * text in `order` (the first one, if listed twice); unlisted values are unreadable.
+ */
+export function createRankComparator(order: string[]): Comparator<number> {
+  const position = new Map<string, number>();
+  order.forEach((text, i) => {
+    if (!position.has(text)) position.set(text, i);
+  });
+  return { read: (value) => position.get(textOf(value).trim()), compare: (a, b) => a - b };
+}
+
+export function createComparator(id: ComparatorId, options: CompareOptions = {}): Comparator {
+  return (COMPARATORS[id] ?? COMPARATORS.auto).create(options);
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { importCsv, parseCsvRows, sniffDelimiter } from "./csvImporter";
+
+const inference = { detectNumbers: true, emptyAsNull: false };
+
+describe("parseCsvRows", () => {
+  it("handles quoted delimiters, doubled quotes and line breaks", () => {
+    const { rows } = parseCsvRows('a,"b,c","say ""hi"""\r\n"multi\nline",2,\n', ",");
+    expect(rows.map((r) => r.cells)).toEqual([
+      ["a", "b,c", 'say "hi"'],
+      ["multi\nline", "2", ""],
+    ]);
+    expect(rows.map((r) => r.line)).toEqual([1, 2]);
+  });
+
+  it("reports an unterminated quote with its line", () => {
+    const result = parseCsvRows('a\n"open,\nb', ",");
+    expect(result.error).toBe("Unterminated quoted field");
+    expect(result.errorLine).toBe(2);
+  });
+});
+
+describe("sniffDelimiter", () => {
+  it("picks the most frequent separator on the first line", () => {
+    expect(sniffDelimiter("a;b;c\n1,2;3;4")).toBe(";");
+    expect(sniffDelimiter("a\tb\n")).toBe("\t");
+    expect(sniffDelimiter('"x;y",z\n')).toBe(",");
+  });
+});
+
+describe("importCsv", () => {
+  it("makes one object per row keyed by the header", () => {
+    const { data, notes } = importCsv("id,name,score\n1,Ann,9.5\n2,Bob,\n", {}, inference);
+    expect(data).toEqual([
+      { id: 1, name: "Ann", score: 9.5 },
+      { id: 2, name: "Bob", score: "" },
+    ]);
+    expect(notes).toEqual([]);
+  });
+
+  it("returns arrays of cells without a header row", () => {
+    const { data } = importCsv("1,2\n3,4\n", { headerRow: false }, { detectNumbers: false, emptyAsNull: false });
+    expect(data).toEqual([
+      ["1", "2"],
+      ["3", "4"],
+    ]);
+  });
+
+  it("maps empty cells to null when asked", () => {
+    const { data } = importCsv("a,b\n1,\n", {}, { detectNumbers: true, emptyAsNull: true });
+    expect(data).toEqual([{ a: 1, b: null }]);
+  });
+
+  it("names blank and repeated headers and notes ragged rows", () => {
+    const { data, notes } = importCsv("a,,a\n1,2,3,4\n5\n", {}, inference);
+    expect(data).toEqual([{ a: 1, column2: 2, "a~2": 3 }, { a: 5 }]);
+    expect(notes.map((n) => [n.kind, n.line])).toEqual([
+      ["empty-header", 1],
+      ["duplicate-header", 1],
+      ["ragged-row", 2],
+      ["ragged-row", 3],
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+import type { JsonObject, JsonValue } from "./fileLoader";
+import { inferScalar, type ConversionNote, type ImportResult, type InferenceOptions } from "./importers";
+import { duplicateKeyName } from "./jsonParser";
+
+export interface CsvOptions {
+  /** Field separator; undefined sniffs it from the first line */
+  delimiter?: string;
+  /** First row names the columns: rows become objects instead of arrays */
+  headerRow: boolean;
+}
+
+const CANDIDATE_DELIMITERS = [",", ";", "\t", "|"];
+
+/** The candidate that appears most often outside quotes on the first line */
+export function sniffDelimiter(text: string): string {
+  const end = text.search(/\r?\n/);
+  const first = end === -1 ? text : text.slice(0, end);
+  let best = ",";
+  let bestCount = 0;
+  for (const d of CANDIDATE_DELIMITERS) {
+    let count = 0;
+    let quoted = false;
+    for (const ch of first) {
+      if (ch === '"') quoted = !quoted;
+      else if (!quoted && ch === d) count++;
+    }
+    if (count > bestCount) {
+      best = d;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+interface CsvRow {
+  cells: string[];
+  /** 1-based line the row starts on */
+  line: number;
+}
+
+/** RFC 4180 rows: quoted fields may hold delimiters, doubled quotes and line breaks */
+export function parseCsvRows(text: string, delimiter: string): { rows: CsvRow[]; error?: string; errorLine?: number } {
+  const rows: CsvRow[] = [];
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+  let line = 1;
+
+  while (i < text.length) {
+    const row: CsvRow = { cells: [], line };
+    for (;;) {
+      let cell = "";
+      if (text[i] === '"') {
+        const openLine = line;
+        i++;
+        for (;;) {
+          if (i >= text.length) return { rows, error: "Unterminated quoted field", errorLine: openLine };
+          const ch = text[i];
+          if (ch === '"') {
+            if (text[i + 1] === '"') {
+              cell += '"';
+              i += 2;
+              continue;
+            }
+            i++;
+            break;
+          }
+          if (ch === "\n") line++;
+          cell += ch;
+          i++;
+        }
+        // Text between the closing quote and the delimiter is kept, as spreadsheets do
+        while (i < text.length && text[i] !== delimiter && text[i] !== "\n" && text[i] !== "\r") cell += text[i++];
+      } else {
+        while (i < text.length && text[i] !== delimiter && text[i] !== "\n" && text[i] !== "\r") cell += text[i++];
+      }
+      row.cells.push(cell);
+      if (text[i] === delimiter) {
+        i++;
+        continue;
+      }
+      break;
+    }
+    if (text[i] === "\r") i++;
+    if (text[i] === "\n") i++;
+    line++;
+    // A blank line is a row with one empty cell; skip those
+    if (row.cells.length > 1 || row.cells[0] !== "") rows.push(row);
+  }
+  return { rows };
+}
+
+/**
+ * CSV/TSV to JSON: with a header row, an array of objects keyed by column
+ * name; without one, an array of arrays. Cells go through inferScalar.
+ */
+export function importCsv(text: string, options: Partial<CsvOptions>, inference: InferenceOptions): ImportResult {
+  const notes: ConversionNote[] = [];
+  const delimiter = options.delimiter ?? sniffDelimiter(text);
+  const headerRow = options.headerRow ?? true;
+  const parsed = parseCsvRows(text, delimiter);
+  if (parsed.error) return { notes, error: `Line ${parsed.errorLine}: ${parsed.error}`, errorLine: parsed.errorLine };
+  const { rows } = parsed;
+
+  if (!headerRow) {
+    const width = rows[0]?.cells.length ?? 0;
+    for (const row of rows) {
+      if (row.cells.length !== width) {
+        notes.push({ kind: "ragged-row", message: `Row has ${row.cells.length} cells, expected ${width}`, line: row.line });
+      }
+    }
+    return { data: rows.map((row) => row.cells.map((c) => inferScalar(c, inference))), notes };
+  }
+
+  if (rows.length === 0) return { data: [], notes };
+  const header = rows[0];
+  const names: string[] = [];
+  const seen: JsonObject = {};
+  header.cells.forEach((raw, i) => {
+    let name = raw.trim();
+    if (name === "") {
+      name = `column${i + 1}`;
+      notes.push({ kind: "empty-header", message: `Column ${i + 1} has no name; using "${name}"`, line: header.line });
+    }
+    if (Object.prototype.hasOwnProperty.call(seen, name)) {
+      const renamed = duplicateKeyName(seen, name);
+      notes.push({ kind: "duplicate-header", message: `Column "${name}" repeats; renamed to "${renamed}"`, line: header.line });
+      name = renamed;
+    }
+    seen[name] = null;
+    names.push(name);
+  });
+
+  const data: JsonValue[] = [];
+  for (const row of rows.slice(1)) {
+    if (row.cells.length !== names.length) {
+      const what = row.cells.length > names.length ? "extra cells dropped" : "missing cells left out";
+      notes.push({
+        kind: "ragged-row",
+        message: `Row has ${row.cells.length} cells for ${names.length} columns; ${what}`,
+        line: row.line,
+      });
+    }
+    const record: JsonObject = {};
+    names.forEach((name, i) => {
+      if (i < row.cells.length) record[name] = inferScalar(row.cells[i], inference);
+    });
+    data.push(record);
+  }
+  return { data, notes };
+}
@@ -0,0 +1,26 @@
+import { bench, describe } from "vitest";
+import { lineDiff } from "./differ";
+import { serialize } from "./serializer";
+import { sortContainer } from "./sorter";
+
+// Two thousand attributes, before and after a sort by viewname: most lines move
+const attributes = Array.from({ length: 2000 }, (_, a) => ({ viewname: `v${(a * 7919) % 2000}`, colour: "green", size: a }));
+const before = serialize({ attributes });
+const after = serialize(sortContainer({ attributes }, { containerPath: "attributes", sortKey: "viewname", direction: "asc" }).data!);
+const edited = before.replace('"size": 1000', '"size": -1');
+
+describe("line diff of a sorted array", () => {
+  bench("myers", () => {
+    lineDiff(before, after);
+  }, { iterations: 2 });
+
+  bench("patience", () => {
+    lineDiff(before, after, { algorithm: "patience" });
+  }, { iterations: 2 });
+});
+
+describe("line diff of one edit", () => {
+  bench("myers", () => {
+    lineDiff(before, edited);
+  });
+});
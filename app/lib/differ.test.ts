@@ -1,5 +1,8 @@
 import { describe, it, expect } from "vitest";
-import { summarizeDiff, lineDiff } from "./differ";
+import { summarizeDiff, lineDiff, diffJson, countChangesBySubtree, changedLineNumbers, unifiedDiff, type LineDiffEntry } from "./differ";
+import { losslessNumber } from "./losslessNumber";
+import { setIn } from "./pathCopy";
+import { sortContainer } from "./sorter";
 
 describe("summarizeDiff", () => {
   it("detects added keys", () => {
@@ -38,6 +41,99 @@ describe("summarizeDiff", () => {
   });
 });
 
+describe("diffJson", () => {
+  const doc = {
+    view: {
+      classes: {
+        apple: { attributes: [{ name: "Gala", colour: "red" }, { name: "Braeburn", colour: "red" }] },
+        pear: { attributes: [{ name: "Conference", colour: "green" }] },
+      },
+    },
+  };
+
+  it("locates a deep edit by its path, with old and new values", () => {
+    const edited = setIn(doc, ["view", "classes", "apple", "attributes", "1", "colour"], "green");
+    expect(diffJson(doc, edited)).toEqual([
+      { kind: "modified", path: "view.classes.apple.attributes.1.colour", oldValue: "red", newValue: "green" },
+    ]);
+  });
+
+  it("reports added and removed members and array elements", () => {
+    const changes = diffJson({ a: 1, b: [1, 2, 3], c: { x: 1 } }, { a: 1, b: [1, 2], c: { x: 1, y: 2 } });
+    expect(changes).toEqual([
+      { kind: "removed", path: "b.2", oldValue: 3 },
+      { kind: "added", path: "c.y", newValue: 2 },
+    ]);
+  });
+
+  it("reports a member whose position changed as moved, and only that member", () => {
+    const changes = diffJson({ a: 1, b: 2, c: 3, d: 4 }, { d: 4, a: 1, b: 2, c: 3 });
+    expect(changes).toEqual([{ kind: "moved", path: "d", from: 3, to: 0 }]);
+  });
+
+  it("treats a change of type as one modification and equal numbers as equal", () => {
+    expect(diffJson({ a: [1] }, { a: { 0: 1 } })).toEqual([{ kind: "modified", path: "a", oldValue: [1], newValue: { 0: 1 } }]);
+    expect(diffJson({ n: 1.5 }, { n: losslessNumber("1.50") })).toEqual([]);
+    expect(diffJson(1, 2)).toEqual([{ kind: "modified", path: "", oldValue: 1, newValue: 2 }]);
+  });
+
+  it("counts changes per subtree", () => {
+    const edited = setIn(setIn(doc, ["view", "classes", "apple", "attributes", "0", "colour"], "green"), ["view", "classes", "pear", "ripe"], true);
+    const counts = countChangesBySubtree(diffJson(doc, edited));
+    expect(counts.get("")).toEqual({ added: 1, removed: 0, modified: 1, moved: 0 });
+    expect(counts.get("view.classes.apple")).toEqual({ added: 0, removed: 0, modified: 1, moved: 0 });
+    expect(counts.get("view.classes.pear")).toEqual({ added: 1, removed: 0, modified: 0, moved: 0 });
+    expect(counts.has("view.name")).toBe(false);
+  });
+});
+
+describe("diffJson with array identities", () => {
+  const fruit = {
+    attributes: [
+      { name: "Gala", colour: "red" },
+      { name: "Braeburn", colour: "red" },
+      { name: "Conference", colour: "green" },
+    ],
+  };
+
+  it("shows a sort as moves only", () => {
+    const { data } = sortContainer(fruit, { containerPath: "attributes", sortKey: "name", direction: "asc" });
+    const changes = diffJson(fruit, data);
+    expect(changes.every((c) => c.kind === "moved")).toBe(true);
+    expect(changes.length).toBeGreaterThan(0);
+    expect(diffJson(["b", "c", "a"], ["a", "b", "c"])).toEqual([{ kind: "moved", path: "0", oldPath: "2", from: 2, to: 0, identity: '"a"' }]);
+  });
+
+  it("lists content edits apart from the moves, at both locations", () => {
+    const reordered = { attributes: [{ name: "Conference", colour: "yellow" }, fruit.attributes[0], fruit.attributes[1]] };
+    expect(diffJson(fruit, reordered, { identityKeys: ["attributes[*].name"] })).toEqual([
+      { kind: "moved", path: "attributes.0", oldPath: "attributes.2", from: 2, to: 0, identity: '"Conference"' },
+      { kind: "modified", path: "attributes.0.colour", oldPath: "attributes.2.colour", oldValue: "green", newValue: "yellow" },
+    ]);
+  });
+
+  it("matches by a listed key and reports what has no match", () => {
+    const edited = { attributes: [{ name: "Braeburn", colour: "red" }, { name: "Pink Lady", colour: "pink" }, { name: "Gala", colour: "red" }] };
+    const changes = diffJson(fruit, edited, { identityKeys: ["**.attributes[*].name"] });
+    expect(changes.map((c) => [c.kind, c.path])).toEqual([
+      ["removed", "attributes.2"],
+      ["moved", "attributes.0"],
+      ["added", "attributes.1"],
+    ]);
+  });
+
+  it("compares by position when no identity pairs more elements up", () => {
+    expect(diffJson([1, 2, 3], [1, 2, 4])).toEqual([{ kind: "modified", path: "2", oldValue: 3, newValue: 4 }]);
+    // "colour" repeats, so it can't identify anything
+    const recoloured = setIn(fruit, ["attributes", "0", "colour"], "green");
+    expect(diffJson(fruit, recoloured, { identityKeys: ["attributes[*].colour"] })).toEqual([
+      { kind: "modified", path: "attributes.0.colour", oldValue: "red", newValue: "green" },
+    ]);
+    const swapped = { attributes: [fruit.attributes[1], fruit.attributes[0], fruit.attributes[2]] };
+    expect(diffJson(fruit, swapped, { inferIdentity: false }).map((c) => c.kind)).toEqual(["modified", "modified"]);
+  });
+});
+
 describe("lineDiff", () => {
   it("marks unchanged lines", () => {
     const text = "line1\nline2";
@@ -58,4 +154,56 @@ describe("lineDiff", () => {
     expect(removed.length).toBe(1);
     expect(removed[0].line).toBe("c");
   });
+
+  // Length of a longest common subsequence, the old way, for checking small cases
+  const lcs = (x: string[], y: string[]) => {
+    const dp = Array.from({ length: x.length + 1 }, () => new Array(y.length + 1).fill(0));
+    for (let i = 1; i <= x.length; i++)
+      for (let j = 1; j <= y.length; j++) dp[i][j] = x[i - 1] === y[j - 1] ? dp[i - 1][j - 1] + 1 : Math.max(dp[i - 1][j], dp[i][j - 1]);
+    return dp[x.length][y.length];
+  };
+  const side = (entries: LineDiffEntry[], drop: "added" | "removed") => entries.filter((e) => e.type !== drop).map((e) => e.line);
+
+  it("rebuilds both texts and keeps as many lines as an LCS does", () => {
+    let seed = 7;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+    for (let run = 0; run < 200; run++) {
+      const a = Array.from({ length: Math.floor(random() * 12) }, () => "abcd"[Math.floor(random() * 4)]);
+      const b = Array.from({ length: Math.floor(random() * 12) }, () => "abcd"[Math.floor(random() * 4)]);
+      const entries = lineDiff(a.join("\n"), b.join("\n"));
+      expect(side(entries, "added")).toEqual(a.join("\n").split("\n"));
+      expect(side(entries, "removed")).toEqual(b.join("\n").split("\n"));
+      expect(entries.filter((e) => e.type === "unchanged").length).toBe(lcs(a.join("\n").split("\n"), b.join("\n").split("\n")));
+      const patience = lineDiff(a.join("\n"), b.join("\n"), { algorithm: "patience" });
+      expect(side(patience, "removed")).toEqual(b.join("\n").split("\n"));
+    }
+  });
+
+  it("handles large texts with few differences", () => {
+    const a = Array.from({ length: 200000 }, (_, i) => `"line": ${i},`);
+    const b = a.slice();
+    b.splice(1000, 1, '"line": "changed",');
+    b.splice(150000, 0, '"line": "inserted",');
+    const entries = lineDiff(a.join("\n"), b.join("\n"));
+    expect(changedLineNumbers(entries)).toEqual({ removed: [1001], added: [1001, 150001] });
+  });
+});
+
+describe("unifiedDiff", () => {
+  const source = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "10"].join("\n");
+
+  it("writes hunks with context and headers", () => {
+    const edited = source.replace("2", "two").replace("9", "nine");
+    expect(unifiedDiff(lineDiff(source, edited), { context: 1, fromFile: "a/x.json", toFile: "b/x.json" })).toBe(
+      ["--- a/x.json", "+++ b/x.json", "@@ -1,3 +1,3 @@", " 1", "-2", "+two", " 3", "@@ -8,3 +8,3 @@", " 8", "-9", "+nine", " 10", ""].join("\n")
+    );
+  });
+
+  it("joins changes whose contexts touch and numbers pure insertions from the line before", () => {
+    const edited = source.replace("3", "three").replace("5", "five");
+    expect(unifiedDiff(lineDiff(source, edited), { context: 1 }).split("\n")[2]).toBe("@@ -2,5 +2,5 @@");
+    const inserted = source.replace("10", "10\n11");
+    expect(unifiedDiff(lineDiff(source, inserted), { context: 0 }).split("\n").slice(2)).toEqual(["@@ -10,0 +11 @@", "+11", ""]);
+    expect(unifiedDiff(lineDiff(source, source))).toBe("");
+  });
 });
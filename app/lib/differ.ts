@@ -1,4 +1,9 @@
 import type { JsonValue, JsonObject } from "./fileLoader";
+import { compareNumericText, isLosslessNumber, stringifyLossless } from "./losslessNumber";
+import { childPath } from "./jsonParser";
+import { matchesPathPattern, parsePathPattern } from "./pathPattern";
+import { getIn } from "./pathCopy";
+import { runJob, type Job } from "./jobs";
 
 export interface DiffSummary {
   added: number;
@@ -14,7 +19,7 @@ export interface LineDiffEntry {
 }
 
 function isObject(v: JsonValue): v is JsonObject {
-  return v !== null && typeof v === "object" && !Array.isArray(v);
+  return v !== null && typeof v === "object" && !Array.isArray(v) && !isLosslessNumber(v);
 }
 
 export function summarizeDiff(source: JsonValue, edited: JsonValue): DiffSummary {
@@ -42,43 +47,485 @@ export function summarizeDiff(source: JsonValue, edited: JsonValue): DiffSummary
   return { added, removed, modified };
 }
 
-export function lineDiff(sourceText: string, editedText: string): LineDiffEntry[] {
+export type ChangeKind = "added" | "removed" | "modified" | "moved";
+
+/** One difference between two documents, at a dotted path ("" is the root) */
+export interface JsonChange {
+  kind: ChangeKind;
+  /** Where the node is in the edited document; for a removed node, where it would be */
+  path: string;
+  /** Where the node is in the source, when a moved array element above it makes that differ */
+  oldPath?: string;
+  /** Not set for an added node */
+  oldValue?: JsonValue;
+  /** Not set for a removed node */
+  newValue?: JsonValue;
+  /** moved: the member's or element's position before and after */
+  from?: number;
+  to?: number;
+  /** moved array element: the identity it was matched by, as JSON */
+  identity?: string;
+}
+
+export interface DiffOptions {
+  /**
+   * How to match the elements of an array, as `<array path>[*].<field>`:
+   * `attributes[*].name` matches `attributes` arrays at any depth by `name`,
+   * `tags[*]` matches scalars by value. Arrays whose elements don't all have
+   * a distinct identity are compared by position.
+   */
+  identityKeys?: string[];
+  /** Match other arrays by a field unique across their elements when that pairs up more of them than position does (default true) */
+  inferIdentity?: boolean;
+}
+
+export interface ChangeCounts extends DiffSummary {
+  moved: number;
+}
+
+function isArray(v: JsonValue): v is JsonValue[] {
+  return Array.isArray(v);
+}
+
+function sameScalar(a: JsonValue, b: JsonValue): boolean {
+  if (a === b) return true;
+  const numeric = (v: JsonValue) => typeof v === "number" || isLosslessNumber(v);
+  if (!numeric(a) || !numeric(b)) return false;
+  const text = (v: JsonValue) => (isLosslessNumber(v) ? v.value : String(v));
+  return compareNumericText(text(a), text(b)) === 0;
+}
+
+/**
+ * Indexes (into `seq`) of a longest increasing subsequence; the members that
+ * keep their relative order when `seq` holds each member's old position.
+ */
+export function longestIncreasing(seq: number[]): Set<number> {
+  const tails: number[] = [];
+  const prev: number[] = new Array(seq.length);
+  seq.forEach((value, i) => {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (seq[tails[mid]] < value) lo = mid + 1;
+      else hi = mid;
+    }
+    prev[i] = lo > 0 ? tails[lo - 1] : -1;
+    tails[lo] = i;
+  });
+  const kept = new Set<number>();
+  for (let i = tails.length > 0 ? tails[tails.length - 1] : -1; i >= 0; i = prev[i]) kept.add(i);
+  return kept;
+}
+
+/** Each element's identity as JSON text, or null unless every element has one and no two share it */
+function identitiesOf(items: JsonValue[], field: string[]): string[] | null {
+  const ids: string[] = [];
+  const seen = new Set<string>();
+  for (const item of items) {
+    const value = field.length > 0 ? getIn(item, field) : item;
+    if (value === undefined || isObject(value) || isArray(value)) return null;
+    const id = stringifyLossless(value);
+    if (seen.has(id)) return null;
+    seen.add(id);
+    ids.push(id);
+  }
+  return ids;
+}
+
+/** Preferred when several fields could identify an element */
+const IDENTITY_FIELDS = ["id", "_id", "key", "uuid", "name", "code"];
+
+/**
+ * An identity that pairs up more elements than their positions do: the value
+ * itself for scalars, otherwise the first unique scalar field (well-known
+ * names first). Arrays already aligned by position are better compared that way.
+ */
+function inferIdentities(a: JsonValue[], b: JsonValue[]): [string[], string[]] | null {
+  if (a.length === 0 || b.length === 0) return null;
+  const first = a[0];
+  const candidates: string[][] = [];
+  if (a.every((v) => !isObject(v) && !isArray(v))) candidates.push([]);
+  else if (isObject(first)) {
+    const fields = Object.keys(first).filter((k) => !isObject(first[k]) && !isArray(first[k]));
+    fields.sort((x, y) => {
+      const rank = (f: string) => (IDENTITY_FIELDS.indexOf(f) < 0 ? IDENTITY_FIELDS.length : IDENTITY_FIELDS.indexOf(f));
+      return rank(x) - rank(y);
+    });
+    fields.forEach((f) => candidates.push([f]));
+  }
+  for (const field of candidates) {
+    const ka = identitiesOf(a, field);
+    const kb = ka && identitiesOf(b, field);
+    if (!ka || !kb) continue;
+    const inOld = new Set(ka);
+    const paired = kb.filter((k) => inOld.has(k)).length;
+    const aligned = kb.filter((k, i) => ka[i] === k).length;
+    if (paired > aligned) return [ka, kb];
+  }
+  return null;
+}
+
+/** Array identity pairing, per array path; see DiffOptions */
+export type IdentityMatcher = (a: JsonValue[], b: JsonValue[], path: string) => [string[], string[]] | null;
+
+/**
+ * The identity of each element of an array on both sides, for arrays
+ * `options` says to match by identity; null for arrays compared by position
+ */
+export function createIdentityMatcher(options: DiffOptions = {}): IdentityMatcher {
+  const identityKeys = (options.identityKeys ?? []).flatMap((spec) => {
+    const segments = parsePathPattern(spec.trim());
+    const star = segments.lastIndexOf("*");
+    if (star < 0) return [];
+    return [{ arrays: ["**", ...segments.slice(0, star)].join("."), field: segments.slice(star + 1) }];
+  });
+  return (a, b, path) => {
+    const listed = identityKeys.find((k) => matchesPathPattern(path, k.arrays));
+    if (!listed) return options.inferIdentity === false ? null : inferIdentities(a, b);
+    const ka = identitiesOf(a, listed.field);
+    const kb = ka && identitiesOf(b, listed.field);
+    return ka && kb ? [ka, kb] : null;
+  };
+}
+
+/** Deep equality as JSON sees it: member order doesn't matter, numbers compare by value */
+export function jsonEqual(a: JsonValue, b: JsonValue): boolean {
+  if (a === b) return true;
+  if (isArray(a) || isArray(b)) return isArray(a) && isArray(b) && a.length === b.length && a.every((v, i) => jsonEqual(v, b[i]));
+  if (isObject(a) || isObject(b)) {
+    if (!isObject(a) || !isObject(b)) return false;
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((k) => Object.prototype.hasOwnProperty.call(b, k) && jsonEqual(a[k], b[k]));
+  }
+  return sameScalar(a, b);
+}
+
+/**
+ * Every difference between two documents, in document order. Objects are
+ * compared member by member, and a member whose position changed is `moved`
+ * (the fewest members that explain the new order). Arrays are compared by
+ * identity when there is one (see DiffOptions), so a reordered array shows as
+ * moves with any content edits listed apart from them; otherwise by position.
+ * Subtrees the two documents share are skipped without being read.
+ */
+export function diffJson(source: JsonValue, edited: JsonValue, options: DiffOptions = {}): JsonChange[] {
+  const changes: JsonChange[] = [];
+  const identities = createIdentityMatcher(options);
+
+  const push = (change: JsonChange, oldPath: string) => {
+    if (oldPath !== change.path) change.oldPath = oldPath;
+    changes.push(change);
+  };
+
+  const visit = (a: JsonValue, b: JsonValue, oldPath: string, path: string) => {
+    if (a === b) return;
+    if (isObject(a) && isObject(b)) {
+      const oldKeys = Object.keys(a);
+      const newKeys = Object.keys(b);
+      const oldIndex = new Map(oldKeys.map((k, i) => [k, i]));
+      const common = newKeys.filter((k) => oldIndex.has(k));
+      const kept = longestIncreasing(common.map((k) => oldIndex.get(k)!));
+      const newIndex = new Map(newKeys.map((k, i) => [k, i]));
+      oldKeys.forEach((k) => {
+        if (!newIndex.has(k)) push({ kind: "removed", path: childPath(path, k), oldValue: a[k] }, childPath(oldPath, k));
+      });
+      let c = 0;
+      newKeys.forEach((k, i) => {
+        const p = childPath(path, k);
+        const op = childPath(oldPath, k);
+        if (!oldIndex.has(k)) {
+          changes.push({ kind: "added", path: p, newValue: b[k] });
+          return;
+        }
+        if (!kept.has(c++)) push({ kind: "moved", path: p, from: oldIndex.get(k), to: i }, op);
+        visit(a[k], b[k], op, p);
+      });
+    } else if (isArray(a) && isArray(b)) {
+      const ids = identities(a, b, path);
+      if (!ids) {
+        const shared = Math.min(a.length, b.length);
+        for (let i = 0; i < shared; i++) visit(a[i], b[i], childPath(oldPath, i), childPath(path, i));
+        for (let i = shared; i < a.length; i++) push({ kind: "removed", path: childPath(path, i), oldValue: a[i] }, childPath(oldPath, i));
+        for (let i = shared; i < b.length; i++) changes.push({ kind: "added", path: childPath(path, i), newValue: b[i] });
+        return;
+      }
+      const [ka, kb] = ids;
+      const oldIndex = new Map(ka.map((k, i) => [k, i]));
+      const inNew = new Set(kb);
+      ka.forEach((k, i) => {
+        if (!inNew.has(k)) push({ kind: "removed", path: childPath(path, i), oldValue: a[i] }, childPath(oldPath, i));
+      });
+      const kept = longestIncreasing(kb.filter((k) => oldIndex.has(k)).map((k) => oldIndex.get(k)!));
+      let c = 0;
+      kb.forEach((k, i) => {
+        const p = childPath(path, i);
+        const from = oldIndex.get(k);
+        if (from === undefined) {
+          changes.push({ kind: "added", path: p, newValue: b[i] });
+          return;
+        }
+        const op = childPath(oldPath, from);
+        if (!kept.has(c++)) push({ kind: "moved", path: p, from, to: i, identity: k }, op);
+        visit(a[from], b[i], op, p);
+      });
+    } else if (isObject(a) || isArray(a) || isObject(b) || isArray(b) || !sameScalar(a, b)) {
+      push({ kind: "modified", path, oldValue: a, newValue: b }, oldPath);
+    }
+  };
+
+  visit(source, edited, "", "");
+  return changes;
+}
+
+/**
+ * Change counts for every subtree that contains a change, keyed by path ("" is
+ * the whole document); a change counts towards its own node and each ancestor.
+ */
+export function countChangesBySubtree(changes: JsonChange[]): Map<string, ChangeCounts> {
+  const counts = new Map<string, ChangeCounts>();
+  const bump = (path: string, kind: ChangeKind) => {
+    let entry = counts.get(path);
+    if (!entry) {
+      entry = { added: 0, removed: 0, modified: 0, moved: 0 };
+      counts.set(path, entry);
+    }
+    entry[kind]++;
+  };
+  changes.forEach(({ kind, path }) => {
+    bump("", kind);
+    if (path === "") return;
+    const parts = path.split(".");
+    for (let i = 1; i <= parts.length; i++) bump(parts.slice(0, i).join("."), kind);
+  });
+  return counts;
+}
+
+export interface LineDiffOptions {
+  /**
+   * "myers" finds a shortest edit script; "patience" first pins lines that
+   * occur once on each side and diffs between them, which keeps moved JSON
+   * blocks readable and is far quicker when much of the text moved
+   */
+  algorithm?: "myers" | "patience";
+}
+
+/** Lines of both texts as numbers, equal lines getting the same number */
+function internLines(sourceText: string, editedText: string): [Int32Array, Int32Array] {
+  const ids = new Map<string, number>();
+  const intern = (text: string) => {
+    const lines = text.split("\n");
+    const out = new Int32Array(lines.length);
+    lines.forEach((line, i) => {
+      let id = ids.get(line);
+      if (id === undefined) {
+        id = ids.size;
+        ids.set(line, id);
+      }
+      out[i] = id;
+    });
+    return out;
+  };
+  return [intern(sourceText), intern(editedText)];
+}
+
+/**
+ * The middle snake of Myers' linear-space refinement: a run of equal lines
+ * on a shortest edit path through a[aLo, aHi) × b[bLo, bHi), found by searching
+ * forwards from the start and backwards from the end until the two meet.
+ * Returns the snake's start and end as [x, y, u, v].
+ */
+function middleSnake(a: Int32Array, aLo: number, aHi: number, b: Int32Array, bLo: number, bHi: number, vf: Int32Array, vb: Int32Array): [number, number, number, number] {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const delta = n - m;
+  const odd = (delta & 1) !== 0;
+  const max = Math.ceil((n + m) / 2);
+  const off = max + 1;
+  vf[off + 1] = 0;
+  vb[off + 1] = 0;
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && vf[off + k - 1] < vf[off + k + 1]) ? vf[off + k + 1] : vf[off + k - 1] + 1;
+      let y = x - k;
+      const x0 = x;
+      const y0 = y;
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) { x++; y++; }
+      vf[off + k] = x;
+      const kr = delta - k;
+      if (odd && kr >= -(d - 1) && kr <= d - 1 && x + vb[off + kr] >= n) return [aLo + x0, bLo + y0, aLo + x, bLo + y];
+    }
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && vb[off + k - 1] < vb[off + k + 1]) ? vb[off + k + 1] : vb[off + k - 1] + 1;
+      let y = x - k;
+      const x0 = x;
+      const y0 = y;
+      while (x < n && y < m && a[aHi - 1 - x] === b[bHi - 1 - y]) { x++; y++; }
+      vb[off + k] = x;
+      const kf = delta - k;
+      if (!odd && kf >= -d && kf <= d && x + vf[off + kf] >= n) return [aHi - x, bHi - y, aHi - x0, bHi - y0];
+    }
+  }
+  // Unreachable: the searches meet by d = max
+  return [aLo, bLo, aLo, bLo];
+}
+
+/** Pairs of lines (source index, edited index) that occur once on each side, in an order both sides agree on */
+function patienceAnchors(a: Int32Array, aLo: number, aHi: number, b: Int32Array, bLo: number, bHi: number): [number, number][] {
+  const count = (lines: Int32Array, lo: number, hi: number) => {
+    const seen = new Map<number, number>();
+    for (let i = lo; i < hi; i++) seen.set(lines[i], seen.has(lines[i]) ? -1 : i);
+    return seen;
+  };
+  const inA = count(a, aLo, aHi);
+  const inB = count(b, bLo, bHi);
+  const pairs: [number, number][] = [];
+  for (let j = bLo; j < bHi; j++) {
+    const i = inA.get(b[j]);
+    if (i !== undefined && i >= 0 && inB.get(b[j]) === j) pairs.push([i, j]);
+  }
+  const kept = longestIncreasing(pairs.map(([i]) => i));
+  return pairs.filter((_, p) => kept.has(p));
+}
+
+/**
+ * Line diff of two texts as a job (see jobs.ts), in O((N+M)·D) time and
+ * O(N+M) space for N and M lines and D differences. Ranges are split at their
+ * middle snakes from an explicit stack, so there is no recursion to run out of
+ * and a checkpoint after each split.
+ */
+export function* lineDiffJob(sourceText: string, editedText: string, options: LineDiffOptions = {}): Job<LineDiffEntry[]> {
   const srcLines = sourceText.split("\n");
   const editLines = editedText.split("\n");
+  const [a, b] = internLines(sourceText, editedText);
+  // 1 where a line is kept; the kept lines of both sides pair up in order
+  const keepA = new Uint8Array(a.length);
+  const keepB = new Uint8Array(b.length);
+  const size = 2 * (a.length + b.length) + 4;
+  const vf = new Int32Array(size);
+  const vb = new Int32Array(size);
+  const total = a.length + b.length;
+  let processed = 0;
 
-  // Simple LCS-based line diff
-  const m = srcLines.length;
-  const n = editLines.length;
-
-  // Build LCS table
-  const dp: number[][] = Array.from({ length: m + 1 }, () => new Array(n + 1).fill(0));
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      if (srcLines[i - 1] === editLines[j - 1]) {
-        dp[i][j] = dp[i - 1][j - 1] + 1;
-      } else {
-        dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1]);
-      }
+  const keep = (x: number, y: number, u: number) => {
+    for (let i = 0; i < u - x; i++) {
+      keepA[x + i] = 1;
+      keepB[y + i] = 1;
     }
+    processed += 2 * (u - x);
+  };
+
+  const ranges: [number, number, number, number][] = [];
+  if (options.algorithm === "patience") {
+    let i = 0;
+    let j = 0;
+    patienceAnchors(a, 0, a.length, b, 0, b.length).forEach(([ai, bj]) => {
+      ranges.push([i, ai, j, bj]);
+      keep(ai, bj, ai + 1);
+      i = ai + 1;
+      j = bj + 1;
+    });
+    ranges.push([i, a.length, j, b.length]);
+  } else {
+    ranges.push([0, a.length, 0, b.length]);
+  }
+
+  while (ranges.length > 0) {
+    let [aLo, aHi, bLo, bHi] = ranges.pop()!;
+    // Equal lines at either end are kept as they are
+    const start = aLo;
+    while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) { aLo++; bLo++; }
+    keep(start, bLo - (aLo - start), aLo);
+    let end = 0;
+    while (aLo < aHi - end && bLo < bHi - end && a[aHi - 1 - end] === b[bHi - 1 - end]) end++;
+    keep(aHi - end, bHi - end, aHi);
+    aHi -= end;
+    bHi -= end;
+    if (aLo === aHi || bLo === bHi) {
+      processed += aHi - aLo + bHi - bLo;
+      continue;
+    }
+    const [x, y, u, v] = middleSnake(a, aLo, aHi, b, bLo, bHi, vf, vb);
+    keep(x, y, u);
+    if ((x === aLo && y === bLo && u === aHi && v === bHi) || (x === u && ((x === aLo && y === bLo) || (x === aHi && y === bHi)))) {
+      // No split: every remaining line differs
+      processed += aHi - aLo + bHi - bLo;
+      continue;
+    }
+    ranges.push([u, aHi, v, bHi], [aLo, x, bLo, y]);
+    yield { phase: "Diffing lines", processed, total };
   }
 
-  // Backtrack
   const result: LineDiffEntry[] = [];
-  let i = m;
-  let j = n;
-  while (i > 0 || j > 0) {
-    if (i > 0 && j > 0 && srcLines[i - 1] === editLines[j - 1]) {
-      result.push({ type: "unchanged", line: srcLines[i - 1] });
-      i--;
-      j--;
-    } else if (j > 0 && (i === 0 || dp[i][j - 1] >= dp[i - 1][j])) {
-      result.push({ type: "added", line: editLines[j - 1] });
-      j--;
-    } else {
-      result.push({ type: "removed", line: srcLines[i - 1] });
-      i--;
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && !keepA[i]) result.push({ type: "removed", line: srcLines[i++] });
+    else if (j < b.length && !keepB[j]) result.push({ type: "added", line: editLines[j++] });
+    else {
+      result.push({ type: "unchanged", line: editLines[j++] });
+      i++;
     }
   }
+  return result;
+}
+
+export function lineDiff(sourceText: string, editedText: string, options: LineDiffOptions = {}): LineDiffEntry[] {
+  return runJob(lineDiffJob(sourceText, editedText, options));
+}
+
+/** 1-based numbers of the source lines a diff removes and the edited lines it adds */
+export function changedLineNumbers(entries: LineDiffEntry[]): { removed: number[]; added: number[] } {
+  const removed: number[] = [];
+  const added: number[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  entries.forEach((e) => {
+    if (e.type !== "added") oldLine++;
+    if (e.type !== "removed") newLine++;
+    if (e.type === "removed") removed.push(oldLine);
+    else if (e.type === "added") added.push(newLine);
+  });
+  return { removed, added };
+}
+
+export interface UnifiedDiffOptions {
+  /** Unchanged lines shown around each change; default 3 */
+  context?: number;
+  fromFile?: string;
+  toFile?: string;
+}
+
+/** A line diff as a unified diff (`diff -u`): file headers, then `@@ -l,s +l,s @@` hunks. Empty when nothing changed. */
+export function unifiedDiff(entries: LineDiffEntry[], options: UnifiedDiffOptions = {}): string {
+  const context = Math.max(0, options.context ?? 3);
+  const changed = entries.map((e, i) => (e.type === "unchanged" ? -1 : i)).filter((i) => i >= 0);
+  if (changed.length === 0) return "";
 
-  return result.reverse();
+  // Line numbers before each entry, on each side
+  const oldAt = new Int32Array(entries.length + 1);
+  const newAt = new Int32Array(entries.length + 1);
+  entries.forEach((e, i) => {
+    oldAt[i + 1] = oldAt[i] + (e.type === "added" ? 0 : 1);
+    newAt[i + 1] = newAt[i] + (e.type === "removed" ? 0 : 1);
+  });
+  const range = (startLine: number, count: number) =>
+    count === 1 ? `${startLine + 1}` : `${count === 0 ? startLine : startLine + 1},${count}`;
+
+  const out = [`--- ${options.fromFile ?? "a"}`, `+++ ${options.toFile ?? "b"}`];
+  let c = 0;
+  while (c < changed.length) {
+    // A hunk runs on while the gap to the next change fits in both contexts
+    let last = c;
+    while (last + 1 < changed.length && changed[last + 1] - changed[last] - 1 <= 2 * context) last++;
+    const from = Math.max(0, changed[c] - context);
+    const to = Math.min(entries.length, changed[last] + context + 1);
+    out.push(`@@ -${range(oldAt[from], oldAt[to] - oldAt[from])} +${range(newAt[from], newAt[to] - newAt[from])} @@`);
+    for (let i = from; i < to; i++) {
+      const e = entries[i];
+      out.push(`${e.type === "added" ? "+" : e.type === "removed" ? "-" : " "}${e.line}`);
+    }
+    c = last + 1;
+  }
+  return out.join("\n") + "\n";
 }
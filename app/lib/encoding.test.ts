@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { sniffEncoding, detectEncoding, decodeBytes, detectLineEnding, encodeText, describeEncoding } from "./encoding";
+
+function utf16le(text: string, bom = false): Uint8Array {
+  const out = new Uint8Array(text.length * 2 + (bom ? 2 : 0));
+  let at = 0;
+  if (bom) {
+    out[at++] = 0xff;
+    out[at++] = 0xfe;
+  }
+  for (let i = 0; i < text.length; i++) {
+    const c = text.charCodeAt(i);
+    out[at++] = c & 0xff;
+    out[at++] = c >> 8;
+  }
+  return out;
+}
+
+function swapPairs(bytes: Uint8Array): Uint8Array {
+  const out = new Uint8Array(bytes.length);
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    out[i] = bytes[i + 1];
+    out[i + 1] = bytes[i];
+  }
+  return out;
+}
+
+describe("detectEncoding", () => {
+  it("recognises byte order marks", () => {
+    expect(sniffEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x7b]))).toEqual({ encoding: "utf-8", bom: true });
+    expect(sniffEncoding(utf16le("{}", true))).toEqual({ encoding: "utf-16le", bom: true });
+    expect(sniffEncoding(swapPairs(utf16le("{}", true)))).toEqual({ encoding: "utf-16be", bom: true });
+  });
+
+  it("spots UTF-16 without a BOM from its NUL bytes", () => {
+    expect(detectEncoding(utf16le('{"a": "é"}'))).toEqual({ encoding: "utf-16le", bom: false });
+    expect(detectEncoding(swapPairs(utf16le('{"a": 1}')))).toEqual({ encoding: "utf-16be", bom: false });
+  });
+
+  it("falls back to windows-1252 when the bytes are not UTF-8", () => {
+    // “quoted” in windows-1252 smart quotes
+    const bytes = new Uint8Array([0x22, 0x93, 0x71, 0x94, 0x22]);
+    expect(detectEncoding(bytes)).toEqual({ encoding: "windows-1252", bom: false });
+    expect(decodeBytes(bytes).text).toBe('"“q”"');
+  });
+
+  it("treats valid UTF-8 as UTF-8", () => {
+    expect(detectEncoding(new TextEncoder().encode('{"a": "“é”"}'))).toEqual({ encoding: "utf-8", bom: false });
+  });
+});
+
+describe("decodeBytes", () => {
+  it("drops the BOM from the decoded text", () => {
+    expect(decodeBytes(utf16le('{"a":1}', true)).text).toBe('{"a":1}');
+    expect(decodeBytes(new Uint8Array([0xef, 0xbb, 0xbf, 0x31])).text).toBe("1");
+  });
+});
+
+describe("detectLineEnding", () => {
+  it("reports lf, crlf, mixed or none", () => {
+    expect(detectLineEnding("a\nb")).toBe("lf");
+    expect(detectLineEnding("a\r\nb\r\n")).toBe("crlf");
+    expect(detectLineEnding("a\r\nb\n")).toBe("mixed");
+    expect(detectLineEnding("ab")).toBeNull();
+  });
+});
+
+describe("encodeText", () => {
+  it("writes LF without a BOM by default", () => {
+    expect(Array.from(encodeText("{\r\n}"))).toEqual([0x7b, 0x0a, 0x7d]);
+  });
+
+  it("writes CRLF and a BOM when asked", () => {
+    expect(Array.from(encodeText("{\n}", { bom: true, lineEnding: "crlf" }))).toEqual([0xef, 0xbb, 0xbf, 0x7b, 0x0d, 0x0a, 0x7d]);
+  });
+
+  it("describes an encoding for display", () => {
+    expect(describeEncoding({ encoding: "utf-16le", bom: true })).toBe("UTF-16LE + BOM");
+  });
+});
@@ -0,0 +1,113 @@
+export type TextEncodingName = "utf-8" | "utf-16le" | "utf-16be" | "windows-1252";
+
+export type LineEnding = "lf" | "crlf";
+
+export interface EncodingInfo {
+  encoding: TextEncodingName;
+  bom: boolean;
+}
+
+export interface OutputEncoding {
+  /** Prefix the UTF-8 byte order mark (some Windows tools expect it) */
+  bom: boolean;
+  lineEnding: LineEnding;
+}
+
+/** UTF-8, no BOM, LF — what sanitizeUnixSafe aims for inside strings, applied to the whole file */
+export const UNIX_SAFE_OUTPUT: OutputEncoding = { bom: false, lineEnding: "lf" };
+
+const SNIFF_BYTES = 4096;
+
+/**
+ * Decide the encoding from a BOM or, without one, from the NUL-byte pattern that
+ * ASCII-heavy JSON produces in UTF-16. Returns null when the bytes look like an
+ * 8-bit encoding — UTF-8 or windows-1252, which only a full decode can tell apart.
+ */
+export function sniffEncoding(bytes: Uint8Array): EncodingInfo | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { encoding: "utf-8", bom: true };
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: "utf-16le", bom: true };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { encoding: "utf-16be", bom: true };
+
+  const n = Math.min(bytes.length, SNIFF_BYTES) & ~1;
+  if (n < 2) return null;
+  let evenNul = 0;
+  let oddNul = 0;
+  for (let i = 0; i < n; i += 2) {
+    if (bytes[i] === 0) evenNul++;
+    if (bytes[i + 1] === 0) oddNul++;
+  }
+  const pairs = n / 2;
+  if (oddNul > pairs * 0.3 && evenNul < pairs * 0.05) return { encoding: "utf-16le", bom: false };
+  if (evenNul > pairs * 0.3 && oddNul < pairs * 0.05) return { encoding: "utf-16be", bom: false };
+  return null;
+}
+
+function isValidUtf8(bytes: Uint8Array): boolean {
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Full detection: BOM, UTF-16 pattern, then strict UTF-8 with windows-1252 as the fallback */
+export function detectEncoding(bytes: Uint8Array): EncodingInfo {
+  return sniffEncoding(bytes) ?? { encoding: isValidUtf8(bytes) ? "utf-8" : "windows-1252", bom: false };
+}
+
+// 0x80–0x9F in windows-1252; the rest of the code page matches Latin-1.
+// Decoded by hand because some runtimes treat the "windows-1252" label as plain Latin-1.
+const CP1252_HIGH = [
+  0x20ac, 0x81, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021, 0x02c6, 0x2030, 0x0160, 0x2039, 0x0152, 0x8d, 0x017d, 0x8f,
+  0x90, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014, 0x02dc, 0x2122, 0x0161, 0x203a, 0x0153, 0x9d, 0x017e, 0x0178,
+];
+
+export function decodeWindows1252(bytes: Uint8Array): string {
+  let out = "";
+  const CHUNK = 8192;
+  for (let at = 0; at < bytes.length; at += CHUNK) {
+    const codes: number[] = [];
+    const end = Math.min(bytes.length, at + CHUNK);
+    for (let i = at; i < end; i++) {
+      const b = bytes[i];
+      codes.push(b >= 0x80 && b <= 0x9f ? CP1252_HIGH[b - 0x80] : b);
+    }
+    out += String.fromCharCode.apply(null, codes);
+  }
+  return out;
+}
+
+/** Decode a file's bytes, dropping any BOM, and report what was found */
+export function decodeBytes(bytes: Uint8Array): { text: string; encoding: EncodingInfo } {
+  const encoding = detectEncoding(bytes);
+  // TextDecoder strips a BOM that matches its encoding
+  const text =
+    encoding.encoding === "windows-1252" ? decodeWindows1252(bytes) : new TextDecoder(encoding.encoding).decode(bytes);
+  return { text, encoding };
+}
+
+/** "UTF-16LE + BOM" */
+export function describeEncoding(info: EncodingInfo): string {
+  return info.encoding.toUpperCase() + (info.bom ? " + BOM" : "");
+}
+
+/** Which line ending the text uses, or null when it has no line breaks */
+export function detectLineEnding(text: string): LineEnding | "mixed" | null {
+  const crlf = (text.match(/\r\n/g) ?? []).length;
+  const lf = (text.match(/\n/g) ?? []).length - crlf;
+  if (crlf === 0 && lf === 0) return null;
+  if (crlf > 0 && lf > 0) return "mixed";
+  return crlf > 0 ? "crlf" : "lf";
+}
+
+/** Encode output as UTF-8 with the chosen BOM and line endings */
+export function encodeText(text: string, output: OutputEncoding = UNIX_SAFE_OUTPUT): Uint8Array<ArrayBuffer> {
+  const normalized = text.replace(/\r?\n/g, output.lineEnding === "crlf" ? "\r\n" : "\n");
+  const body = new TextEncoder().encode(normalized);
+  if (!output.bom) return body;
+  const out = new Uint8Array(body.length + 3);
+  out.set([0xef, 0xbb, 0xbf]);
+  out.set(body, 3);
+  return out;
+}
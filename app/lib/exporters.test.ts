@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import type { JsonValue } from "./fileLoader";
+import { exportValue, flattenRecord, toDelimited, toMarkdownTable, toTable, toYaml, valueAtPath, DEFAULT_TABLE_OPTIONS } from "./exporters";
+import { importYaml } from "./yamlImporter";
+import { importCsv } from "./csvImporter";
+import { losslessNumber } from "./losslessNumber";
+
+const people: JsonValue = [
+  { name: "Ann", address: { city: "Oslo", zip: "0150" }, tags: ["a", "b"] },
+  { name: "Bob, Jr.", age: 41, tags: [], notes: 'said "hi"\nthen left' },
+];
+
+describe("flattenRecord", () => {
+  it("uses dotted names for nested fields", () => {
+    expect(Array.from(flattenRecord({ a: { b: { c: 1 } }, d: null }))).toEqual([
+      ["a.b.c", 1],
+      ["d", null],
+    ]);
+  });
+
+  it("joins, spreads or embeds arrays", () => {
+    const record = { tags: ["x", 2, null], list: [{ k: 1 }] };
+    expect(flattenRecord(record).get("tags")).toBe("x; 2; ");
+    expect(flattenRecord(record).get("list")).toBe('[{"k":1}]');
+    const spread = flattenRecord(record, { ...DEFAULT_TABLE_OPTIONS, arrays: "columns" });
+    expect(Array.from(spread.keys())).toEqual(["tags.0", "tags.1", "tags.2", "list.0.k"]);
+    expect(flattenRecord(record, { ...DEFAULT_TABLE_OPTIONS, arrays: "json", arrayJoin: "|" }).get("tags")).toBe('["x",2,null]');
+  });
+});
+
+describe("toTable", () => {
+  it("unions columns in first-seen order", () => {
+    const table = toTable(people as JsonValue[]);
+    expect(table.columns).toEqual(["name", "address.city", "address.zip", "tags", "age", "notes"]);
+    expect(table.rows[1]).toEqual(["Bob, Jr.", null, null, "", 41, 'said "hi"\nthen left']);
+  });
+});
+
+describe("toDelimited", () => {
+  it("quotes only cells that need it and reads back with the CSV importer", () => {
+    const csv = toDelimited(toTable(people as JsonValue[]), ",");
+    expect(csv.split("\r\n")[0]).toBe("name,address.city,address.zip,tags,age,notes");
+    expect(csv).toContain('"Bob, Jr."');
+    const back = importCsv(csv, {}, { detectNumbers: false, emptyAsNull: false });
+    expect((back.data as JsonValue[])[1]).toMatchObject({ name: "Bob, Jr.", notes: 'said "hi"\nthen left' });
+  });
+
+  it("can quote every cell and skip the header", () => {
+    const tsv = toDelimited(toTable([{ a: 1, b: "x" }]), "\t", { ...DEFAULT_TABLE_OPTIONS, quoting: "all", header: false });
+    expect(tsv).toBe('"1"\t"x"\r\n');
+  });
+});
+
+describe("toMarkdownTable", () => {
+  it("escapes pipes and line breaks and right-aligns numbers", () => {
+    const md = toMarkdownTable(toTable([{ n: 1, s: "a|b" }, { n: 2.5, s: "x\ny" }]));
+    expect(md).toBe("| n | s |\n| ---: | --- |\n| 1 | a\\|b |\n| 2.5 | x<br>y |\n");
+  });
+});
+
+describe("toYaml", () => {
+  it("writes block YAML that reads back to the same data", () => {
+    const data: JsonValue = {
+      name: "demo",
+      "odd key": "yes",
+      version: "1.10",
+      nested: { list: [1, { a: true, b: null }, ["x", "y"]], empty: {}, none: [] },
+      text: "line 1\nline 2\n",
+      trimmed: "no newline\nat end",
+      quoted: "a: b # c",
+      big: losslessNumber("12345678901234567890"),
+    };
+    const yaml = toYaml(data);
+    expect(yaml).toContain('odd key: "yes"\nversion: "1.10"');
+    expect(yaml).toContain("text: |\n  line 1\n  line 2\n");
+    expect(yaml).toContain("- a: true\n      b: null");
+    const back = importYaml(yaml, { detectNumbers: true, emptyAsNull: false });
+    expect(back.error).toBeUndefined();
+    expect(back.data).toEqual(data);
+  });
+
+  it("handles scalar and empty roots", () => {
+    expect(toYaml("plain")).toBe("plain\n");
+    expect(toYaml([])).toBe("[]\n");
+  });
+});
+
+describe("exportValue", () => {
+  it("writes NDJSON one record per line", () => {
+    expect(exportValue([{ a: 1 }, 2], "ndjson")).toBe('{"a":1}\n2\n');
+    expect(exportValue({ a: 1 }, "ndjson")).toBe('{"a":1}\n');
+  });
+
+  it("exports a single object as a one-row table", () => {
+    expect(exportValue({ a: 1 }, "csv")).toBe("a\r\n1\r\n");
+  });
+});
+
+describe("valueAtPath", () => {
+  it("accepts dotted, bracketed and root paths", () => {
+    const data: JsonValue = { a: { list: [{ x: 1 }, { x: 2 }] } };
+    expect(valueAtPath(data, "(root)")).toBe(data);
+    expect(valueAtPath(data, "a.list.1.x")).toBe(2);
+    expect(valueAtPath(data, "a.list[0]")).toEqual({ x: 1 });
+    expect(valueAtPath(data, "a.missing")).toBeUndefined();
+  });
+});
@@ -0,0 +1,219 @@
+import type { JsonArray, JsonObject, JsonValue } from "./fileLoader";
+import { isLosslessNumber, stringifyLossless } from "./losslessNumber";
+import { stringifyNdjson } from "./ndjson";
+
+export type ExportFormat = "csv" | "tsv" | "markdown" | "yaml" | "ndjson";
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: "csv",
+  tsv: "tsv",
+  markdown: "md",
+  yaml: "yaml",
+  ndjson: "ndjson",
+};
+
+export interface TableOptions {
+  /**
+   * Arrays inside a row: "join" scalars into one cell with `arrayJoin`,
+   * "columns" spreads them into `tags.0`, `tags.1`…, "json" writes the array as JSON text.
+   * Arrays of objects fall back to JSON text under "join".
+   */
+  arrays: "join" | "columns" | "json";
+  arrayJoin: string;
+  /** CSV/TSV: "minimal" quotes only cells that need it */
+  quoting: "minimal" | "all";
+  /** CSV/TSV: write the column names as the first line */
+  header: boolean;
+}
+
+export const DEFAULT_TABLE_OPTIONS: TableOptions = { arrays: "join", arrayJoin: "; ", quoting: "minimal", header: true };
+
+type Cell = string | number | boolean | null;
+
+export interface Table {
+  /** Dotted paths of the flattened fields, in first-seen order */
+  columns: string[];
+  rows: Cell[][];
+}
+
+function isObject(v: JsonValue): v is JsonObject {
+  return v !== null && typeof v === "object" && !Array.isArray(v) && !isLosslessNumber(v);
+}
+
+function isScalar(v: JsonValue): boolean {
+  return v === null || typeof v !== "object" || isLosslessNumber(v);
+}
+
+function scalarCell(v: JsonValue): Cell {
+  if (isLosslessNumber(v)) return v.value;
+  return v as Cell;
+}
+
+/** Nested fields of one record as dotted column → cell */
+export function flattenRecord(value: JsonValue, options: TableOptions = DEFAULT_TABLE_OPTIONS): Map<string, Cell> {
+  const out = new Map<string, Cell>();
+  const walk = (v: JsonValue, path: string) => {
+    if (isObject(v)) {
+      const keys = Object.keys(v);
+      if (keys.length === 0 && path) out.set(path, "{}");
+      for (const key of keys) walk(v[key], path ? `${path}.${key}` : key);
+    } else if (Array.isArray(v)) {
+      if (options.arrays === "columns") {
+        if (v.length === 0 && path) out.set(path, "[]");
+        v.forEach((item, i) => walk(item, path ? `${path}.${i}` : String(i)));
+      } else if (options.arrays === "join" && v.every(isScalar)) {
+        out.set(path || "value", v.map((item) => (item === null ? "" : String(scalarCell(item)))).join(options.arrayJoin));
+      } else {
+        out.set(path || "value", stringifyLossless(v));
+      }
+    } else {
+      out.set(path || "value", scalarCell(v));
+    }
+  };
+  walk(value, "");
+  return out;
+}
+
+/** One row per element; columns are the union of every element's flattened fields */
+export function toTable(records: JsonArray, options: TableOptions = DEFAULT_TABLE_OPTIONS): Table {
+  const columnIndex = new Map<string, number>();
+  const flat = records.map((record) => {
+    const cells = flattenRecord(record, options);
+    cells.forEach((_, column) => {
+      if (!columnIndex.has(column)) columnIndex.set(column, columnIndex.size);
+    });
+    return cells;
+  });
+  const columns = Array.from(columnIndex.keys());
+  const rows = flat.map((cells) => columns.map((column) => (cells.has(column) ? cells.get(column)! : null)));
+  return { columns, rows };
+}
+
+function cellText(cell: Cell): string {
+  return cell === null ? "" : String(cell);
+}
+
+/** RFC 4180 text; TSV when `delimiter` is a tab */
+export function toDelimited(table: Table, delimiter: string, options: TableOptions = DEFAULT_TABLE_OPTIONS): string {
+  const quote = (text: string) => {
+    const needs =
+      options.quoting === "all" ||
+      text.includes(delimiter) ||
+      /["\r\n]/.test(text) ||
+      text !== text.trim();
+    return needs ? '"' + text.replace(/"/g, '""') + '"' : text;
+  };
+  const lines = table.rows.map((row) => row.map((cell) => quote(cellText(cell))).join(delimiter));
+  if (options.header) lines.unshift(table.columns.map(quote).join(delimiter));
+  return lines.join("\r\n") + "\r\n";
+}
+
+/** GitHub-flavoured Markdown table; numeric columns are right-aligned */
+export function toMarkdownTable(table: Table): string {
+  const escape = (text: string) => text.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+  const numeric = table.columns.map((_, c) =>
+    table.rows.some((row) => row[c] !== null) &&
+    table.rows.every((row) => row[c] === null || typeof row[c] === "number" || /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/.test(String(row[c])))
+  );
+  const line = (cells: string[]) => "| " + cells.join(" | ") + " |";
+  return (
+    [
+      line(table.columns.map(escape)),
+      line(numeric.map((right) => (right ? "---:" : "---"))),
+      ...table.rows.map((row) => line(row.map((cell) => escape(cellText(cell))))),
+    ].join("\n") + "\n"
+  );
+}
+
+// Plain scalars that YAML 1.1 or 1.2 readers would turn into something other than a string
+const YAML_TYPED = /^(~|null|Null|NULL|y|Y|yes|Yes|YES|n|N|no|No|NO|true|True|TRUE|false|False|FALSE|on|On|ON|off|Off|OFF)$/;
+const YAML_NUMBERISH = /^([-+]?(\.\d|\d)[\d_.,:]*([eE][-+]?\d+)?|0[xob][\dA-Fa-f_]+|[-+]?\.(inf|Inf|INF)|\.(nan|NaN|NAN)|\d{4}-\d\d?-\d\d?.*)$/;
+
+function yamlString(s: string): string {
+  const plain =
+    s !== "" &&
+    s === s.trim() &&
+    !YAML_TYPED.test(s) &&
+    !YAML_NUMBERISH.test(s) &&
+    !/^[-?:,[\]{}#&*!|>'"%@`]/.test(s) &&
+    !/: |:$| #|[\x00-\x1f\x7f\u0085\u2028\u2029\ufeff]/.test(s);
+  return plain ? s : JSON.stringify(s);
+}
+
+function yamlScalar(v: JsonValue, childPad: string): string {
+  if (isLosslessNumber(v)) return v.value;
+  if (typeof v !== "string") return JSON.stringify(v);
+  const lines = v.split("\n");
+  // Multi-line text reads best as a literal block; anything unusual stays quoted
+  if (lines.length > 1 && !/[\r\x00-\x08\x0b-\x1f\x7f]/.test(v) && !/^[ \t\n]/.test(v)) {
+    const chomp = !v.endsWith("\n") ? "-" : v.endsWith("\n\n") ? "+" : "";
+    if (v.endsWith("\n")) lines.pop();
+    return "|" + chomp + "\n" + lines.map((line) => (line ? childPad + line : "")).join("\n");
+  }
+  return yamlString(v);
+}
+
+/** Block-style YAML, readable without JSON knowledge; big numbers are written exactly */
+export function toYaml(value: JsonValue): string {
+  const isEmptyCollection = (v: JsonValue) => (Array.isArray(v) ? v.length === 0 : isObject(v) && Object.keys(v).length === 0);
+  const isCollection = (v: JsonValue) => Array.isArray(v) || isObject(v);
+
+  const block = (v: JsonObject | JsonArray, pad: string): string => {
+    const lines: string[] = [];
+    const entry = (lead: string, child: JsonValue) => {
+      if (isCollection(child) && !isEmptyCollection(child)) {
+        const inner = block(child as JsonObject | JsonArray, pad + "  ");
+        // Sequence items start on the dash line; mappings open their block on the next line
+        if (lead.endsWith("- ")) lines.push(pad + lead + inner.slice(pad.length + 2));
+        else lines.push(pad + lead.trimEnd(), inner);
+      } else {
+        const text = isEmptyCollection(child) ? (Array.isArray(child) ? "[]" : "{}") : yamlScalar(child, pad + "  ");
+        lines.push(pad + lead + text);
+      }
+    };
+    if (Array.isArray(v)) v.forEach((item) => entry("- ", item));
+    else for (const key of Object.keys(v)) entry(yamlString(key) + ": ", v[key]);
+    return lines.join("\n");
+  };
+
+  if (isEmptyCollection(value)) return (Array.isArray(value) ? "[]" : "{}") + "\n";
+  if (isCollection(value)) return block(value as JsonObject | JsonArray, "") + "\n";
+  return yamlScalar(value, "  ") + "\n";
+}
+
+/** An array exports one record per line; anything else is a single record */
+export function toNdjson(value: JsonValue): string {
+  return stringifyNdjson(Array.isArray(value) ? value : [value]);
+}
+
+/** Value at a dotted path; also accepts the `items[0]` form and "(root)" that scanStructure reports */
+export function valueAtPath(root: JsonValue, path: string): JsonValue | undefined {
+  if (!path || path === "(root)") return root;
+  let current: JsonValue | undefined = root;
+  for (const part of path.replace(/\[(\d+)\]/g, ".$1").replace(/^\./, "").split(".")) {
+    if (isObject(current!)) current = Object.prototype.hasOwnProperty.call(current, part) ? current[part] : undefined;
+    else if (Array.isArray(current)) current = current[Number(part)];
+    else return undefined;
+    if (current === undefined) return undefined;
+  }
+  return current;
+}
+
+/**
+ * Serialise `value` in the chosen format. Table formats need an array;
+ * anything else is exported as a one-row table.
+ */
+export function exportValue(value: JsonValue, format: ExportFormat, options: TableOptions = DEFAULT_TABLE_OPTIONS): string {
+  switch (format) {
+    case "csv":
+      return toDelimited(toTable(Array.isArray(value) ? value : [value], options), ",", options);
+    case "tsv":
+      return toDelimited(toTable(Array.isArray(value) ? value : [value], options), "\t", options);
+    case "markdown":
+      return toMarkdownTable(toTable(Array.isArray(value) ? value : [value], options));
+    case "yaml":
+      return toYaml(value);
+    case "ndjson":
+      return toNdjson(value);
+  }
+}
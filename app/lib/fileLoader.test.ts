@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { parseJsonFile } from "./fileLoader";
+import { parseJsonFile, parseJsonBytes, detectDialect, detectImportFormat, importFile, importBytes } from "./fileLoader";
 
 describe("parseJsonFile", () => {
   it("parses valid JSON object", () => {
@@ -32,3 +32,149 @@ describe("parseJsonFile", () => {
     expect(result.data).toEqual({ a: { b: [1, 2, { c: true }] } });
   });
 });
+
+describe("parseJsonFile error detail", () => {
+  it("returns a structured error location for invalid JSON", () => {
+    const result = parseJsonFile('{\n  "a": 1,\n  "b": }');
+    expect(result.errorDetail).toMatchObject({ line: 3, column: 8, expected: "a value", found: "'}'" });
+    expect(result.error).toBe(result.errorDetail?.message);
+  });
+
+  it("returns an error for nesting too deep to parse", () => {
+    const result = parseJsonFile("[".repeat(100000) + "]".repeat(100000), "deep.json");
+    expect(result.data).toBeUndefined();
+    expect(result.errorDetail?.expected).toBe("shallower nesting");
+  });
+
+  it("omits errorDetail on success", () => {
+    expect(parseJsonFile('{"a":1}').errorDetail).toBeUndefined();
+  });
+});
+
+describe("parseJsonFile dialects", () => {
+  it("detects the dialect from the file extension", () => {
+    expect(detectDialect("tsconfig.json")).toBe("json");
+    expect(detectDialect("settings.JSONC")).toBe("jsonc");
+    expect(detectDialect("app.json5")).toBe("json5");
+  });
+
+  it("loads jsonc with comments collected", () => {
+    const result = parseJsonFile('{\n  // c\n  "a": 1,\n}', "x.jsonc", { dialect: "jsonc" });
+    expect(result.data).toEqual({ a: 1 });
+    expect(result.dialect).toBe("jsonc");
+    expect(result.comments?.get("a")?.before).toEqual(["// c"]);
+  });
+
+  it("rejects comments in the default json mode", () => {
+    expect(parseJsonFile('{"a": 1 // c\n}').error).toBeDefined();
+  });
+});
+
+describe("parseJsonFile NDJSON", () => {
+  it("loads .jsonl files as a root array with per-record lines", () => {
+    const result = parseJsonFile('{"a":1}\n{"a":2}', "events.jsonl");
+    expect(result.format).toBe("ndjson");
+    expect(result.data).toEqual([{ a: 1 }, { a: 2 }]);
+    expect(result.lineMap?.get("1")).toBe(2);
+  });
+
+  it("detects NDJSON content in a .json file", () => {
+    const result = parseJsonFile('{"a":1}\n{"a":2}\n', "dump.json");
+    expect(result.error).toBeUndefined();
+    expect(result.format).toBe("ndjson");
+  });
+
+  it("keeps good records and lists bad lines", () => {
+    const result = parseJsonFile('{"a":1}\nnope\n{"a":3}', "x.ndjson");
+    expect(result.data).toEqual([{ a: 1 }, { a: 3 }]);
+    expect(result.lineErrors?.map((e) => e.line)).toEqual([2]);
+  });
+
+  it("fails when no line parses", () => {
+    const result = parseJsonFile("nope\nstill nope", "x.ndjson");
+    expect(result.data).toBeUndefined();
+    expect(result.errorDetail?.line).toBe(1);
+  });
+
+  it("does not treat an invalid pretty-printed file as NDJSON", () => {
+    const result = parseJsonFile('{\n  "a": 1,\n}', "bad.json");
+    expect(result.format).toBeUndefined();
+    expect(result.errorDetail?.line).toBe(3);
+  });
+});
+
+describe("parseJsonFile lossless numbers and duplicate keys", () => {
+  it("keeps 64-bit IDs exactly", () => {
+    const result = parseJsonFile('[{"id": 9007199254740993}]', "ids.json");
+    expect(result.data).toEqual([{ id: { isLosslessNumber: true, value: "9007199254740993" } }]);
+  });
+
+  it("reports duplicate keys and applies the policy", () => {
+    const result = parseJsonFile('{"a": 1, "a": 2}', "dup.json", { duplicateKeys: "keep-first" });
+    expect(result.data).toEqual({ a: 1 });
+    expect(result.duplicates?.map((d) => d.path)).toEqual(["a"]);
+  });
+
+  it("prefixes NDJSON duplicate paths with the record index", () => {
+    const result = parseJsonFile('{"a": 1}\n{"b": 1, "b": 2}', "x.ndjson");
+    expect(result.duplicates).toEqual([{ path: "1.b", key: "b", line: 2, column: 10 }]);
+  });
+});
+
+describe("parseJsonBytes", () => {
+  it("decodes UTF-16LE with a BOM and reports it", () => {
+    const text = '{"name": "Zoë"}';
+    const bytes = new Uint8Array(2 + text.length * 2);
+    bytes.set([0xff, 0xfe]);
+    for (let i = 0; i < text.length; i++) bytes[2 + i * 2] = text.charCodeAt(i);
+    const result = parseJsonBytes(bytes, "win.json");
+    expect(result.data).toEqual({ name: "Zoë" });
+    expect(result.encoding).toBe("utf-16le");
+    expect(result.bom).toBe(true);
+    expect(result.sizeBytes).toBe(bytes.length);
+  });
+
+  it("reads windows-1252 smart quotes instead of mangling them", () => {
+    const bytes = new Uint8Array([0x7b, 0x22, 0x71, 0x22, 0x3a, 0x22, 0x93, 0x68, 0x69, 0x94, 0x22, 0x7d, 0x0d, 0x0a]);
+    const result = parseJsonBytes(bytes, "ansi.json");
+    expect(result.data).toEqual({ q: "“hi”" });
+    expect(result.encoding).toBe("windows-1252");
+    expect(result.lineEnding).toBe("crlf");
+  });
+});
+
+describe("importFile", () => {
+  it("picks the importer from the extension", () => {
+    expect(detectImportFormat("data.YML")).toBe("yaml");
+    expect(detectImportFormat("table.tsv")).toBe("tsv");
+    expect(detectImportFormat("data.json")).toBeUndefined();
+  });
+
+  it("converts to JSON data and passes the conversion notes along", () => {
+    const result = importFile("a,b\n1,x\n2\n", "t.csv", "csv", { inference: { emptyAsNull: true } });
+    expect(result.data).toEqual([{ a: 1, b: "x" }, { a: 2 }]);
+    expect(result.importFormat).toBe("csv");
+    expect(result.importNotes?.map((n) => n.kind)).toEqual(["ragged-row"]);
+    expect(result.format).toBe("json");
+  });
+
+  it("applies import options per format", () => {
+    expect(importFile("a\tb\n1\t2", "t.tsv", "tsv", { csv: { headerRow: false } }).data).toEqual([
+      ["a", "b"],
+      [1, 2],
+    ]);
+    expect(importFile('<r k="1"/>', "r.xml", "xml", { xml: { attributePrefix: "$" } }).data).toEqual({ r: { $k: 1 } });
+  });
+
+  it("returns the importer's error", () => {
+    expect(importFile("a = ", "c.toml", "toml").error).toBe("Line 1: Expected a value");
+    expect(importFile("  ", "c.toml", "toml").error).toBe("Empty input");
+  });
+
+  it("decodes bytes before importing", () => {
+    const result = importBytes(new Uint8Array([0xef, 0xbb, 0xbf, 0x61, 0x3a, 0x20, 0x31, 0x0a]), "c.yaml", "yaml");
+    expect(result.data).toEqual({ a: 1 });
+    expect(result.bom).toBe(true);
+    expect(result.text).toBe("a: 1\n");
+  });
+});
@@ -1,26 +1,183 @@
-export type JsonValue = string | number | boolean | null | JsonObject | JsonArray;
+import { parseJson, type CommentMap, type DuplicateKey, type DuplicateKeyPolicy, type JsonDialect, type ParseErrorInfo, type ParseOptions } from "./jsonParser";
+import type { LosslessNumber } from "./losslessNumber";
+import { decodeBytes, detectLineEnding, type LineEnding, type TextEncodingName } from "./encoding";
+import { parseNdjson, looksLikeNdjson, type NdjsonLineError } from "./ndjson";
+import { DEFAULT_INFERENCE, type ConversionNote, type ImportFormat, type ImportResult, type InferenceOptions } from "./importers";
+import { importCsv, type CsvOptions } from "./csvImporter";
+import { importYaml } from "./yamlImporter";
+import { importToml } from "./tomlImporter";
+import { importXml, type XmlOptions } from "./xmlImporter";
+
+export type JsonValue = string | number | boolean | null | LosslessNumber | JsonObject | JsonArray;
 export type JsonObject = { [key: string]: JsonValue };
 export type JsonArray = JsonValue[];
 
+/** Document layout: a single JSON value, or one JSON value per line */
+export type DocumentFormat = "json" | "ndjson";
+
 export interface LoadResult {
   data?: JsonValue;
   filename?: string;
   sizeBytes?: number;
+  /** Source encoding and BOM — set when loading from bytes */
+  encoding?: TextEncodingName;
+  bom?: boolean;
+  lineEnding?: LineEnding | "mixed" | null;
+  dialect?: JsonDialect;
+  comments?: CommentMap;
+  format?: DocumentFormat;
+  /** NDJSON: lines that failed to parse and were left out of `data` */
+  lineErrors?: NdjsonLineError[];
+  /** NDJSON: source line of each record, keyed by record index */
+  lineMap?: Map<string, number>;
+  /** Repeated object keys, resolved with the `duplicateKeys` policy */
+  duplicates?: DuplicateKey[];
+  /** Set when the data was converted from YAML/TOML/CSV/XML */
+  importFormat?: ImportFormat;
+  /** What the conversion could not carry over exactly */
+  importNotes?: ConversionNote[];
   error?: string;
+  errorDetail?: ParseErrorInfo;
+}
+
+export interface LoadOptions {
+  dialect?: JsonDialect;
+  /** Omit to detect NDJSON from the extension or content */
+  format?: DocumentFormat;
+  /** Default keep-last, as JSON.parse does */
+  duplicateKeys?: DuplicateKeyPolicy;
+  /** Keep numbers a double would round as LosslessNumber (default true) */
+  lossless?: boolean;
+}
+
+export interface ImportOptions {
+  inference?: Partial<InferenceOptions>;
+  csv?: Partial<CsvOptions>;
+  xml?: Partial<XmlOptions>;
+}
+
+/** Pick a dialect from the file extension (.jsonc / .json5), defaulting to strict JSON */
+export function detectDialect(filename: string): JsonDialect {
+  if (/\.jsonc$/i.test(filename)) return "jsonc";
+  if (/\.json5$/i.test(filename)) return "json5";
+  return "json";
+}
+
+/** NDJSON from the .ndjson/.jsonl extension; undefined when the content has to decide */
+export function detectFormat(filename: string): DocumentFormat | undefined {
+  return /\.(ndjson|jsonl)$/i.test(filename) ? "ndjson" : undefined;
 }
 
-export function parseJsonFile(text: string, filename = ""): LoadResult {
+/** YAML/TOML/CSV/TSV/XML by extension; undefined for JSON and anything else */
+export function detectImportFormat(filename: string): ImportFormat | undefined {
+  const ext = /\.([a-z]+)$/i.exec(filename)?.[1].toLowerCase();
+  if (ext === "csv" || ext === "tsv" || ext === "toml" || ext === "xml") return ext;
+  if (ext === "yaml" || ext === "yml") return "yaml";
+  return undefined;
+}
+
+function loadNdjson(text: string, filename: string, sizeBytes: number, parseOptions: ParseOptions): LoadResult {
+  const { records, recordLines, errors, duplicates } = parseNdjson(text, parseOptions);
+  if (records.length === 0) {
+    const first = errors[0];
+    return { error: first ? first.message : "No records found", errorDetail: first?.detail, lineErrors: errors };
+  }
+  const lineMap = new Map(recordLines.map((line, i) => [String(i), line]));
+  return { data: records, filename, sizeBytes, dialect: "json", format: "ndjson", lineErrors: errors, lineMap, duplicates };
+}
+
+export function parseJsonFile(text: string, filename = "", options: LoadOptions = {}): LoadResult {
   if (!text || text.trim() === "") {
     return { error: "Empty input" };
   }
-  try {
-    const data = JSON.parse(text);
-    return {
-      data,
-      filename,
-      sizeBytes: new TextEncoder().encode(text).length,
-    };
-  } catch (err: unknown) {
-    return { error: err instanceof Error ? err.message : String(err) };
+  const dialect = options.dialect ?? "json";
+  const sizeBytes = new TextEncoder().encode(text).length;
+  const format = options.format ?? detectFormat(filename);
+  // JSON.parse would round big numbers and silently drop duplicate keys, so always use our parser
+  const parseOptions: ParseOptions = { lossless: options.lossless ?? true, duplicateKeys: options.duplicateKeys };
+
+  if (format === "ndjson") return loadNdjson(text, filename, sizeBytes, parseOptions);
+
+  const { value, comments, duplicates, error } = parseJson(text, { ...parseOptions, dialect, collectComments: dialect !== "json" });
+  if (error) {
+    if (dialect === "json" && format === undefined && looksLikeNdjson(text)) return loadNdjson(text, filename, sizeBytes, parseOptions);
+    return { error: error.message, errorDetail: error };
   }
+  const result: LoadResult = { data: value, filename, sizeBytes, dialect, duplicates };
+  if (dialect === "json") result.format = "json";
+  else result.comments = comments;
+  return result;
+}
+
+/** parseJsonFile on raw file bytes: detects the encoding and BOM first. `text` is the decoded input. */
+export function parseJsonBytes(
+  bytes: Uint8Array,
+  filename = "",
+  options: LoadOptions = {}
+): LoadResult & { text: string } {
+  const { text, encoding } = decodeBytes(bytes);
+  const result = parseJsonFile(text, filename, options);
+  return {
+    ...result,
+    sizeBytes: result.error ? undefined : bytes.length,
+    encoding: encoding.encoding,
+    bom: encoding.bom,
+    lineEnding: detectLineEnding(text),
+    text,
+  };
+}
+
+/** Convert a YAML/TOML/CSV/XML file into JSON data; `importNotes` lists anything lossy */
+export function importFile(text: string, filename: string, format: ImportFormat, options: ImportOptions = {}): LoadResult {
+  if (!text || text.trim() === "") {
+    return { error: "Empty input" };
+  }
+  const inference: InferenceOptions = { ...DEFAULT_INFERENCE, ...options.inference };
+  let result: ImportResult;
+  switch (format) {
+    case "csv":
+      result = importCsv(text, { ...options.csv }, inference);
+      break;
+    case "tsv":
+      result = importCsv(text, { delimiter: "\t", ...options.csv }, inference);
+      break;
+    case "yaml":
+      result = importYaml(text, inference);
+      break;
+    case "toml":
+      result = importToml(text);
+      break;
+    case "xml":
+      result = importXml(text, { ...options.xml }, inference);
+      break;
+  }
+  if (result.error !== undefined) return { error: result.error, importFormat: format, importNotes: result.notes };
+  return {
+    data: result.data,
+    filename,
+    sizeBytes: new TextEncoder().encode(text).length,
+    dialect: "json",
+    format: "json",
+    importFormat: format,
+    importNotes: result.notes,
+  };
+}
+
+/** importFile on raw file bytes, with the same encoding detection as parseJsonBytes */
+export function importBytes(
+  bytes: Uint8Array,
+  filename: string,
+  format: ImportFormat,
+  options: ImportOptions = {}
+): LoadResult & { text: string } {
+  const { text, encoding } = decodeBytes(bytes);
+  const result = importFile(text, filename, format, options);
+  return {
+    ...result,
+    sizeBytes: result.error ? undefined : bytes.length,
+    encoding: encoding.encoding,
+    bom: encoding.bom,
+    lineEnding: detectLineEnding(text),
+    text,
+  };
 }
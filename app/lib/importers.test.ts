@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { inferScalar } from "./importers";
+import { losslessNumber } from "./losslessNumber";
+
+describe("inferScalar", () => {
+  const on = { detectNumbers: true, emptyAsNull: false };
+
+  it("turns JSON-shaped numbers into numbers, keeping big ones exact", () => {
+    expect(inferScalar("42", on)).toBe(42);
+    expect(inferScalar("-1.5e3", on)).toBe(-1500);
+    expect(inferScalar("12345678901234567890", on)).toEqual(losslessNumber("12345678901234567890"));
+  });
+
+  it("leaves codes with leading zeros and other text as strings", () => {
+    expect(inferScalar("007", on)).toBe("007");
+    expect(inferScalar("1,5", on)).toBe("1,5");
+    expect(inferScalar(" 1", on)).toBe(" 1");
+  });
+
+  it("follows the options", () => {
+    expect(inferScalar("42", { detectNumbers: false, emptyAsNull: false })).toBe("42");
+    expect(inferScalar("", on)).toBe("");
+    expect(inferScalar("", { detectNumbers: true, emptyAsNull: true })).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import type { JsonValue } from "./fileLoader";
+import { parseNumberLiteral } from "./losslessNumber";
+
+export type ImportFormat = "csv" | "tsv" | "yaml" | "toml" | "xml";
+
+/** How untyped text (CSV cells, YAML plain scalars, XML text) becomes JSON values */
+export interface InferenceOptions {
+  /** Turn numeric-looking text into numbers (big ones stay exact as LosslessNumber) */
+  detectNumbers: boolean;
+  /** Empty text becomes null instead of "" */
+  emptyAsNull: boolean;
+}
+
+export const DEFAULT_INFERENCE: InferenceOptions = { detectNumbers: true, emptyAsNull: false };
+
+/** Something the JSON result cannot represent faithfully */
+export interface ConversionNote {
+  kind: string;
+  message: string;
+  /** 1-based source line, when the note is about one spot */
+  line?: number;
+}
+
+export interface ImportResult {
+  data?: JsonValue;
+  notes: ConversionNote[];
+  error?: string;
+  /** 1-based line of the error */
+  errorLine?: number;
+}
+
+/** Thrown inside an importer to stop with a located error; caught by the importer itself */
+export class ImportFailure {
+  constructor(
+    readonly line: number,
+    readonly message: string
+  ) {}
+}
+
+/** Build the ImportResult for a caught error (rethrows anything that is not an ImportFailure) */
+export function failedImport(err: unknown, notes: ConversionNote[]): ImportResult {
+  if (!(err instanceof ImportFailure)) throw err;
+  return { notes, error: `Line ${err.line}: ${err.message}`, errorLine: err.line };
+}
+
+const JSON_NUMBER = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+/** Apply the inference options to one piece of untyped text */
+export function inferScalar(text: string, options: InferenceOptions): JsonValue {
+  if (text === "") return options.emptyAsNull ? null : "";
+  if (options.detectNumbers && JSON_NUMBER.test(text)) return parseNumberLiteral(text, true);
+  return text;
+}
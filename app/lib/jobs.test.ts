@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { driveJob, estimateRemainingMs, runJob, type Job, type JobProgress } from "./jobs";
+
+function* count(to: number, log: string[] = []): Job<number> {
+  try {
+    for (let i = 0; i < to; i++) yield { phase: "Counting", processed: i, total: to };
+    return to;
+  } finally {
+    log.push("closed");
+  }
+}
+
+describe("runJob", () => {
+  it("runs a job straight through to its result", () => {
+    expect(runJob(count(5))).toBe(5);
+  });
+});
+
+describe("driveJob", () => {
+  it("completes with the job's result", async () => {
+    expect(await driveJob(count(100), { isCancelled: () => false })).toEqual({ cancelled: false, value: 100 });
+  });
+
+  it("stops a cancelled job at its next checkpoint and closes it", async () => {
+    const log: string[] = [];
+    let checks = 0;
+    const outcome = await driveJob(count(100, log), { isCancelled: () => ++checks > 3 });
+    expect(outcome).toEqual({ cancelled: true });
+    expect(log).toEqual(["closed"]);
+  });
+
+  it("reports the latest checkpoint once per slice, letting other work in between", async () => {
+    const seen: JobProgress[] = [];
+    let cancel = false;
+    // Another message handled between slices cancels the job
+    setTimeout(() => { cancel = true; }, 0);
+    const outcome = await driveJob(count(100), {
+      isCancelled: () => cancel,
+      onProgress: (progress) => seen.push(progress),
+      sliceMs: 0,
+    });
+    expect(outcome).toEqual({ cancelled: true });
+    expect(seen.length).toBeGreaterThan(0);
+    expect(seen[0]).toEqual({ phase: "Counting", processed: 0, total: 100 });
+  });
+});
+
+describe("estimateRemainingMs", () => {
+  it("extrapolates the phase's rate so far", () => {
+    expect(estimateRemainingMs(1000, { phase: "p", processed: 25, total: 100 }, 2000)).toBe(3000);
+  });
+
+  it("has no estimate without a total or before the first item", () => {
+    expect(estimateRemainingMs(1000, { phase: "p", processed: 10, total: 0 }, 2000)).toBeUndefined();
+    expect(estimateRemainingMs(1000, { phase: "p", processed: 0, total: 10 }, 2000)).toBeUndefined();
+  });
+});
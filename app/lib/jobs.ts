@@ -0,0 +1,83 @@
+/**
+ * Long-running work as a generator that yields a checkpoint now and then: what
+ * it is doing and how far it has got. Run to the end in one go it is an
+ * ordinary function call (`runJob`); a worker instead drives it in time slices
+ * (`driveJob`), reporting progress and stopping at a checkpoint when the job
+ * is cancelled.
+ */
+
+export interface JobProgress {
+  phase: string;
+  processed: number;
+  /** 0 when the total is not known */
+  total: number;
+}
+
+export type Job<T> = Generator<JobProgress, T, void>;
+
+/** Run a job straight through and return its result */
+export function runJob<T>(job: Job<T>): T {
+  let step = job.next();
+  while (!step.done) step = job.next();
+  return step.value;
+}
+
+export interface JobControl {
+  /** Checked at every checkpoint; true stops the job there */
+  isCancelled: () => boolean;
+  /** Called at most once per slice, with the latest checkpoint and the time its phase has left */
+  onProgress?: (progress: JobProgress, etaMs: number | undefined) => void;
+  /** How long the job runs before giving the event loop a turn; default 50 ms */
+  sliceMs?: number;
+}
+
+export type DrivenJob<T> = { cancelled: false; value: T } | { cancelled: true };
+
+const nextTurn = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+/** Thrown into a cancelled job to close it: its `finally` blocks run and it has no result to return */
+class JobCancelled {}
+
+function closeJob<T>(job: Job<T>): void {
+  try {
+    job.throw(new JobCancelled());
+  } catch (err: unknown) {
+    if (!(err instanceof JobCancelled)) throw err;
+  }
+}
+
+/**
+ * Run a job in slices, letting other messages (a cancel request) through
+ * between them. A cancelled job is closed at its checkpoint and its result
+ * never computed.
+ */
+export async function driveJob<T>(job: Job<T>, control: JobControl): Promise<DrivenJob<T>> {
+  const sliceMs = control.sliceMs ?? 50;
+  let sliceStart = Date.now();
+  let phase: string | undefined;
+  let phaseStart = sliceStart;
+  for (;;) {
+    if (control.isCancelled()) {
+      closeJob(job);
+      return { cancelled: true };
+    }
+    const step = job.next();
+    if (step.done) return { cancelled: false, value: step.value };
+    if (step.value.phase !== phase) {
+      phase = step.value.phase;
+      phaseStart = Date.now();
+    }
+    if (Date.now() - sliceStart >= sliceMs) {
+      control.onProgress?.(step.value, estimateRemainingMs(phaseStart, step.value));
+      await nextTurn();
+      sliceStart = Date.now();
+    }
+  }
+}
+
+/** Milliseconds left in a phase at its rate so far; undefined until there is a rate to go by */
+export function estimateRemainingMs(phaseStartMs: number, progress: JobProgress, now = Date.now()): number | undefined {
+  if (progress.total <= 0 || progress.processed <= 0) return undefined;
+  const elapsed = now - phaseStartMs;
+  return Math.max(0, Math.round((elapsed / progress.processed) * (progress.total - progress.processed)));
+}
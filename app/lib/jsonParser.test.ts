@@ -0,0 +1,180 @@
+import { describe, it, expect } from "vitest";
+import { parseJson, errorExcerpt, offsetToLineColumn } from "./jsonParser";
+
+describe("parseJson", () => {
+  it("parses the same values as JSON.parse", () => {
+    const input = '{"a": [1, -2.5e3, true, false, null], "b": {"c": "x\\n\\u0041"}}';
+    expect(parseJson(input).value).toEqual(JSON.parse(input));
+  });
+
+  it("keeps __proto__ as an own property", () => {
+    const { value } = parseJson('{"__proto__": {"x": 1}}');
+    expect(Object.keys(value as object)).toEqual(["__proto__"]);
+    expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+  });
+
+  it("reports line, column, offset, expected and found for a missing comma", () => {
+    const { value, error } = parseJson('{\n  "a": 1\n  "b": 2\n}');
+    expect(value).toBeUndefined();
+    expect(error).toMatchObject({
+      line: 3,
+      column: 3,
+      offset: 13,
+      expected: "',' or '}'",
+      found: "'\"'",
+    });
+    expect(error?.message).toBe("Expected ',' or '}' but found '\"' at line 3, column 3");
+  });
+
+  it("reports end of input for truncated documents", () => {
+    const { error } = parseJson('[1, 2');
+    expect(error?.found).toBe("end of input");
+    expect(error?.expected).toBe("',' or ']'");
+  });
+
+  it("rejects unquoted keys", () => {
+    const { error } = parseJson("{a: 1}");
+    expect(error?.expected).toBe("a string key");
+    expect(error?.column).toBe(2);
+  });
+
+  it("rejects raw control characters in strings", () => {
+    const { error } = parseJson('"a\tb"');
+    expect(error?.found).toBe("control character U+0009");
+  });
+
+  it("rejects trailing content", () => {
+    const { error } = parseJson('{"a": 1} x');
+    expect(error?.expected).toBe("end of input");
+    expect(error?.offset).toBe(9);
+  });
+
+  it("rejects malformed numbers", () => {
+    expect(parseJson("01").error).toBeDefined();
+    expect(parseJson("1.").error?.expected).toBe("digit after '.'");
+    expect(parseJson("-").error?.expected).toBe("digit");
+  });
+
+  it("reports nesting deeper than the call stack as an error, not a throw", () => {
+    const { value, error } = parseJson("[".repeat(100000) + "]".repeat(100000));
+    expect(value).toBeUndefined();
+    expect(error?.expected).toBe("shallower nesting");
+    expect(error?.offset).toBeGreaterThan(0);
+  });
+});
+
+describe("offsetToLineColumn", () => {
+  it("counts lines and columns from 1", () => {
+    expect(offsetToLineColumn("ab\ncd", 0)).toEqual({ line: 1, column: 1 });
+    expect(offsetToLineColumn("ab\ncd", 4)).toEqual({ line: 2, column: 2 });
+  });
+});
+
+describe("errorExcerpt", () => {
+  it("returns surrounding lines with a marker on the error line", () => {
+    const text = "[\n1,\n2,\n3 4\n]\n";
+    const { error } = parseJson(text);
+    const lines = errorExcerpt(text, error!, 1);
+    expect(lines.map((l) => l.lineNumber)).toEqual([3, 4, 5]);
+    const errLine = lines.find((l) => l.markerIndex !== undefined)!;
+    expect(errLine.lineNumber).toBe(4);
+    expect(errLine.text[errLine.markerIndex!]).toBe("4");
+  });
+
+  it("clips very long lines around the error column", () => {
+    const text = "[" + "1,".repeat(5000) + "x]";
+    const { error } = parseJson(text);
+    const [line] = errorExcerpt(text, error!);
+    expect(line.text.length).toBeLessThanOrEqual(120);
+    expect(line.text[line.markerIndex!]).toBe("x");
+  });
+});
+
+describe("parseJson dialects", () => {
+  it("rejects comments and trailing commas in strict mode", () => {
+    expect(parseJson('{"a": 1 // c\n}').error).toBeDefined();
+    expect(parseJson("[1, 2,]").error?.expected).toBe("a value");
+  });
+
+  it("accepts comments and trailing commas in jsonc", () => {
+    const { value, error } = parseJson('{\n  // c\n  "a": [1, 2,], /* b */\n}', { dialect: "jsonc" });
+    expect(error).toBeUndefined();
+    expect(value).toEqual({ a: [1, 2] });
+  });
+
+  it("keeps jsonc strict about quotes and keys", () => {
+    expect(parseJson("{'a': 1}", { dialect: "jsonc" }).error).toBeDefined();
+    expect(parseJson("{a: 1}", { dialect: "jsonc" }).error).toBeDefined();
+  });
+
+  it("accepts json5 single quotes, unquoted keys and hex numbers", () => {
+    const { value, error } = parseJson("{unquoted: 'it\\'s', hex: 0xFF, neg: -0x10, half: .5, whole: 2., plus: +3}", {
+      dialect: "json5",
+    });
+    expect(error).toBeUndefined();
+    expect(value).toEqual({ unquoted: "it's", hex: 255, neg: -16, half: 0.5, whole: 2, plus: 3 });
+  });
+
+  it("reports an unterminated block comment", () => {
+    const { error } = parseJson("[1 /* open", { dialect: "jsonc" });
+    expect(error?.expected).toBe("'*/'");
+  });
+});
+
+describe("comment collection", () => {
+  const text = [
+    "// file header",
+    "{",
+    "  // about a",
+    '  "a": 1, // trailing a',
+    '  "list": [',
+    "    /* first */ 10,",
+    "    20 // second",
+    "  ],",
+    "  // dangling",
+    "}",
+    "// footer",
+  ].join("\n");
+
+  it("attaches leading, same-line and dangling comments by path", () => {
+    const { comments, error } = parseJson(text, { dialect: "jsonc", collectComments: true });
+    expect(error).toBeUndefined();
+    expect(comments!.get("")).toEqual({ before: ["// file header"], after: ["// footer"], end: ["// dangling"] });
+    expect(comments!.get("a")).toEqual({ before: ["// about a"], after: ["// trailing a"], end: [] });
+    expect(comments!.get("list.0")?.before).toEqual(["/* first */"]);
+    expect(comments!.get("list.1")?.after).toEqual(["// second"]);
+  });
+
+  it("does not collect comments unless asked", () => {
+    expect(parseJson(text, { dialect: "jsonc" }).comments).toBeUndefined();
+  });
+});
+
+describe("lossless numbers and duplicate keys", () => {
+  it("keeps big numbers exactly when lossless", () => {
+    const { value } = parseJson('{"id": 9007199254740993, "n": 1.5}', { lossless: true });
+    expect(value).toEqual({ id: { isLosslessNumber: true, value: "9007199254740993" }, n: 1.5 });
+    expect(parseJson("9007199254740993").value).toBe(9007199254740992);
+  });
+
+  it("reports duplicate keys with their paths and keeps the last by default", () => {
+    const { value, duplicates } = parseJson('{"a": {"x": 1,\n "x": 2}}');
+    expect(value).toEqual({ a: { x: 2 } });
+    expect(duplicates).toEqual([{ path: "a.x", key: "x", line: 2, column: 2 }]);
+  });
+
+  it("keeps the first value with keep-first", () => {
+    const { value } = parseJson('{"x": 1, "x": {"deep": true}}', { duplicateKeys: "keep-first" });
+    expect(value).toEqual({ x: 1 });
+  });
+
+  it("renames later values with a numbered suffix", () => {
+    const { value, duplicates } = parseJson('{"x": 1, "x": 2, "x~2": 0, "x": 3}', { duplicateKeys: "rename" });
+    expect(value).toEqual({ x: 1, "x~2": 2, "x~2~2": 0, "x~3": 3 });
+    expect(duplicates?.map((d) => d.renamedTo)).toEqual(["x~2", "x~2~2", "x~3"]);
+  });
+
+  it("omits duplicates when there are none", () => {
+    expect(parseJson('{"a": 1}').duplicates).toBeUndefined();
+  });
+});
@@ -0,0 +1,497 @@
+import type { JsonValue, JsonObject, JsonArray } from "./fileLoader";
+import { parseNumberLiteral } from "./losslessNumber";
+
+export interface ParseErrorInfo {
+  message: string;
+  line: number;
+  column: number;
+  offset: number;
+  expected: string;
+  found: string;
+}
+
+export type JsonDialect = "json" | "jsonc" | "json5";
+
+/** Comments attached to one node, keyed in a CommentMap by the node's dot path ("" = root) */
+export interface NodeComments {
+  /** Comments on the lines before the node */
+  before: string[];
+  /** Comments on the same line after the node */
+  after: string[];
+  /** Dangling comments before a container's closing bracket */
+  end: string[];
+}
+
+export type CommentMap = Map<string, NodeComments>;
+
+/** What to do when an object repeats a key. JSON.parse keeps the last value. */
+export type DuplicateKeyPolicy = "keep-first" | "keep-last" | "rename";
+
+export interface DuplicateKey {
+  /** Dot path of the repeated member */
+  path: string;
+  key: string;
+  line: number;
+  column: number;
+  /** Key the later value was stored under with the "rename" policy */
+  renamedTo?: string;
+}
+
+export interface ParseOptions {
+  dialect?: JsonDialect;
+  /** Collect comments into a CommentMap (jsonc/json5 only) */
+  collectComments?: boolean;
+  /** Keep number literals a double would round as LosslessNumber */
+  lossless?: boolean;
+  duplicateKeys?: DuplicateKeyPolicy;
+}
+
+export interface ParseResult {
+  value?: JsonValue;
+  comments?: CommentMap;
+  /** Repeated keys, in source order; only set when there were any */
+  duplicates?: DuplicateKey[];
+  error?: ParseErrorInfo;
+}
+
+export interface ExcerptLine {
+  lineNumber: number;
+  text: string;
+  /** 0-based position of the error marker within `text`, only on the error line */
+  markerIndex?: number;
+}
+
+const EXCERPT_WIDTH = 120;
+
+/** Thrown internally to unwind the recursive descent; never escapes parseJson */
+class ParseFailure {
+  constructor(
+    readonly offset: number,
+    readonly expected: string
+  ) {}
+}
+
+/** RangeError in V8 and WebKit, InternalError ("too much recursion") in Firefox */
+function isStackOverflow(err: unknown): boolean {
+  return err instanceof RangeError || (err instanceof Error && err.name === "InternalError");
+}
+
+/** Dot path of a child node — same convention as the editor's lineMap */
+export function childPath(parent: string, key: string | number): string {
+  return parent ? `${parent}.${key}` : String(key);
+}
+
+/** `key~2`, `key~3`… — the first suffix not already used in `obj` */
+export function duplicateKeyName(obj: object, key: string): string {
+  let n = 2;
+  while (Object.prototype.hasOwnProperty.call(obj, `${key}~${n}`)) n++;
+  return `${key}~${n}`;
+}
+
+/** Map a character offset to a 1-based line/column */
+export function offsetToLineColumn(text: string, offset: number): { line: number; column: number } {
+  let line = 1;
+  let lineStart = 0;
+  const end = Math.min(offset, text.length);
+  for (let i = 0; i < end; i++) {
+    if (text.charCodeAt(i) === 10) {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: offset - lineStart + 1 };
+}
+
+function describeFound(text: string, offset: number): string {
+  if (offset >= text.length) return "end of input";
+  const ch = text[offset];
+  const code = ch.charCodeAt(0);
+  if (code < 0x20) return `control character U+${code.toString(16).toUpperCase().padStart(4, "0")}`;
+  return `'${ch}'`;
+}
+
+/**
+ * Hand-written parser for JSON and its relaxed dialects. Slower than JSON.parse,
+ * but every failure carries the exact offset, line and column plus what was
+ * expected at that point.
+ *
+ *   json  — strict RFC 8259
+ *   jsonc — json + comments and trailing commas (tsconfig-style)
+ *   json5 — jsonc + single quotes, unquoted keys, hex and +/. numbers
+ */
+export function parseJson(text: string, options: ParseOptions = {}): ParseResult {
+  const dialect = options.dialect ?? "json";
+  const relaxed = dialect !== "json";
+  const json5 = dialect === "json5";
+  const comments: CommentMap | undefined = options.collectComments ? new Map() : undefined;
+  const lossless = options.lossless ?? false;
+  const policy = options.duplicateKeys ?? "keep-last";
+  const duplicates: DuplicateKey[] = [];
+  let pending: string[] = [];
+  let pos = 0;
+  const len = text.length;
+
+  const fail = (expected: string): never => {
+    throw new ParseFailure(pos, expected);
+  };
+
+  const commentsFor = (path: string): NodeComments => {
+    let c = comments!.get(path);
+    if (!c) {
+      c = { before: [], after: [], end: [] };
+      comments!.set(path, c);
+    }
+    return c;
+  };
+
+  const flushPending = (path: string, slot: "before" | "end") => {
+    if (comments && pending.length > 0) commentsFor(path)[slot].push(...pending);
+    pending = [];
+  };
+
+  // Reads a comment starting at pos (caller checked for "//" or "/*")
+  const readComment = (): string => {
+    const start = pos;
+    if (text[pos + 1] === "/") {
+      const nl = text.indexOf("\n", pos);
+      pos = nl === -1 ? len : nl;
+      return text.slice(start, pos).replace(/\r$/, "");
+    }
+    const close = text.indexOf("*/", pos + 2);
+    if (close === -1) {
+      pos = len;
+      fail("'*/'");
+    }
+    pos = close + 2;
+    return text.slice(start, pos);
+  };
+
+  const isCommentStart = () => relaxed && text[pos] === "/" && (text[pos + 1] === "/" || text[pos + 1] === "*");
+
+  const skipTrivia = () => {
+    while (pos < len) {
+      const c = text.charCodeAt(pos);
+      if (c === 0x20 || c === 0x0a || c === 0x0d || c === 0x09) pos++;
+      else if (json5 && (c === 0xa0 || c === 0xfeff || c === 0x2028 || c === 0x2029 || c === 0x0b || c === 0x0c)) pos++;
+      else if (isCommentStart()) {
+        const comment = readComment();
+        if (comments) pending.push(comment);
+      } else break;
+    }
+  };
+
+  // Comments on the same line right after a value belong to that value
+  const takeSameLineComments = (path: string) => {
+    if (!relaxed) return;
+    for (;;) {
+      let p = pos;
+      while (text[p] === " " || text[p] === "\t") p++;
+      if (text[p] !== "/" || (text[p + 1] !== "/" && text[p + 1] !== "*")) return;
+      pos = p;
+      const comment = readComment();
+      if (comments) commentsFor(path).after.push(comment);
+    }
+  };
+
+  const isDigit = (ch: string | undefined) => ch !== undefined && ch >= "0" && ch <= "9";
+
+  const parseString = (): string => {
+    // Caller guarantees text[pos] is the opening quote
+    const quote = text[pos];
+    const closing = `closing '${quote}'`;
+    pos++;
+    let result = "";
+    let chunkStart = pos;
+    while (pos < len) {
+      const ch = text[pos];
+      if (ch === quote) {
+        result += text.slice(chunkStart, pos);
+        pos++;
+        return result;
+      }
+      if (ch === "\\") {
+        result += text.slice(chunkStart, pos);
+        pos++;
+        const esc = text[pos];
+        switch (esc) {
+          case '"': result += '"'; break;
+          case "\\": result += "\\"; break;
+          case "/": result += "/"; break;
+          case "b": result += "\b"; break;
+          case "f": result += "\f"; break;
+          case "n": result += "\n"; break;
+          case "r": result += "\r"; break;
+          case "t": result += "\t"; break;
+          case "u": {
+            const hex = text.slice(pos + 1, pos + 5);
+            if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+              pos++;
+              fail("4 hex digits after \\u");
+            }
+            result += String.fromCharCode(parseInt(hex, 16));
+            pos += 4;
+            break;
+          }
+          default:
+            if (!json5) fail("valid escape sequence");
+            if (esc === "'") result += "'";
+            else if (esc === "v") result += "\v";
+            else if (esc === "0" && !isDigit(text[pos + 1])) result += "\0";
+            else if (esc === "x") {
+              const hex = text.slice(pos + 1, pos + 3);
+              if (!/^[0-9a-fA-F]{2}$/.test(hex)) {
+                pos++;
+                fail("2 hex digits after \\x");
+              }
+              result += String.fromCharCode(parseInt(hex, 16));
+              pos += 2;
+            } else if (esc === "\n") {
+              // Line continuation
+            } else if (esc === "\r") {
+              if (text[pos + 1] === "\n") pos++;
+            } else if (esc === undefined || isDigit(esc)) {
+              fail("valid escape sequence");
+            } else {
+              result += esc;
+            }
+        }
+        pos++;
+        chunkStart = pos;
+        continue;
+      }
+      if (ch.charCodeAt(0) < 0x20) fail(closing);
+      pos++;
+    }
+    return fail(closing);
+  };
+
+  const parseNumber = (): JsonValue => {
+    const start = pos;
+    if (text[pos] === "-" || (json5 && text[pos] === "+")) pos++;
+    if (json5 && text[pos] === "0" && (text[pos + 1] === "x" || text[pos + 1] === "X")) {
+      pos += 2;
+      const digitsStart = pos;
+      while (/[0-9a-fA-F]/.test(text[pos] ?? "")) pos++;
+      if (pos === digitsStart) fail("hex digit");
+      const magnitude = parseInt(text.slice(digitsStart, pos), 16);
+      return text[start] === "-" ? -magnitude : magnitude;
+    }
+    let intDigits = 0;
+    if (text[pos] === "0") {
+      pos++;
+      intDigits = 1;
+    } else if (text[pos] >= "1" && text[pos] <= "9") {
+      while (isDigit(text[pos])) {
+        pos++;
+        intDigits++;
+      }
+    } else if (!(json5 && text[pos] === "." && isDigit(text[pos + 1]))) {
+      fail("digit");
+    }
+    if (text[pos] === ".") {
+      pos++;
+      if (!isDigit(text[pos])) {
+        // json5 allows "1." but not a bare "."
+        if (!json5 || intDigits === 0) fail("digit after '.'");
+      }
+      while (isDigit(text[pos])) pos++;
+    }
+    if (text[pos] === "e" || text[pos] === "E") {
+      pos++;
+      if (text[pos] === "+" || text[pos] === "-") pos++;
+      if (!isDigit(text[pos])) fail("digit in exponent");
+      while (isDigit(text[pos])) pos++;
+    }
+    return parseNumberLiteral(text.slice(start, pos), lossless);
+  };
+
+  const parseLiteral = <T extends JsonValue>(word: string, value: T): T => {
+    for (let k = 0; k < word.length; k++) {
+      if (text[pos] !== word[k]) fail(`'${word}'`);
+      pos++;
+    }
+    return value;
+  };
+
+  const parseKey = (): string => {
+    const ch = text[pos];
+    if (ch === '"' || (json5 && ch === "'")) return parseString();
+    if (json5 && /[A-Za-z_$]/.test(ch ?? "")) {
+      const start = pos;
+      while (/[\w$]/.test(text[pos] ?? "")) pos++;
+      return text.slice(start, pos);
+    }
+    return fail("a string key");
+  };
+
+  const parseValue = (path: string): JsonValue => {
+    skipTrivia();
+    const ch = text[pos];
+    if (ch === "{") return parseObject(path);
+    if (ch === "[") return parseArray(path);
+    if (ch === '"' || (json5 && ch === "'")) return parseString();
+    if (ch === "-" || isDigit(ch) || (json5 && (ch === "+" || ch === "."))) return parseNumber();
+    if (ch === "t") return parseLiteral("true", true);
+    if (ch === "f") return parseLiteral("false", false);
+    if (ch === "n") return parseLiteral("null", null);
+    return fail("a value");
+  };
+
+  const parseObject = (path: string): JsonObject => {
+    pos++;
+    const obj: JsonObject = {};
+    skipTrivia();
+    if (text[pos] === "}") {
+      flushPending(path, "end");
+      pos++;
+      return obj;
+    }
+    for (;;) {
+      const keyOffset = pos;
+      let key = parseKey();
+      let discard = false;
+      if (Object.prototype.hasOwnProperty.call(obj, key)) {
+        const { line, column } = offsetToLineColumn(text, keyOffset);
+        const duplicate: DuplicateKey = { path: childPath(path, key), key, line, column };
+        if (policy === "rename") key = duplicate.renamedTo = duplicateKeyName(obj, key);
+        else if (policy === "keep-first") discard = true;
+        duplicates.push(duplicate);
+      }
+      const memberPath = childPath(path, key);
+      flushPending(memberPath, "before");
+      skipTrivia();
+      if (text[pos] !== ":") fail("':'");
+      pos++;
+      const value = parseValue(memberPath);
+      // keep-first still parses the later value (it must be valid) but drops it
+      if (!discard) {
+        if (key === "__proto__") {
+          // Plain assignment would replace the prototype; JSON.parse creates an own property
+          Object.defineProperty(obj, key, { value, enumerable: true, writable: true, configurable: true });
+        } else {
+          obj[key] = value;
+        }
+      }
+      takeSameLineComments(memberPath);
+      skipTrivia();
+      if (text[pos] === ",") {
+        pos++;
+        takeSameLineComments(memberPath);
+        skipTrivia();
+        if (relaxed && text[pos] === "}") {
+          flushPending(path, "end");
+          pos++;
+          return obj;
+        }
+        continue;
+      }
+      if (text[pos] === "}") {
+        flushPending(path, "end");
+        pos++;
+        return obj;
+      }
+      fail("',' or '}'");
+    }
+  };
+
+  const parseArray = (path: string): JsonArray => {
+    pos++;
+    const arr: JsonArray = [];
+    skipTrivia();
+    if (text[pos] === "]") {
+      flushPending(path, "end");
+      pos++;
+      return arr;
+    }
+    for (;;) {
+      const elementPath = childPath(path, arr.length);
+      flushPending(elementPath, "before");
+      arr.push(parseValue(elementPath));
+      takeSameLineComments(elementPath);
+      skipTrivia();
+      if (text[pos] === ",") {
+        pos++;
+        takeSameLineComments(elementPath);
+        skipTrivia();
+        if (relaxed && text[pos] === "]") {
+          flushPending(path, "end");
+          pos++;
+          return arr;
+        }
+        continue;
+      }
+      if (text[pos] === "]") {
+        flushPending(path, "end");
+        pos++;
+        return arr;
+      }
+      fail("',' or ']'");
+    }
+  };
+
+  try {
+    skipTrivia();
+    flushPending("", "before");
+    const value = parseValue("");
+    takeSameLineComments("");
+    skipTrivia();
+    if (comments && pending.length > 0) commentsFor("").after.push(...pending);
+    if (pos < len) fail("end of input");
+    const result: ParseResult = { value };
+    if (comments) result.comments = comments;
+    if (duplicates.length > 0) result.duplicates = duplicates;
+    return result;
+  } catch (err: unknown) {
+    // Nesting deeper than the call stack goes is reported where the descent gave up
+    const failure = err instanceof ParseFailure ? err : isStackOverflow(err) ? new ParseFailure(pos, "shallower nesting") : null;
+    if (!failure) throw err;
+    const { line, column } = offsetToLineColumn(text, failure.offset);
+    const found = describeFound(text, failure.offset);
+    return {
+      error: {
+        message: `Expected ${failure.expected} but found ${found} at line ${line}, column ${column}`,
+        line,
+        column,
+        offset: failure.offset,
+        expected: failure.expected,
+        found,
+      },
+    };
+  }
+}
+
+/**
+ * Lines surrounding a parse error. Long lines (minified files) are clipped to a
+ * window around the error column so the excerpt stays readable.
+ */
+export function errorExcerpt(text: string, error: ParseErrorInfo, contextLines = 2): ExcerptLine[] {
+  const firstLine = Math.max(1, error.line - contextLines);
+  const lastLine = error.line + contextLines;
+  const result: ExcerptLine[] = [];
+
+  let lineNumber = 1;
+  let start = 0;
+  while (lineNumber <= lastLine && start <= text.length) {
+    let end = text.indexOf("\n", start);
+    if (end === -1) end = text.length;
+    if (lineNumber >= firstLine) {
+      let lineText = text.slice(start, end).replace(/\r$/, "");
+      let markerIndex: number | undefined;
+      if (lineNumber === error.line) {
+        markerIndex = error.column - 1;
+        if (lineText.length > EXCERPT_WIDTH) {
+          const from = Math.max(0, markerIndex - EXCERPT_WIDTH / 2);
+          lineText = lineText.slice(from, from + EXCERPT_WIDTH);
+          markerIndex -= from;
+        }
+      } else if (lineText.length > EXCERPT_WIDTH) {
+        lineText = lineText.slice(0, EXCERPT_WIDTH) + "…";
+      }
+      result.push({ lineNumber, text: lineText, markerIndex });
+    }
+    if (end === text.length) break;
+    start = end + 1;
+    lineNumber++;
+  }
+  return result;
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import type { JsonValue } from "./fileLoader";
+import { applyPatch, createPatch, parsePointer, toPointer } from "./jsonPatch";
+import { canonicalizeKeyOrder, sortContainer } from "./sorter";
+import { setIn } from "./pathCopy";
+
+// Key order matters to this tool, so compare as text
+const same = (a: JsonValue | undefined, b: JsonValue) => expect(JSON.stringify(a)).toBe(JSON.stringify(b));
+
+const fruit = {
+  view: {
+    name: "Fruit",
+    attributes: [
+      { name: "Gala", colour: "red" },
+      { name: "Braeburn", colour: "red" },
+      { name: "Conference", colour: "green" },
+      { name: "Bramley", colour: "green" },
+    ],
+  },
+};
+
+describe("JSON Pointers", () => {
+  it("escape ~ and / and read them back", () => {
+    expect(toPointer(["a/b", "c~d", "0"])).toBe("/a~1b/c~0d/0");
+    expect(parsePointer("/a~1b/c~0d/0")).toEqual(["a/b", "c~d", "0"]);
+    expect(parsePointer("")).toEqual([]);
+    expect(parsePointer("a/b")).toBeNull();
+    expect(parsePointer("/a~2")).toBeNull();
+  });
+});
+
+describe("createPatch", () => {
+  it("writes a sort as moves only, and replays to the sorted document", () => {
+    const { data: sorted } = sortContainer(fruit, { containerPath: "view.attributes", sortKey: "name", direction: "asc" });
+    const patch = createPatch(fruit, sorted!);
+    expect(patch.every((op) => op.op === "move")).toBe(true);
+    expect(patch.length).toBeLessThan(fruit.view.attributes.length);
+    same(applyPatch(fruit, patch).data, sorted!);
+  });
+
+  it("patches edits, additions and removals inside reordered elements", () => {
+    const edited = {
+      view: {
+        name: "Fruit and more",
+        attributes: [
+          { name: "Conference", colour: "yellow" },
+          { name: "Pink Lady", colour: "pink" },
+          fruit.view.attributes[0],
+        ],
+      },
+    };
+    const patch = createPatch(fruit, edited, { identityKeys: ["attributes[*].name"] });
+    expect(patch).toEqual([
+      { op: "replace", path: "/view/name", value: "Fruit and more" },
+      { op: "remove", path: "/view/attributes/3" },
+      { op: "remove", path: "/view/attributes/1" },
+      { op: "move", from: "/view/attributes/1", path: "/view/attributes/0" },
+      { op: "add", path: "/view/attributes/1", value: { name: "Pink Lady", colour: "pink" } },
+      { op: "replace", path: "/view/attributes/0/colour", value: "yellow" },
+    ]);
+    same(applyPatch(fruit, patch).data, edited);
+  });
+
+  it("carries member order as a remove and an add, which any applier that appends members replays", () => {
+    const source = { b: 1, a: { d: 2, c: 3 } };
+    const { data } = canonicalizeKeyOrder(source, { direction: "asc", type: "ordinal" });
+    const patch = createPatch(source, data);
+    expect(patch).toEqual([
+      { op: "remove", path: "/b" },
+      { op: "add", path: "/b", value: 1 },
+      { op: "remove", path: "/a/d" },
+      { op: "add", path: "/a/d", value: 2 },
+    ]);
+    same(applyPatch(source, patch).data, data);
+    // RFC 6902 read literally, on plain objects
+    const replayed = JSON.parse(JSON.stringify(source));
+    patch.forEach((op) => {
+      const keys = op.path.slice(1).split("/");
+      const parent = keys.slice(0, -1).reduce((node, k) => node[k], replayed);
+      if (op.op === "remove") delete parent[keys[keys.length - 1]];
+      else if (op.op === "add") parent[keys[keys.length - 1]] = op.value;
+    });
+    same(replayed, data);
+  });
+
+  it("round-trips arbitrary reorders and edits", () => {
+    let seed = 11;
+    const random = (n: number) => Math.floor(((seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648) * n);
+    for (let run = 0; run < 100; run++) {
+      const before = Array.from({ length: random(8) }, (_, i) => ({ id: i, v: random(3) }));
+      const after = before.filter(() => random(5) > 0).map((e) => (random(4) === 0 ? { ...e, v: 9 } : e));
+      for (let i = after.length - 1; i > 0; i--) {
+        const j = random(i + 1);
+        [after[i], after[j]] = [after[j], after[i]];
+      }
+      if (random(2)) after.splice(random(after.length + 1), 0, { id: 100 + run, v: 0 });
+      same(applyPatch({ list: before }, createPatch({ list: before }, { list: after }, { identityKeys: ["list[*].id"] })).data, { list: after });
+      same(applyPatch({ list: before }, createPatch({ list: before }, { list: after }, { inferIdentity: false })).data, { list: after });
+    }
+  });
+
+  it("tests old values first when asked, so a drifted document refuses the patch", () => {
+    const edited = setIn(fruit, ["view", "name"], "Pears");
+    const patch = createPatch(fruit, edited, { withTests: true });
+    expect(patch).toEqual([
+      { op: "test", path: "/view/name", value: "Fruit" },
+      { op: "replace", path: "/view/name", value: "Pears" },
+    ]);
+    const drifted = setIn(fruit, ["view", "name"], "Apples");
+    expect(applyPatch(drifted, patch).error).toBe('Operation 1 (test) failed at "/view/name": expected "Fruit", found "Apples"');
+  });
+});
+
+describe("applyPatch", () => {
+  it("applies the RFC 6902 operations", () => {
+    const doc = { foo: ["bar", "baz"], qux: { a: 1 } };
+    const { data, error } = applyPatch(doc, [
+      { op: "add", path: "/foo/1", value: "qux" },
+      { op: "add", path: "/foo/-", value: "end" },
+      { op: "copy", from: "/qux", path: "/copied" },
+      { op: "move", from: "/qux/a", path: "/moved" },
+      { op: "remove", path: "/foo/0" },
+      { op: "test", path: "/copied", value: { a: 1 } },
+    ]);
+    expect(error).toBeUndefined();
+    same(data, { foo: ["qux", "baz", "end"], qux: {}, copied: { a: 1 }, moved: 1 });
+    same(doc, { foo: ["bar", "baz"], qux: { a: 1 } }); // input untouched
+  });
+
+  it("stops at the first failing operation with its number and path", () => {
+    expect(applyPatch({ a: [1] }, [{ op: "remove", path: "/a/0" }, { op: "remove", path: "/a/0" }]).error).toBe(
+      'Operation 2 (remove) at "/a/0": index 0 is out of range (length 0)'
+    );
+    expect(applyPatch({}, [{ op: "replace", path: "/missing", value: 1 }]).error).toBe('Operation 1 (replace) at "/missing": no such path in the document');
+    expect(applyPatch({ a: {} }, [{ op: "move", from: "/a", path: "/a/b" }]).error).toMatch(/can't be moved into itself/);
+    expect(applyPatch({}, [{ op: "launch", path: "" }]).error).toBe('Operation 1 (launch) at "": unknown operation "launch"');
+    expect(applyPatch({}, { op: "add" }).error).toMatch(/array of operations/);
+  });
+});
@@ -0,0 +1,272 @@
+import type { JsonArray, JsonObject, JsonValue } from "./fileLoader";
+import { isLosslessNumber, stringifyLossless } from "./losslessNumber";
+import { createIdentityMatcher, jsonEqual, longestIncreasing, type DiffOptions } from "./differ";
+import { getIn, setIn, updateIn } from "./pathCopy";
+
+/**
+ * RFC 6902 JSON Patch: a document's changes as a list of operations on JSON
+ * Pointers (RFC 6901), to review or replay elsewhere. `createPatch` writes one
+ * from two documents, `applyPatch` replays one with path copying.
+ */
+
+export type PatchOperation =
+  | { op: "add"; path: string; value: JsonValue }
+  | { op: "remove"; path: string }
+  | { op: "replace"; path: string; value: JsonValue }
+  | { op: "move"; from: string; path: string }
+  | { op: "copy"; from: string; path: string }
+  | { op: "test"; path: string; value: JsonValue };
+
+export interface CreatePatchOptions extends DiffOptions {
+  /** Test each value before it is replaced or removed, so replaying on a document that has drifted fails */
+  withTests?: boolean;
+}
+
+export interface ApplyPatchResult {
+  data?: JsonValue;
+  /** The first operation that failed, with its number and path; nothing is applied */
+  error?: string;
+}
+
+function isObject(v: JsonValue | undefined): v is JsonObject {
+  return v !== null && typeof v === "object" && !Array.isArray(v) && !isLosslessNumber(v);
+}
+
+const hasOwn = (obj: JsonObject, key: string) => Object.prototype.hasOwnProperty.call(obj, key);
+
+/** JSON Pointer for a list of keys and indices; "" is the whole document */
+export function toPointer(segments: string[]): string {
+  return segments.map((s) => `/${s.replace(/~/g, "~0").replace(/\//g, "~1")}`).join("");
+}
+
+/** Keys and indices of a JSON Pointer; null when it is not one */
+export function parsePointer(pointer: string): string[] | null {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/") || /~[^01]|~$/.test(pointer)) return null;
+  return pointer.slice(1).split("/").map((s) => s.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+/**
+ * The operations that turn `source` into `edited`. Arrays matched by identity
+ * (see DiffOptions) become `move`s for their reordered elements, with adds and
+ * removes only for what is really new or gone; other arrays are patched by
+ * position. JSON Patch has no notion of member order, so a member that changed
+ * place is removed and added again with its edited value, which puts it last:
+ * any applier that appends new members replays the edited order.
+ */
+export function createPatch(source: JsonValue, edited: JsonValue, options: CreatePatchOptions = {}): PatchOperation[] {
+  const ops: PatchOperation[] = [];
+  const identities = createIdentityMatcher(options);
+  const expect = (segments: string[], value: JsonValue) => {
+    if (options.withTests) ops.push({ op: "test", path: toPointer(segments), value });
+  };
+  const remove = (segments: string[], value: JsonValue) => {
+    expect(segments, value);
+    ops.push({ op: "remove", path: toPointer(segments) });
+  };
+
+  const visitObject = (a: JsonObject, b: JsonObject, segments: string[]) => {
+    const oldKeys = Object.keys(a);
+    const newKeys = Object.keys(b);
+    const oldIndex = new Map(oldKeys.map((k, i) => [k, i]));
+    oldKeys.forEach((k) => {
+      if (!hasOwn(b, k)) remove(segments.concat(k), a[k]);
+    });
+    // Members stay up to the first one out of order; from there each is (re-)added last, in the new order
+    let p = 0;
+    while (p < newKeys.length && oldIndex.has(newKeys[p]) && (p === 0 || oldIndex.get(newKeys[p])! > oldIndex.get(newKeys[p - 1])!)) p++;
+    newKeys.slice(p).forEach((k) => {
+      if (oldIndex.has(k)) remove(segments.concat(k), a[k]);
+      ops.push({ op: "add", path: toPointer(segments.concat(k)), value: b[k] });
+    });
+    newKeys.slice(0, p).forEach((k) => visit(a[k], b[k], segments.concat(k)));
+  };
+
+  const visitArray = (a: JsonArray, b: JsonArray, segments: string[]) => {
+    const at = (i: number) => segments.concat(String(i));
+    const ids = identities(a, b, segments.join("."));
+    if (!ids) {
+      const shared = Math.min(a.length, b.length);
+      for (let i = 0; i < shared; i++) visit(a[i], b[i], at(i));
+      for (let i = a.length - 1; i >= shared; i--) remove(at(i), a[i]);
+      for (let i = shared; i < b.length; i++) ops.push({ op: "add", path: toPointer(at(i)), value: b[i] });
+      return;
+    }
+    const [ka, kb] = ids;
+    const oldIndex = new Map(ka.map((k, i) => [k, i]));
+    const inNew = new Set(kb);
+    // Elements that are gone go first, from the end so the indexes before them hold
+    for (let i = a.length - 1; i >= 0; i--) {
+      if (!inNew.has(ka[i])) remove(at(i), a[i]);
+    }
+    // Then the fewest moves that put the rest in their new order
+    const current = ka.filter((k) => inNew.has(k));
+    const target = kb.filter((k) => oldIndex.has(k));
+    const kept = longestIncreasing(target.map((k) => oldIndex.get(k)!));
+    target.forEach((k, t) => {
+      if (kept.has(t)) return;
+      const from = current.indexOf(k);
+      current.splice(from, 1);
+      // Everything before it in the new order is already in place
+      const to = t === 0 ? 0 : current.indexOf(target[t - 1]) + 1;
+      current.splice(to, 0, k);
+      if (from !== to) ops.push({ op: "move", from: toPointer(at(from)), path: toPointer(at(to)) });
+    });
+    kb.forEach((k, i) => {
+      if (!oldIndex.has(k)) ops.push({ op: "add", path: toPointer(at(i)), value: b[i] });
+    });
+    kb.forEach((k, i) => {
+      const j = oldIndex.get(k);
+      if (j !== undefined) visit(a[j], b[i], at(i));
+    });
+  };
+
+  const visit = (a: JsonValue, b: JsonValue, segments: string[]) => {
+    if (a === b) return;
+    if (isObject(a) && isObject(b)) visitObject(a, b, segments);
+    else if (Array.isArray(a) && Array.isArray(b)) visitArray(a, b, segments);
+    else if (!jsonEqual(a, b)) {
+      expect(segments, a);
+      ops.push({ op: "replace", path: toPointer(segments), value: b });
+    }
+  };
+
+  visit(source, edited, []);
+  return ops;
+}
+
+/** Thrown inside an operation to stop the patch; never escapes applyPatch */
+class PatchFailure {
+  constructor(readonly message: string) {}
+}
+
+function preview(value: JsonValue | undefined): string {
+  if (value === undefined) return "nothing";
+  const text = stringifyLossless(value);
+  return text.length > 60 ? `${text.slice(0, 59)}…` : text;
+}
+
+/** Index of an existing element, or with `end` one past the last ("-" included) */
+function arrayIndex(arr: JsonArray, segment: string, end: boolean): number {
+  if (end && segment === "-") return arr.length;
+  if (!/^(0|[1-9]\d*)$/.test(segment)) throw new PatchFailure(`"${segment}" is not an array index`);
+  const index = Number(segment);
+  if (index > arr.length || (!end && index === arr.length)) throw new PatchFailure(`index ${index} is out of range (length ${arr.length})`);
+  return index;
+}
+
+function valueAt(doc: JsonValue, segments: string[]): JsonValue {
+  let node: JsonValue = doc;
+  for (const segment of segments) {
+    if (Array.isArray(node)) node = node[arrayIndex(node, segment, false)];
+    else if (isObject(node) && hasOwn(node, segment)) node = node[segment];
+    else throw new PatchFailure("no such path in the document");
+  }
+  return node;
+}
+
+function parentOf(doc: JsonValue, segments: string[]): JsonArray | JsonObject {
+  const parent = valueAt(doc, segments.slice(0, -1));
+  if (!Array.isArray(parent) && !isObject(parent)) throw new PatchFailure("the parent is not an object or array");
+  return parent;
+}
+
+function addAt(doc: JsonValue, segments: string[], value: JsonValue): JsonValue {
+  if (segments.length === 0) return value;
+  const parent = parentOf(doc, segments);
+  const key = segments[segments.length - 1];
+  return updateIn(doc, segments.slice(0, -1), () => {
+    if (Array.isArray(parent)) {
+      const copy = parent.slice();
+      copy.splice(arrayIndex(parent, key, true), 0, value);
+      return copy;
+    }
+    return { ...parent, [key]: value };
+  });
+}
+
+function removeAt(doc: JsonValue, segments: string[]): JsonValue {
+  if (segments.length === 0) throw new PatchFailure("the whole document can't be removed");
+  const parent = parentOf(doc, segments);
+  const key = segments[segments.length - 1];
+  return updateIn(doc, segments.slice(0, -1), () => {
+    if (Array.isArray(parent)) {
+      const copy = parent.slice();
+      copy.splice(arrayIndex(parent, key, false), 1);
+      return copy;
+    }
+    if (!hasOwn(parent, key)) throw new PatchFailure("no such path in the document");
+    const copy = { ...parent };
+    delete copy[key];
+    return copy;
+  });
+}
+
+function pointerOf(op: Record<string, unknown>, field: "path" | "from"): string[] {
+  const pointer = op[field];
+  const segments = typeof pointer === "string" ? parsePointer(pointer) : null;
+  if (!segments) throw new PatchFailure(`"${field}" is not a JSON Pointer`);
+  return segments;
+}
+
+function valueOf(op: Record<string, unknown>): JsonValue {
+  if (!("value" in op)) throw new PatchFailure('"value" is missing');
+  return op.value as JsonValue;
+}
+
+/**
+ * Replay a JSON Patch on `doc`. Operations apply in order, each to the result
+ * of the one before; the first that fails stops the patch and `doc` is left as
+ * it was. Unchanged subtrees are shared with `doc`.
+ */
+export function applyPatch(doc: JsonValue, patch: unknown): ApplyPatchResult {
+  if (!Array.isArray(patch)) return { error: "A JSON Patch is an array of operations" };
+  let data = doc;
+  for (let n = 0; n < patch.length; n++) {
+    const op = patch[n] as Record<string, unknown>;
+    const name = op !== null && typeof op === "object" && typeof op.op === "string" ? op.op : "?";
+    const where = op !== null && typeof op === "object" && typeof op.path === "string" ? ` at "${op.path}"` : "";
+    try {
+      if (name === "?") throw new PatchFailure('"op" is missing');
+      const path = pointerOf(op, "path");
+      switch (name) {
+        case "add":
+          data = addAt(data, path, valueOf(op));
+          break;
+        case "remove":
+          data = removeAt(data, path);
+          break;
+        case "replace": {
+          const value = valueOf(op);
+          valueAt(data, path);
+          data = path.length === 0 ? value : setIn(data, path, value);
+          break;
+        }
+        case "move": {
+          const from = pointerOf(op, "from");
+          if (from.length < path.length && from.every((s, i) => s === path[i])) throw new PatchFailure("a value can't be moved into itself");
+          const value = valueAt(data, from);
+          data = addAt(removeAt(data, from), path, value);
+          break;
+        }
+        case "copy":
+          data = addAt(data, path, valueAt(data, pointerOf(op, "from")));
+          break;
+        case "test": {
+          const expected = valueOf(op);
+          const found = getIn(data, path);
+          if (found === undefined || !jsonEqual(found, expected)) {
+            return { error: `Operation ${n + 1} (test) failed${where}: expected ${preview(expected)}, found ${preview(found)}` };
+          }
+          break;
+        }
+        default:
+          throw new PatchFailure(`unknown operation "${name}"`);
+      }
+    } catch (err: unknown) {
+      if (!(err instanceof PatchFailure)) throw err;
+      return { error: `Operation ${n + 1} (${name})${where}: ${err.message}` };
+    }
+  }
+  return { data };
+}
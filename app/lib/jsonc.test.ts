@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { parseJson } from "./jsonParser";
+import { stringifyWithComments, remapComments } from "./jsonc";
+import { sortContainer } from "./sorter";
+
+const source = [
+  "// settings",
+  "{",
+  "  // compiler",
+  '  "strict": true, // keep on',
+  '  "items": [',
+  '    { "name": "Charlie" }, // third',
+  "    // the first one",
+  '    { "name": "Alice" },',
+  '    { "name": "Bob" }',
+  "  ]",
+  "}",
+].join("\n");
+
+function load(text: string) {
+  const { value, comments } = parseJson(text, { dialect: "jsonc", collectComments: true });
+  return { data: value!, comments: comments! };
+}
+
+describe("stringifyWithComments", () => {
+  it("round-trips a jsonc document", () => {
+    const { data, comments } = load(source);
+    const out = stringifyWithComments(data, comments);
+    expect(out).toContain("// settings\n{");
+    expect(out).toContain('  // compiler\n  "strict": true, // keep on\n');
+    expect(out).toContain("// the first one");
+    expect(load(out)).toEqual({ data, comments });
+  });
+
+  it("writes plain pretty JSON when there are no comments", () => {
+    const data = { a: [1, { b: null }], c: {} };
+    expect(stringifyWithComments(data, new Map())).toBe(JSON.stringify(data, null, 2) + "\n");
+  });
+
+  it("keeps dangling comments inside empty containers", () => {
+    const { data, comments } = load('{ "a": [ // nothing yet\n ] }');
+    expect(stringifyWithComments(data, comments)).toContain('"a": [\n    // nothing yet\n  ]');
+  });
+});
+
+describe("remapComments", () => {
+  it("moves element comments with their elements after a sort", () => {
+    const { data, comments } = load(source);
+    const { data: sorted, report } = sortContainer(data, { containerPath: "items", sortKey: "name", direction: "asc" });
+    const remapped = remapComments(comments, "items", report.movementLog);
+
+    expect(remapped.get("items.0")?.before).toEqual(["// the first one"]);
+    expect(remapped.get("items.2")?.after).toEqual(["// third"]);
+    expect(remapped.get("strict")?.after).toEqual(["// keep on"]);
+
+    const out = stringifyWithComments(sorted, remapped);
+    expect(out.indexOf("// the first one")).toBeLessThan(out.indexOf('"Alice"'));
+    expect(out.indexOf('"Charlie"')).toBeLessThan(out.indexOf("// third"));
+  });
+
+  it("remaps nested paths under moved elements", () => {
+    const comments = new Map([["0.a", { before: ["// x"], after: [], end: [] }]]);
+    const remapped = remapComments(comments, "(root)", [
+      { oldIndex: 0, newIndex: 1, fromLine: 1, toLine: 1, keyValue: "", keyTuple: [""] },
+      { oldIndex: 1, newIndex: 0, fromLine: 1, toLine: 1, keyValue: "", keyTuple: [""] },
+    ]);
+    expect(Array.from(remapped.keys())).toEqual(["1.a"]);
+  });
+});
@@ -0,0 +1,88 @@
+import type { JsonValue, JsonObject, JsonArray } from "./fileLoader";
+import { childPath, type CommentMap, type NodeComments } from "./jsonParser";
+import { isLosslessNumber, stringifyLossless } from "./losslessNumber";
+import type { MovementEntry } from "./sorter";
+
+function isObject(v: JsonValue): v is JsonObject {
+  return v !== null && typeof v === "object" && !Array.isArray(v) && !isLosslessNumber(v);
+}
+
+function isArray(v: JsonValue): v is JsonArray {
+  return Array.isArray(v);
+}
+
+const NO_COMMENTS: NodeComments = { before: [], after: [], end: [] };
+
+/**
+ * Pretty-print a document with its comments re-attached. Keys are always
+ * double-quoted and trailing commas are never written, so the output is
+ * valid JSONC and JSON5 alike. Number spelling (hex, leading "+") is not kept,
+ * but lossless numbers are written exactly.
+ */
+export function stringifyWithComments(data: JsonValue, comments: CommentMap, indent = 2): string {
+  const pad = (depth: number) => " ".repeat(indent * depth);
+  const get = (path: string) => comments.get(path) ?? NO_COMMENTS;
+  const sameLine = (c: NodeComments) => (c.after.length > 0 ? " " + c.after.join(" ") : "");
+
+  const write = (value: JsonValue, path: string, depth: number): string => {
+    const entries: [string, JsonValue][] | null = isArray(value)
+      ? value.map((v, i) => [String(i), v])
+      : isObject(value)
+        ? Object.entries(value)
+        : null;
+    if (entries === null) return stringifyLossless(value);
+
+    const [open, close] = isArray(value) ? ["[", "]"] : ["{", "}"];
+    const { end } = get(path);
+    if (entries.length === 0 && end.length === 0) return open + close;
+
+    let out = open + "\n";
+    entries.forEach(([key, child], i) => {
+      const p = childPath(path, key);
+      const c = get(p);
+      for (const line of c.before) out += pad(depth + 1) + line + "\n";
+      out += pad(depth + 1);
+      if (!isArray(value)) out += JSON.stringify(key) + ": ";
+      out += write(child, p, depth + 1);
+      if (i < entries.length - 1) out += ",";
+      out += sameLine(c) + "\n";
+    });
+    for (const line of end) out += pad(depth + 1) + line + "\n";
+    return out + pad(depth) + close;
+  };
+
+  const root = get("");
+  let out = "";
+  for (const line of root.before) out += line + "\n";
+  out += write(data, "", 0);
+  for (const line of root.after) out += "\n" + line;
+  return out + "\n";
+}
+
+/**
+ * Re-key comments under a sorted array so they follow their elements.
+ * `containerPath` uses the sorter's convention ("(root)" or "" for the root).
+ */
+export function remapComments(
+  comments: CommentMap,
+  containerPath: string,
+  movementLog: MovementEntry[]
+): CommentMap {
+  const base = containerPath === "(root)" ? "" : containerPath;
+  const prefix = base ? `${base}.` : "";
+  const oldToNew = new Map(movementLog.map((e) => [String(e.oldIndex), String(e.newIndex)]));
+
+  const result: CommentMap = new Map();
+  comments.forEach((c, path) => {
+    if (!path.startsWith(prefix) || path.length === prefix.length) {
+      result.set(path, c);
+      return;
+    }
+    const rest = path.slice(prefix.length);
+    const dot = rest.indexOf(".");
+    const index = dot === -1 ? rest : rest.slice(0, dot);
+    const moved = oldToNew.get(index);
+    result.set(moved === undefined ? path : prefix + moved + (dot === -1 ? "" : rest.slice(dot)), c);
+  });
+  return result;
+}
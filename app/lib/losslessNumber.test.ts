@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import type { JsonValue } from "./fileLoader";
+import {
+  losslessNumber,
+  isLosslessNumber,
+  needsLossless,
+  parseNumberLiteral,
+  compareNumericText,
+  stringifyLossless,
+} from "./losslessNumber";
+
+describe("needsLossless", () => {
+  it("flags integers beyond 2^53", () => {
+    expect(needsLossless("9007199254740993")).toBe(true);
+    expect(needsLossless("-12345678901234567890")).toBe(true);
+  });
+
+  it("flags decimals with more digits than a double holds", () => {
+    expect(needsLossless("0.12345678901234567891")).toBe(true);
+    expect(needsLossless("1e400")).toBe(true);
+  });
+
+  it("leaves numbers that round-trip as plain numbers", () => {
+    expect(needsLossless("9007199254740992")).toBe(false);
+    expect(needsLossless("1.5")).toBe(false);
+    expect(needsLossless("1.50000000000000000")).toBe(false);
+    expect(needsLossless("1e21")).toBe(false);
+    expect(needsLossless("-0")).toBe(false);
+  });
+});
+
+describe("parseNumberLiteral", () => {
+  it("wraps only when asked and needed", () => {
+    expect(parseNumberLiteral("9007199254740993", true)).toEqual(losslessNumber("9007199254740993"));
+    expect(parseNumberLiteral("9007199254740993", false)).toBe(9007199254740992);
+    expect(parseNumberLiteral("42", true)).toBe(42);
+  });
+
+  it("survives a structured clone", () => {
+    const cloned = JSON.parse(JSON.stringify(parseNumberLiteral("9007199254740993", true)));
+    expect(isLosslessNumber(cloned)).toBe(true);
+  });
+});
+
+describe("compareNumericText", () => {
+  it("orders values that round to the same double", () => {
+    expect(compareNumericText("9007199254740993", "9007199254740992")).toBeGreaterThan(0);
+    expect(compareNumericText("-9007199254740993", "-9007199254740992")).toBeLessThan(0);
+  });
+
+  it("treats different spellings of one value as equal", () => {
+    expect(compareNumericText("1.50", "15e-1")).toBe(0);
+    expect(compareNumericText("0", "-0.0")).toBe(0);
+  });
+
+  it("returns NaN for non-numbers", () => {
+    expect(compareNumericText("abc", "1")).toBeNaN();
+  });
+});
+
+describe("stringifyLossless", () => {
+  it("matches JSON.stringify for plain data", () => {
+    const data: JsonValue = { a: [1, "x", null, { b: [] }, {}], c: { d: true } };
+    expect(stringifyLossless(data, 2)).toBe(JSON.stringify(data, null, 2));
+    expect(stringifyLossless(data)).toBe(JSON.stringify(data));
+    expect(stringifyLossless([], 2)).toBe("[]");
+  });
+
+  it("writes lossless numbers exactly", () => {
+    const data: JsonValue = { id: losslessNumber("9007199254740993"), list: [losslessNumber("1e400")] };
+    expect(stringifyLossless(data)).toBe('{"id":9007199254740993,"list":[1e400]}');
+  });
+});
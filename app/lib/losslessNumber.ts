@@ -0,0 +1,123 @@
+import type { JsonValue } from "./fileLoader";
+
+/**
+ * A number literal a double cannot hold exactly (64-bit IDs, long decimals,
+ * out-of-range exponents), kept as its source text. A plain object rather than
+ * a class so it survives postMessage and JSON.parse(JSON.stringify()) clones.
+ */
+export interface LosslessNumber {
+  readonly isLosslessNumber: true;
+  readonly value: string;
+}
+
+export function losslessNumber(raw: string): LosslessNumber {
+  return { isLosslessNumber: true, value: raw };
+}
+
+export function isLosslessNumber(v: unknown): v is LosslessNumber {
+  return (
+    v !== null &&
+    typeof v === "object" &&
+    (v as LosslessNumber).isLosslessNumber === true &&
+    typeof (v as LosslessNumber).value === "string"
+  );
+}
+
+interface Decimal {
+  negative: boolean;
+  /** Significant digits, no leading or trailing zeros ("" for zero) */
+  digits: string;
+  /** Power of ten of the last digit */
+  exponent: number;
+}
+
+const NUMBER_LITERAL = /^(-?)(\d+)(?:\.(\d+))?(?:[eE]([+-]?\d+))?$/;
+
+function toDecimal(text: string): Decimal | null {
+  const m = NUMBER_LITERAL.exec(text);
+  if (!m) return null;
+  const frac = m[3] ?? "";
+  let digits = (m[2] + frac).replace(/^0+/, "");
+  let exponent = Number(m[4] ?? 0) - frac.length;
+  const trimmed = digits.replace(/0+$/, "");
+  exponent += digits.length - trimmed.length;
+  digits = trimmed;
+  return { negative: m[1] === "-" && digits !== "", digits, exponent: digits ? exponent : 0 };
+}
+
+/** True when Number(raw) would not hold the literal's exact value */
+export function needsLossless(raw: string): boolean {
+  // Up to 15 significant digits always round-trip through a double
+  if (raw.length <= 15 && !/[eE]/.test(raw)) return false;
+  const n = Number(raw);
+  if (!isFinite(n)) return true;
+  const a = toDecimal(raw);
+  const b = toDecimal(String(n));
+  if (!a || !b) return false;
+  return a.negative !== b.negative || a.digits !== b.digits || a.exponent !== b.exponent;
+}
+
+/** Convert a JSON number literal, keeping it as text when `lossless` and a double would lose it */
+export function parseNumberLiteral(raw: string, lossless: boolean): number | LosslessNumber {
+  return lossless && needsLossless(raw) ? losslessNumber(raw) : Number(raw);
+}
+
+/** Number for arithmetic and display (may round) */
+export function toNumber(v: number | LosslessNumber): number {
+  return typeof v === "number" ? v : Number(v.value);
+}
+
+/**
+ * Exact comparison of two numeric strings, for ties where Number() rounds both
+ * to the same double. Returns NaN when either is not a plain number literal.
+ */
+export function compareNumericText(a: string, b: string): number {
+  const da = toDecimal(a.trim());
+  const db = toDecimal(b.trim());
+  if (!da || !db) return NaN;
+  const sign = (d: Decimal) => (d.digits === "" ? 0 : d.negative ? -1 : 1);
+  if (sign(da) !== sign(db)) return sign(da) - sign(db);
+  if (sign(da) === 0) return 0;
+  // Compare magnitudes: order of the leading digit first, then the digits themselves
+  const orderA = da.digits.length + da.exponent;
+  const orderB = db.digits.length + db.exponent;
+  let cmp = orderA - orderB;
+  if (cmp === 0) {
+    const width = Math.max(da.digits.length, db.digits.length);
+    const pa = da.digits.padEnd(width, "0");
+    const pb = db.digits.padEnd(width, "0");
+    cmp = pa < pb ? -1 : pa > pb ? 1 : 0;
+  }
+  return da.negative ? -cmp : cmp;
+}
+
+/**
+ * JSON.stringify(value, null, indent) that writes lossless numbers back
+ * exactly as they were read.
+ */
+export function stringifyLossless(value: JsonValue, indent: number | string = 0): string {
+  const unit = typeof indent === "number" ? " ".repeat(Math.max(0, Math.min(10, indent))) : indent.slice(0, 10);
+  const colon = unit ? ": " : ":";
+
+  const write = (v: JsonValue, pad: string): string | undefined => {
+    if (isLosslessNumber(v)) return v.value;
+    if (v === null || typeof v !== "object") return JSON.stringify(v);
+    const inner = pad + unit;
+    const open = unit ? "\n" + inner : "";
+    const sep = unit ? ",\n" + inner : ",";
+    const close = unit ? "\n" + pad : "";
+    if (Array.isArray(v)) {
+      if (v.length === 0) return "[]";
+      return "[" + open + v.map((item) => write(item, inner) ?? "null").join(sep) + close + "]";
+    }
+    const parts: string[] = [];
+    for (const key of Object.keys(v)) {
+      const s = write(v[key], inner);
+      if (s !== undefined) parts.push(JSON.stringify(key) + colon + s);
+    }
+    if (parts.length === 0) return "{}";
+    return "{" + open + parts.join(sep) + close + "}";
+  };
+
+  return write(value, "") ?? "";
+}
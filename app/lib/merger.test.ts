@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import type { JsonValue } from "./fileLoader";
+import { mergeDocuments, mergePatch } from "./merger";
+
+// Key order matters to this tool, so compare as text
+const same = (a: JsonValue, b: JsonValue) => expect(JSON.stringify(a)).toBe(JSON.stringify(b));
+
+const base = {
+  name: "shop",
+  debug: true,
+  db: { host: "localhost", port: 5432 },
+  servers: [
+    { name: "web", replicas: 1 },
+    { name: "worker", replicas: 1 },
+  ],
+  tags: ["a", "b"],
+};
+
+const prod = {
+  debug: false,
+  db: { host: "db.internal", pool: 20 },
+  servers: [
+    { name: "worker", replicas: 4 },
+    { name: "cron", replicas: 1 },
+  ],
+  tags: ["b", "c"],
+};
+
+describe("mergePatch", () => {
+  it("follows the examples of RFC 7386", () => {
+    const examples: [JsonValue, JsonValue, JsonValue][] = [
+      [{ a: "b" }, { a: "c" }, { a: "c" }],
+      [{ a: "b" }, { b: "c" }, { a: "b", b: "c" }],
+      [{ a: "b" }, { a: null }, {}],
+      [{ a: "b", b: "c" }, { a: null }, { b: "c" }],
+      [{ a: ["b"] }, { a: "c" }, { a: "c" }],
+      [{ a: "c" }, { a: ["b"] }, { a: ["b"] }],
+      [{ a: { b: "c" } }, { a: { b: "d", c: null } }, { a: { b: "d" } }],
+      [{ a: [{ b: "c" }] }, { a: [1] }, { a: [1] }],
+      [["a", "b"], ["c", "d"], ["c", "d"]],
+      [{ a: "b" }, ["c"], ["c"]],
+      [{ a: "foo" }, null, null],
+      [{ a: "foo" }, "bar", "bar"],
+      [{ e: null }, { a: 1 }, { e: null, a: 1 }],
+      [[1, 2], { a: "b", c: null }, { a: "b" }],
+      [{}, { a: { bb: { ccc: null } } }, { a: { bb: {} } }],
+    ];
+    examples.forEach(([target, patch, result]) => same(mergePatch(target, patch), result));
+  });
+
+  it("leaves its inputs untouched", () => {
+    const target = { a: { b: 1 } };
+    mergePatch(target, { a: { b: null, c: 2 } });
+    same(target, { a: { b: 1 } });
+  });
+});
+
+describe("mergeDocuments", () => {
+  it("overlays a merge patch and lists what it overrode or removed", () => {
+    const { data, conflicts } = mergeDocuments([base, { debug: false, db: { port: null }, tags: null }], { mode: "merge-patch" });
+    same(data, { name: "shop", debug: false, db: { host: "localhost" }, servers: base.servers });
+    expect(conflicts).toEqual([
+      { kind: "value", path: "debug", layer: 1, previous: true, value: false },
+      { kind: "removed", path: "db.port", layer: 1, previous: 5432 },
+      { kind: "removed", path: "tags", layer: 1, previous: ["a", "b"] },
+    ]);
+  });
+
+  it("replaces arrays by default and reports the replaced ones", () => {
+    const { data, conflicts } = mergeDocuments([base, prod], { mode: "deep" });
+    same(data, {
+      name: "shop",
+      debug: false,
+      db: { host: "db.internal", port: 5432, pool: 20 },
+      servers: prod.servers,
+      tags: prod.tags,
+    });
+    expect(conflicts.map((c) => `${c.kind} ${c.path}`)).toEqual(["value debug", "value db.host", "value servers", "value tags"]);
+  });
+
+  it("concatenates arrays", () => {
+    const { data, conflicts } = mergeDocuments([{ tags: ["a"] }, { tags: ["a", "b"] }], { mode: "deep", arrays: "concat" });
+    same(data, { tags: ["a", "a", "b"] });
+    expect(conflicts).toEqual([]);
+  });
+
+  it("unions arrays by identity key, merging matched elements in place", () => {
+    const { data, conflicts } = mergeDocuments([base, prod], { mode: "deep", arrays: "union", identityKeys: ["servers[*].name"] });
+    same((data as { servers: JsonValue }).servers, [
+      { name: "web", replicas: 1 },
+      { name: "worker", replicas: 4 },
+      { name: "cron", replicas: 1 },
+    ]);
+    // Arrays without a key are unioned by value
+    same((data as { tags: JsonValue }).tags, ["a", "b", "c"]);
+    expect(conflicts).toContainEqual({ kind: "value", path: "servers.1.replicas", layer: 1, previous: 1, value: 4 });
+  });
+
+  it("keeps nulls as values in a deep merge, and reports type changes", () => {
+    const { data, conflicts } = mergeDocuments([{ a: { b: 1 }, c: 1 }, { a: "flat", c: null }, { a: { b: 2 } }], { mode: "deep" });
+    same(data, { a: { b: 2 }, c: null });
+    expect(conflicts.map((c) => [c.kind, c.path, c.layer])).toEqual([
+      ["type", "a", 1],
+      ["value", "c", 1],
+      ["type", "a", 2],
+    ]);
+  });
+
+  it("merges any number of layers in order", () => {
+    const { data } = mergeDocuments([{ a: 1, b: 1, c: 1 }, { b: 2, c: 2 }, { c: 3 }]);
+    same(data, { a: 1, b: 2, c: 3 });
+  });
+});
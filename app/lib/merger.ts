@@ -0,0 +1,151 @@
+import type { JsonObject, JsonValue } from "./fileLoader";
+import { isLosslessNumber } from "./losslessNumber";
+import { childPath } from "./jsonParser";
+import { createIdentityMatcher, jsonEqual, type IdentityMatcher } from "./differ";
+
+/**
+ * Overlaying documents, e.g. an environment's settings over a shared base:
+ * RFC 7386 JSON Merge Patch, or a deep merge with a choice of what happens to
+ * arrays. Each layer wins over the ones before it; where it overrides a value
+ * that was already there, the merge lists a conflict.
+ */
+
+/** `replace`: the later array wins; `concat`: earlier elements then later; `union`: by identity, else by value */
+export type ArrayStrategy = "replace" | "concat" | "union";
+
+export type MergeMode = "merge-patch" | "deep";
+
+export interface MergeOptions {
+  /** `merge-patch` is RFC 7386: null removes a member and arrays are replaced. `deep` keeps nulls as values (default) */
+  mode?: MergeMode;
+  /** Deep merge only (default replace) */
+  arrays?: ArrayStrategy;
+  /** Union only: elements matched as in diffs, e.g. `servers[*].name`; other arrays are unioned by value */
+  identityKeys?: string[];
+}
+
+export type ConflictKind =
+  /** A different scalar, or a different array under `replace` */
+  | "value"
+  /** An object over a non-object or the other way round */
+  | "type"
+  /** Merge patch: a null took the member out */
+  | "removed";
+
+export interface MergeConflict {
+  kind: ConflictKind;
+  /** Dotted path in the merged document; "" is the root */
+  path: string;
+  /** Index of the layer that won */
+  layer: number;
+  previous: JsonValue;
+  /** Absent for `removed` */
+  value?: JsonValue;
+}
+
+export interface MergeResult {
+  data: JsonValue;
+  conflicts: MergeConflict[];
+}
+
+function isObject(v: JsonValue | undefined): v is JsonObject {
+  return v !== null && typeof v === "object" && !Array.isArray(v) && !isLosslessNumber(v);
+}
+
+const hasOwn = (obj: JsonObject, key: string) => Object.prototype.hasOwnProperty.call(obj, key);
+
+/**
+ * RFC 7386 JSON Merge Patch, exactly: an object patch merges member by member,
+ * with null removing the member; anything else replaces the target. Members
+ * keep their place and new ones come last.
+ */
+export function mergePatch(target: JsonValue, patch: JsonValue): JsonValue {
+  return mergeDocuments([target, patch], { mode: "merge-patch" }).data;
+}
+
+/** Merge `layers` in order, the first being the base */
+export function mergeDocuments(layers: JsonValue[], options: MergeOptions = {}): MergeResult {
+  const patchMode = options.mode === "merge-patch";
+  const arrays = patchMode ? "replace" : options.arrays ?? "replace";
+  const identities: IdentityMatcher = createIdentityMatcher({ identityKeys: options.identityKeys, inferIdentity: false });
+  const conflicts: MergeConflict[] = [];
+  let layer = 0;
+
+  const conflict = (kind: ConflictKind, path: string, previous: JsonValue, value?: JsonValue) => {
+    conflicts.push(kind === "removed" ? { kind, path, layer, previous } : { kind, path, layer, previous, value });
+  };
+
+  // The patch's own nulls are values in the result; only the merge removes members
+  const clean = (value: JsonValue): JsonValue => {
+    if (!patchMode || !isObject(value)) return value;
+    const out: JsonObject = {};
+    Object.keys(value).forEach((k) => {
+      if (value[k] !== null) out[k] = clean(value[k]);
+    });
+    return out;
+  };
+
+  const mergeArrays = (a: JsonValue[], b: JsonValue[], path: string): JsonValue[] => {
+    if (arrays === "concat") return a.concat(b);
+    const ids = identities(a, b, path);
+    if (!ids) {
+      // Union by value: later elements that aren't already there
+      const out = a.slice();
+      b.forEach((v) => {
+        if (!out.some((u) => jsonEqual(u, v))) out.push(v);
+      });
+      return out;
+    }
+    const [ka, kb] = ids;
+    const laterIndex = new Map(kb.map((k, i) => [k, i]));
+    const earlierIds = new Set(ka);
+    const out = a.map((v, i) => {
+      const j = laterIndex.get(ka[i]);
+      return j === undefined ? v : merge(v, b[j], childPath(path, i));
+    });
+    kb.forEach((k, i) => {
+      if (!earlierIds.has(k)) out.push(b[i]);
+    });
+    return out;
+  };
+
+  const merge = (a: JsonValue | undefined, b: JsonValue, path: string): JsonValue => {
+    if (a === undefined) return clean(b);
+    if (isObject(b)) {
+      if (!isObject(a)) {
+        conflict("type", path, a, clean(b));
+        return clean(b);
+      }
+      const out: JsonObject = { ...a };
+      Object.keys(b).forEach((k) => {
+        const p = childPath(path, k);
+        if (patchMode && b[k] === null) {
+          if (hasOwn(out, k)) {
+            conflict("removed", p, out[k]);
+            delete out[k];
+          }
+          return;
+        }
+        out[k] = merge(hasOwn(out, k) ? out[k] : undefined, b[k], p);
+      });
+      return out;
+    }
+    if (isObject(a)) {
+      conflict("type", path, a, b);
+      return b;
+    }
+    if (Array.isArray(a) && Array.isArray(b)) {
+      if (arrays !== "replace") return mergeArrays(a, b, path);
+    } else if (Array.isArray(a) !== Array.isArray(b)) {
+      conflict("type", path, a, b);
+      return b;
+    }
+    if (!jsonEqual(a, b)) conflict("value", path, a, b);
+    return b;
+  };
+
+  if (layers.length === 0) return { data: null, conflicts };
+  let data = layers[0];
+  for (layer = 1; layer < layers.length; layer++) data = merge(data, layers[layer], "");
+  return { data, conflicts };
+}
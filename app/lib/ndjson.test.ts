@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import type { JsonValue } from "./fileLoader";
+import { parseNdjson, looksLikeNdjson, stringifyNdjson } from "./ndjson";
+
+describe("parseNdjson", () => {
+  it("parses one record per line and skips blank lines", () => {
+    const { records, recordLines, errors } = parseNdjson('{"a":1}\n\n{"a":2}\r\n[3]\n');
+    expect(records).toEqual([{ a: 1 }, { a: 2 }, [3]]);
+    expect(recordLines).toEqual([1, 3, 4]);
+    expect(errors).toHaveLength(0);
+  });
+
+  it("reports bad lines without aborting the file", () => {
+    const { records, errors } = parseNdjson('{"a":1}\n{"a":\n{"a":3}');
+    expect(records).toEqual([{ a: 1 }, { a: 3 }]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].line).toBe(2);
+    expect(errors[0].message).toMatch(/at line 2, column 6/);
+    expect(errors[0].detail?.offset).toBe(13);
+  });
+
+  it("reports a record nested too deeply to parse as a bad line", () => {
+    const deep = "[".repeat(100000) + "]".repeat(100000);
+    const { records, errors } = parseNdjson(`{"a":1}\n${deep}\n{"a":3}`);
+    expect(records).toEqual([{ a: 1 }, { a: 3 }]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].line).toBe(2);
+    expect(errors[0].message).toMatch(/^Expected shallower nesting/);
+  });
+
+  it("skips a byte order mark on the first line", () => {
+    expect(parseNdjson('\uFEFF{"a":1}\n{"a":2}').records).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+});
+
+describe("looksLikeNdjson", () => {
+  it("accepts two complete values on separate lines", () => {
+    expect(looksLikeNdjson('{"a":1}\n{"a":2}\n{"a"')).toBe(true);
+  });
+
+  it("rejects pretty-printed JSON and single-line files", () => {
+    expect(looksLikeNdjson('{\n  "a": 1\n}')).toBe(false);
+    expect(looksLikeNdjson('{"a":1}')).toBe(false);
+  });
+});
+
+describe("stringifyNdjson", () => {
+  it("writes compact records with a trailing newline", () => {
+    expect(stringifyNdjson([{ a: 1 }, [2, 3], "x"])).toBe('{"a":1}\n[2,3]\n"x"\n');
+  });
+
+  it("round-trips through parseNdjson", () => {
+    const records: JsonValue[] = [{ id: 1, tags: ["x"] }, { id: 2, nested: { ok: true } }];
+    expect(parseNdjson(stringifyNdjson(records, "\r\n")).records).toEqual(records);
+  });
+});
@@ -0,0 +1,90 @@
+import type { JsonValue } from "./fileLoader";
+import { childPath, parseJson, type DuplicateKey, type ParseErrorInfo, type ParseOptions } from "./jsonParser";
+import { stringifyLossless } from "./losslessNumber";
+
+/** A record line that failed to parse; the rest of the file still loads */
+export interface NdjsonLineError {
+  /** 1-based line in the file */
+  line: number;
+  message: string;
+  /** Location within the file (line/column/offset are file-relative) */
+  detail?: ParseErrorInfo;
+}
+
+export interface NdjsonParseResult {
+  records: JsonValue[];
+  /** 1-based source line of each record, parallel to `records` */
+  recordLines: number[];
+  errors: NdjsonLineError[];
+  /** Repeated keys; paths start with the record index */
+  duplicates: DuplicateKey[];
+}
+
+/**
+ * Parse newline-delimited JSON (JSON Lines). Blank lines are skipped and a bad
+ * line is reported in `errors` instead of aborting the file.
+ */
+export function parseNdjson(text: string, options: Pick<ParseOptions, "lossless" | "duplicateKeys"> = {}): NdjsonParseResult {
+  const records: JsonValue[] = [];
+  const recordLines: number[] = [];
+  const errors: NdjsonLineError[] = [];
+  const duplicates: DuplicateKey[] = [];
+
+  let lineStart = 0;
+  let lineNumber = 1;
+  // Skip a UTF-8 BOM so the first record parses
+  if (text.charCodeAt(0) === 0xfeff) lineStart = 1;
+
+  while (lineStart <= text.length) {
+    let lineEnd = text.indexOf("\n", lineStart);
+    if (lineEnd === -1) lineEnd = text.length;
+    const raw = text.slice(lineStart, lineEnd).replace(/\r$/, "");
+
+    if (raw.trim() !== "") {
+      const parsed = parseJson(raw, options);
+      if (parsed.error) {
+        const { error } = parsed;
+        const message = `Expected ${error.expected} but found ${error.found} at line ${lineNumber}, column ${error.column}`;
+        errors.push({ line: lineNumber, message, detail: { ...error, message, line: lineNumber, offset: lineStart + error.offset } });
+      } else {
+        const index = String(records.length);
+        parsed.duplicates?.forEach((d) => duplicates.push({ ...d, path: childPath(index, d.path), line: lineNumber }));
+        records.push(parsed.value!);
+        recordLines.push(lineNumber);
+      }
+    }
+    lineStart = lineEnd + 1;
+    lineNumber++;
+  }
+  return { records, recordLines, errors, duplicates };
+}
+
+/**
+ * Heuristic for files without a .ndjson/.jsonl extension: at least two
+ * non-blank lines, and the first two each parse as a complete JSON value.
+ */
+export function looksLikeNdjson(text: string): boolean {
+  const lines: string[] = [];
+  let at = 0;
+  while (lines.length < 2 && at < text.length) {
+    let end = text.indexOf("\n", at);
+    if (end === -1) end = text.length;
+    const line = text.slice(at, end).trim();
+    if (line !== "") lines.push(line);
+    at = end + 1;
+  }
+  if (lines.length < 2) return false;
+  return lines.every((line) => {
+    try {
+      JSON.parse(line);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/** One compact record per line, with a trailing newline */
+export function stringifyNdjson(records: JsonValue[], eol = "\n"): string {
+  return records.map((r) => stringifyLossless(r)).join(eol) + eol;
+}
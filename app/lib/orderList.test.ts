@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import type { JsonObject } from "./fileLoader";
+import { exportOrderList, parseOrderList, sortByOrderList, DEFAULT_ORDER_FILE_OPTIONS, type OrderFileOptions, type OrderSortParams } from "./orderList";
+
+const doc: JsonObject = {
+  view: {
+    classes: [
+      { name: "apple", attributes: [{ viewname: "c" }, { viewname: "a" }, { viewname: "x" }, { viewname: "b" }] },
+      { name: "pear", attributes: [{ viewname: "b" }, { viewname: "a" }] },
+      { name: "plum", attributes: [{ viewname: "z" }, { viewname: "y" }] },
+    ],
+  },
+};
+
+const txFile = 'class, viewname\n"apple", "a"\n"apple", "b"\n"apple", "c"\n"apple", "gone"\n"pear", "a"\n';
+
+const params: OrderSortParams = { containerPath: "view.classes.*.attributes", groupKey: "name", matchKey: "viewname", unmatched: "append" };
+
+const viewnames = (data: unknown, i: number) => (data as any).view.classes[i].attributes.map((a: any) => a.viewname);
+
+describe("parseOrderList", () => {
+  it("reads the TX file's quoted pairs by column number", () => {
+    const { list } = parseOrderList(txFile, DEFAULT_ORDER_FILE_OPTIONS);
+    expect(list!.groups).toEqual({ apple: ["a", "b", "c", "gone"], pear: ["a"] });
+    expect(list!.entryCount).toBe(5);
+  });
+
+  it("maps CSV columns by header name", () => {
+    const csv = "id;field;cls\n1;b;pear\n2;a;pear\n";
+    const { list } = parseOrderList(csv, { format: "csv", headerRow: true, groupColumn: "cls", matchColumn: "field" });
+    expect(list!.groups).toEqual({ pear: ["b", "a"] });
+    expect(parseOrderList(csv, { format: "csv", headerRow: true, groupColumn: "", matchColumn: "nope" }).error).toMatch(/No column "nope"/);
+  });
+
+  it("reads JSON arrays, pairs, objects and group maps", () => {
+    const json = (text: string, groupColumn = "") => parseOrderList(text, { format: "json", headerRow: false, groupColumn, matchColumn: "v" }).list!.groups;
+    expect(json('["b", "a", 3]')).toEqual({ "": ["b", "a", "3"] });
+    expect(json('[["pear", "b"], ["pear", "a"]]')).toEqual({ pear: ["b", "a"] });
+    expect(json('[{"g": "pear", "v": "b"}]', "g")).toEqual({ pear: ["b"] });
+    expect(json('{"pear": ["b", "a"]}')).toEqual({ pear: ["b", "a"] });
+    expect(parseOrderList("{", { format: "json", headerRow: false, groupColumn: "", matchColumn: "" }).error).toMatch(/Invalid JSON/);
+  });
+
+  it("reads plain lines and rejects an empty file", () => {
+    expect(parseOrderList("b\n\n a \r\n", { ...DEFAULT_ORDER_FILE_OPTIONS, format: "lines" }).list!.groups).toEqual({ "": ["b", "a"] });
+    expect(parseOrderList("\n", { ...DEFAULT_ORDER_FILE_OPTIONS, format: "lines" }).error).toMatch(/No entries/);
+  });
+});
+
+describe("sortByOrderList", () => {
+  const { list } = parseOrderList(txFile, DEFAULT_ORDER_FILE_OPTIONS);
+
+  it("orders each group's container by its list and leaves unlisted groups alone", () => {
+    const result = sortByOrderList(doc, list!, params);
+    expect(result.report.integrityPassed).toBe(true);
+    expect(viewnames(result.data, 0)).toEqual(["a", "b", "c", "x"]);
+    expect(viewnames(result.data, 1)).toEqual(["a", "b"]);
+    expect(viewnames(result.data, 2)).toEqual(["z", "y"]);
+    expect(result.report.containers.map((c) => c.path)).toEqual(["view.classes.0.attributes", "view.classes.1.attributes"]);
+    expect(result.unmatchedEntries).toEqual([{ group: "apple", value: "gone" }]);
+    expect(result.unmatchedElements).toEqual([
+      { path: "view.classes.0.attributes.2", group: "apple", value: "x" },
+      { path: "view.classes.1.attributes.0", group: "pear", value: "b" },
+    ]);
+  });
+
+  it("prepends unmatched elements or refuses to sort", () => {
+    expect(viewnames(sortByOrderList(doc, list!, { ...params, unmatched: "prepend" }).data, 0)).toEqual(["x", "a", "b", "c"]);
+    const failed = sortByOrderList(doc, list!, { ...params, unmatched: "fail" });
+    expect(failed.report.integrityPassed).toBe(false);
+    expect(failed.report.error).toMatch(/2 elements match no list entry, first view.classes.0.attributes.2/);
+    expect(failed.data).toBe(doc);
+  });
+
+  it("uses one ungrouped list for every container without a group key", () => {
+    const { list: flat } = parseOrderList("y\nb\na", { ...DEFAULT_ORDER_FILE_OPTIONS, format: "lines" });
+    const result = sortByOrderList(doc, flat!, { ...params, groupKey: "" });
+    expect(viewnames(result.data, 1)).toEqual(["b", "a"]);
+    expect(viewnames(result.data, 2)).toEqual(["y", "z"]);
+    expect(result.report.containers).toHaveLength(3);
+  });
+});
+
+describe("exportOrderList", () => {
+  const reordered: JsonObject = {
+    view: {
+      classes: [
+        { name: "apple", attributes: [{ viewname: "b" }, { viewname: "x" }, { viewname: "c" }, { viewname: "a" }] },
+        { name: "pear", attributes: [{ viewname: "a" }, { viewname: "b" }, {}] },
+      ],
+    },
+  };
+
+  it("writes the TX file format, one quoted pair per element, grouped by class", () => {
+    const result = exportOrderList(reordered, params, DEFAULT_ORDER_FILE_OPTIONS);
+    expect(result.text).toBe('"name","viewname"\r\n"apple","b"\r\n"apple","x"\r\n"apple","c"\r\n"apple","a"\r\n"pear","a"\r\n"pear","b"\r\n');
+    expect(result.entryCount).toBe(6);
+    expect(result.skipped).toBe(1);
+  });
+
+  it("applies one file's order to another with the same structure", () => {
+    const formats: OrderFileOptions[] = [
+      DEFAULT_ORDER_FILE_OPTIONS,
+      { format: "csv", headerRow: true, groupColumn: "cls", matchColumn: "field" },
+      { format: "json", headerRow: false, groupColumn: "", matchColumn: "" },
+    ];
+    for (const options of formats) {
+      const { list } = parseOrderList(exportOrderList(reordered, params, options).text!, options);
+      expect(viewnames(sortByOrderList(doc, list!, params).data, 0)).toEqual(["b", "x", "c", "a"]);
+    }
+  });
+
+  it("writes plain lines without groups and refuses them with a group key", () => {
+    const lines: OrderFileOptions = { format: "lines", headerRow: false, groupColumn: "", matchColumn: "" };
+    expect(exportOrderList(reordered, { ...params, containerPath: "view.classes.1.attributes", groupKey: "" }, lines).text).toBe("a\nb\n");
+    expect(exportOrderList(reordered, params, lines).error).toMatch(/cannot hold groups/);
+    expect(exportOrderList(reordered, { ...params, containerPath: "nope" }, DEFAULT_ORDER_FILE_OPTIONS).error).toMatch(/No containers/);
+  });
+});
@@ -0,0 +1,369 @@
+import type { JsonValue } from "./fileLoader";
+import { createRankComparator, type ScalarValue } from "./comparators";
+import { parseCsvRows, sniffDelimiter } from "./csvImporter";
+import { toDelimited, DEFAULT_TABLE_OPTIONS } from "./exporters";
+import { runJob, type Job } from "./jobs";
+import { isLosslessNumber } from "./losslessNumber";
+import { resolvePathPattern, type PathMatch } from "./pathPattern";
+import { fieldValue, sortContainerJob, type SortKeySpec, type SortResult } from "./sorter";
+import type { SerializeOptions } from "./serializer";
+
+export type OrderFileFormat = "csv" | "json" | "lines";
+
+/** What happens to elements no list entry names */
+export type UnmatchedPolicy = "append" | "prepend" | "fail";
+
+export interface OrderFileOptions {
+  format: OrderFileFormat;
+  /** CSV only: the first row names the columns */
+  headerRow: boolean;
+  /** Column (header name or 1-based number) or JSON field naming each entry's group; empty for one list for every container */
+  groupColumn: string;
+  /** Column (header name or 1-based number) or JSON field holding the value to match */
+  matchColumn: string;
+}
+
+/** The original TX order file: `"class", "viewname"` rows under a header */
+export const DEFAULT_ORDER_FILE_OPTIONS: OrderFileOptions = { format: "csv", headerRow: true, groupColumn: "1", matchColumn: "2" };
+
+export interface OrderList {
+  /** Values in order, per group; "" holds the entries without a group */
+  groups: Record<string, string[]>;
+  entryCount: number;
+}
+
+export interface OrderListResult {
+  list?: OrderList;
+  error?: string;
+}
+
+export interface OrderSortParams {
+  /** Container path or pattern, e.g. `view.classes.*.attributes` */
+  containerPath: string;
+  /** Field of the container's parent naming its group, e.g. `name` for a class; empty uses the ungrouped list */
+  groupKey: string;
+  /** Field of each element matched against the list, e.g. `viewname`; empty matches the element itself */
+  matchKey: string;
+  unmatched: UnmatchedPolicy;
+  format?: SerializeOptions;
+}
+
+/** Where the current order is read from, for an exported order file */
+export type OrderSource = Pick<OrderSortParams, "containerPath" | "groupKey" | "matchKey">;
+
+export const ORDER_FILE_EXTENSIONS: Record<OrderFileFormat, string> = { csv: "csv", json: "json", lines: "txt" };
+
+export interface OrderExportResult {
+  text?: string;
+  error?: string;
+  entryCount: number;
+  /** Elements with no scalar match value, left out of the file */
+  skipped: number;
+}
+
+export interface UnmatchedEntry {
+  group: string;
+  value: string;
+}
+
+export interface UnmatchedElement {
+  /** Dotted path of the element before sorting */
+  path: string;
+  group: string;
+  /** Its match value as text; "" when missing or not a scalar */
+  value: string;
+}
+
+export interface OrderSortResult extends SortResult {
+  /** List entries no element matched */
+  unmatchedEntries: UnmatchedEntry[];
+  /** Elements of sorted containers that matched no list entry */
+  unmatchedElements: UnmatchedElement[];
+}
+
+/** Cells are trimmed, and quotes left around a cell after a space (`a, "b"`) are dropped */
+function cleanCell(cell: string): string {
+  const trimmed = cell.trim();
+  return /^".*"$/.test(trimmed) ? trimmed.slice(1, -1).replace(/""/g, '"').trim() : trimmed;
+}
+
+function textOf(value: JsonValue | undefined): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (isLosslessNumber(value)) return value.value;
+  return typeof value === "object" ? undefined : String(value).trim();
+}
+
+function addEntry(groups: Record<string, string[]>, group: string, value: string): boolean {
+  if (!value) return false;
+  if (!Object.prototype.hasOwnProperty.call(groups, group)) groups[group] = [];
+  groups[group].push(value);
+  return true;
+}
+
+function parseCsvList(text: string, options: OrderFileOptions): OrderListResult {
+  const { rows, error, errorLine } = parseCsvRows(text, sniffDelimiter(text));
+  if (error) return { error: `${error} (line ${errorLine})` };
+  const header = options.headerRow && rows.length > 0 ? rows[0].cells.map(cleanCell) : [];
+  const column = (ref: string): number => {
+    const trimmed = ref.trim();
+    if (/^\d+$/.test(trimmed)) return Number(trimmed) - 1;
+    return header.indexOf(trimmed);
+  };
+  const matchAt = column(options.matchColumn);
+  if (matchAt < 0) return { error: `No column "${options.matchColumn}" in the header` };
+  const groupAt = options.groupColumn.trim() ? column(options.groupColumn) : -1;
+  if (options.groupColumn.trim() && groupAt < 0) return { error: `No column "${options.groupColumn}" in the header` };
+
+  const groups: Record<string, string[]> = {};
+  let entryCount = 0;
+  for (const row of rows.slice(options.headerRow ? 1 : 0)) {
+    const group = groupAt >= 0 ? cleanCell(row.cells[groupAt] ?? "") : "";
+    if (groupAt >= 0 && !group) continue;
+    if (addEntry(groups, group, cleanCell(row.cells[matchAt] ?? ""))) entryCount++;
+  }
+  return { list: { groups, entryCount } };
+}
+
+/**
+ * JSON order files: an array of values, an array of `[group, value]` pairs, an
+ * array of objects read through the group and match fields, or an object
+ * mapping each group to its array of values.
+ */
+function parseJsonList(text: string, options: OrderFileOptions): OrderListResult {
+  let parsed: JsonValue;
+  try {
+    parsed = JSON.parse(text) as JsonValue;
+  } catch (e) {
+    return { error: `Invalid JSON: ${(e as Error).message}` };
+  }
+  const groups: Record<string, string[]> = {};
+  let entryCount = 0;
+  const add = (group: string | undefined, value: string | undefined) => {
+    if (group !== undefined && addEntry(groups, group, value ?? "")) entryCount++;
+  };
+
+  if (Array.isArray(parsed)) {
+    for (const item of parsed) {
+      if (Array.isArray(item)) {
+        if (item.length === 1) add("", textOf(item[0]));
+        else add(textOf(item[0]), textOf(item[1]));
+      } else if (item !== null && typeof item === "object" && !isLosslessNumber(item)) {
+        const group = options.groupColumn.trim() ? textOf(fieldValue(item, options.groupColumn.trim())) : "";
+        add(group, textOf(fieldValue(item, options.matchColumn.trim())));
+      } else {
+        add("", textOf(item));
+      }
+    }
+  } else if (parsed !== null && typeof parsed === "object" && !isLosslessNumber(parsed)) {
+    for (const group of Object.keys(parsed)) {
+      const values = parsed[group];
+      if (!Array.isArray(values)) return { error: `Group "${group}" is not an array of values` };
+      values.forEach((v) => add(group, textOf(v)));
+    }
+  } else {
+    return { error: "Expected a JSON array or an object of arrays" };
+  }
+  return { list: { groups, entryCount } };
+}
+
+/** One value per line, one list for every container */
+function parseLinesList(text: string): OrderListResult {
+  const groups: Record<string, string[]> = {};
+  let entryCount = 0;
+  for (const line of text.split(/\r?\n/)) {
+    if (addEntry(groups, "", line.trim())) entryCount++;
+  }
+  return { list: { groups, entryCount } };
+}
+
+/** Read an order file into per-group value lists; duplicates stay in the list, the first one counts */
+export function parseOrderList(text: string, options: OrderFileOptions): OrderListResult {
+  const result =
+    options.format === "json" ? parseJsonList(text, options) : options.format === "csv" ? parseCsvList(text, options) : parseLinesList(text);
+  if (result.list && result.list.entryCount === 0) return { error: "No entries found in the order file" };
+  return result;
+}
+
+function parentPath(segments: string[]): string[] {
+  return segments.slice(0, -1);
+}
+
+function nodeAt(root: JsonValue, segments: string[]): JsonValue | undefined {
+  let node: JsonValue | undefined = root;
+  for (const segment of segments) {
+    if (Array.isArray(node)) node = node[Number(segment)];
+    else if (node !== null && typeof node === "object" && !isLosslessNumber(node)) node = node[segment];
+    else return undefined;
+  }
+  return node;
+}
+
+/** Each array or object the path matches, with the group its parent names ("" without a group key) */
+function groupedContainers(data: JsonValue, source: OrderSource): { match: PathMatch; group: string }[] {
+  const groupKey = source.groupKey.trim();
+  const found: { match: PathMatch; group: string }[] = [];
+  for (const match of resolvePathPattern(data, source.containerPath)) {
+    const value = match.value;
+    if (value === null || typeof value !== "object" || isLosslessNumber(value)) continue;
+    const group = groupKey ? textOf(fieldValue(nodeAt(data, parentPath(match.segments)) ?? null, groupKey)) : "";
+    if (group !== undefined) found.push({ match, group });
+  }
+  return found;
+}
+
+function elementsOf(value: JsonValue): [string, JsonValue][] {
+  if (Array.isArray(value)) return value.map((v, i) => [String(i), v] as [string, JsonValue]);
+  const object = value as Record<string, JsonValue>;
+  return Object.keys(object).map((k) => [k, object[k]] as [string, JsonValue]);
+}
+
+/**
+ * Order every container `containerPath` matches exactly as the list says.
+ * With a group key, each container takes the list of the group its parent
+ * names (a class's `name`) and containers whose group has no list are left
+ * alone; without one, every container takes the ungrouped list. Elements the
+ * list does not name go after (append) or before (prepend) the listed ones in
+ * their original order, or stop the sort (fail).
+ */
+export function sortByOrderList(data: JsonValue, list: OrderList, params: OrderSortParams): OrderSortResult {
+  return runJob(sortByOrderListJob(data, list, params));
+}
+
+/** sortByOrderList as a job: the sort's checkpoints, after matching every element */
+export function* sortByOrderListJob(data: JsonValue, list: OrderList, params: OrderSortParams): Job<OrderSortResult> {
+  const listFor = (group: string): string[] | undefined =>
+    Object.prototype.hasOwnProperty.call(list.groups, group) ? list.groups[group] : undefined;
+
+  // Group of each container, from its parent, and which entries and elements
+  // found each other, before anything moves
+  const containerGroups = new Map<string, string>();
+  const matched = new Set<string>();
+  const unmatchedElements: UnmatchedElement[] = [];
+  for (const { match: m, group } of groupedContainers(data, params)) {
+    const order = listFor(group);
+    if (!order) continue;
+    containerGroups.set(m.path, group);
+    const rank = createRankComparator(order);
+    for (const [key, el] of elementsOf(m.value)) {
+      const text = textOf(fieldValue(el, params.matchKey.trim()));
+      if (text !== undefined && rank.read(text as ScalarValue) !== undefined) matched.add(`${group}\u0000${text}`);
+      else unmatchedElements.push({ path: m.path ? `${m.path}.${key}` : key, group, value: text ?? "" });
+    }
+  }
+  const unmatchedEntries: UnmatchedEntry[] = [];
+  for (const group of Object.keys(list.groups)) {
+    const seen = new Set<string>();
+    for (const value of list.groups[group]) {
+      if (seen.has(value) || matched.has(`${group}\u0000${value}`)) continue;
+      seen.add(value);
+      unmatchedEntries.push({ group, value });
+    }
+  }
+
+  const key = (rank: string[]): SortKeySpec[] => [
+    { key: params.matchKey.trim(), direction: "asc", type: "auto", nulls: params.unmatched === "prepend" ? "first" : "last", rank },
+  ];
+  if (params.unmatched === "fail" && unmatchedElements.length > 0) {
+    const first = unmatchedElements[0];
+    return {
+      data,
+      report: {
+        containerPath: params.containerPath,
+        sortKey: params.matchKey.trim(),
+        direction: "asc",
+        keys: key([]),
+        countBefore: 0,
+        countAfter: 0,
+        integrityPassed: false,
+        movementLog: [],
+        containers: [],
+        durationMs: 0,
+        error: `${unmatchedElements.length} element${unmatchedElements.length === 1 ? " matches" : "s match"} no list entry, first ${first.path} (${JSON.stringify(first.value)})`,
+      },
+      unmatchedEntries,
+      unmatchedElements,
+    };
+  }
+
+  const sorting = sortContainerJob(data, {
+    containerPath: params.containerPath,
+    sortKey: params.matchKey.trim(),
+    direction: "asc",
+    keys: key([]),
+    format: params.format,
+    keysFor: (path) => {
+      const group = containerGroups.get(path);
+      return group === undefined ? undefined : key(listFor(group) as string[]);
+    },
+  });
+  let step = sorting.next();
+  while (!step.done) {
+    yield step.value;
+    step = sorting.next();
+  }
+  return { ...step.value, unmatchedEntries, unmatchedElements };
+}
+
+/**
+ * The current order of every container `containerPath` matches, as an order
+ * file `parseOrderList` reads back with the same options: one entry per match
+ * value, grouped by the container parent's group key. A group that appears in
+ * several containers keeps the first order of each value.
+ */
+export function exportOrderList(data: JsonValue, source: OrderSource, options: OrderFileOptions): OrderExportResult {
+  const grouped = source.groupKey.trim() !== "";
+  if (grouped && options.format === "lines") {
+    return { error: "Plain lines cannot hold groups; clear the group key or choose CSV or JSON", entryCount: 0, skipped: 0 };
+  }
+  if (!grouped && options.format !== "lines" && options.groupColumn.trim()) {
+    return { error: "Without a group key there is no group column; clear it so the file reads back ungrouped", entryCount: 0, skipped: 0 };
+  }
+  const containers = groupedContainers(data, source);
+  if (containers.length === 0) return { error: `No containers found matching "${source.containerPath}"`, entryCount: 0, skipped: 0 };
+
+  const groups: Record<string, string[]> = {};
+  const seen = new Set<string>();
+  let skipped = 0;
+  let entryCount = 0;
+  for (const { match, group } of containers) {
+    for (const [, el] of elementsOf(match.value)) {
+      const text = textOf(fieldValue(el, source.matchKey.trim()));
+      if (text === undefined || text === "") {
+        skipped++;
+      } else if (!seen.has(`${group}\u0000${text}`)) {
+        seen.add(`${group}\u0000${text}`);
+        addEntry(groups, group, text);
+        entryCount++;
+      }
+    }
+  }
+  if (entryCount === 0) return { error: "No match values found in the matched containers", entryCount, skipped };
+
+  let text: string;
+  if (options.format === "lines") {
+    text = groups[""].join("\n") + "\n";
+  } else if (options.format === "json") {
+    text = JSON.stringify(grouped ? groups : groups[""], null, 2) + "\n";
+  } else {
+    // Numbered columns keep their places; named ones go group first, as the TX files do
+    const numbered = (ref: string) => (/^\d+$/.test(ref.trim()) ? Number(ref.trim()) - 1 : -1);
+    const groupAt = grouped ? (numbered(options.groupColumn) >= 0 ? numbered(options.groupColumn) : 0) : -1;
+    let matchAt = numbered(options.matchColumn) >= 0 ? numbered(options.matchColumn) : grouped ? 1 : 0;
+    if (matchAt === groupAt) matchAt = groupAt + 1;
+    const width = Math.max(groupAt, matchAt) + 1;
+    const header = new Array<string>(width).fill("");
+    if (grouped) header[groupAt] = numbered(options.groupColumn) >= 0 ? source.groupKey.trim() : options.groupColumn.trim();
+    header[matchAt] = numbered(options.matchColumn) >= 0 || !options.matchColumn.trim() ? source.matchKey.trim() || "value" : options.matchColumn.trim();
+    const rows: string[][] = [];
+    for (const group of Object.keys(groups)) {
+      for (const value of groups[group]) {
+        const row = new Array<string>(width).fill("");
+        if (grouped) row[groupAt] = group;
+        row[matchAt] = value;
+        rows.push(row);
+      }
+    }
+    text = toDelimited({ columns: header, rows }, ",", { ...DEFAULT_TABLE_OPTIONS, quoting: "all", header: options.headerRow });
+  }
+  return { text, entryCount, skipped };
+}
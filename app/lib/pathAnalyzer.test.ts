@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import type { JsonObject } from "./fileLoader";
+import { analyzeJsonStructure, analyzeJsonStructureJob, buildSortOptions, detectDictionary, splitSortPath } from "./pathAnalyzer";
+import { driveJob, type JobProgress } from "./jobs";
+import { sortContainer } from "./sorter";
+
+const catalog: JsonObject = {
+  view: {
+    name: "Fruit Catalog",
+    classes: {
+      pear: { productDesc: "pears", attributes: [{ name: "Conference", colour: "green" }] },
+      apple: { productDesc: "apples", attributes: [{ name: "Gala", colour: "red" }, { name: "Braeburn", colour: "red" }] },
+    },
+  },
+};
+
+describe("detectDictionary", () => {
+  it("tells data-keyed objects from structural ones", () => {
+    expect(detectDictionary((catalog.view as JsonObject).classes as JsonObject)).toBe(true);
+    expect(detectDictionary(catalog.view as JsonObject)).toBe(false);
+    expect(detectDictionary({ only: { a: 1 } })).toBe(false);
+    expect(detectDictionary({ a: { x: 1 }, b: { y: 1 } })).toBe(false);
+  });
+});
+
+describe("analyzeJsonStructure", () => {
+  it("reports schema paths, with a dictionary's values as one template", () => {
+    const { containers } = analyzeJsonStructure(catalog);
+    expect(containers.map((c) => [c.path, c.type, c.itemCount])).toEqual([
+      ["root", "object", 1],
+      ["view", "object", 2],
+      ["view.classes", "object", 2],
+      ["view.classes.*.attributes", "array", 1],
+    ]);
+    const classes = containers.find((c) => c.path === "view.classes")!;
+    expect(classes.isDictionary).toBe(true);
+    expect(classes.availableFields).toEqual(["attributes.colour", "attributes.name", "productDesc"]);
+  });
+});
+
+describe("analyzeJsonStructureJob", () => {
+  const large: JsonObject = {
+    rows: Array.from({ length: 5000 }, (_, i) => ({ id: i, tags: [{ label: `t${i}` }] })),
+    groups: { a: { items: [1] }, b: { items: [2] } },
+  };
+
+  it("checks in within large containers, counting items up to the total", () => {
+    const seen: JobProgress[] = [];
+    const job = analyzeJsonStructureJob(large);
+    let step = job.next();
+    while (!step.done) {
+      seen.push(step.value);
+      step = job.next();
+    }
+    expect(step.value).toEqual(analyzeJsonStructure(large));
+    expect(seen.filter((p) => p.processed > 0 && p.processed < 5000).length).toBeGreaterThanOrEqual(4);
+    const last = seen[seen.length - 1];
+    expect(last.processed).toBeLessThanOrEqual(last.total);
+  });
+
+  it("stops partway through the scan when cancelled", async () => {
+    let checks = 0;
+    let latest: JobProgress | undefined;
+    const job = analyzeJsonStructureJob(large);
+    const outcome = await driveJob(job, {
+      // Cancelled while the rows are being scanned
+      isCancelled: () => ++checks > 3,
+      onProgress: (progress) => { latest = progress; },
+      sliceMs: 0,
+    });
+    expect(outcome).toEqual({ cancelled: true });
+    expect(latest!.processed).toBeGreaterThan(0);
+    expect(latest!.processed).toBeLessThan(latest!.total);
+    expect(job.next().done).toBe(true);
+  });
+});
+
+describe("buildSortOptions", () => {
+  it("lists arrays and dictionaries, each followed by its fields", () => {
+    const { containerOptions, protectedContainers } = buildSortOptions(analyzeJsonStructure(catalog));
+    expect(containerOptions.map((c) => (c.sortField ? `${c.path}.${c.sortField}` : c.path))).toEqual([
+      "view.classes",
+      "view.classes.attributes.colour",
+      "view.classes.attributes.name",
+      "view.classes.productDesc",
+      "view.classes.*.attributes",
+      "view.classes.*.attributes.colour",
+      "view.classes.*.attributes.name",
+    ]);
+    expect(protectedContainers.map((c) => c.path)).toEqual(["view.classes", "view.classes.*.attributes"]);
+  });
+
+  it("offers fields that sortContainer reads the same way", () => {
+    // A field through an array sorts by the array's first element
+    const { data } = sortContainer(catalog, { containerPath: "view.classes", sortKey: "attributes.name", direction: "asc" });
+    expect(Object.keys((data as any).view.classes)).toEqual(["pear", "apple"]);
+    const byName = sortContainer(catalog, { containerPath: "view.classes", sortKey: "", direction: "asc" });
+    expect(Object.keys((byName.data as any).view.classes)).toEqual(["apple", "pear"]);
+  });
+});
+
+describe("splitSortPath", () => {
+  it("splits a path that runs past its container into container and field", () => {
+    expect(splitSortPath(catalog, "view.classes.productDesc")).toEqual({ containerPath: "view.classes", sortField: "productDesc" });
+    expect(splitSortPath({ items: [{ id: 1 }] }, "items.id")).toEqual({ containerPath: "items", sortField: "id" });
+  });
+
+  it("leaves container paths and paths with no container along them alone", () => {
+    expect(splitSortPath(catalog, "view.classes")).toBeUndefined();
+    expect(splitSortPath({ a: { b: 1 } }, "a.b.c")).toBeUndefined();
+  });
+});
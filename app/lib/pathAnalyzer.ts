@@ -0,0 +1,306 @@
+/**
+ * Path Analysis Utility for JSON Structure
+ * Identifies sortable containers and available sort fields within any JSON structure
+ */
+
+import type { JsonValue, JsonObject, JsonArray } from "./fileLoader";
+import { isLosslessNumber } from "./losslessNumber";
+import { runJob, type Job, type JobProgress } from "./jobs";
+
+export interface ContainerInfo {
+  path: string;
+  type: "array" | "object";
+  depth: number;
+  itemCount: number;
+  availableFields?: string[]; // Sortable fields of the items
+  sortField?: string | null;  // The specific field to sort by (null = sort by key)
+  label?: string;             // Display label for dropdown
+  isDictionary?: boolean;     // True if object is a dictionary (dynamic keys)
+}
+
+export interface StructureAnalysis {
+  containers: ContainerInfo[];
+  maxDepth: number;
+}
+
+/**
+ * Check if value is an object (not array, not null)
+ */
+function isObject(val: JsonValue | undefined): val is JsonObject {
+  return val !== null && typeof val === "object" && !Array.isArray(val) && !isLosslessNumber(val);
+}
+
+/**
+ * Check if value is an array
+ */
+function isArray(val: JsonValue | undefined): val is JsonArray {
+  return Array.isArray(val);
+}
+
+function isPrimitive(val: JsonValue): boolean {
+  return val === null || typeof val !== "object" || isLosslessNumber(val);
+}
+
+/**
+ * Add the sortable field paths of one of a container's items: primitive
+ * fields, and the primitive fields one level into a nested object or an array
+ * of objects (`attributes.name`, which sorts by the array's first element)
+ */
+function addSortableFields(allFields: Set<string>, item: JsonValue): void {
+  const addNested = (key: string, obj: JsonObject) => {
+    Object.keys(obj).forEach((nested) => {
+      if (isPrimitive(obj[nested])) allFields.add(`${key}.${nested}`);
+    });
+  };
+  if (!isObject(item)) return;
+  Object.keys(item).forEach((key) => {
+    const val = item[key];
+    if (isPrimitive(val)) allFields.add(key);
+    else if (isArray(val)) {
+      if (isObject(val[0])) addNested(key, val[0]);
+    } else if (isObject(val)) addNested(key, val);
+  });
+}
+
+/**
+ * Whether an object is a dictionary (data-keyed, like `{ apple: {...}, pear: {...} }`)
+ * rather than structural (schema-keyed): more than one key, every value an
+ * object, and each value sharing at least half its keys with the first.
+ */
+export function detectDictionary(obj: JsonObject): boolean {
+  const keys = Object.keys(obj);
+  if (keys.length < 2) return false;
+  const childVals = keys.map((k) => obj[k]);
+  if (!childVals.every(isObject)) return false;
+  const firstKeys = new Set(Object.keys(childVals[0] as JsonObject));
+  if (firstKeys.size === 0) return false;
+  for (let i = 1; i < childVals.length; i++) {
+    const otherKeys = Object.keys(childVals[i] as JsonObject);
+    const overlap = otherKeys.filter((k) => firstKeys.has(k)).length;
+    if (overlap / Math.max(firstKeys.size, otherKeys.length) < 0.5) return false;
+  }
+  return true;
+}
+
+/** Items of a large container scanned between checkpoints */
+const SCAN_CHECKPOINT_ITEMS = 1000;
+
+interface ScanTask {
+  value: JsonValue;
+  path: string;
+  depth: number;
+  insideDictValue: boolean;
+}
+
+const sizeOf = (value: JsonValue): number => (isArray(value) ? value.length : isObject(value) ? Object.keys(value).length : 0);
+
+/**
+ * Traverse JSON structure and identify all sortable containers, as schema
+ * paths: a dictionary's values are one template (`view.classes.*.attributes`)
+ * and an array is described by its first item, so data-valued paths like
+ * `view.classes.pear` never appear.
+ */
+export function analyzeJsonStructure(data: JsonValue): StructureAnalysis {
+  return runJob(analyzeJsonStructureJob(data));
+}
+
+/**
+ * analyzeJsonStructure as a job, with a checkpoint at each container and every
+ * SCAN_CHECKPOINT_ITEMS items within one. Progress counts the items of the
+ * containers found so far, so the total grows as nested containers turn up.
+ */
+export function* analyzeJsonStructureJob(data: JsonValue): Job<StructureAnalysis> {
+  const containers: ContainerInfo[] = [];
+  let maxDepth = 0;
+  const join = (path: string, key: string) => (path ? `${path}.${key}` : key);
+  let processed = 0;
+  let total = sizeOf(data);
+  const progress = (): JobProgress => ({ phase: "Scanning", processed, total });
+
+  // Depth first, in document order: children are pushed last to first
+  const stack: ScanTask[] = [{ value: data, path: "", depth: 0, insideDictValue: false }];
+  const push = (tasks: ScanTask[]) => {
+    for (let i = tasks.length - 1; i >= 0; i--) {
+      total += sizeOf(tasks[i].value);
+      stack.push(tasks[i]);
+    }
+  };
+  // Inside an array item or a dictionary value only arrays and dictionaries are containers
+  const templateTasks = (obj: JsonObject, path: string, depth: number): ScanTask[] =>
+    Object.keys(obj)
+      .filter((key) => isArray(obj[key]) || (isObject(obj[key]) && detectDictionary(obj[key] as JsonObject)))
+      .map((key) => ({ value: obj[key], path: join(path, key), depth: depth + 1, insideDictValue: false }));
+
+  while (stack.length > 0) {
+    yield progress();
+    const { value, path, depth, insideDictValue } = stack.pop()!;
+    maxDepth = Math.max(maxDepth, depth);
+
+    if (isArray(value) || (isObject(value) && detectDictionary(value))) {
+      const keys = isArray(value) ? null : Object.keys(value);
+      const items = keys ? keys.map((k) => (value as JsonObject)[k]) : (value as JsonArray);
+      const fieldSet = new Set<string>();
+      for (let i = 0; i < items.length; i++) {
+        if (i > 0 && i % SCAN_CHECKPOINT_ITEMS === 0) yield progress();
+        addSortableFields(fieldSet, items[i]);
+        processed++;
+      }
+      const fields = Array.from(fieldSet).sort();
+      const availableFields = fields.length > 0 ? fields : undefined;
+      if (keys) {
+        containers.push({ path: path || "root", type: "object", isDictionary: true, depth, itemCount: keys.length, availableFields });
+        push([{ value: items[0], path: join(path, "*"), depth: depth + 1, insideDictValue: true }]);
+      } else {
+        containers.push({ path: path || "root", type: "array", depth, itemCount: items.length, availableFields });
+        if (isObject(items[0])) push(templateTasks(items[0], path, depth));
+      }
+    } else if (isObject(value)) {
+      const keys = Object.keys(value);
+      processed += keys.length;
+      if (insideDictValue) {
+        push(templateTasks(value, path, depth));
+      } else {
+        // Structural object — keys are schema, not data
+        containers.push({ path: path || "root", type: "object", isDictionary: false, depth, itemCount: keys.length });
+        push(
+          keys
+            .filter((key) => isArray(value[key]) || isObject(value[key]))
+            .map((key) => ({ value: value[key], path: join(path, key), depth: depth + 1, insideDictValue: false }))
+        );
+      }
+    }
+  }
+
+  return { containers, maxDepth };
+}
+
+export interface SortOptions {
+  /** Each container, sorted by key or index, followed by one entry per sortable field */
+  containerOptions: ContainerInfo[];
+  /** Every container path once, for the protected paths dropdown */
+  protectedContainers: ContainerInfo[];
+}
+
+/**
+ * Build the sort dropdown from an analysis: arrays and dictionaries only,
+ * leaving out the root, structural objects and indexed paths
+ */
+export function buildSortOptions(analysis: StructureAnalysis): SortOptions {
+  const seen = new Set<string>();
+  const containerOptions: ContainerInfo[] = [];
+  const add = (c: ContainerInfo, sortField: string | null) => {
+    const key = sortField ? `${c.path}.${sortField}` : c.path;
+    if (seen.has(key)) return;
+    seen.add(key);
+    containerOptions.push({ path: c.path, type: c.type, itemCount: c.itemCount, depth: c.depth, sortField });
+  };
+
+  analysis.containers.forEach((c) => {
+    if (c.path === "root" || c.path.includes("[")) return;
+    if (c.type === "object" && !c.isDictionary) return;
+    add(c, null);
+    (c.availableFields ?? []).forEach((field) => add(c, field));
+  });
+
+  const paths = Array.from(new Set(containerOptions.map((c) => c.path))).sort();
+  return {
+    containerOptions,
+    protectedContainers: paths.map((path) => ({ path, type: "object", depth: 0, itemCount: 0 })),
+  };
+}
+
+/**
+ * Split a typed path that runs past its container into the container and a
+ * field of its items: `view.classes.productDesc` becomes `view.classes` sorted
+ * by `productDesc`. Undefined when the path already names a container or no
+ * container lies along it.
+ */
+export function splitSortPath(data: JsonValue, path: string): { containerPath: string; sortField: string } | undefined {
+  const parts = path.split(".");
+  let node: JsonValue | undefined = data;
+  for (const part of parts) {
+    node = isArray(node) ? node[Number(part)] : isObject(node) ? node[part] : undefined;
+  }
+  if (isArray(node) || isObject(node)) return undefined;
+
+  // The deepest array, or object with more than one key, along the path; an array ends the walk
+  let best = -1;
+  node = data;
+  for (let i = 0; i < parts.length - 1 && isObject(node); i++) {
+    node = node[parts[i]];
+    if (isArray(node) || (isObject(node) && Object.keys(node).length > 1)) best = i;
+  }
+  if (best < 0) return undefined;
+  return { containerPath: parts.slice(0, best + 1).join("."), sortField: parts.slice(best + 1).join(".") };
+}
+
+/**
+ * Get list of sortable container paths from analyzed structure
+ */
+export function getSortableContainers(analysis: StructureAnalysis): ContainerInfo[] {
+  return analysis.containers.filter((c) => c.itemCount > 0);
+}
+
+/**
+ * Get ALL unique paths from the structure (for protection dropdown)
+ * Strips out array indices to show clean container paths
+ */
+export function getAllPaths(analysis: StructureAnalysis): string[] {
+  const paths = new Set<string>();
+
+  analysis.containers.forEach(c => {
+    if (c.path && c.path !== 'root') {
+      // Remove array index notation like [0], [1], etc.
+      const cleanPath = c.path.replace(/\[.*?\]/g, '');
+      if (cleanPath && !cleanPath.includes('[')) {
+        paths.add(cleanPath);
+      }
+    }
+  });
+
+  return Array.from(paths).sort();
+}
+
+/**
+ * Get available sort fields for a specific container path
+ */
+export function getSortFieldsForContainer(
+  analysis: StructureAnalysis,
+  containerPath: string
+): string[] {
+  const container = analysis.containers.find((c) => c.path === containerPath);
+
+  if (!container) return [];
+
+  if (container.type === "array") {
+    return container.availableFields || [];
+  } else {
+    // For objects, we sort by keys (no specific fields needed)
+    return ["(keys)"];
+  }
+}
+
+/**
+ * Check if a path matches a protection pattern
+ * Supports exact match, prefix match (path.*), and wildcard (*.field)
+ */
+export function isPathProtected(path: string, protectedPatterns: string[]): boolean {
+  for (const pattern of protectedPatterns) {
+    // Exact match
+    if (pattern === path) return true;
+
+    // Prefix match: "view.classes.*" matches "view.classes.anything"
+    if (pattern.endsWith(".*")) {
+      const prefix = pattern.slice(0, -2);
+      if (path === prefix || path.startsWith(prefix + ".")) return true;
+    }
+
+    // Wildcard match: "*.internal" matches any path ending with ".internal"
+    if (pattern.startsWith("*.")) {
+      const suffix = pattern.slice(1); // Keep the dot
+      if (path.endsWith(suffix)) return true;
+    }
+  }
+
+  return false;
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import type { JsonObject } from "./fileLoader";
+import { createPathWriter, getIn, setIn, updateIn } from "./pathCopy";
+
+const doc = (): any => ({
+  view: { classes: [{ name: "apple", attributes: [{ v: "b" }, { v: "a" }] }, { name: "pear", attributes: [] }] },
+  meta: { version: 1 },
+});
+
+describe("setIn", () => {
+  it("copies only the path to the change and shares everything else", () => {
+    const root = doc();
+    const next: any = setIn(root, ["view", "classes", "0", "name"], "quince");
+    expect(next.view.classes[0].name).toBe("quince");
+    expect(root.view.classes[0].name).toBe("apple");
+    expect(next).not.toBe(root);
+    expect(next.view.classes).not.toBe(root.view.classes);
+    expect(next.view.classes[0].attributes).toBe(root.view.classes[0].attributes);
+    expect(next.view.classes[1]).toBe(root.view.classes[1]);
+    expect(next.meta).toBe(root.meta);
+  });
+
+  it("returns the same document when nothing changes or the path does not exist", () => {
+    const root = doc();
+    expect(setIn(root, ["meta", "version"], 1)).toBe(root);
+    expect(setIn(root, ["meta", "missing", "deep"], 2)).toBe(root);
+    expect(setIn(root, ["meta", "version", "x"], 2)).toBe(root);
+    expect(setIn(root, [], 5)).toBe(5);
+  });
+
+  it("keeps key order in copied objects", () => {
+    const root: JsonObject = { b: 1, a: { z: 1 }, c: 3 };
+    expect(Object.keys(setIn(root, ["a", "z"], 2) as JsonObject)).toEqual(["b", "a", "c"]);
+  });
+});
+
+describe("updateIn", () => {
+  it("passes the current value and writes back the result", () => {
+    const next: any = updateIn(doc(), ["meta", "version"], (v) => (v as number) + 1);
+    expect(next.meta.version).toBe(2);
+    expect(getIn(next, ["view", "classes", "1", "name"])).toBe("pear");
+    expect(getIn(next, ["nope", "x"])).toBeUndefined();
+  });
+});
+
+describe("createPathWriter", () => {
+  it("copies each ancestor once across many writes and never touches the original", () => {
+    const root = doc();
+    const writer = createPathWriter(root);
+    writer.set(["view", "classes", "0", "attributes"], [{ v: "a" }, { v: "b" }]);
+    const afterFirst: any = writer.result();
+    writer.set(["view", "classes", "1", "name"], "plum");
+    const next: any = writer.result();
+    // The second write reused the copies made by the first
+    expect(next).toBe(afterFirst);
+    expect(next.view.classes).toBe(afterFirst.view.classes);
+    expect(next.view.classes[1].name).toBe("plum");
+    expect(writer.get(["view", "classes", "0", "attributes", "0", "v"])).toBe("a");
+    expect(root).toEqual(doc());
+    expect(next.meta).toBe(root.meta);
+  });
+
+  it("leaves the document alone when a write changes nothing", () => {
+    const root = doc();
+    const writer = createPathWriter(root);
+    writer.set(["meta", "version"], 1);
+    writer.set(["missing", "x"], 1);
+    expect(writer.result()).toBe(root);
+  });
+});
@@ -0,0 +1,108 @@
+import type { JsonValue, JsonObject, JsonArray } from "./fileLoader";
+import { isLosslessNumber } from "./losslessNumber";
+
+/**
+ * Persistent updates for JSON documents. A document is never changed in place:
+ * an update copies only the containers on the path to what changed, and every
+ * other subtree is shared with the document it came from. Documents kept side
+ * by side — source, edited, undo entries, snapshots — cost one copy of each
+ * changed path rather than one copy of the whole tree.
+ */
+
+function isContainer(v: JsonValue | undefined): v is JsonArray | JsonObject {
+  return v !== null && typeof v === "object" && !isLosslessNumber(v);
+}
+
+/** Shallow copy of a container, keeping its key order */
+function copyOf(node: JsonArray | JsonObject): JsonArray | JsonObject {
+  return Array.isArray(node) ? node.slice() : { ...node };
+}
+
+function childOf(node: JsonArray | JsonObject, segment: string): JsonValue | undefined {
+  return Array.isArray(node) ? node[Number(segment)] : node[segment];
+}
+
+function assign(node: JsonArray | JsonObject, segment: string, value: JsonValue) {
+  if (Array.isArray(node)) node[Number(segment)] = value;
+  else node[segment] = value;
+}
+
+/** Value at a path of keys and indices; undefined when the path leaves the document */
+export function getIn(root: JsonValue, segments: string[]): JsonValue | undefined {
+  let node: JsonValue | undefined = root;
+  for (const segment of segments) {
+    if (!isContainer(node)) return undefined;
+    node = childOf(node, segment);
+  }
+  return node;
+}
+
+/**
+ * A copy of `root` with `value` at `segments`. Only the containers along the
+ * path are copied; setting the value already there returns `root` itself. A
+ * path through a scalar or missing member leaves the document unchanged.
+ */
+export function setIn(root: JsonValue, segments: string[], value: JsonValue): JsonValue {
+  const copyAt = (node: JsonValue, depth: number): JsonValue => {
+    if (depth === segments.length) return value;
+    if (!isContainer(node)) return node;
+    const segment = segments[depth];
+    const child = childOf(node, segment);
+    if (child === undefined && depth < segments.length - 1) return node;
+    const next = copyAt(child as JsonValue, depth + 1);
+    if (next === child) return node;
+    const copy = copyOf(node);
+    assign(copy, segment, next);
+    return copy;
+  };
+  return copyAt(root, 0);
+}
+
+/** Apply `update` to the value at `segments`, copying only the path to it */
+export function updateIn(root: JsonValue, segments: string[], update: (value: JsonValue | undefined) => JsonValue): JsonValue {
+  return setIn(root, segments, update(getIn(root, segments)));
+}
+
+export interface PathWriter {
+  /** The document with every write so far */
+  result(): JsonValue;
+  get(segments: string[]): JsonValue | undefined;
+  set(segments: string[], value: JsonValue): void;
+}
+
+/**
+ * Many writes into one document, each container on their paths copied at most
+ * once: a container copied by an earlier write is written into directly. The
+ * original document is never touched, and reads see the writes made so far.
+ */
+export function createPathWriter(original: JsonValue): PathWriter {
+  let root = original;
+  // Containers this writer copied, and may therefore change in place
+  const owned = new Set<JsonArray | JsonObject>();
+  const own = (node: JsonArray | JsonObject) => {
+    if (owned.has(node)) return node;
+    const copy = copyOf(node);
+    owned.add(copy);
+    return copy;
+  };
+
+  return {
+    result: () => root,
+    get: (segments) => getIn(root, segments),
+    set(segments, value) {
+      if (segments.length === 0) {
+        root = value;
+        return;
+      }
+      if (!isContainer(getIn(root, segments.slice(0, -1))) || getIn(root, segments) === value) return;
+      let node = own(root as JsonArray | JsonObject);
+      root = node;
+      for (const segment of segments.slice(0, -1)) {
+        const child = own(childOf(node, segment) as JsonArray | JsonObject);
+        assign(node, segment, child);
+        node = child;
+      }
+      assign(node, segments[segments.length - 1], value);
+    },
+  };
+}
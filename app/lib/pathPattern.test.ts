@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import type { JsonObject } from "./fileLoader";
+import { isPathPattern, matchesPathPattern, parsePathPattern, resolvePathPattern } from "./pathPattern";
+
+const doc: JsonObject = {
+  view: {
+    classes: {
+      apple: { attributes: [{ n: 2 }, { n: 1 }] },
+      pear: { attributes: [], note: "x" },
+    },
+  },
+  tree: { children: [{ id: "a", children: [{ id: "c" }] }, { id: "b" }] },
+};
+
+describe("parsePathPattern", () => {
+  it("splits dots and brackets and treats [*] as *", () => {
+    expect(parsePathPattern("view.classes[0].*")).toEqual(["view", "classes", "0", "*"]);
+    expect(parsePathPattern("items[*].tags")).toEqual(["items", "*", "tags"]);
+    expect(parsePathPattern("(root)")).toEqual([]);
+  });
+
+  it("tells patterns from plain paths", () => {
+    expect(isPathPattern("a.*.b")).toBe(true);
+    expect(isPathPattern("**.b")).toBe(true);
+    expect(isPathPattern("a.b[2]")).toBe(false);
+  });
+});
+
+describe("resolvePathPattern", () => {
+  it("expands * over object keys and array indices", () => {
+    expect(resolvePathPattern(doc, "view.classes.*.attributes").map((m) => m.path)).toEqual([
+      "view.classes.apple.attributes",
+      "view.classes.pear.attributes",
+    ]);
+    expect(resolvePathPattern(doc, "tree.children[*].id").map((m) => m.value)).toEqual(["a", "b"]);
+  });
+
+  it("matches ** at any depth, including none", () => {
+    expect(resolvePathPattern(doc, "**.children").map((m) => m.path)).toEqual(["tree.children", "tree.children.0.children"]);
+    expect(resolvePathPattern(doc.tree, "**.id").map((m) => m.path)).toEqual(["children.0.id", "children.0.children.0.id", "children.1.id"]);
+  });
+
+  it("returns a plain path's single node, or nothing", () => {
+    expect(resolvePathPattern(doc, "view.classes.pear.note")).toEqual([
+      { path: "view.classes.pear.note", segments: ["view", "classes", "pear", "note"], value: "x" },
+    ]);
+    expect(resolvePathPattern(doc, "view.missing")).toEqual([]);
+    expect(resolvePathPattern(doc, "")[0].value).toBe(doc);
+  });
+});
+
+describe("matchesPathPattern", () => {
+  it("matches concrete paths against *, ** and literal segments", () => {
+    expect(matchesPathPattern("view.classes.apple.attributes", "view.classes.*.attributes")).toBe(true);
+    expect(matchesPathPattern("view.classes.apple.attributes", "**.attributes")).toBe(true);
+    expect(matchesPathPattern("attributes", "**.attributes")).toBe(true);
+    expect(matchesPathPattern("view.classes.apple", "view.classes.*.attributes")).toBe(false);
+    expect(matchesPathPattern("", "(root)")).toBe(true);
+  });
+});
@@ -0,0 +1,90 @@
+import type { JsonArray, JsonObject, JsonValue } from "./fileLoader";
+import { isLosslessNumber } from "./losslessNumber";
+
+export interface PathMatch {
+  /** Dotted path of the matched node ("" for the root) */
+  path: string;
+  segments: string[];
+  value: JsonValue;
+}
+
+function isObject(v: JsonValue): v is JsonObject {
+  return v !== null && typeof v === "object" && !Array.isArray(v) && !isLosslessNumber(v);
+}
+
+/**
+ * Split a path into segments: `view.classes[0].*` → view, classes, 0, *.
+ * `[*]` is the same as `.*`; "(root)" and "" are the root itself.
+ */
+export function parsePathPattern(pattern: string): string[] {
+  if (!pattern || pattern === "(root)") return [];
+  const segments: string[] = [];
+  const re = /([^.[\]]+)|\[(\d+|\*)\]/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(pattern)) !== null) segments.push(m[1] ?? m[2]);
+  return segments;
+}
+
+/** True when the path has a `*` or `**` segment and can match more than one node */
+export function isPathPattern(path: string): boolean {
+  return parsePathPattern(path).some((s) => s === "*" || s === "**");
+}
+
+function children(node: JsonValue): [string, JsonValue][] {
+  if (Array.isArray(node)) return node.map((v, i) => [String(i), v]);
+  if (isObject(node)) return Object.keys(node).map((k) => [k, node[k]]);
+  return [];
+}
+
+function child(node: JsonValue, segment: string): JsonValue | undefined {
+  if (Array.isArray(node)) return /^\d+$/.test(segment) ? (node as JsonArray)[Number(segment)] : undefined;
+  if (isObject(node)) return Object.prototype.hasOwnProperty.call(node, segment) ? node[segment] : undefined;
+  return undefined;
+}
+
+/**
+ * Every node a path matches, in document order. `*` (or `[*]`) matches each
+ * key or index at one level; `**` matches any number of levels, including none,
+ * so `**.attributes` finds `attributes` at any depth.
+ */
+export function resolvePathPattern(root: JsonValue, pattern: string): PathMatch[] {
+  const parts = parsePathPattern(pattern);
+  const matches: PathMatch[] = [];
+  const seen = new Set<string>();
+
+  const walk = (node: JsonValue, i: number, segments: string[]) => {
+    if (i === parts.length) {
+      const path = segments.join(".");
+      if (!seen.has(path)) {
+        seen.add(path);
+        matches.push({ path, segments, value: node });
+      }
+      return;
+    }
+    const part = parts[i];
+    if (part === "**") {
+      walk(node, i + 1, segments);
+      for (const [key, value] of children(node)) walk(value, i, segments.concat(key));
+    } else if (part === "*") {
+      for (const [key, value] of children(node)) walk(value, i + 1, segments.concat(key));
+    } else {
+      const next = child(node, part);
+      if (next !== undefined) walk(next, i + 1, segments.concat(part));
+    }
+  };
+
+  walk(root, 0, []);
+  return matches;
+}
+
+/** Whether a dotted path ("" for the root) is one of the paths the pattern can match */
+export function matchesPathPattern(path: string, pattern: string): boolean {
+  const parts = parsePathPattern(pattern);
+  const segments = path ? path.split(".") : [];
+  const match = (i: number, j: number): boolean => {
+    if (i === parts.length) return j === segments.length;
+    if (parts[i] === "**") return match(i + 1, j) || (j < segments.length && match(i, j + 1));
+    return j < segments.length && (parts[i] === "*" || parts[i] === segments[j]) && match(i + 1, j + 1);
+  };
+  return match(0, 0);
+}
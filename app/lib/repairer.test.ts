@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { repairJson, describeFix } from "./repairer";
+import { stringifyLossless } from "./losslessNumber";
+
+describe("repairJson", () => {
+  it("leaves valid JSON untouched", () => {
+    const { data, fixes, error } = repairJson('{"a": [1, 2, {"b": null}]}');
+    expect(error).toBeUndefined();
+    expect(fixes).toHaveLength(0);
+    expect(data).toEqual({ a: [1, 2, { b: null }] });
+  });
+
+  it("removes trailing commas in objects and arrays", () => {
+    const { data, fixes } = repairJson('{"a": [1, 2,], "b": 3,}');
+    expect(data).toEqual({ a: [1, 2], b: 3 });
+    expect(fixes.filter((f) => f.kind === "trailing-comma")).toHaveLength(2);
+  });
+
+  it("converts single-quoted strings", () => {
+    const { data, fixes } = repairJson(`{'name': 'it\\'s "here"'}`);
+    expect(data).toEqual({ name: `it's "here"` });
+    expect(fixes.every((f) => f.kind === "single-quotes")).toBe(true);
+  });
+
+  it("quotes unquoted keys but not literals", () => {
+    const { data, fixes } = repairJson("{name: true, $id: null}");
+    expect(data).toEqual({ name: true, $id: null });
+    expect(fixes.map((f) => f.kind)).toEqual(["unquoted-key", "unquoted-key"]);
+  });
+
+  it("strips line and block comments", () => {
+    const input = '{\n  // leading\n  "a": 1, /* inline */ "b": 2\n}';
+    const { data, fixes } = repairJson(input);
+    expect(data).toEqual({ a: 1, b: 2 });
+    expect(fixes.filter((f) => f.kind === "comment")).toHaveLength(2);
+  });
+
+  it("does not treat // inside strings as a comment", () => {
+    const { data, fixes } = repairJson('{"url": "https://example.com"}');
+    expect(data).toEqual({ url: "https://example.com" });
+    expect(fixes).toHaveLength(0);
+  });
+
+  it("escapes raw control characters inside strings", () => {
+    const { data, fixes } = repairJson('{"a": "line1\nline2\tend"}');
+    expect(data).toEqual({ a: "line1\nline2\tend" });
+    expect(fixes.filter((f) => f.kind === "control-character")).toHaveLength(2);
+  });
+
+  it("closes brackets on a truncated file", () => {
+    const { data, fixes } = repairJson('{"items": [{"a": 1}, {"a": 2');
+    expect(data).toEqual({ items: [{ a: 1 }, { a: 2 }] });
+    expect(fixes.some((f) => f.kind === "missing-closer")).toBe(true);
+  });
+
+  it("fills a dangling key with null when truncated after the colon", () => {
+    const { data } = repairJson('{"a": 1, "b":');
+    expect(data).toEqual({ a: 1, b: null });
+  });
+
+  it("wraps concatenated objects in an array", () => {
+    const { data, fixes } = repairJson('{"a": 1}\n{"a": 2}{"a": 3}');
+    expect(data).toEqual([{ a: 1 }, { a: 2 }, { a: 3 }]);
+    expect(fixes.filter((f) => f.kind === "concatenated")).toHaveLength(2);
+  });
+
+  it("reports fix positions as 1-based line and column", () => {
+    const { fixes } = repairJson('{\n  "a": 1,\n}');
+    expect(fixes).toHaveLength(1);
+    expect(fixes[0].line).toBe(2);
+    expect(fixes[0].column).toBe(9);
+    expect(describeFix(fixes[0])).toBe("Line 2, col 9: Removed trailing comma");
+  });
+
+  it("keeps big numbers exactly and applies the duplicate-key policy", () => {
+    const { data, duplicates } = repairJson("{'id': 9007199254740993, a: 1, a: 2,}", { duplicateKeys: "keep-first" });
+    expect(stringifyLossless(data!)).toBe('{"id":9007199254740993,"a":1}');
+    expect(duplicates).toMatchObject([{ path: "a", key: "a" }]);
+  });
+
+  it("returns an error when the result still does not parse", () => {
+    const { data, error } = repairJson('{"a" 1}');
+    expect(data).toBeUndefined();
+    expect(error).toBeDefined();
+  });
+});
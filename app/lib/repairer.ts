@@ -0,0 +1,258 @@
+import type { JsonValue } from "./fileLoader";
+import { parseJson, type DuplicateKey, type DuplicateKeyPolicy } from "./jsonParser";
+
+export type RepairKind =
+  | "trailing-comma"
+  | "single-quotes"
+  | "unquoted-key"
+  | "comment"
+  | "control-character"
+  | "missing-closer"
+  | "concatenated";
+
+export interface RepairFix {
+  kind: RepairKind;
+  line: number;
+  column: number;
+  message: string;
+}
+
+export interface RepairResult {
+  text: string;
+  fixes: RepairFix[];
+  data?: JsonValue;
+  /** Repeated keys in the repaired text, resolved by the duplicate-key policy */
+  duplicates?: DuplicateKey[];
+  error?: string;
+}
+
+export interface RepairOptions {
+  /** How the repaired text's repeated keys are resolved, as when loading (default keep-last) */
+  duplicateKeys?: DuplicateKeyPolicy;
+}
+
+const CONTROL_ESCAPES: Record<string, string> = {
+  "\b": "\\b",
+  "\f": "\\f",
+  "\n": "\\n",
+  "\r": "\\r",
+  "\t": "\\t",
+};
+
+function computeLineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\n") starts.push(i + 1);
+  }
+  return starts;
+}
+
+/** Map a character offset to a 1-based line/column using precomputed line starts */
+function locate(lineStarts: number[], offset: number): { line: number; column: number } {
+  let lo = 0;
+  let hi = lineStarts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (lineStarts[mid] <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return { line: lo + 1, column: offset - lineStarts[lo] + 1 };
+}
+
+function escapeControl(ch: string): string {
+  return CONTROL_ESCAPES[ch] ?? `\\u${ch.charCodeAt(0).toString(16).padStart(4, "0")}`;
+}
+
+export function describeFix(fix: RepairFix): string {
+  return `Line ${fix.line}, col ${fix.column}: ${fix.message}`;
+}
+
+/**
+ * Best-effort repair of hand-edited JSON. Walks the text once, rewriting the
+ * common breakages into strict JSON and recording every change it makes.
+ * The repaired text is only trusted if it then parses as strict JSON; it is
+ * parsed as a load would be, keeping big numbers exactly.
+ */
+export function repairJson(text: string, options: RepairOptions = {}): RepairResult {
+  const fixes: RepairFix[] = [];
+  const lineStarts = computeLineStarts(text);
+  const fix = (kind: RepairKind, offset: number, message: string) => {
+    fixes.push({ kind, ...locate(lineStarts, offset), message });
+  };
+
+  const len = text.length;
+  const stack: ("{" | "[")[] = [];
+  let out = "";
+  let topLevelCount = 0;
+  let i = 0;
+
+  // Index of the next char that is not whitespace or part of a comment, or -1 at EOF
+  const nextSignificant = (from: number): number => {
+    let j = from;
+    while (j < len) {
+      const c = text[j];
+      if (c === " " || c === "\t" || c === "\n" || c === "\r") {
+        j++;
+      } else if (c === "/" && text[j + 1] === "/") {
+        const end = text.indexOf("\n", j);
+        j = end === -1 ? len : end;
+      } else if (c === "/" && text[j + 1] === "*") {
+        const end = text.indexOf("*/", j + 2);
+        j = end === -1 ? len : end + 2;
+      } else {
+        return j;
+      }
+    }
+    return -1;
+  };
+
+  // Called before emitting any value; detects a second top-level value
+  const beginValue = (offset: number) => {
+    if (stack.length > 0) return;
+    if (topLevelCount > 0) {
+      fix("concatenated", offset, "Wrapped concatenated top-level values in an array");
+      out += ",";
+    }
+    topLevelCount++;
+  };
+
+  const readString = (start: number, quote: string): { str: string; end: number; closed: boolean } => {
+    let s = '"';
+    let j = start + 1;
+    while (j < len) {
+      const c = text[j];
+      if (c === "\\") {
+        const n = text[j + 1];
+        if (n === undefined) {
+          j++;
+          break;
+        }
+        s += quote === "'" && n === "'" ? "'" : c + n;
+        j += 2;
+        continue;
+      }
+      if (c === quote) {
+        return { str: s + '"', end: j + 1, closed: true };
+      }
+      if (c === '"') {
+        // Only reachable inside a single-quoted string
+        s += '\\"';
+      } else if (c.charCodeAt(0) < 0x20) {
+        fix("control-character", j, `Escaped control character U+${c.charCodeAt(0).toString(16).toUpperCase().padStart(4, "0")}`);
+        s += escapeControl(c);
+      } else {
+        s += c;
+      }
+      j++;
+    }
+    return { str: s, end: j, closed: false };
+  };
+
+  while (i < len) {
+    const ch = text[i];
+
+    if (ch === "/" && text[i + 1] === "/") {
+      fix("comment", i, "Removed // comment");
+      const end = text.indexOf("\n", i);
+      i = end === -1 ? len : end;
+      continue;
+    }
+    if (ch === "/" && text[i + 1] === "*") {
+      fix("comment", i, "Removed /* */ comment");
+      const end = text.indexOf("*/", i + 2);
+      i = end === -1 ? len : end + 2;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      beginValue(i);
+      if (ch === "'") fix("single-quotes", i, "Converted single-quoted string to double quotes");
+      const { str, end, closed } = readString(i, ch);
+      out += str;
+      if (!closed) {
+        fix("missing-closer", end, "Closed unterminated string");
+        out += '"';
+      }
+      i = end;
+      continue;
+    }
+
+    if (ch === ",") {
+      if (stack.length === 0) {
+        // Separator between concatenated values — re-added by beginValue
+        i++;
+        continue;
+      }
+      const next = nextSignificant(i + 1);
+      if (next === -1 || text[next] === "}" || text[next] === "]") {
+        fix("trailing-comma", i, "Removed trailing comma");
+        i++;
+        continue;
+      }
+      out += ch;
+      i++;
+      continue;
+    }
+
+    if (ch === "{" || ch === "[") {
+      beginValue(i);
+      stack.push(ch);
+      out += ch;
+      i++;
+      continue;
+    }
+
+    if (ch === "}" || ch === "]") {
+      stack.pop();
+      out += ch;
+      i++;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(ch)) {
+      let end = i + 1;
+      while (end < len && /[\w$]/.test(text[end])) end++;
+      const word = text.slice(i, end);
+      const next = nextSignificant(end);
+      if (stack[stack.length - 1] === "{" && next !== -1 && text[next] === ":") {
+        fix("unquoted-key", i, `Quoted key ${word}`);
+        out += JSON.stringify(word);
+      } else {
+        beginValue(i);
+        out += word;
+      }
+      i = end;
+      continue;
+    }
+
+    if (/[-0-9]/.test(ch)) {
+      let end = i + 1;
+      while (end < len && /[-+0-9.eE]/.test(text[end])) end++;
+      beginValue(i);
+      out += text.slice(i, end);
+      i = end;
+      continue;
+    }
+
+    out += ch;
+    i++;
+  }
+
+  if (stack.length > 0) {
+    out = out.replace(/\s+$/, "");
+    if (out.endsWith(",")) out = out.slice(0, -1);
+    if (out.endsWith(":")) out += "null";
+    const closers = stack
+      .reverse()
+      .map((c) => (c === "{" ? "}" : "]"))
+      .join("");
+    fix("missing-closer", len, `Appended missing ${closers}`);
+    out += closers;
+  }
+
+  if (topLevelCount > 1) out = `[${out}]`;
+
+  const { value, duplicates, error } = parseJson(out, { lossless: true, duplicateKeys: options.duplicateKeys });
+  if (error) return { text: out, fixes, error: error.message };
+  return duplicates ? { text: out, fixes, data: value, duplicates } : { text: out, fixes, data: value };
+}
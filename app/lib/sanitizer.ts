@@ -1,4 +1,5 @@
 import type { JsonValue, JsonObject, JsonArray } from "./fileLoader";
+import { isLosslessNumber } from "./losslessNumber";
 
 export interface SanitizeResult {
   data: JsonValue;
@@ -56,6 +57,7 @@ function sanitizeValue(value: JsonValue): { data: JsonValue; count: number } {
     const { result, modified } = sanitizeString(value);
     return { data: result, count: modified ? 1 : 0 };
   }
+  if (isLosslessNumber(value)) return { data: value, count: 0 };
   if (Array.isArray(value)) {
     let count = 0;
     const arr: JsonArray = (value as JsonArray).map((item) => {
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import type { JsonValue } from "./fileLoader";
+import { losslessNumber } from "./losslessNumber";
+import { canonicalize, serialize, serializeWithLines, DEFAULT_SERIALIZE_OPTIONS } from "./serializer";
+
+const sample: JsonValue = { b: [1, 2, { c: "x" }], a: { id: losslessNumber("12345678901234567890") }, e: [], f: {} };
+
+describe("serialize", () => {
+  it("matches JSON.stringify with the default two-space style", () => {
+    const plain = { b: [1, 2, { c: "x" }], a: { d: null, t: true }, e: [], f: {}, s: "line\nbreak" };
+    expect(serialize(plain)).toBe(JSON.stringify(plain, null, 2));
+  });
+
+  it("writes big numbers exactly", () => {
+    expect(serialize(sample, { ...DEFAULT_SERIALIZE_OPTIONS, indent: 0 })).toBe(
+      '{"b":[1,2,{"c":"x"}],"a":{"id":12345678901234567890},"e":[],"f":{}}'
+    );
+  });
+
+  it("indents with four spaces or tabs", () => {
+    const value = { a: [1] };
+    expect(serialize(value, { ...DEFAULT_SERIALIZE_OPTIONS, indent: 4 })).toBe(JSON.stringify(value, null, 4));
+    expect(serialize(value, { ...DEFAULT_SERIALIZE_OPTIONS, indent: "tab" })).toBe(JSON.stringify(value, null, "\t"));
+  });
+
+  it("keeps short arrays of scalars on one line", () => {
+    const value = { short: [1, 2, 3], long: ["aaaaaaaaaa", "bbbbbbbbbb", "cccccccccc"], nested: [[1]] };
+    expect(serialize(value, { ...DEFAULT_SERIALIZE_OPTIONS, compactArrayWidth: 30 })).toBe(
+      '{\n  "short": [1, 2, 3],\n  "long": [\n    "aaaaaaaaaa",\n    "bbbbbbbbbb",\n    "cccccccccc"\n  ],\n  "nested": [\n    [1]\n  ]\n}'
+    );
+  });
+
+  it("sorts keys at every level", () => {
+    expect(serialize({ b: 1, a: { d: 1, c: 2 } }, { indent: 0, compactArrayWidth: 0, sortKeys: true })).toBe(
+      '{"a":{"c":2,"d":1},"b":1}'
+    );
+  });
+});
+
+describe("serializeWithLines", () => {
+  it("reports the line each node starts on", () => {
+    const { text, lines } = serializeWithLines(sample);
+    const rows = text.split("\n");
+    expect(rows[lines.get("b")! - 1]).toContain('"b": [');
+    expect(rows[lines.get("b.2")! - 1]).toBe("    {");
+    expect(rows[lines.get("b.2.c")! - 1]).toContain('"c": "x"');
+    expect(rows[lines.get("a.id")! - 1]).toContain("12345678901234567890");
+    expect(lines.has("")).toBe(false);
+  });
+
+  it("follows the output style", () => {
+    const options = { indent: 2, compactArrayWidth: 40, sortKeys: true };
+    const { text, lines } = serializeWithLines({ z: [1, 2], a: [{ k: 1 }] }, options);
+    expect(text).toBe(serialize({ z: [1, 2], a: [{ k: 1 }] }, options));
+    expect(lines.get("a")).toBe(2);
+    expect(lines.get("a.0")).toBe(3);
+    expect(lines.get("z")).toBe(7);
+    expect(lines.get("z.1")).toBe(7);
+  });
+
+  it("puts everything on line 1 when minified", () => {
+    const { lines } = serializeWithLines(sample, { ...DEFAULT_SERIALIZE_OPTIONS, indent: 0 });
+    expect(Array.from(lines.values()).every((line) => line === 1)).toBe(true);
+  });
+});
+
+describe("canonicalize", () => {
+  it("sorts keys by UTF-16 code units and drops whitespace", () => {
+    // RFC 8785 section 3.2.3 sorting example
+    const value = { "€": "Euro Sign", "\r": "Carriage Return", "דּ": "Hebrew Letter Dalet With Dagesh", "1": "One", "😀": "Emoji: Grinning Face", "\u0080": "Control", "ö": "Latin Small Letter O With Diaeresis" };
+    const text = canonicalize(value).text!;
+    // JSON.parse would move "1" first, so read the order off the text
+    const order = Object.keys(value).sort((a, b) => text.indexOf(JSON.stringify(a)) - text.indexOf(JSON.stringify(b)));
+    expect(text.startsWith('{"\\r":"Carriage Return","1":"One",')).toBe(true);
+    expect(order).toEqual(["\r", "1", "\u0080", "ö", "€", "😀", "דּ"]);
+  });
+
+  it("writes numbers in ECMAScript form", () => {
+    // From the RFC 8785 section 3.2.2 example
+    const value = { numbers: [333333333.33333329, 1e30, 4.5, 2e-3, 0.000000000000000000000000001, -0] };
+    expect(canonicalize(value).text).toBe('{"numbers":[333333333.3333333,1e+30,4.5,0.002,1e-27,0]}');
+  });
+
+  it("rounds big numbers to a double and rejects ones out of range", () => {
+    expect(canonicalize([losslessNumber("12345678901234567890")]).text).toBe("[12345678901234567000]");
+    expect(canonicalize({ a: [losslessNumber("1e400")] }).error).toMatch(/1e400 at a\.0/);
+  });
+
+  it("rejects lone surrogates", () => {
+    expect(canonicalize({ s: "\ud800x" }).error).toMatch(/lone surrogate/);
+    expect(canonicalize({ s: "😀" }).text).toBe('{"s":"😀"}');
+  });
+});
@@ -0,0 +1,228 @@
+import type { JsonArray, JsonObject, JsonValue } from "./fileLoader";
+import { isLosslessNumber } from "./losslessNumber";
+import { childPath } from "./jsonParser";
+import { runJob, type Job, type JobProgress } from "./jobs";
+
+export interface SerializeOptions {
+  /** Spaces per level, or "tab"; 0 writes minified JSON on one line */
+  indent: number | "tab";
+  /**
+   * Arrays of scalars that fit in this many columns (indentation included)
+   * stay on one line as `[1, 2, 3]`; 0 turns this off
+   */
+  compactArrayWidth: number;
+  /** Write object keys in code-unit order instead of insertion order */
+  sortKeys: boolean;
+}
+
+export const DEFAULT_SERIALIZE_OPTIONS: SerializeOptions = { indent: 2, compactArrayWidth: 0, sortKeys: false };
+
+export interface SerializedText {
+  text: string;
+  /** 1-based line where each node starts (the key's line for object members); the root is not listed */
+  lines: Map<string, number>;
+}
+
+function isObject(v: JsonValue): v is JsonObject {
+  return v !== null && typeof v === "object" && !Array.isArray(v) && !isLosslessNumber(v);
+}
+
+function isScalar(v: JsonValue): boolean {
+  return v === null || typeof v !== "object" || isLosslessNumber(v);
+}
+
+function scalarText(v: JsonValue): string {
+  if (isLosslessNumber(v)) return v.value;
+  // JSON has no NaN or Infinity; JSON.stringify writes them as null too
+  return JSON.stringify(v);
+}
+
+/** Nodes written between the checkpoints of serializeWithLinesJob */
+const WRITE_CHECKPOINT_NODES = 5000;
+
+/** A container being written: the members still to come, from `i` on */
+interface WriteFrame {
+  v: JsonArray | JsonObject;
+  keys: string[] | null;
+  path: string;
+  pad: string;
+  inner: string;
+  i: number;
+}
+
+/**
+ * The writer, walking an explicit stack so deep documents don't overflow the
+ * call stack. With `progress` it checks in every WRITE_CHECKPOINT_NODES nodes
+ * with the count so far; every node is counted, the root included.
+ */
+function* writeJob(
+  value: JsonValue,
+  options: SerializeOptions,
+  lines: Map<string, number> | null,
+  progress?: (nodes: number) => JobProgress
+): Job<string> {
+  const unit = options.indent === "tab" ? "\t" : " ".repeat(Math.max(0, Math.min(10, options.indent)));
+  const colon = unit ? ": " : ":";
+  const out: string[] = [];
+  let line = 1;
+  let nodes = 0;
+  let checkpoint = WRITE_CHECKPOINT_NODES;
+
+  const newline = (pad: string) => {
+    out.push("\n" + pad);
+    line++;
+  };
+
+  // Writes a node, or a container's opening bracket when it has members still to write
+  const open = (v: JsonValue, path: string, pad: string, lead: number): WriteFrame | null => {
+    nodes++;
+    if (lines && path !== "") lines.set(path, line);
+    if (!isObject(v) && !Array.isArray(v)) {
+      out.push(scalarText(v));
+      return null;
+    }
+    const inner = pad + unit;
+    if (Array.isArray(v)) {
+      if (v.length === 0) {
+        out.push("[]");
+        return null;
+      }
+      if (unit && options.compactArrayWidth > 0 && v.every(isScalar)) {
+        const oneLine = "[" + v.map(scalarText).join(", ") + "]";
+        // Tabs count as one column here; widths are a guide, not a layout engine
+        if (lead + oneLine.length <= options.compactArrayWidth) {
+          if (lines) v.forEach((_, i) => lines.set(childPath(path, i), line));
+          nodes += v.length;
+          out.push(oneLine);
+          return null;
+        }
+      }
+      out.push("[");
+      return { v, keys: null, path, pad, inner, i: 0 };
+    }
+    const keys = Object.keys(v);
+    if (options.sortKeys) keys.sort();
+    if (keys.length === 0) {
+      out.push("{}");
+      return null;
+    }
+    out.push("{");
+    return { v, keys, path, pad, inner, i: 0 };
+  };
+
+  const stack: WriteFrame[] = [];
+  const root = open(value, "", "", 0);
+  if (root) stack.push(root);
+  while (stack.length > 0) {
+    const frame = stack[stack.length - 1];
+    const { keys, inner } = frame;
+    if (frame.i === (keys ? keys.length : (frame.v as JsonArray).length)) {
+      if (unit) newline(frame.pad);
+      out.push(keys ? "}" : "]");
+      stack.pop();
+      continue;
+    }
+    const i = frame.i++;
+    if (i > 0) out.push(",");
+    if (unit) newline(inner);
+    let child: WriteFrame | null;
+    if (keys) {
+      const prefix = JSON.stringify(keys[i]) + colon;
+      out.push(prefix);
+      child = open((frame.v as JsonObject)[keys[i]], childPath(frame.path, keys[i]), inner, inner.length + prefix.length);
+    } else {
+      child = open((frame.v as JsonArray)[i], childPath(frame.path, i), inner, inner.length);
+    }
+    if (child) stack.push(child);
+    if (progress && nodes >= checkpoint) {
+      checkpoint = nodes + WRITE_CHECKPOINT_NODES;
+      yield progress(nodes);
+    }
+  }
+  return out.join("");
+}
+
+/** The app's one JSON writer: Save a copy, the text views and sort line numbers all go through it */
+export function serialize(value: JsonValue, options: SerializeOptions = DEFAULT_SERIALIZE_OPTIONS): string {
+  return runJob(writeJob(value, options, null));
+}
+
+/** `serialize` plus the line every node lands on, for lineMaps and movement logs */
+export function serializeWithLines(value: JsonValue, options: SerializeOptions = DEFAULT_SERIALIZE_OPTIONS): SerializedText {
+  const lines = new Map<string, number>();
+  const text = runJob(writeJob(value, options, lines));
+  return { text, lines };
+}
+
+/**
+ * serializeWithLines as a job, checking in every few thousand nodes with
+ * `progress` of the count so far. A document has `lines.size + 1` nodes.
+ */
+export function* serializeWithLinesJob(
+  value: JsonValue,
+  options: SerializeOptions,
+  progress: (nodes: number) => JobProgress
+): Job<SerializedText> {
+  const lines = new Map<string, number>();
+  const write = writeJob(value, options, lines, progress);
+  let step = write.next();
+  while (!step.done) {
+    yield step.value;
+    step = write.next();
+  }
+  return { text: step.value, lines };
+}
+
+export interface CanonicalResult {
+  text?: string;
+  error?: string;
+}
+
+/**
+ * RFC 8785 (JCS) canonical JSON, for hashing and signing: no whitespace, keys
+ * sorted by UTF-16 code units and numbers in ECMAScript shortest form. Big
+ * numbers are rounded to a double as the RFC requires; ones outside the double
+ * range cannot be canonicalised.
+ */
+export function canonicalize(value: JsonValue): CanonicalResult {
+  const out: string[] = [];
+  let error: string | undefined;
+
+  const visit = (v: JsonValue, path: string) => {
+    if (error) return;
+    if (isLosslessNumber(v) || typeof v === "number") {
+      const n = isLosslessNumber(v) ? Number(v.value) : v;
+      if (!isFinite(n)) {
+        error = `Number ${isLosslessNumber(v) ? v.value : String(v)} at ${path || "(root)"} is outside the range canonical JSON allows`;
+        return;
+      }
+      out.push(JSON.stringify(n));
+    } else if (v === null || typeof v !== "object") {
+      if (typeof v === "string" && /[\ud800-\udbff](?![\udc00-\udfff])|(^|[^\ud800-\udbff])[\udc00-\udfff]/.test(v)) {
+        error = `String at ${path || "(root)"} contains a lone surrogate, which canonical JSON does not allow`;
+        return;
+      }
+      out.push(JSON.stringify(v));
+    } else if (Array.isArray(v)) {
+      out.push("[");
+      v.forEach((item, i) => {
+        if (i > 0) out.push(",");
+        visit(item, childPath(path, i));
+      });
+      out.push("]");
+    } else {
+      out.push("{");
+      Object.keys(v)
+        .sort()
+        .forEach((key, i) => {
+          if (i > 0) out.push(",");
+          out.push(JSON.stringify(key) + ":");
+          visit(v[key], childPath(path, key));
+        });
+      out.push("}");
+    }
+  };
+
+  visit(value, "");
+  return error ? { error } : { text: out.join("") };
+}
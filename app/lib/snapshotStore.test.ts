@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { SnapshotStore } from "./snapshotStore";
+import { setIn } from "./pathCopy";
 
 describe("SnapshotStore", () => {
   it("saves and restores a snapshot", () => {
@@ -26,13 +27,15 @@ describe("SnapshotStore", () => {
     expect(store.restore("nonexistent")).toBeUndefined();
   });
 
-  it("saved data is deep-cloned (mutations don't affect snapshot)", () => {
+  it("shares saved data; later path-copying edits don't affect the snapshot", () => {
     const store = new SnapshotStore();
-    const data: any = { items: [{ name: "Alice" }] };
+    const data: any = { items: [{ name: "Alice" }], other: { big: true } };
     const snap = store.save("test", data);
-    data.items[0].name = "MUTATED";
-    const restored = store.restore(snap.id);
-    expect((restored?.data as any).items[0].name).toBe("Alice");
+    expect(snap.data).toBe(data);
+    const edited: any = setIn(data, ["items", "0", "name"], "EDITED");
+    const restored: any = store.restore(snap.id)?.data;
+    expect(restored.items[0].name).toBe("Alice");
+    expect(edited.other).toBe(restored.other);
   });
 
   it("multiple snapshots all remain available", () => {
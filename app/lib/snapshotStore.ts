@@ -16,7 +16,7 @@ export class SnapshotStore {
       id: `snap-${++this.counter}-${Date.now()}`,
       name,
       timestamp: new Date().toISOString(),
-      data: JSON.parse(JSON.stringify(data)), // deep clone
+      data, // shared, not copied: documents are only ever updated by path copying (pathCopy.ts)
     };
     this.snapshots.push(snapshot);
     return snapshot;
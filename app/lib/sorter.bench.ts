@@ -0,0 +1,36 @@
+import { bench, describe } from "vitest";
+import type { JsonObject } from "./fileLoader";
+import { setIn } from "./pathCopy";
+import { canonicalizeKeyOrder, sortContainer } from "./sorter";
+
+// A document shaped like the TX files: many classes, each with its own attributes
+const classes = Array.from({ length: 500 }, (_, c) => ({
+  name: `class${c}`,
+  attributes: Array.from({ length: 40 }, (_, a) => ({ viewname: `v${(a * 7919) % 40}`, colour: "green", size: a, note: "x".repeat(20) })),
+}));
+const doc: JsonObject = { view: { name: "bench", classes } };
+
+// Most of a sort's time goes into the two serialisations for the movement log's line numbers
+describe("sort one container of a large document", () => {
+  bench("sortContainer", () => {
+    sortContainer(doc, { containerPath: "view.classes.250.attributes", sortKey: "viewname", direction: "asc" });
+  });
+});
+
+describe("one edit", () => {
+  bench("setIn", () => {
+    setIn(doc, ["view", "classes", "250", "attributes", "3", "colour"], "red");
+  });
+
+  bench("whole-document clone, as every edit used to do", () => {
+    const clone = JSON.parse(JSON.stringify(doc));
+    clone.view.classes[250].attributes[3].colour = "red";
+  });
+});
+
+describe("canonicalise an already canonical document", () => {
+  const canonical = canonicalizeKeyOrder(doc, { direction: "asc", type: "ordinal" }).data;
+  bench("canonicalizeKeyOrder", () => {
+    canonicalizeKeyOrder(canonical, { direction: "asc", type: "ordinal" });
+  });
+});
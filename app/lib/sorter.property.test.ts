@@ -53,9 +53,8 @@ describe("Property 12: Movement log line accuracy", () => {
         if (!report.integrityPassed) return true;
 
         // Reconstruct line numbers from pre-sort and post-sort serializations
-        const preLines = computeElementLines(data.items);
-        const postItems = (sortedData as any).items;
-        const postLines = computeElementLines(postItems);
+        const preLines = elementLines(data);
+        const postLines = elementLines(sortedData);
 
         for (const entry of report.movementLog) {
           expect(entry.fromLine).toBe(preLines[entry.oldIndex]);
@@ -68,13 +67,13 @@ describe("Property 12: Movement log line accuracy", () => {
   });
 });
 
-function computeElementLines(elements: unknown[]): number[] {
+/** 1-based lines of the `{` that opens each `items` element in 2-space JSON */
+function elementLines(doc: unknown): number[] {
   const lines: number[] = [];
-  let lineNum = 1;
-  for (const el of elements) {
-    lines.push(lineNum);
-    const serialized = JSON.stringify(el, null, 2);
-    lineNum += serialized.split("\n").length + 1;
-  }
+  JSON.stringify(doc, null, 2)
+    .split("\n")
+    .forEach((line, i) => {
+      if (line === "    {") lines.push(i + 1);
+    });
   return lines;
 }
@@ -1,5 +1,7 @@
 import { describe, it, expect } from "vitest";
-import { sortContainer } from "./sorter";
+import type { JsonObject } from "./fileLoader";
+import { driveJob, type JobProgress } from "./jobs";
+import { canonicalizeKeyOrder, describeSortKeys, sortContainer, sortContainerJob } from "./sorter";
 
 const items = [
   { name: "Charlie", score: 30 },
@@ -78,13 +80,14 @@ describe("sortContainer", () => {
     expect(result).toEqual({ a: 1 }); // original unchanged
   });
 
-  it("returns error when path is not an array", () => {
-    const { report } = sortContainer({ a: { b: 1 } }, {
+  it("returns error when path is not an array or object", () => {
+    const { report } = sortContainer({ a: 5 }, {
       containerPath: "a",
       sortKey: "b",
       direction: "asc",
     });
     expect(report.integrityPassed).toBe(false);
+    expect(report.error).toMatch(/does not resolve to an array or object/);
   });
 
   it("handles empty array", () => {
@@ -139,4 +142,282 @@ describe("sortContainer", () => {
     expect(values).toContain("Bob");
     expect(values).toContain("Charlie");
   });
+
+  it("movement log lines follow the output style", () => {
+    const data = { title: "t", items: [...items] };
+    const { report } = sortContainer(data, {
+      containerPath: "items",
+      sortKey: "name",
+      direction: "asc",
+      format: { indent: "tab", compactArrayWidth: 0, sortKeys: true },
+    });
+    // Sorted keys put "items" first: line 2 opens the array, elements take 4 lines each
+    const alice = report.movementLog.find((e) => e.keyValue === "Alice")!;
+    expect(alice.fromLine).toBe(7);
+    expect(alice.toLine).toBe(3);
+  });
+});
+
+describe("sortContainer with lossless numbers", () => {
+  it("orders IDs that round to the same double by their exact digits", () => {
+    const big = (v: string) => ({ isLosslessNumber: true as const, value: v });
+    const data = { items: [{ id: big("9007199254740993") }, { id: big("9007199254740992") }, { id: 5 }] };
+    const { data: sorted, report } = sortContainer(data, { containerPath: "items", sortKey: "id", direction: "asc" });
+    expect(report.integrityPassed).toBe(true);
+    expect((sorted as any).items.map((x: any) => x.id.value ?? x.id)).toEqual([5, "9007199254740992", "9007199254740993"]);
+  });
+});
+
+describe("sortContainer with several keys", () => {
+  const tasks: JsonObject[] = [
+    { class: "b", priority: "2", name: "item10" },
+    { class: "a", priority: 1, name: "Item2" },
+    { class: "a", priority: 10, name: "item1" },
+    { class: "a", name: "item3" },
+    { class: "a", priority: 10, name: "item2" },
+  ];
+
+  it("breaks ties with each following key in turn", () => {
+    const { data, report } = sortContainer({ tasks }, {
+      containerPath: "tasks",
+      sortKey: "",
+      direction: "asc",
+      keys: [
+        { key: "class", direction: "asc", type: "string", nulls: "last" },
+        { key: "priority", direction: "desc", type: "number", nulls: "last" },
+        { key: "name", direction: "asc", type: "natural", nulls: "last", ignoreCase: true },
+      ],
+    });
+    expect(report.integrityPassed).toBe(true);
+    expect((data as any).tasks.map((t: any) => t.name)).toEqual(["item1", "item2", "Item2", "item3", "item10"]);
+    expect(report.sortKey).toBe("class");
+    expect(report.movementLog[0].keyTuple).toEqual(["a", "10", "item1"]);
+    expect(report.movementLog[3].keyTuple).toEqual(["a", "", "item3"]);
+  });
+
+  it("places missing values by the null policy, not the direction", () => {
+    const run = (direction: "asc" | "desc", nulls: "first" | "last") =>
+      (sortContainer({ tasks }, {
+        containerPath: "tasks",
+        sortKey: "",
+        direction,
+        keys: [{ key: "priority", direction, type: "number", nulls }],
+      }).data as any).tasks.map((t: any) => t.name);
+    expect(run("asc", "first")[0]).toBe("item3");
+    expect(run("desc", "first")[0]).toBe("item3");
+    expect(run("asc", "last")[4]).toBe("item3");
+    expect(run("desc", "last")[4]).toBe("item3");
+  });
+
+  it("compares dates, booleans and nested fields", () => {
+    const rows = [
+      { meta: { at: "2024-03-01T10:00:00Z" }, ok: "true" },
+      { meta: { at: "2023-12-31" }, ok: false },
+      { meta: { at: "not a date" }, ok: true },
+    ];
+    const byDate = sortContainer(rows, { containerPath: "", sortKey: "", direction: "asc", keys: [{ key: "meta.at", direction: "asc", type: "date", nulls: "first" }] });
+    expect(byDate.report.movementLog.map((e) => e.oldIndex)).toEqual([2, 1, 0]);
+    const byFlag = sortContainer(rows, { containerPath: "", sortKey: "", direction: "asc", keys: [{ key: "ok", direction: "desc", type: "boolean", nulls: "last" }] });
+    expect(byFlag.report.movementLog.map((e) => e.oldIndex)).toEqual([0, 2, 1]);
+  });
+
+  it("describes the key list for the report", () => {
+    expect(describeSortKeys([
+      { key: "class", direction: "asc", type: "auto", nulls: "last" },
+      { key: "priority", direction: "desc", type: "number", nulls: "first" },
+    ])).toBe("class asc, priority desc number nulls first");
+  });
+});
+
+describe("sortContainer with registry comparators", () => {
+  it("orders versions by semver and reports unreadable ones as missing", () => {
+    const releases = [{ v: "1.10.0" }, { v: "1.9.0" }, { v: "next" }, { v: "1.0.0-rc.1" }];
+    const { data, report } = sortContainer({ releases }, {
+      containerPath: "releases",
+      sortKey: "",
+      direction: "desc",
+      keys: [{ key: "v", direction: "desc", type: "semver", nulls: "last" }],
+    });
+    expect((data as any).releases.map((r: any) => r.v)).toEqual(["1.10.0", "1.9.0", "1.0.0-rc.1", "next"]);
+    expect(report.movementLog[3].keyTuple).toEqual([""]);
+  });
+});
+
+describe("sortContainer with path patterns", () => {
+  const view = {
+    view: {
+      classes: {
+        apple: { attributes: [{ name: "b" }, { name: "a" }] },
+        pear: { attributes: [{ name: "z" }, { name: "y" }, { name: "x" }], label: "not an array" },
+      },
+    },
+  };
+
+  it("sorts every matched array on its own and reports each", () => {
+    const { data, report } = sortContainer(view, { containerPath: "view.classes.*.attributes", sortKey: "name", direction: "asc" });
+    expect(report.integrityPassed).toBe(true);
+    const classes = (data as any).view.classes;
+    expect(classes.apple.attributes.map((a: any) => a.name)).toEqual(["a", "b"]);
+    expect(classes.pear.attributes.map((a: any) => a.name)).toEqual(["x", "y", "z"]);
+    expect(report.containers.map((c) => [c.path, c.countBefore])).toEqual([
+      ["view.classes.apple.attributes", 2],
+      ["view.classes.pear.attributes", 3],
+    ]);
+    expect(report.countBefore).toBe(5);
+    expect(report.movementLog).toHaveLength(5);
+    expect(view.view.classes.apple.attributes[0].name).toBe("b"); // input untouched
+  });
+
+  it("copies only the sorted containers and their ancestors", () => {
+    const doc = { ...view, meta: { big: [1, 2, 3] } };
+    const { data } = sortContainer(doc, { containerPath: "view.classes.pear.attributes", sortKey: "name", direction: "asc" });
+    const sorted = data as any;
+    expect(sorted.meta).toBe(doc.meta);
+    expect(sorted.view.classes.apple).toBe(doc.view.classes.apple);
+    expect(sorted.view.classes.pear).not.toBe(doc.view.classes.pear);
+    // Elements move as they are, without being copied
+    expect(sorted.view.classes.pear.attributes[0]).toBe(doc.view.classes.pear.attributes[2]);
+  });
+
+  it("finds containers at any depth with ** and keeps line numbers right", () => {
+    const tree: JsonObject = { children: [{ id: 2, children: [{ id: 9 }, { id: 8 }] }, { id: 1 }] };
+    const { data, report } = sortContainer(tree, { containerPath: "**.children", sortKey: "id", direction: "asc" });
+    expect(report.integrityPassed).toBe(true);
+    expect(data).toEqual({ children: [{ id: 1 }, { id: 2, children: [{ id: 8 }, { id: 9 }] }] });
+    const text = JSON.stringify(data, null, 2).split("\n");
+    const inner = report.containers.find((c) => c.path === "children.0.children")!;
+    // {id: 8} was second in the inner array and ends up first, inside the parent's new position
+    const eight = inner.movementLog.find((e) => e.oldIndex === 1)!;
+    expect(text[eight.toLine - 1]).toBe("        {");
+    expect(text[eight.toLine]).toContain('"id": 8');
+    expect(eight.fromLine).toBe(9);
+  });
+
+  it("explains when a pattern matches nothing", () => {
+    expect(sortContainer(view, { containerPath: "view.*.missing", sortKey: "name", direction: "asc" }).report.error).toMatch(/No containers found/);
+    expect(sortContainer(view, { containerPath: "view.classes.*.label", sortKey: "name", direction: "asc" }).report.error).toMatch(/No arrays or objects found/);
+  });
+});
+
+describe("sortContainerJob", () => {
+  it("counts entries across containers, and the second line-number pass from the first's nodes", () => {
+    const doc = { a: [{ n: 2 }, { n: 1 }], b: [{ n: 4 }, { n: 3 }] };
+    const params = { containerPath: "*", sortKey: "n", direction: "asc" as const };
+    const job = sortContainerJob(doc, params);
+    const phases: string[] = [];
+    let step = job.next();
+    while (!step.done) {
+      phases.push(`${step.value.phase} ${step.value.processed}/${step.value.total}`);
+      step = job.next();
+    }
+    expect(phases).toEqual(["Sorting 0/4", "Sorting 2/4", "Sorting 2/4", "Sorting 4/4", "Line numbers 0/0", "Line numbers 11/22"]);
+    expect(step.value.data).toEqual(sortContainer(doc, params).data);
+  });
+
+  it("checks in within a single large array, and can be cancelled there", async () => {
+    const doc = { rows: Array.from({ length: 5000 }, (_, i) => ({ n: (i * 7919) % 5000 })) };
+    const job = sortContainerJob(doc, { containerPath: "rows", sortKey: "n", direction: "asc" });
+    let checks = 0;
+    let latest: JobProgress | undefined;
+    const outcome = await driveJob(job, {
+      // Cancelled while the entries are being keyed
+      isCancelled: () => ++checks > 3,
+      onProgress: (progress) => { latest = progress; },
+      sliceMs: 0,
+    });
+    expect(outcome).toEqual({ cancelled: true });
+    expect(latest).toMatchObject({ phase: "Sorting", total: 5000 });
+    expect(latest!.processed).toBeGreaterThan(0);
+    expect(latest!.processed).toBeLessThan(5000);
+    expect(job.next().done).toBe(true);
+  });
+});
+
+describe("sortContainer dry run", () => {
+  it("reports the full movement log and leaves the data as given", () => {
+    const data = { items: [...items] };
+    const dry = sortContainer(data, { containerPath: "items", sortKey: "name", direction: "asc", dryRun: true });
+    const real = sortContainer(data, { containerPath: "items", sortKey: "name", direction: "asc" });
+    expect(dry.data).toBe(data);
+    expect(dry.report.dryRun).toBe(true);
+    expect(real.report.dryRun).toBeUndefined();
+    expect(dry.report.movementLog.map(({ oldIndex, newIndex, fromLine, toLine }) => [oldIndex, newIndex, fromLine, toLine])).toEqual(
+      real.report.movementLog.map(({ oldIndex, newIndex, fromLine, toLine }) => [oldIndex, newIndex, fromLine, toLine])
+    );
+  });
+});
+
+describe("sortContainer with objects", () => {
+  const view: JsonObject = {
+    view: {
+      classes: {
+        pear: { productDesc: "Pear, green", n: 1 },
+        apple10: { productDesc: "Apple, red", n: 2 },
+        apple2: { n: 3 },
+      },
+    },
+  };
+
+  it("orders members by key name with the chosen comparator", () => {
+    const natural = sortContainer(view, {
+      containerPath: "view.classes",
+      sortKey: "",
+      direction: "asc",
+      keys: [{ key: "", source: "key", direction: "asc", type: "natural", nulls: "last" }],
+    });
+    expect(natural.report.integrityPassed).toBe(true);
+    expect(Object.keys((natural.data as any).view.classes)).toEqual(["apple2", "apple10", "pear"]);
+    expect(natural.report.containers[0].kind).toBe("object");
+    // With no key at all, objects sort by name
+    const plain = sortContainer(view, { containerPath: "view.classes", sortKey: "", direction: "desc" });
+    expect(Object.keys((plain.data as any).view.classes)).toEqual(["pear", "apple2", "apple10"]);
+    expect(describeSortKeys(plain.report.keys)).toBe("(key) desc");
+  });
+
+  it("orders members by a field of each value and logs key names with their lines", () => {
+    const { data, report } = sortContainer(view, { containerPath: "view.classes", sortKey: "productDesc", direction: "asc" });
+    expect(Object.keys((data as any).view.classes)).toEqual(["apple10", "pear", "apple2"]);
+    const pear = report.movementLog.find((e) => e.entryKey === "pear")!;
+    expect([pear.oldIndex, pear.newIndex, pear.keyValue]).toEqual([0, 1, "Pear, green"]);
+    const text = JSON.stringify(data, null, 2).split("\n");
+    expect(text[pear.toLine - 1]).toBe('      "pear": {');
+    expect(pear.fromLine).toBe(4);
+  });
+
+  it("refuses an order numeric keys cannot take", () => {
+    const ids = { byId: { "10": { name: "a" }, "2": { name: "b" }, x: { name: "c" } } };
+    const { data, report } = sortContainer(ids, { containerPath: "byId", sortKey: "name", direction: "desc" });
+    expect(report.integrityPassed).toBe(false);
+    expect(report.error).toMatch(/numeric keys/);
+    expect(data).toBe(ids);
+  });
+});
+
+describe("canonicalizeKeyOrder", () => {
+  it("sorts every object's keys and leaves arrays alone", () => {
+    const doc: JsonObject = { b: 1, a: { z: [{ y: 1, x: 2 }, { d: 0 }], c: null }, "10": true, "2": false };
+    const { data, report } = canonicalizeKeyOrder(doc, { direction: "asc", type: "ordinal" });
+    expect(report.integrityPassed).toBe(true);
+    expect(JSON.stringify(data)).toBe('{"2":false,"10":true,"a":{"c":null,"z":[{"x":2,"y":1},{"d":0}]},"b":1}');
+    // Only the objects whose order changed are listed
+    expect(report.containers.map((c) => c.path)).toEqual(["", "a", "a.z.0"]);
+    expect(report.countBefore).toBe(9);
+    expect(Object.keys(doc)).toEqual(["2", "10", "b", "a"]); // input untouched
+  });
+
+  it("shares every subtree whose key order is already canonical", () => {
+    const doc: JsonObject = { a: { x: 1, y: [{ p: 1, q: 2 }] }, c: { b: 1, a: 2 } };
+    const { data } = canonicalizeKeyOrder(doc, { direction: "asc", type: "ordinal" });
+    expect((data as JsonObject).a).toBe(doc.a);
+    expect((data as JsonObject).c).not.toBe(doc.c);
+    expect(canonicalizeKeyOrder(doc.a, { direction: "asc", type: "ordinal" }).data).toBe(doc.a);
+  });
+
+  it("reports line numbers for the moved keys", () => {
+    const { report } = canonicalizeKeyOrder({ b: 1, a: 2 }, { direction: "asc", type: "ordinal" });
+    expect(report.movementLog.map((e) => [e.entryKey, e.fromLine, e.toLine])).toEqual([
+      ["a", 3, 2],
+      ["b", 2, 3],
+    ]);
+  });
 });
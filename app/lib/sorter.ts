@@ -1,9 +1,40 @@
 import type { JsonValue, JsonObject, JsonArray } from "./fileLoader";
+import { isLosslessNumber } from "./losslessNumber";
+import { createComparator, createRankComparator, type CompareOptions, type ComparatorId, type ScalarValue } from "./comparators";
+import { isPathPattern, resolvePathPattern } from "./pathPattern";
+import { runJob, type Job, type JobProgress } from "./jobs";
+import { createPathWriter } from "./pathCopy";
+import { serialize, serializeWithLines, serializeWithLinesJob, DEFAULT_SERIALIZE_OPTIONS, type SerializeOptions, type SerializedText } from "./serializer";
+
+/** A comparator from the registry in comparators.ts; "auto" is numeric when both sides read as numbers, text otherwise */
+export type SortValueType = ComparatorId;
+
+/** One sort key; locale, sensitivity and ignoreCase apply to the text comparators */
+export interface SortKeySpec extends CompareOptions {
+  /** Dotted field path inside each element; "" compares the elements themselves */
+  key: string;
+  /** "key" compares each entry's key name instead of its value (an array element's is its index) */
+  source?: "value" | "key";
+  direction: "asc" | "desc";
+  type: SortValueType;
+  /** Where missing, null and values the comparator cannot read go, whatever the direction */
+  nulls: "first" | "last";
+  /** Explicit order: values sort by their position in this list instead of by `type`; unlisted ones are missing */
+  rank?: string[];
+}
 
 export interface SortParams {
   containerPath: string;
   sortKey: string;
   direction: "asc" | "desc";
+  /** Ordered keys, each breaking ties of the one before; replaces sortKey/direction when given */
+  keys?: SortKeySpec[];
+  /** Output style the movement log's line numbers refer to */
+  format?: SerializeOptions;
+  /** Keys for one matched container, by its path; undefined leaves that container unsorted and unreported */
+  keysFor?: (path: string) => SortKeySpec[] | undefined;
+  /** Report what would move without changing anything: `data` comes back as given */
+  dryRun?: boolean;
 }
 
 export interface MovementEntry {
@@ -11,19 +42,39 @@ export interface MovementEntry {
   newIndex: number;
   fromLine: number;
   toLine: number;
+  /** Value of the first key */
   keyValue: string;
+  /** Value of every key, in key order ("" when missing) */
+  keyTuple: string[];
+  /** Key name of an object entry; old and new indices are then positions among the keys */
+  entryKey?: string;
 }
 
 export interface SortReport {
   containerPath: string;
   sortKey: string;
   direction: "asc" | "desc";
+  keys: SortKeySpec[];
   countBefore: number;
   countAfter: number;
   integrityPassed: boolean;
+  /** Every container's entries, in `containers` order */
   movementLog: MovementEntry[];
+  /** One entry per sorted container; a plain path gives exactly one */
+  containers: ContainerSortReport[];
   durationMs: number;
   error?: string;
+  /** The sort was a dry run; the report describes a result that was not applied */
+  dryRun?: boolean;
+}
+
+export interface ContainerSortReport {
+  /** Dotted path of the container as matched, before any sorting */
+  path: string;
+  kind: "array" | "object";
+  countBefore: number;
+  countAfter: number;
+  movementLog: MovementEntry[];
 }
 
 export interface SortResult {
@@ -32,186 +83,448 @@ export interface SortResult {
 }
 
 function isObject(v: JsonValue): v is JsonObject {
-  return v !== null && typeof v === "object" && !Array.isArray(v);
+  return v !== null && typeof v === "object" && !Array.isArray(v) && !isLosslessNumber(v);
 }
 
 function isArray(v: JsonValue): v is JsonArray {
   return Array.isArray(v);
 }
 
-/** Resolve a dot-notation path and return the value + a setter */
-function resolvePath(
-  root: JsonValue,
-  path: string
-): { value: JsonValue; set: (v: JsonValue) => JsonValue } | null {
-  if (!path || path === "(root)") {
-    return { value: root, set: (v) => v };
-  }
-  const parts = path.split(".");
-  let current: JsonValue = root;
-  const trail: { parent: JsonObject | JsonArray; key: string | number }[] = [];
-
-  for (const part of parts) {
-    if (isObject(current)) {
-      trail.push({ parent: current, key: part });
-      current = (current as JsonObject)[part] ?? null;
-    } else if (isArray(current)) {
-      const idx = parseInt(part, 10);
-      trail.push({ parent: current, key: idx });
-      current = (current as JsonArray)[idx] ?? null;
-    } else {
-      return null;
-    }
+/**
+ * Field of an element: a key holding the whole path first, then the dotted
+ * path. A field name reached on an array reads that array's first element,
+ * so `attributes.name` works on `{ attributes: [{ name }] }`.
+ */
+export function fieldValue(el: JsonValue, key: string): JsonValue | undefined {
+  if (!key) return el;
+  if (isObject(el) && Object.prototype.hasOwnProperty.call(el, key)) return el[key];
+  let current: JsonValue | undefined = el;
+  for (const part of key.split(".")) {
+    if (isArray(current) && !/^\d+$/.test(part)) current = current[0];
+    if (isObject(current)) current = Object.prototype.hasOwnProperty.call(current, part) ? current[part] : undefined;
+    else if (isArray(current)) current = current[Number(part)];
+    else return undefined;
+    if (current === undefined) return undefined;
   }
+  return current;
+}
+
+/** A key's value read once per element: its text for the report and its comparator key */
+interface SortValue {
+  missing: boolean;
+  text: string;
+  key: unknown;
+}
 
-  const set = (newVal: JsonValue): JsonValue => {
-    // Deep-clone root and set the value at path
-    const cloned = JSON.parse(JSON.stringify(root)) as JsonValue;
-    let node: JsonValue = cloned;
-    for (let i = 0; i < parts.length - 1; i++) {
-      if (isObject(node)) node = (node as JsonObject)[parts[i]];
-      else if (isArray(node)) node = (node as JsonArray)[parseInt(parts[i], 10)];
-      else return cloned;
+const MISSING: SortValue = { missing: true, text: "", key: undefined };
+
+function makeKeyComparator(spec: SortKeySpec) {
+  const comparator = spec.rank ? createRankComparator(spec.rank) : createComparator(spec.type, spec);
+  const sign = spec.direction === "asc" ? 1 : -1;
+  const read = (v: JsonValue | undefined): SortValue => {
+    if (v === undefined || v === null || (typeof v === "object" && !isLosslessNumber(v))) return MISSING;
+    const key = comparator.read(v as ScalarValue);
+    return key === undefined ? MISSING : { missing: false, text: isLosslessNumber(v) ? v.value : String(v), key };
+  };
+  const compare = (a: SortValue, b: SortValue): number => {
+    if (a.missing || b.missing) {
+      if (a.missing && b.missing) return 0;
+      return (a.missing ? -1 : 1) * (spec.nulls === "first" ? 1 : -1);
     }
-    const lastKey = parts[parts.length - 1];
-    if (isObject(node)) (node as JsonObject)[lastKey] = newVal;
-    else if (isArray(node)) (node as JsonArray)[parseInt(lastKey, 10)] = newVal;
-    return cloned;
+    return comparator.compare(a.key, b.key) * sign;
   };
-
-  return { value: current, set };
+  return { read, compare };
 }
 
-/** Compute line numbers of each element's opening brace in formatted JSON */
-function computeElementLines(elements: JsonValue[]): number[] {
-  const lines: number[] = [];
-  let lineNum = 1;
-  for (const el of elements) {
-    lines.push(lineNum);
-    const serialized = JSON.stringify(el, null, 2);
-    lineNum += serialized.split("\n").length + 1; // +1 for comma/separator line
-  }
-  return lines;
+/** One-line summary of a key list for the sort report, e.g. `class asc, priority desc number nulls first` */
+export function describeSortKeys(keys: SortKeySpec[]): string {
+  return keys
+    .map((k) =>
+      [
+        k.source === "key" ? "(key)" : k.key || "(value)",
+        k.direction,
+        k.rank ? `by list (${k.rank.length})` : k.type !== "auto" ? k.type : "",
+        k.locale ?? "",
+        k.sensitivity && k.sensitivity !== "variant" ? `sensitivity ${k.sensitivity}` : k.ignoreCase ? "ignore case" : "",
+        k.nulls === "first" ? "nulls first" : "",
+      ]
+        .filter(Boolean)
+        .join(" ")
+    )
+    .join(", ");
 }
 
-/** Get sort key value as string for comparison */
-function getKeyValue(el: JsonValue, key: string): string {
-  if (!isObject(el)) return "";
-  const v = (el as JsonObject)[key];
-  if (v === null || v === undefined) return "";
-  return String(v);
-}
+/** An array element or object member: its index or key name, and its value */
+type Entry = [string, JsonValue];
 
-/** Numeric-aware comparison */
-function compareValues(a: string, b: string): number {
-  const na = Number(a);
-  const nb = Number(b);
-  if (!isNaN(na) && !isNaN(nb)) return na - nb;
-  return a.localeCompare(b);
+function entriesOf(container: JsonArray | JsonObject): Entry[] {
+  return isArray(container) ? container.map((el, i) => [String(i), el] as Entry) : Object.keys(container).map((k) => [k, container[k]] as Entry);
 }
 
-export function sortContainer(data: JsonValue, params: SortParams): SortResult {
-  const start = Date.now();
-  const { containerPath, sortKey, direction } = params;
-
-  const makeErrorReport = (error: string): SortResult => ({
-    data,
-    report: {
-      containerPath,
-      sortKey,
-      direction,
-      countBefore: 0,
-      countAfter: 0,
-      integrityPassed: false,
-      movementLog: [],
-      durationMs: Date.now() - start,
-      error,
-    },
-  });
-
-  const resolved = resolvePath(data, containerPath);
-  if (!resolved) return makeErrorReport(`Path not found: ${containerPath}`);
-  if (!isArray(resolved.value)) return makeErrorReport(`Path does not resolve to an array: ${containerPath}`);
+/** Entries keyed or rebuilt between the checkpoints of a sort job */
+const SORT_CHECKPOINT_ITEMS = 1000;
 
-  const container = resolved.value as JsonArray;
-  const countBefore = container.length;
+interface SortedEntries {
+  sorted: Entry[];
+  movementLog: MovementEntry[];
+}
 
-  // Compute fromLine for each element
-  const fromLines = computeElementLines(container);
+/** Sort a container's entries; the movement log's lines are filled in once the whole document is sorted */
+function sortEntries(entries: Entry[], keys: SortKeySpec[], named: boolean): SortedEntries {
+  return runJob(sortEntriesJob(entries, keys, named));
+}
 
-  // Stable sort: attach original index, sort, then record movement
-  const indexed = container.map((el, i) => ({ el, i }));
+/** sortEntries as a job; with `progress` it checks in while reading the keys, with the entries read so far */
+function* sortEntriesJob(entries: Entry[], keys: SortKeySpec[], named: boolean, progress?: (done: number) => JobProgress): Job<SortedEntries> {
+  // Stable sort: read every key once per element, sort, then record movement
+  const comparators = keys.map(makeKeyComparator);
+  const indexed: { el: Entry; i: number; values: SortValue[] }[] = new Array(entries.length);
+  for (let i = 0; i < entries.length; i++) {
+    if (progress && i > 0 && i % SORT_CHECKPOINT_ITEMS === 0) yield progress(i);
+    const el = entries[i];
+    indexed[i] = { el, i, values: comparators.map((c, k) => c.read(keys[k].source === "key" ? el[0] : fieldValue(el[1], keys[k].key))) };
+  }
+  if (progress) yield progress(entries.length);
   indexed.sort((a, b) => {
-    const va = getKeyValue(a.el, sortKey);
-    const vb = getKeyValue(b.el, sortKey);
-    const cmp = compareValues(va, vb);
-    if (cmp !== 0) return direction === "asc" ? cmp : -cmp;
+    for (let k = 0; k < comparators.length; k++) {
+      const cmp = comparators[k].compare(a.values[k], b.values[k]);
+      if (cmp !== 0) return cmp;
+    }
     return a.i - b.i; // stable: preserve original order for ties
   });
+  return {
+    sorted: indexed.map((x) => x.el),
+    movementLog: indexed.map((x, newIndex) => ({
+      oldIndex: x.i,
+      newIndex,
+      fromLine: 0,
+      toLine: 0,
+      keyValue: x.values[0].text,
+      keyTuple: x.values.map((v) => v.text),
+      ...(named ? { entryKey: x.el[0] } : {}),
+    })),
+  };
+}
 
-  const sortedContainer: JsonArray = indexed.map((x) => x.el);
-  const countAfter = sortedContainer.length;
-
-  // Compute toLine for each element in sorted order
-  const toLines = computeElementLines(sortedContainer);
-
-  // Build movement log
-  const movementLog: MovementEntry[] = indexed.map((x, newIndex) => ({
-    oldIndex: x.i,
-    newIndex,
-    fromLine: fromLines[x.i],
-    toLine: toLines[newIndex],
-    keyValue: getKeyValue(x.el, sortKey),
-  }));
-
-  // Integrity check 1: count
-  if (countBefore !== countAfter) {
-    return {
-      data,
-      report: {
-        containerPath, sortKey, direction,
-        countBefore, countAfter,
-        integrityPassed: false,
-        movementLog,
-        durationMs: Date.now() - start,
-        error: `Count mismatch: ${countBefore} before, ${countAfter} after`,
-      },
-    };
+/** Keys a JavaScript object always lists first, in ascending order, whatever order they were added in */
+function isIndexKey(key: string): boolean {
+  return /^(0|[1-9]\d{0,9})$/.test(key) && Number(key) < 4294967295;
+}
+
+/**
+ * A new container holding the sorted entries; the one given is left as it is.
+ * An object whose keys include array-index-like names ("2", "10") cannot hold
+ * every order, so the resulting key order is checked against the one asked for.
+ */
+function rebuild(container: JsonArray | JsonObject, sorted: Entry[]): Rebuilt {
+  return runJob(rebuildJob(container, sorted));
+}
+
+interface Rebuilt {
+  value: JsonArray | JsonObject;
+  error?: string;
+}
+
+/** rebuild as a job; with `progress` it checks in while adding an object's members */
+function* rebuildJob(container: JsonArray | JsonObject, sorted: Entry[], progress?: () => JobProgress): Job<Rebuilt> {
+  if (isArray(container)) return { value: sorted.map((el) => el[1]) };
+  const value: JsonObject = {};
+  for (let j = 0; j < sorted.length; j++) {
+    if (progress && j > 0 && j % SORT_CHECKPOINT_ITEMS === 0) yield progress();
+    const [key, v] = sorted[j];
+    Object.defineProperty(value, key, { value: v, enumerable: true, writable: true, configurable: true });
   }
+  const actual = Object.keys(value);
+  if (actual.every((key, j) => key === sorted[j][0])) return { value };
+  const pinned = sorted.map((e) => e[0]).filter(isIndexKey);
+  return {
+    value,
+    error: pinned.length > 0
+      ? `Key order cannot be kept: numeric keys such as "${pinned[0]}" always come first in a JSON object`
+      : "Key order check failed: the object's keys did not come back in sorted order",
+  };
+}
 
-  // Integrity check 2: bijection
+/** Integrity checks for one container: same count, and the log is a complete permutation */
+function checkIntegrity(countBefore: number, countAfter: number, movementLog: MovementEntry[]): string | undefined {
+  if (countBefore !== countAfter) return `Count mismatch: ${countBefore} before, ${countAfter} after`;
   const oldIndices = new Set(movementLog.map((e) => e.oldIndex));
   const newIndices = new Set(movementLog.map((e) => e.newIndex));
-  const expected = new Set(Array.from({ length: countBefore }, (_, i) => i));
+  const inRange = (i: number) => Number.isInteger(i) && i >= 0 && i < countBefore;
   const bijectionOk =
+    movementLog.length === countBefore &&
     oldIndices.size === countBefore &&
     newIndices.size === countBefore &&
-    Array.from(expected).every((i) => oldIndices.has(i) && newIndices.has(i));
-
-  if (!bijectionOk) {
-    return {
-      data,
-      report: {
-        containerPath, sortKey, direction,
-        countBefore, countAfter,
-        integrityPassed: false,
-        movementLog,
-        durationMs: Date.now() - start,
-        error: "Bijection check failed: movement log indices are not a complete permutation",
-      },
-    };
+    Array.from(oldIndices).every(inRange) &&
+    Array.from(newIndices).every(inRange);
+  return bijectionOk ? undefined : "Bijection check failed: movement log indices are not a complete permutation";
+}
+
+/**
+ * Sort the array or object at `containerPath`, or every one a pattern matches
+ * (`view.classes.*.attributes`, `items[*].tags`, `**.children`). Each container
+ * is sorted on its own; the report sums the counts and lists every container in
+ * `containers`. Nothing changes unless every container passes its checks.
+ *
+ * An object's members are reordered by their values' fields, or by key name
+ * for a key with `source: "key"` — also the default when no sort key is given.
+ */
+export function sortContainer(data: JsonValue, params: SortParams): SortResult {
+  return runJob(sortContainerJob(data, params));
+}
+
+/**
+ * sortContainer as a job. Progress counts entries: "Sorting" checks in within
+ * each container, "Line numbers" within both serialisations, whose total is
+ * only known once the first is done.
+ */
+export function* sortContainerJob(data: JsonValue, params: SortParams): Job<SortResult> {
+  const start = Date.now();
+  const { containerPath, direction } = params;
+  const keys: SortKeySpec[] =
+    params.keys && params.keys.length > 0
+      ? params.keys
+      : [{ key: params.sortKey, direction, type: "auto", nulls: "last" }];
+  const sortKey = params.keys && params.keys.length > 0 ? keys[0].key : params.sortKey;
+  const format = params.format ?? DEFAULT_SERIALIZE_OPTIONS;
+  let reportKeys = keys;
+
+  const report = (fields: Partial<SortReport>): SortReport => ({
+    containerPath, sortKey, direction,
+    keys: reportKeys,
+    countBefore: 0,
+    countAfter: 0,
+    integrityPassed: false,
+    movementLog: [],
+    containers: [],
+    durationMs: Date.now() - start,
+    ...(params.dryRun ? { dryRun: true } : {}),
+    ...fields,
+  });
+  const makeErrorReport = (error: string): SortResult => ({ data, report: report({ error }) });
+
+  const pattern = isPathPattern(containerPath);
+  const matches = resolvePathPattern(data, containerPath);
+  if (matches.length === 0) {
+    return makeErrorReport(pattern ? `No containers found matching "${containerPath}"` : `Path not found: ${containerPath}`);
+  }
+  // A pattern may also match scalars; only its arrays and objects are sorted
+  const sortable = matches.filter((m) => isArray(m.value) || isObject(m.value));
+  if (sortable.length === 0) {
+    return makeErrorReport(pattern ? `No arrays or objects found matching "${containerPath}"` : `Path does not resolve to an array or object: ${containerPath}`);
+  }
+  // With no sort key at all, objects go by key name and arrays by their elements
+  const byName = !(params.keys && params.keys.length > 0) && !params.sortKey;
+  const objectKeys: SortKeySpec[] = byName ? [{ ...keys[0], source: "key" }] : keys;
+  if (sortable.every((m) => isObject(m.value))) reportKeys = objectKeys;
+  const { keysFor } = params;
+  const arrays = keysFor ? sortable.filter((m) => keysFor(m.path) !== undefined) : sortable;
+
+  // Deepest first, so sorting an outer array never moves an inner one that is still to be sorted
+  const order = arrays.map((m, i) => ({ m, i })).sort((a, b) => b.m.segments.length - a.m.segments.length || a.i - b.i);
+  // Only the sorted containers and their ancestors are copied; everything else is shared with `data`
+  const writer = createPathWriter(data);
+  const containers: ContainerSortReport[] = new Array(arrays.length);
+  const total = arrays.reduce((sum, m) => sum + (isArray(m.value) ? m.value.length : Object.keys(m.value as JsonObject).length), 0);
+  let done = 0;
+  for (let n = 0; n < order.length; n++) {
+    yield { phase: "Sorting", processed: done, total };
+    const { m, i } = order[n];
+    const container = writer.get(m.segments) as JsonArray | JsonObject;
+    const kind = isArray(container) ? "array" : "object";
+    const entries = entriesOf(container);
+    const containerKeys = (keysFor && keysFor(m.path)) || (kind === "array" ? keys : objectKeys);
+    const entriesDone = done;
+    const sorting = sortEntriesJob(entries, containerKeys, kind === "object", (k) => ({ phase: "Sorting", processed: entriesDone + k, total }));
+    let sortStep = sorting.next();
+    while (!sortStep.done) {
+      yield sortStep.value;
+      sortStep = sorting.next();
+    }
+    const { sorted, movementLog } = sortStep.value;
+    done += entries.length;
+    const result: ContainerSortReport = { path: m.path, kind, countBefore: entries.length, countAfter: sorted.length, movementLog };
+    const rebuilding = rebuildJob(container, sorted, () => ({ phase: "Sorting", processed: done, total }));
+    let rebuildStep = rebuilding.next();
+    while (!rebuildStep.done) {
+      yield rebuildStep.value;
+      rebuildStep = rebuilding.next();
+    }
+    const rebuilt = rebuildStep.value;
+    const error = checkIntegrity(entries.length, sorted.length, movementLog) ?? rebuilt.error;
+    if (error) {
+      return {
+        data,
+        report: report({ countBefore: result.countBefore, countAfter: result.countAfter, movementLog, containers: [result], error: arrays.length > 1 ? `${m.path}: ${error}` : error }),
+      };
+    }
+    writer.set(m.segments, rebuilt.value);
+    containers[i] = result;
+  }
+  const updated = writer.result();
+
+  // Line numbers before and after, one serialisation each; an inner container's
+  // final path follows the moves of the containers around it. Sorting keeps
+  // every node, so the first pass's node count gives the second its total.
+  yield { phase: "Line numbers", processed: 0, total: 0 };
+  const beforeJob = serializeWithLinesJob(data, format, (nodes) => ({ phase: "Line numbers", processed: nodes, total: 0 }));
+  let lineStep: IteratorResult<JobProgress, SerializedText> = beforeJob.next();
+  while (!lineStep.done) {
+    yield lineStep.value;
+    lineStep = beforeJob.next();
+  }
+  const before = lineStep.value.lines;
+  const nodes = before.size + 1;
+  yield { phase: "Line numbers", processed: nodes, total: 2 * nodes };
+  const afterJob = serializeWithLinesJob(updated, format, (k) => ({ phase: "Line numbers", processed: nodes + k, total: 2 * nodes }));
+  lineStep = afterJob.next();
+  while (!lineStep.done) {
+    yield lineStep.value;
+    lineStep = afterJob.next();
+  }
+  const after = lineStep.value.lines;
+  // Object members keep their key names, so only arrays change the paths inside them
+  const newIndexOf = new Map(containers.filter((c) => c.kind === "array").map((c) => [c.path, newIndexTable(c.movementLog)]));
+  const finalSegments = (segments: string[]): string[] =>
+    segments.map((segment, i) => {
+      const moved = newIndexOf.get(segments.slice(0, i).join("."));
+      return moved ? String(moved[Number(segment)]) : segment;
+    });
+  containers.forEach((c, i) => {
+    const from = arrays[i].segments;
+    const to = finalSegments(from);
+    fillLines(c.movementLog, from, to, before, after);
+  });
+
+  return {
+    data: params.dryRun ? data : updated,
+    report: report({
+      countBefore: containers.reduce((n, c) => n + c.countBefore, 0),
+      countAfter: containers.reduce((n, c) => n + c.countAfter, 0),
+      integrityPassed: true,
+      movementLog: ([] as MovementEntry[]).concat(...containers.map((c) => c.movementLog)),
+      containers,
+    }),
+  };
+}
+
+function fillLines(movementLog: MovementEntry[], from: string[], to: string[], before: Map<string, number>, after: Map<string, number>) {
+  for (const entry of movementLog) {
+    entry.fromLine = before.get(from.concat(entry.entryKey ?? String(entry.oldIndex)).join(".")) ?? 1;
+    entry.toLine = after.get(to.concat(entry.entryKey ?? String(entry.newIndex)).join(".")) ?? 1;
   }
+}
 
-  const newData = resolved.set(sortedContainer);
+export interface CanonicalKeyParams extends CompareOptions {
+  direction: "asc" | "desc";
+  /** How key names compare; "ordinal" (UTF-16 code units) matches the serializer's sorted keys */
+  type: SortValueType;
+  format?: SerializeOptions;
+}
+
+const SORTED_MINIFIED: SerializeOptions = { indent: 0, compactArrayWidth: 0, sortKeys: true };
+
+/**
+ * Sort the keys of every object in the document by name, at every depth,
+ * leaving arrays in their order. Numeric keys ("2", "10") come first in
+ * ascending order, as a JSON object always lists them. The report has one
+ * container per object whose order changed; each passes the same checks as an
+ * array sort, and the whole document must read the same with keys sorted.
+ */
+export function canonicalizeKeyOrder(data: JsonValue, params: CanonicalKeyParams): SortResult {
+  const start = Date.now();
+  const { direction, type, locale, sensitivity, ignoreCase } = params;
+  const keys: SortKeySpec[] = [{ key: "", source: "key", direction, type, nulls: "last", locale, sensitivity, ignoreCase }];
+  const report = (fields: Partial<SortReport>): SortReport => ({
+    containerPath: "**",
+    sortKey: "",
+    direction,
+    keys,
+    countBefore: 0,
+    countAfter: 0,
+    integrityPassed: false,
+    movementLog: [],
+    containers: [],
+    durationMs: Date.now() - start,
+    ...fields,
+  });
 
+  const changed: { segments: string[]; result: ContainerSortReport }[] = [];
+  let countBefore = 0;
+  let countAfter = 0;
+  let failure: string | undefined;
+
+  // Rebuilds bottom-up: a node whose order and children are unchanged is returned as it is, and shared
+  const visit = (node: JsonValue, segments: string[]): JsonValue => {
+    if (failure) return node;
+    if (isArray(node)) {
+      let copy: JsonArray | undefined;
+      node.forEach((el, i) => {
+        const next = visit(el, segments.concat(String(i)));
+        if (next !== el) (copy = copy ?? node.slice())[i] = next;
+      });
+      return copy ?? node;
+    }
+    if (!isObject(node)) return node;
+    const entries = entriesOf(node);
+    // Object.keys already lists numeric keys first and in order; only the rest are sorted
+    const sorted = entries.filter((e) => isIndexKey(e[0])).concat(sortEntries(entries.filter((e) => !isIndexKey(e[0])), keys, true).sorted);
+    const position = new Map(entries.map((e, i) => [e[0], i]));
+    const movementLog: MovementEntry[] = sorted.map(([key], newIndex) => ({
+      oldIndex: position.get(key) as number,
+      newIndex,
+      fromLine: 0,
+      toLine: 0,
+      keyValue: key,
+      keyTuple: [key],
+      entryKey: key,
+    }));
+    countBefore += entries.length;
+    countAfter += sorted.length;
+    const path = segments.join(".");
+    failure = checkIntegrity(entries.length, sorted.length, movementLog);
+    if (failure) {
+      failure = `${path || "(root)"}: ${failure}`;
+      return node;
+    }
+    const moved = movementLog.some((e) => e.oldIndex !== e.newIndex);
+    if (moved) {
+      changed.push({ segments, result: { path, kind: "object", countBefore: entries.length, countAfter: sorted.length, movementLog } });
+    }
+    const children = sorted.map(([key, value]) => [key, visit(value, segments.concat(key))] as Entry);
+    if (!moved && children.every((e, j) => e[1] === sorted[j][1])) return node;
+    const rebuilt = rebuild(node, children);
+    if (rebuilt.error && !failure) failure = `${path || "(root)"}: ${rebuilt.error}`;
+    return rebuilt.value;
+  };
+  const updated = visit(data, []);
+
+  if (!failure && serialize(data, SORTED_MINIFIED) !== serialize(updated, SORTED_MINIFIED)) {
+    failure = "Content check failed: the document differs once key order is ignored";
+  }
+  if (failure) return { data, report: report({ countBefore, countAfter, error: failure }) };
+
+  // Paths never change when only key order does
+  const format = params.format ?? DEFAULT_SERIALIZE_OPTIONS;
+  const before = serializeWithLines(data, format).lines;
+  const after = serializeWithLines(updated, format).lines;
+  for (const { segments, result } of changed) fillLines(result.movementLog, segments, segments, before, after);
+  const containers = changed.map((c) => c.result);
   return {
-    data: newData,
-    report: {
-      containerPath, sortKey, direction,
-      countBefore, countAfter,
+    data: updated,
+    report: report({
+      countBefore,
+      countAfter,
       integrityPassed: true,
-      movementLog,
-      durationMs: Date.now() - start,
-    },
+      movementLog: ([] as MovementEntry[]).concat(...containers.map((c) => c.movementLog)),
+      containers,
+    }),
   };
 }
+
+/** oldIndex → newIndex for one container */
+function newIndexTable(movementLog: MovementEntry[]): number[] {
+  const table: number[] = new Array(movementLog.length);
+  movementLog.forEach((e) => (table[e.oldIndex] = e.newIndex));
+  return table;
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect } from "vitest";
+import { StreamingJsonParser, parseBytes, graftSubtree, INVALID_UTF8 } from "./streamParser";
+import type { JsonObject } from "./fileLoader";
+
+const encode = (s: string) => new TextEncoder().encode(s);
+
+function parseInChunks(text: string, size: number, options = {}) {
+  const bytes = encode(text);
+  const parser = new StreamingJsonParser(options);
+  for (let i = 0; i < bytes.length; i += size) parser.push(bytes.subarray(i, i + size));
+  return parser.end();
+}
+
+const sample = JSON.stringify(
+  {
+    name: "Fruit ✓",
+    view: {
+      classes: [
+        { name: "apple", attributes: [{ viewname: "b", n: -1.5e3 }, { viewname: "a", ok: true }] },
+        { name: "pear", attributes: [], note: "line\nbreak \"quoted\"" },
+      ],
+    },
+    empty: {},
+    nothing: null,
+  },
+  null,
+  2
+);
+
+describe("StreamingJsonParser", () => {
+  it("produces the same value as JSON.parse", () => {
+    expect(parseBytes(encode(sample)).data).toEqual(JSON.parse(sample));
+  });
+
+  it("handles tokens split across every possible chunk boundary", () => {
+    for (const size of [1, 2, 3, 7, 64]) {
+      const { data, error } = parseInChunks(sample, size);
+      expect(error).toBeUndefined();
+      expect(data).toEqual(JSON.parse(sample));
+    }
+  });
+
+  it("parses top-level scalars", () => {
+    expect(parseInChunks("  42 ", 1).data).toBe(42);
+    expect(parseInChunks('"x"', 1).data).toBe("x");
+    expect(parseInChunks("false", 2).data).toBe(false);
+  });
+
+  it("skips a UTF-8 byte order mark", () => {
+    const bytes = new Uint8Array([0xef, 0xbb, 0xbf, ...Array.from(encode('{"a":1}'))]);
+    expect(parseBytes(bytes).data).toEqual({ a: 1 });
+  });
+
+  it("builds a lineMap with the source line of every node", () => {
+    const { lineMap } = parseBytes(encode(sample));
+    const lines = sample.split("\n");
+    expect(lineMap.get("view")).toBe(3);
+    expect(lines[lineMap.get("view.classes.0.attributes.1")! - 1]).toContain("{");
+    expect(lines[lineMap.get("view.classes.1.note")! - 1]).toContain('"note"');
+  });
+
+  it("reports byte offsets and lines for errors", () => {
+    const { data, error } = parseInChunks('{\n  "a": 1\n  "b": 2\n}', 3);
+    expect(data).toBeUndefined();
+    expect(error).toMatchObject({ line: 3, column: 3, offset: 13, expected: "',' or '}'", found: "'\"'" });
+  });
+
+  it("reports truncated input", () => {
+    expect(parseInChunks('{"a": [1, 2', 4).error?.found).toBe("end of input");
+    expect(parseInChunks('{"a": "open', 4).error?.expected).toBe("closing '\"'");
+  });
+
+  it("rejects invalid numbers, literals and trailing commas", () => {
+    expect(parseBytes(encode("[01]")).error).toBeDefined();
+    expect(parseBytes(encode("[nul]")).error).toBeDefined();
+    expect(parseBytes(encode("[1,]")).error?.expected).toBe("a value");
+    expect(parseBytes(encode('{"a":1,}')).error?.expected).toBe("a string key");
+  });
+
+  it("tracks bytes read for progress reporting", () => {
+    const parser = new StreamingJsonParser();
+    parser.push(encode('{"a":'));
+    expect(parser.bytesRead).toBe(5);
+    parser.push(encode(" 1}"));
+    expect(parser.end().bytesRead).toBe(8);
+  });
+});
+
+describe("index mode", () => {
+  it("skips containers below materializeDepth and records their byte ranges", () => {
+    const bytes = encode(sample);
+    const { data, lazyNodes, lineMap } = parseBytes(bytes, { materializeDepth: 2 });
+    expect((data as any).view.classes).toEqual([{}, {}]);
+    expect(lazyNodes.map((n) => n.path)).toEqual(["view.classes.0", "view.classes.1"]);
+    expect(lazyNodes[0].childCount).toBe(2);
+    expect(lazyNodes[1].childCount).toBe(3);
+    expect(lineMap.has("view.classes.0.name")).toBe(false);
+
+    // A lazy node's byte range is a standalone document
+    const slice = bytes.subarray(lazyNodes[0].start, lazyNodes[0].end);
+    expect(JSON.parse(new TextDecoder().decode(slice))).toEqual(JSON.parse(sample).view.classes[0]);
+  });
+
+  it("materialises a lazy node with absolute paths and lines", () => {
+    const bytes = encode(sample);
+    const { lazyNodes } = parseBytes(bytes, { materializeDepth: 2 });
+    const node = lazyNodes[0];
+    const sub = parseBytes(bytes.subarray(node.start, node.end), {
+      basePath: node.path,
+      baseOffset: node.start,
+      baseLine: node.line,
+    });
+    const full = parseBytes(bytes);
+    expect(sub.data).toEqual(JSON.parse(sample).view.classes[0]);
+    expect(sub.lineMap.get("view.classes.0.attributes.1")).toBe(full.lineMap.get("view.classes.0.attributes.1"));
+  });
+});
+
+describe("graftSubtree", () => {
+  it("replaces the node at a path and shares untouched siblings", () => {
+    const root: JsonObject = { a: { list: [{ x: 1 }, {}] }, b: { untouched: true } };
+    const list = (root.a as JsonObject).list as JsonObject[];
+    const next = graftSubtree(root, "a.list.1", { y: 2 }) as any;
+    expect(next.a.list[1]).toEqual({ y: 2 });
+    expect(next.b).toBe(root.b);
+    expect(next.a.list[0]).toBe(list[0]);
+    expect(list[1]).toEqual({});
+  });
+});
+
+describe("lossless numbers and duplicate keys", () => {
+  it("keeps big numbers split across chunks", () => {
+    const parser = new StreamingJsonParser({ lossless: true });
+    parser.push(encode('{"id": 90071992'));
+    parser.push(encode("54740993}"));
+    expect(parser.end().data).toEqual({ id: { isLosslessNumber: true, value: "9007199254740993" } });
+  });
+
+  it("applies the duplicate key policy and reports the key position", () => {
+    const text = '{"a": 1,\n  "a": {"b": 2}}';
+    const last = parseBytes(encode(text));
+    expect(last.data).toEqual({ a: { b: 2 } });
+    expect(last.duplicates).toEqual([{ path: "a", key: "a", line: 2, column: 3 }]);
+
+    const first = parseBytes(encode(text), { duplicateKeys: "keep-first" });
+    expect(first.data).toEqual({ a: 1 });
+    expect(first.lineMap.get("a")).toBe(1);
+    expect(first.lineMap.has("a.b")).toBe(false);
+
+    const renamed = parseBytes(encode(text), { duplicateKeys: "rename" });
+    expect(renamed.data).toEqual({ a: 1, "a~2": { b: 2 } });
+    expect(renamed.lineMap.get("a~2.b")).toBe(2);
+  });
+});
+
+describe("encoding errors", () => {
+  it("fails on bytes that are not UTF-8 so the loader can retry as windows-1252", () => {
+    const { error } = parseBytes(new Uint8Array([0x5b, 0x22, 0x93, 0x22, 0x5d]));
+    expect(error?.expected).toBe(INVALID_UTF8);
+  });
+});
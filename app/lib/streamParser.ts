@@ -0,0 +1,466 @@
+import type { JsonValue, JsonObject, JsonArray } from "./fileLoader";
+import { childPath, duplicateKeyName, type DuplicateKey, type DuplicateKeyPolicy, type ParseErrorInfo } from "./jsonParser";
+import { parseNumberLiteral } from "./losslessNumber";
+import { setIn } from "./pathCopy";
+
+export type ContainerKind = "object" | "array";
+
+/** A container skipped in index mode; materialise it later from its byte range */
+export interface LazyNode {
+  path: string;
+  kind: ContainerKind;
+  /** Byte offset of the opening bracket */
+  start: number;
+  /** Byte offset just past the closing bracket */
+  end: number;
+  line: number;
+  childCount: number;
+}
+
+export interface StreamParserOptions {
+  /** Containers deeper than this are not built and are recorded as LazyNodes (root = 0) */
+  materializeDepth?: number;
+  /** Position of the first byte — set these when parsing a slice of a larger file */
+  basePath?: string;
+  baseOffset?: number;
+  baseLine?: number;
+  /** Keep number literals a double would round as LosslessNumber */
+  lossless?: boolean;
+  duplicateKeys?: DuplicateKeyPolicy;
+}
+
+export interface StreamParseResult {
+  data?: JsonValue;
+  /** Dot path → 1-based source line of every materialised node */
+  lineMap: Map<string, number>;
+  lazyNodes: LazyNode[];
+  /** Repeated keys in materialised objects, in source order */
+  duplicates: DuplicateKey[];
+  bytesRead: number;
+  error?: ParseErrorInfo;
+}
+
+interface Frame {
+  kind: ContainerKind;
+  path: string;
+  depth: number;
+  /** null while skipping a lazy subtree */
+  value: JsonObject | JsonArray | null;
+  lazy: LazyNode | null;
+  count: number;
+  expect: "key" | "colon" | "value" | "comma";
+  afterComma: boolean;
+  key: string;
+  /** keep-first: the value for the current key is a duplicate and is not stored */
+  discard: boolean;
+}
+
+interface Token {
+  kind: "string" | "number" | "literal";
+  start: number;
+  line: number;
+  path: string;
+  forKey: boolean;
+  parts: Uint8Array[];
+  escapeNext: boolean;
+  hasEscape: boolean;
+}
+
+/** `expected` of the error raised for bytes that are not UTF-8 — the loader retries as windows-1252 */
+export const INVALID_UTF8 = "valid UTF-8";
+
+const NUMBER_RE = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+const LITERALS: Record<string, JsonValue> = { true: true, false: false, null: null };
+
+function isNumberByte(b: number): boolean {
+  return (b >= 0x30 && b <= 0x39) || b === 0x2d || b === 0x2b || b === 0x2e || b === 0x65 || b === 0x45;
+}
+
+function isLetterByte(b: number): boolean {
+  return b >= 0x61 && b <= 0x7a;
+}
+
+function concatParts(parts: Uint8Array[]): Uint8Array {
+  if (parts.length === 1) return parts[0];
+  let total = 0;
+  for (const p of parts) total += p.length;
+  const out = new Uint8Array(total);
+  let at = 0;
+  for (const p of parts) {
+    out.set(p, at);
+    at += p.length;
+  }
+  return out;
+}
+
+/**
+ * Incremental UTF-8 JSON parser. Feed it byte chunks as they are read; it keeps
+ * only the parse stack between chunks, records the source line of every node
+ * and, past `materializeDepth`, skips subtrees while remembering their byte
+ * ranges so they can be parsed on demand.
+ */
+export class StreamingJsonParser {
+  private readonly materializeDepth: number;
+  private readonly lossless: boolean;
+  private readonly duplicatePolicy: DuplicateKeyPolicy;
+  private readonly basePath: string;
+  // Fatal, so a windows-1252 file fails fast instead of filling with U+FFFD
+  private readonly decoder = new TextDecoder("utf-8", { fatal: true });
+  private chunkBase: number;
+  private line: number;
+  private lineStart: number;
+  private stack: Frame[] = [];
+  private token: Token | null = null;
+  private root: JsonValue | undefined = undefined;
+  private rootDone = false;
+  private error: ParseErrorInfo | undefined;
+  private atStart = true;
+  private readonly lineMap = new Map<string, number>();
+  private readonly lazyNodes: LazyNode[] = [];
+  private readonly duplicates: DuplicateKey[] = [];
+
+  constructor(options: StreamParserOptions = {}) {
+    this.materializeDepth = options.materializeDepth ?? Infinity;
+    this.lossless = options.lossless ?? false;
+    this.duplicatePolicy = options.duplicateKeys ?? "keep-last";
+    this.basePath = options.basePath ?? "";
+    this.chunkBase = options.baseOffset ?? 0;
+    this.lineStart = this.chunkBase;
+    this.line = options.baseLine ?? 1;
+  }
+
+  get bytesRead(): number {
+    return this.chunkBase;
+  }
+
+  get failed(): boolean {
+    return this.error !== undefined;
+  }
+
+  push(chunk: Uint8Array): void {
+    if (this.error) return;
+    let i = 0;
+    // Skip a UTF-8 byte order mark at the very start of the input
+    if (this.atStart && chunk.length > 0) {
+      this.atStart = false;
+      if (chunk[0] === 0xef && chunk[1] === 0xbb && chunk[2] === 0xbf) i = 3;
+    }
+    const n = chunk.length;
+    while (i < n) {
+      if (this.token) {
+        i = this.continueToken(chunk, i);
+        if (this.error) return;
+        continue;
+      }
+      const b = chunk[i];
+      if (b === 0x20 || b === 0x09 || b === 0x0d) {
+        i++;
+        continue;
+      }
+      if (b === 0x0a) {
+        this.line++;
+        this.lineStart = this.chunkBase + i + 1;
+        i++;
+        continue;
+      }
+      const consumed = this.structural(b, this.chunkBase + i);
+      if (consumed < 0) return;
+      i += consumed;
+    }
+    this.chunkBase += n;
+  }
+
+  end(): StreamParseResult {
+    if (!this.error) {
+      const eof = this.chunkBase;
+      if (this.token) {
+        if (this.token.kind === "string") this.fail("closing '\"'", eof);
+        else this.finishToken();
+      }
+    }
+    if (!this.error) {
+      const top = this.stack[this.stack.length - 1];
+      if (top) this.fail(this.expectation(top), this.chunkBase);
+      else if (!this.rootDone) this.fail("a value", this.chunkBase);
+    }
+    return {
+      data: this.error ? undefined : this.root,
+      lineMap: this.lineMap,
+      lazyNodes: this.lazyNodes,
+      duplicates: this.duplicates,
+      bytesRead: this.chunkBase,
+      error: this.error,
+    };
+  }
+
+  private fail(expected: string, offset: number, found?: string): number {
+    const line = this.line;
+    const column = offset - this.lineStart + 1;
+    const what = found ?? "end of input";
+    this.error = {
+      message: `Expected ${expected} but found ${what} at line ${line}, column ${column}`,
+      line,
+      column,
+      offset,
+      expected,
+      found: what,
+    };
+    return -1;
+  }
+
+  private expectation(top: Frame): string {
+    if (top.kind === "object") {
+      if (top.expect === "key") return top.afterComma || top.count === 0 ? "a string key" : "',' or '}'";
+      if (top.expect === "colon") return "':'";
+      if (top.expect === "value") return "a value";
+      return "',' or '}'";
+    }
+    return top.expect === "value" ? "a value" : "',' or ']'";
+  }
+
+  /** Handle one byte outside of a token; returns bytes consumed or -1 on error */
+  private structural(b: number, pos: number): number {
+    const found = `'${String.fromCharCode(b)}'`;
+    const top = this.stack[this.stack.length - 1];
+    if (!top) {
+      if (this.rootDone) return this.fail("end of input", pos, found);
+      return this.startValue(b, pos, this.basePath, 0);
+    }
+    if (top.kind === "object") {
+      switch (top.expect) {
+        case "key":
+          if (b === 0x22) {
+            this.token = this.newToken("string", pos, top.path, true);
+            return 1;
+          }
+          if (b === 0x7d && !top.afterComma) return this.closeContainer(pos);
+          return this.fail(top.afterComma ? "a string key" : "a string key or '}'", pos, found);
+        case "colon":
+          if (b === 0x3a) {
+            top.expect = "value";
+            return 1;
+          }
+          return this.fail("':'", pos, found);
+        case "value":
+          return this.startValue(b, pos, childPath(top.path, top.key), top.depth + 1);
+        case "comma":
+          if (b === 0x2c) {
+            top.expect = "key";
+            top.afterComma = true;
+            return 1;
+          }
+          if (b === 0x7d) return this.closeContainer(pos);
+          return this.fail("',' or '}'", pos, found);
+      }
+    }
+    if (top.expect === "value") {
+      if (b === 0x5d && !top.afterComma) return this.closeContainer(pos);
+      return this.startValue(b, pos, childPath(top.path, top.count), top.depth + 1);
+    }
+    if (b === 0x2c) {
+      top.expect = "value";
+      top.afterComma = true;
+      return 1;
+    }
+    if (b === 0x5d) return this.closeContainer(pos);
+    return this.fail("',' or ']'", pos, found);
+  }
+
+  private newToken(kind: Token["kind"], start: number, path: string, forKey: boolean): Token {
+    return { kind, start, line: this.line, path, forKey, parts: [], escapeNext: false, hasEscape: false };
+  }
+
+  /** True when the value being started belongs to a container that is being built */
+  private parentBuilding(): boolean {
+    const top = this.stack[this.stack.length - 1];
+    return !top || (top.value !== null && !top.discard);
+  }
+
+  private startValue(b: number, pos: number, path: string, depth: number): number {
+    const building = this.parentBuilding();
+    if (b === 0x7b || b === 0x5b) {
+      const kind: ContainerKind = b === 0x7b ? "object" : "array";
+      let value: JsonObject | JsonArray | null = null;
+      let lazy: LazyNode | null = null;
+      if (building) {
+        if (path !== "") this.lineMap.set(path, this.line);
+        if (depth > this.materializeDepth) {
+          lazy = { path, kind, start: pos, end: pos, line: this.line, childCount: 0 };
+        } else {
+          value = kind === "object" ? {} : [];
+        }
+      }
+      this.stack.push({ kind, path, depth, value, lazy, count: 0, expect: kind === "object" ? "key" : "value", afterComma: false, key: "", discard: false });
+      return 1;
+    }
+    if (building && path !== "") this.lineMap.set(path, this.line);
+    if (b === 0x22) {
+      this.token = this.newToken("string", pos, path, false);
+      return 1;
+    }
+    if (b === 0x2d || (b >= 0x30 && b <= 0x39)) {
+      this.token = this.newToken("number", pos, path, false);
+      return 0;
+    }
+    if (b === 0x74 || b === 0x66 || b === 0x6e) {
+      this.token = this.newToken("literal", pos, path, false);
+      return 0;
+    }
+    return this.fail("a value", pos, `'${String.fromCharCode(b)}'`);
+  }
+
+  private closeContainer(pos: number): number {
+    const frame = this.stack.pop()!;
+    let value: JsonValue | null = frame.value;
+    if (frame.lazy) {
+      frame.lazy.end = pos + 1;
+      frame.lazy.childCount = frame.count;
+      this.lazyNodes.push(frame.lazy);
+      // Empty placeholder of the right kind; the editor shows it as not loaded
+      value = frame.kind === "object" ? {} : [];
+    }
+    this.completeValue(value);
+    return 1;
+  }
+
+  private completeValue(value: JsonValue): void {
+    const parent = this.stack[this.stack.length - 1];
+    if (!parent) {
+      this.root = value;
+      this.rootDone = true;
+      return;
+    }
+    if (parent.value !== null && !parent.discard) {
+      if (Array.isArray(parent.value)) {
+        parent.value.push(value);
+      } else if (parent.key === "__proto__") {
+        Object.defineProperty(parent.value, parent.key, { value, enumerable: true, writable: true, configurable: true });
+      } else {
+        parent.value[parent.key] = value;
+      }
+    }
+    parent.count++;
+    parent.discard = false;
+    parent.expect = "comma";
+    parent.afterComma = false;
+  }
+
+  /** Continue the current scalar token; returns the new chunk index */
+  private continueToken(chunk: Uint8Array, i: number): number {
+    const token = this.token!;
+    const n = chunk.length;
+    if (token.kind === "string") {
+      let j = i;
+      while (j < n) {
+        const b = chunk[j];
+        if (token.escapeNext) {
+          token.escapeNext = false;
+        } else if (b === 0x5c) {
+          token.escapeNext = true;
+          token.hasEscape = true;
+        } else if (b === 0x22) {
+          break;
+        }
+        j++;
+      }
+      if (j > i) token.parts.push(chunk.slice(i, j));
+      if (j === n) return n;
+      this.finishToken();
+      return j + 1;
+    }
+    const accept = token.kind === "number" ? isNumberByte : isLetterByte;
+    let j = i;
+    while (j < n && accept(chunk[j])) j++;
+    if (j > i) token.parts.push(chunk.slice(i, j));
+    if (j === n) return n;
+    this.finishToken();
+    return j;
+  }
+
+  /** Apply the duplicate-key policy to a key about to be added to `frame`; returns the key to store under */
+  private checkDuplicate(frame: Frame, key: string, token: Token): string {
+    const obj = frame.value as JsonObject;
+    if (!Object.prototype.hasOwnProperty.call(obj, key)) return key;
+    const duplicate: DuplicateKey = {
+      path: childPath(frame.path, key),
+      key,
+      line: token.line,
+      column: token.start - this.lineStart + 1,
+    };
+    this.duplicates.push(duplicate);
+    if (this.duplicatePolicy === "rename") return (duplicate.renamedTo = duplicateKeyName(obj, key));
+    if (this.duplicatePolicy === "keep-first") frame.discard = true;
+    return key;
+  }
+
+  private finishToken(): void {
+    const token = this.token!;
+    this.token = null;
+    const raw = concatParts(token.parts);
+    const top = this.stack[this.stack.length - 1];
+
+    if (token.kind === "string") {
+      for (let k = 0; k < raw.length; k++) {
+        if (raw[k] < 0x20) {
+          this.fail("closing '\"'", token.start + 1 + k, `control character U+${raw[k].toString(16).toUpperCase().padStart(4, "0")}`);
+          return;
+        }
+      }
+      const needed = token.forKey ? top.value !== null : this.parentBuilding();
+      let text = "";
+      if (needed) {
+        try {
+          text = this.decoder.decode(raw);
+        } catch {
+          this.fail(INVALID_UTF8, token.start, "invalid byte sequence");
+          return;
+        }
+        if (token.hasEscape) {
+          try {
+            text = JSON.parse(`"${text}"`);
+          } catch {
+            this.fail("valid escape sequence", token.start, "invalid escape");
+            return;
+          }
+        }
+      }
+      if (token.forKey) {
+        top.key = needed ? this.checkDuplicate(top, text, token) : text;
+        top.expect = "colon";
+      } else {
+        this.completeValue(text);
+      }
+      return;
+    }
+
+    const text = this.decoder.decode(raw);
+    if (token.kind === "number") {
+      if (!NUMBER_RE.test(text)) {
+        this.fail("valid number", token.start, `'${text}'`);
+        return;
+      }
+      this.completeValue(parseNumberLiteral(text, this.lossless));
+      return;
+    }
+    if (!(text in LITERALS)) {
+      this.fail("a value", token.start, `'${text}'`);
+      return;
+    }
+    this.completeValue(LITERALS[text]);
+  }
+}
+
+/** Parse a complete buffer in one go — convenience for slices and tests */
+export function parseBytes(bytes: Uint8Array, options: StreamParserOptions = {}): StreamParseResult {
+  const parser = new StreamingJsonParser(options);
+  parser.push(bytes);
+  return parser.end();
+}
+
+/**
+ * Return a copy of `root` with the node at `path` replaced by `subtree`.
+ * Only the ancestors of `path` are copied; everything else is shared.
+ */
+export function graftSubtree(root: JsonValue, path: string, subtree: JsonValue): JsonValue {
+  return setIn(root, path === "" ? [] : path.split("."), subtree);
+}
@@ -1,4 +1,5 @@
 import type { JsonValue, JsonObject, JsonArray } from "./fileLoader";
+import { isLosslessNumber } from "./losslessNumber";
 
 export interface ContainerInfo {
   path: string;
@@ -12,7 +13,7 @@ export interface ScanResult {
 }
 
 function isObject(v: JsonValue): v is JsonObject {
-  return v !== null && typeof v === "object" && !Array.isArray(v);
+  return v !== null && typeof v === "object" && !Array.isArray(v) && !isLosslessNumber(v);
 }
 
 function isArray(v: JsonValue): v is JsonArray {
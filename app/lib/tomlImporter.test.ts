@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { importToml } from "./tomlImporter";
+import { losslessNumber } from "./losslessNumber";
+
+describe("importToml", () => {
+  it("reads tables, dotted keys and arrays of tables", () => {
+    const { data, error } = importToml(`
+title = "demo" # comment
+site.owner = "ann"
+
+[server]
+host = 'localhost'
+ports = [ 8000, 8001,
+  8002, ]
+
+[server.limits]
+max = 10
+
+[[items]]
+name = "a"
+
+[[items]]
+name = "b"
+tags = { color = "red", size.w = 2 }
+`);
+    expect(error).toBeUndefined();
+    expect(data).toEqual({
+      title: "demo",
+      site: { owner: "ann" },
+      server: { host: "localhost", ports: [8000, 8001, 8002], limits: { max: 10 } },
+      items: [{ name: "a" }, { name: "b", tags: { color: "red", size: { w: 2 } } }],
+    });
+  });
+
+  it("reads every string form", () => {
+    const { data } = importToml(
+      [
+        'a = "tab\\there \\u00e9"',
+        "b = 'C:\\raw'",
+        'c = """',
+        "one",
+        'two \\',
+        '   three"""',
+        "d = '''",
+        "keep \\n as is'''",
+      ].join("\n")
+    );
+    expect(data).toEqual({ a: "tab\there é", b: "C:\\raw", c: "one\ntwo three", d: "keep \\n as is" });
+  });
+
+  it("converts numbers, keeping 64-bit integers exact", () => {
+    const { data } = importToml("a = 1_000\nb = 0xff\nc = 0o17\nd = 0b101\ne = +6.02e23\nf = 9223372036854775807\ng = -0.5");
+    expect(data).toEqual({ a: 1000, b: 255, c: 15, d: 5, e: 6.02e23, f: losslessNumber("9223372036854775807"), g: -0.5 });
+  });
+
+  it("notes datetimes and special floats", () => {
+    const { data, notes } = importToml("when = 1979-05-27 07:32:00Z\nday = 1979-05-27\nbig = inf\n");
+    expect(data).toEqual({ when: "1979-05-27 07:32:00Z", day: "1979-05-27", big: null });
+    expect(notes.map((n) => [n.kind, n.line])).toEqual([
+      ["datetime", 1],
+      ["datetime", 2],
+      ["special-float", 3],
+    ]);
+  });
+
+  it("rejects duplicate keys and redefined tables", () => {
+    expect(importToml("a = 1\na = 2").error).toBe('Line 2: Duplicate key "a"');
+    expect(importToml("[t]\nx = 1\n[t]\ny = 2").error).toBe("Line 3: Table [t] is defined twice");
+    expect(importToml("[a.b]\nx = 1\n[a]\ny = 2").data).toEqual({ a: { b: { x: 1 }, y: 2 } });
+    expect(importToml("t = { x = 1 }\n[t]").errorLine).toBe(2);
+  });
+
+  it("reports syntax errors with a line", () => {
+    const result = importToml('ok = 1\nbad = "open\n');
+    expect(result.error).toBe("Line 2: Unterminated string");
+    expect(result.data).toBeUndefined();
+  });
+});
@@ -0,0 +1,388 @@
+import type { JsonArray, JsonObject, JsonValue } from "./fileLoader";
+import { failedImport, ImportFailure, type ConversionNote, type ImportResult } from "./importers";
+import { offsetToLineColumn } from "./jsonParser";
+import { isLosslessNumber, parseNumberLiteral } from "./losslessNumber";
+
+const BARE_KEY = /[A-Za-z0-9_-]/;
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}([Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})?)?$/;
+const LOCAL_TIME = /^\d{2}:\d{2}:\d{2}(\.\d+)?$/;
+const DECIMAL_INT = /^[+-]?(0|[1-9](_?\d)*)$/;
+const FLOAT = /^[+-]?(0|[1-9](_?\d)*)(\.\d(_?\d)*)?([eE][+-]?\d(_?\d)*)?$/;
+const RADIX_INT: Record<string, RegExp> = {
+  x: /^0x[0-9A-Fa-f](_?[0-9A-Fa-f])*$/,
+  o: /^0o[0-7](_?[0-7])*$/,
+  b: /^0b[01](_?[01])*$/,
+};
+const ESCAPES: Record<string, string> = { b: "\b", t: "\t", n: "\n", f: "\f", r: "\r", '"': '"', "\\": "\\" };
+
+function isTable(v: JsonValue | undefined): v is JsonObject {
+  return v !== null && typeof v === "object" && !Array.isArray(v) && !isLosslessNumber(v);
+}
+
+/** Cursor over the TOML source; tables are tracked so redefinitions can be rejected */
+class TomlReader {
+  pos = 0;
+  readonly notes: ConversionNote[] = [];
+  readonly root: JsonObject = {};
+  /** Tables opened by a [header] or dotted keys, which a later [header] may not reopen */
+  private readonly defined = new Set<JsonObject>();
+  /** Inline tables and static arrays are closed once written */
+  private readonly sealed = new Set<JsonValue>();
+  /** Arrays built by [[header]], which later [[header]]s append to */
+  private readonly tableArrays = new Set<JsonArray>();
+
+  constructor(private readonly text: string) {}
+
+  lineAt(pos = this.pos): number {
+    return offsetToLineColumn(this.text, pos).line;
+  }
+
+  fail(message: string, pos = this.pos): never {
+    throw new ImportFailure(this.lineAt(pos), message);
+  }
+
+  note(kind: string, message: string, pos: number) {
+    this.notes.push({ kind, message, line: this.lineAt(pos) });
+  }
+
+  peek(offset = 0): string {
+    return this.text[this.pos + offset] ?? "";
+  }
+
+  startsWith(s: string): boolean {
+    return this.text.startsWith(s, this.pos);
+  }
+
+  skipSpaces() {
+    while (this.peek() === " " || this.peek() === "\t") this.pos++;
+  }
+
+  skipComment() {
+    if (this.peek() !== "#") return;
+    while (this.pos < this.text.length && this.peek() !== "\n") this.pos++;
+  }
+
+  /** Spaces, comments and newlines, as allowed inside arrays */
+  skipBlank() {
+    for (;;) {
+      this.skipSpaces();
+      this.skipComment();
+      if (this.peek() === "\n") this.pos++;
+      else if (this.startsWith("\r\n")) this.pos += 2;
+      else return;
+    }
+  }
+
+  endOfLine() {
+    this.skipSpaces();
+    this.skipComment();
+    if (this.pos >= this.text.length) return;
+    if (this.peek() === "\n") this.pos++;
+    else if (this.startsWith("\r\n")) this.pos += 2;
+    else this.fail(`Unexpected "${this.peek()}" after value`);
+  }
+
+  parseDocument(): JsonObject {
+    if (this.text.charCodeAt(0) === 0xfeff) this.pos = 1;
+    let table = this.root;
+    for (;;) {
+      this.skipBlank();
+      if (this.pos >= this.text.length) return this.root;
+      if (this.startsWith("[[")) {
+        table = this.openArrayTable();
+      } else if (this.peek() === "[") {
+        table = this.openTable();
+      } else {
+        this.parseKeyValue(table);
+      }
+      this.endOfLine();
+    }
+  }
+
+  parseKey(): string[] {
+    const parts: string[] = [];
+    for (;;) {
+      this.skipSpaces();
+      const ch = this.peek();
+      if (ch === '"') parts.push(this.parseBasicString());
+      else if (ch === "'") parts.push(this.parseLiteralString());
+      else {
+        const start = this.pos;
+        while (BARE_KEY.test(this.peek())) this.pos++;
+        if (start === this.pos) this.fail(ch ? `Unexpected "${ch}" in key` : "Expected a key");
+        parts.push(this.text.slice(start, this.pos));
+      }
+      this.skipSpaces();
+      if (this.peek() !== ".") return parts;
+      this.pos++;
+    }
+  }
+
+  /** Walk dotted key parts below `from`, creating tables on the way */
+  descend(from: JsonObject, parts: string[], at: number, viaHeader: boolean): JsonObject {
+    let table = from;
+    for (const part of parts) {
+      let next = Object.prototype.hasOwnProperty.call(table, part) ? table[part] : undefined;
+      if (next === undefined) {
+        next = {};
+        table[part] = next;
+        if (!viaHeader) this.defined.add(next);
+      } else if (Array.isArray(next) && viaHeader && this.tableArrays.has(next)) {
+        next = next[next.length - 1];
+      }
+      if (!isTable(next) || this.sealed.has(next)) {
+        this.fail(`Key "${part}" is already defined as a value`, at);
+      }
+      table = next;
+    }
+    return table;
+  }
+
+  openTable(): JsonObject {
+    const at = this.pos;
+    this.pos++;
+    const parts = this.parseKey();
+    if (this.peek() !== "]") this.fail('Expected "]" to close the table header');
+    this.pos++;
+    const parent = this.descend(this.root, parts.slice(0, -1), at, true);
+    const last = parts[parts.length - 1];
+    const existing = Object.prototype.hasOwnProperty.call(parent, last) ? parent[last] : undefined;
+    if (existing !== undefined) {
+      if (!isTable(existing) || this.defined.has(existing) || this.sealed.has(existing)) {
+        this.fail(`Table [${parts.join(".")}] is defined twice`, at);
+      }
+      this.defined.add(existing);
+      return existing;
+    }
+    const table: JsonObject = {};
+    parent[last] = table;
+    this.defined.add(table);
+    return table;
+  }
+
+  openArrayTable(): JsonObject {
+    const at = this.pos;
+    this.pos += 2;
+    const parts = this.parseKey();
+    if (!this.startsWith("]]")) this.fail('Expected "]]" to close the array-of-tables header');
+    this.pos += 2;
+    const parent = this.descend(this.root, parts.slice(0, -1), at, true);
+    const last = parts[parts.length - 1];
+    const existing = Object.prototype.hasOwnProperty.call(parent, last) ? parent[last] : undefined;
+    const table: JsonObject = {};
+    if (existing === undefined) {
+      const list: JsonArray = [table];
+      parent[last] = list;
+      this.tableArrays.add(list);
+    } else if (Array.isArray(existing) && this.tableArrays.has(existing)) {
+      existing.push(table);
+    } else {
+      this.fail(`[[${parts.join(".")}]] conflicts with an existing value`, at);
+    }
+    return table;
+  }
+
+  parseKeyValue(table: JsonObject) {
+    const at = this.pos;
+    const parts = this.parseKey();
+    if (this.peek() !== "=") this.fail('Expected "=" after key');
+    this.pos++;
+    this.skipSpaces();
+    const target = this.descend(table, parts.slice(0, -1), at, false);
+    const last = parts[parts.length - 1];
+    if (Object.prototype.hasOwnProperty.call(target, last)) this.fail(`Duplicate key "${parts.join(".")}"`, at);
+    target[last] = this.parseValue();
+  }
+
+  parseValue(): JsonValue {
+    const ch = this.peek();
+    if (this.startsWith('"""')) return this.parseMultilineBasic();
+    if (this.startsWith("'''")) return this.parseMultilineLiteral();
+    if (ch === '"') return this.parseBasicString();
+    if (ch === "'") return this.parseLiteralString();
+    if (ch === "[") return this.parseArray();
+    if (ch === "{") return this.parseInlineTable();
+    return this.parseAtom();
+  }
+
+  readEscape(): string {
+    const at = this.pos;
+    const code = this.peek();
+    this.pos++;
+    if (ESCAPES[code] !== undefined) return ESCAPES[code];
+    const width = code === "u" ? 4 : code === "U" ? 8 : 0;
+    const hex = this.text.slice(this.pos, this.pos + width);
+    if (!width || !/^[0-9A-Fa-f]+$/.test(hex) || hex.length !== width) this.fail(`Invalid escape "\\${code}"`, at);
+    this.pos += width;
+    const point = parseInt(hex, 16);
+    if (point > 0x10ffff || (point >= 0xd800 && point <= 0xdfff)) this.fail(`Invalid code point U+${hex}`, at);
+    return String.fromCodePoint(point);
+  }
+
+  parseBasicString(): string {
+    const at = this.pos;
+    this.pos++;
+    let out = "";
+    for (;;) {
+      const ch = this.peek();
+      if (ch === "" || ch === "\n") this.fail("Unterminated string", at);
+      this.pos++;
+      if (ch === '"') return out;
+      out += ch === "\\" ? this.readEscape() : ch;
+    }
+  }
+
+  parseLiteralString(): string {
+    const at = this.pos;
+    const end = this.text.indexOf("'", this.pos + 1);
+    const newline = this.text.indexOf("\n", this.pos + 1);
+    if (end === -1 || (newline !== -1 && newline < end)) this.fail("Unterminated string", at);
+    const out = this.text.slice(this.pos + 1, end);
+    this.pos = end + 1;
+    return out;
+  }
+
+  /** A newline right after the opening delimiter is not part of the string */
+  skipOpeningNewline() {
+    if (this.peek() === "\n") this.pos++;
+    else if (this.startsWith("\r\n")) this.pos += 2;
+  }
+
+  parseMultilineBasic(): string {
+    const at = this.pos;
+    this.pos += 3;
+    this.skipOpeningNewline();
+    let out = "";
+    for (;;) {
+      if (this.pos >= this.text.length) this.fail("Unterminated multi-line string", at);
+      if (this.startsWith('"""')) {
+        // Up to two quotes may sit right before the closing delimiter
+        let extra = 0;
+        while (extra < 2 && this.text[this.pos + 3 + extra] === '"') extra++;
+        out += '"'.repeat(extra);
+        this.pos += 3 + extra;
+        return out;
+      }
+      const ch = this.peek();
+      this.pos++;
+      if (ch !== "\\") {
+        out += ch;
+        continue;
+      }
+      // A backslash at the end of a line trims the break and the next line's indentation
+      const rest = /^[ \t]*\r?\n/.exec(this.text.slice(this.pos, this.pos + 200));
+      if (rest) {
+        this.pos += rest[0].length;
+        while (/[ \t\r\n]/.test(this.peek())) this.pos++;
+      } else {
+        out += this.readEscape();
+      }
+    }
+  }
+
+  parseMultilineLiteral(): string {
+    const at = this.pos;
+    this.pos += 3;
+    this.skipOpeningNewline();
+    const end = this.text.indexOf("'''", this.pos);
+    if (end === -1) this.fail("Unterminated multi-line string", at);
+    let close = end;
+    while (close - end < 2 && this.text[close + 3] === "'") close++;
+    const out = this.text.slice(this.pos, close);
+    this.pos = close + 3;
+    return out;
+  }
+
+  parseArray(): JsonArray {
+    const at = this.pos;
+    this.pos++;
+    const out: JsonArray = [];
+    for (;;) {
+      this.skipBlank();
+      if (this.peek() === "]") break;
+      if (this.pos >= this.text.length) this.fail("Unterminated array", at);
+      out.push(this.parseValue());
+      this.skipBlank();
+      if (this.peek() === ",") this.pos++;
+      else if (this.peek() !== "]") this.fail('Expected "," or "]" in array');
+    }
+    this.pos++;
+    this.sealed.add(out);
+    return out;
+  }
+
+  parseInlineTable(): JsonObject {
+    this.pos++;
+    const out: JsonObject = {};
+    this.skipSpaces();
+    if (this.peek() === "}") {
+      this.pos++;
+      this.sealed.add(out);
+      return out;
+    }
+    for (;;) {
+      this.parseKeyValue(out);
+      this.skipSpaces();
+      if (this.peek() === ",") {
+        this.pos++;
+        this.skipSpaces();
+      } else if (this.peek() === "}") {
+        this.pos++;
+        break;
+      } else {
+        this.fail('Expected "," or "}" in inline table');
+      }
+    }
+    this.sealOpen(out);
+    return out;
+  }
+
+  /** Seal an inline table and the tables its dotted keys created */
+  sealOpen(table: JsonObject) {
+    this.sealed.add(table);
+    for (const value of Object.values(table)) {
+      if (isTable(value) && this.defined.has(value)) this.sealOpen(value);
+    }
+  }
+
+  parseAtom(): JsonValue {
+    const at = this.pos;
+    while (/[0-9A-Za-z_+\-.:]/.test(this.peek())) this.pos++;
+    let token = this.text.slice(at, this.pos);
+    // "1979-05-27 07:32:00": a space may separate date and time
+    if (/^\d{4}-\d{2}-\d{2}$/.test(token) && /^ \d{2}:/.test(this.text.slice(this.pos, this.pos + 4))) {
+      this.pos++;
+      while (/[0-9Zz+\-.:]/.test(this.peek())) this.pos++;
+      token = this.text.slice(at, this.pos);
+    }
+    if (token === "") this.fail(this.peek() ? `Unexpected "${this.peek()}"` : "Expected a value");
+    if (token === "true") return true;
+    if (token === "false") return false;
+    if (DATE_TIME.test(token) || LOCAL_TIME.test(token)) {
+      this.note("datetime", `Date/time ${token} became a string`, at);
+      return token;
+    }
+    if (/^[+-]?(inf|nan)$/.test(token)) {
+      this.note("special-float", `${token} has no JSON equivalent; became null`, at);
+      return null;
+    }
+    const radix = RADIX_INT[token[1]];
+    if (token[0] === "0" && radix && radix.test(token)) {
+      return parseNumberLiteral(BigInt(token.replace(/_/g, "")).toString(), true);
+    }
+    if (DECIMAL_INT.test(token) || FLOAT.test(token)) {
+      return parseNumberLiteral(token.replace(/_/g, "").replace(/^\+/, ""), true);
+    }
+    this.fail(`Invalid value "${token}"`, at);
+  }
+}
+
+/** TOML 1.0 to JSON: datetimes become strings and inf/nan become null, each with a note */
+export function importToml(text: string): ImportResult {
+  const reader = new TomlReader(text);
+  try {
+    return { data: reader.parseDocument(), notes: reader.notes };
+  } catch (err) {
+    return failedImport(err, reader.notes);
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { importXml } from "./xmlImporter";
+
+const inference = { detectNumbers: true, emptyAsNull: false };
+
+describe("importXml", () => {
+  it("maps elements, attributes, repeated children and text", () => {
+    const { data, notes } = importXml(
+      `<?xml version="1.0"?>
+<catalog>
+  <book id="b1" lang='en'>
+    <title>Dune &amp; more</title>
+    <price>9.99</price>
+  </book>
+  <book id="b2"><title><![CDATA[<raw>]]></title><note/></book>
+</catalog>`,
+      {},
+      inference
+    );
+    expect(data).toEqual({
+      catalog: {
+        book: [
+          { "@id": "b1", "@lang": "en", title: "Dune & more", price: 9.99 },
+          { "@id": "b2", title: "<raw>", note: "" },
+        ],
+      },
+    });
+    expect(notes.map((n) => n.kind)).toEqual(["attribute"]);
+  });
+
+  it("keeps text next to attributes under #text", () => {
+    const { data } = importXml('<p class="x">Hi &#233;</p>', { attributePrefix: "_" }, inference);
+    expect(data).toEqual({ p: { _class: "x", "#text": "Hi é" } });
+  });
+
+  it("notes mixed content, dropped comments and lists that are sometimes single", () => {
+    const { data, notes } = importXml(
+      "<r><!-- c --><a><i>1</i><i>2</i></a><a><i>3</i></a><m>x<b>y</b>z</m></r>",
+      {},
+      inference
+    );
+    expect(data).toEqual({ r: { a: [{ i: [1, 2] }, { i: 3 }], m: { "#text": "xz", b: "y" } } });
+    expect(notes.map((n) => n.kind).sort()).toEqual(["comment", "inconsistent-array", "mixed-content"]);
+  });
+
+  it("reports mismatched tags with their line", () => {
+    const result = importXml("<a>\n  <b></c>\n</a>", {}, inference);
+    expect(result.error).toBe("Line 2: </c> does not match <b>");
+    expect(result.errorLine).toBe(2);
+  });
+
+  it("rejects content after the root element", () => {
+    expect(importXml("<a/><b/>", {}, inference).error).toMatch(/Content after the root element/);
+  });
+});
@@ -0,0 +1,278 @@
+import type { JsonObject, JsonValue } from "./fileLoader";
+import { failedImport, ImportFailure, inferScalar, type ConversionNote, type ImportResult, type InferenceOptions } from "./importers";
+import { duplicateKeyName, offsetToLineColumn } from "./jsonParser";
+
+export interface XmlOptions {
+  /** Prefix for keys made from attributes */
+  attributePrefix: string;
+  /** Key for an element's text when it also has attributes or children */
+  textKey: string;
+}
+
+export const DEFAULT_XML_OPTIONS: XmlOptions = { attributePrefix: "@", textKey: "#text" };
+
+const NAME_START = /[A-Za-z_:]/;
+const NAME_CHAR = /[-A-Za-z0-9_:.]/;
+const ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" };
+
+interface Element {
+  name: string;
+  attributes: [string, string][];
+  children: [string, JsonValue][];
+  text: string;
+  /** Text next to child elements, so their relative order is lost */
+  mixed: boolean;
+}
+
+class XmlReader {
+  pos = 0;
+  readonly notes: ConversionNote[] = [];
+  /** Kinds of note already given, for notes reported once per tag or per document */
+  private readonly noted = new Set<string>();
+  /** Per parent.child tag path: whether it was seen once or repeated under one parent */
+  private readonly shapes = new Map<string, { single: boolean; repeated: boolean; line: number }>();
+
+  constructor(
+    private readonly text: string,
+    private readonly options: XmlOptions,
+    private readonly inference: InferenceOptions
+  ) {}
+
+  lineAt(pos = this.pos): number {
+    return offsetToLineColumn(this.text, pos).line;
+  }
+
+  fail(message: string, pos = this.pos): never {
+    throw new ImportFailure(this.lineAt(pos), message);
+  }
+
+  noteOnce(id: string, kind: string, message: string, pos: number) {
+    if (this.noted.has(id)) return;
+    this.noted.add(id);
+    this.notes.push({ kind, message, line: this.lineAt(pos) });
+  }
+
+  startsWith(s: string): boolean {
+    return this.text.startsWith(s, this.pos);
+  }
+
+  skipTo(end: string, what: string) {
+    const at = this.pos;
+    const i = this.text.indexOf(end, this.pos);
+    if (i === -1) this.fail(`Unterminated ${what}`, at);
+    this.pos = i + end.length;
+  }
+
+  skipWhitespace() {
+    while (/\s/.test(this.text[this.pos] ?? "")) this.pos++;
+  }
+
+  readName(): string {
+    const start = this.pos;
+    if (!NAME_START.test(this.text[this.pos] ?? "")) this.fail("Expected a tag or attribute name");
+    while (NAME_CHAR.test(this.text[this.pos] ?? "")) this.pos++;
+    return this.text.slice(start, this.pos);
+  }
+
+  decodeEntities(raw: string, at: number): string {
+    return raw.replace(/&(#x[0-9A-Fa-f]+|#\d+|[A-Za-z][A-Za-z0-9]*);/g, (whole, ref: string) => {
+      if (ref[0] === "#") {
+        const code = ref[1] === "x" ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+        return code <= 0x10ffff ? String.fromCodePoint(code) : whole;
+      }
+      if (ENTITIES[ref] !== undefined) return ENTITIES[ref];
+      this.noteOnce(`entity:${ref}`, "entity", `Entity &${ref}; is not defined here and was kept as text`, at);
+      return whole;
+    });
+  }
+
+  /** Comments, processing instructions and the DOCTYPE — none of which JSON can hold */
+  skipMisc(): boolean {
+    const at = this.pos;
+    if (this.startsWith("<!--")) {
+      this.skipTo("-->", "comment");
+      this.noteOnce("comment", "comment", "XML comments were dropped", at);
+    } else if (this.startsWith("<?")) {
+      const isDeclaration = /^<\?xml[\s?]/.test(this.text.slice(this.pos, this.pos + 6));
+      this.skipTo("?>", "processing instruction");
+      if (!isDeclaration) this.noteOnce("pi", "processing-instruction", "Processing instructions were dropped", at);
+    } else if (this.startsWith("<!DOCTYPE")) {
+      // The internal subset may contain ">" inside its brackets
+      let depth = 0;
+      for (; this.pos < this.text.length; this.pos++) {
+        const ch = this.text[this.pos];
+        if (ch === "[") depth++;
+        else if (ch === "]") depth--;
+        else if (ch === ">" && depth === 0) break;
+      }
+      if (this.pos >= this.text.length) this.fail("Unterminated DOCTYPE", at);
+      this.pos++;
+      this.noteOnce("doctype", "doctype", "The DOCTYPE was dropped; its entities and defaults were not applied", at);
+    } else {
+      return false;
+    }
+    return true;
+  }
+
+  parseDocument(): JsonObject {
+    if (this.text.charCodeAt(0) === 0xfeff) this.pos = 1;
+    for (;;) {
+      this.skipWhitespace();
+      if (!this.skipMisc()) break;
+    }
+    if (this.text[this.pos] !== "<") this.fail("Expected the root element");
+    const root = this.parseElement();
+    for (;;) {
+      this.skipWhitespace();
+      if (this.pos >= this.text.length) break;
+      if (!this.skipMisc()) this.fail("Content after the root element");
+    }
+    this.reportShapes();
+    return { [root.name]: root.value };
+  }
+
+  parseElement(path = ""): { name: string; value: JsonValue } {
+    const start = this.pos;
+    this.pos++;
+    const el: Element = { name: this.readName(), attributes: [], children: [], text: "", mixed: false };
+    const elPath = path ? `${path}.${el.name}` : el.name;
+
+    for (;;) {
+      this.skipWhitespace();
+      if (this.startsWith("/>")) {
+        this.pos += 2;
+        return { name: el.name, value: this.toValue(el, start, elPath) };
+      }
+      if (this.text[this.pos] === ">") {
+        this.pos++;
+        break;
+      }
+      if (this.pos >= this.text.length) this.fail(`Unterminated start tag <${el.name}>`, start);
+      const attrAt = this.pos;
+      const name = this.readName();
+      this.skipWhitespace();
+      if (this.text[this.pos] !== "=") this.fail(`Expected "=" after attribute ${name}`);
+      this.pos++;
+      this.skipWhitespace();
+      const quote = this.text[this.pos];
+      if (quote !== '"' && quote !== "'") this.fail(`Attribute ${name} needs a quoted value`);
+      const end = this.text.indexOf(quote, this.pos + 1);
+      if (end === -1) this.fail(`Unterminated value for attribute ${name}`, attrAt);
+      el.attributes.push([name, this.decodeEntities(this.text.slice(this.pos + 1, end), attrAt)]);
+      this.pos = end + 1;
+    }
+
+    const textParts: string[] = [];
+    for (;;) {
+      if (this.pos >= this.text.length) this.fail(`<${el.name}> is never closed`, start);
+      if (this.startsWith("</")) {
+        const closeAt = this.pos;
+        this.pos += 2;
+        const name = this.readName();
+        this.skipWhitespace();
+        if (this.text[this.pos] !== ">") this.fail(`Expected ">" to close </${name}>`);
+        this.pos++;
+        if (name !== el.name) this.fail(`</${name}> does not match <${el.name}>`, closeAt);
+        break;
+      }
+      if (this.startsWith("<![CDATA[")) {
+        const at = this.pos;
+        this.pos += 9;
+        const end = this.text.indexOf("]]>", this.pos);
+        if (end === -1) this.fail("Unterminated CDATA section", at);
+        textParts.push(this.text.slice(this.pos, end));
+        this.pos = end + 3;
+        continue;
+      }
+      if (this.skipMisc()) continue;
+      if (this.text[this.pos] === "<") {
+        const child = this.parseElement(elPath);
+        el.children.push([child.name, child.value]);
+        continue;
+      }
+      const at = this.pos;
+      let end = this.text.indexOf("<", this.pos);
+      if (end === -1) end = this.text.length;
+      const raw = this.text.slice(this.pos, end);
+      this.pos = end;
+      if (raw.trim() === "") continue;
+      textParts.push(this.decodeEntities(raw, at));
+    }
+
+    el.text = textParts.join("").trim();
+    el.mixed = el.text !== "" && el.children.length > 0;
+    return { name: el.name, value: this.toValue(el, start, elPath) };
+  }
+
+  toValue(el: Element, at: number, path: string): JsonValue {
+    const { attributePrefix, textKey } = this.options;
+    if (el.attributes.length === 0 && el.children.length === 0) return inferScalar(el.text, this.inference);
+
+    const out: JsonObject = {};
+    if (el.attributes.length > 0) {
+      this.noteOnce(
+        `attr:${el.name}`,
+        "attribute",
+        `Attributes of <${el.name}> became "${attributePrefix}"-prefixed keys`,
+        at
+      );
+    }
+    for (const [name, value] of el.attributes) out[attributePrefix + name] = inferScalar(value, this.inference);
+    if (el.mixed) {
+      this.noteOnce(`mixed:${el.name}`, "mixed-content", `<${el.name}> mixes text and elements; the text was joined under "${textKey}"`, at);
+    }
+    if (el.text !== "") out[textKey] = inferScalar(el.text, this.inference);
+
+    const counts = new Map<string, number>();
+    for (const [name] of el.children) counts.set(name, (counts.get(name) ?? 0) + 1);
+    counts.forEach((count, name) => {
+      const shapePath = `${path}.${name}`;
+      const shape = this.shapes.get(shapePath) ?? { single: false, repeated: false, line: this.lineAt(at) };
+      if (count > 1) shape.repeated = true;
+      else shape.single = true;
+      this.shapes.set(shapePath, shape);
+    });
+    const grouped: JsonObject = {};
+    for (const [name, value] of el.children) {
+      if (counts.get(name)! === 1) grouped[name] = value;
+      else if (Array.isArray(grouped[name])) (grouped[name] as JsonValue[]).push(value);
+      else grouped[name] = [value];
+    }
+    for (const name of Object.keys(grouped)) {
+      // Only possible with an empty attribute prefix: the attribute keeps the name
+      const key = Object.prototype.hasOwnProperty.call(out, name) ? duplicateKeyName(out, name) : name;
+      if (key !== name) {
+        this.notes.push({ kind: "name-clash", message: `<${name}> clashes with an attribute of <${el.name}>; renamed to "${key}"`, line: this.lineAt(at) });
+      }
+      out[key] = grouped[name];
+    }
+    return out;
+  }
+
+  /** An element that is repeated under some parents and single under others comes out as array and non-array */
+  reportShapes() {
+    this.shapes.forEach((shape, path) => {
+      if (shape.single && shape.repeated) {
+        this.notes.push({
+          kind: "inconsistent-array",
+          message: `<${path.split(".").pop()}> at ${path} is a list in some places and a single value in others`,
+          line: shape.line,
+        });
+      }
+    });
+  }
+}
+
+/**
+ * XML to JSON: the root element becomes `{ rootName: … }`, attributes become
+ * prefixed keys, repeated child elements become arrays and text-only elements
+ * become scalars.
+ */
+export function importXml(text: string, options: Partial<XmlOptions>, inference: InferenceOptions): ImportResult {
+  const reader = new XmlReader(text, { ...DEFAULT_XML_OPTIONS, ...options }, inference);
+  try {
+    return { data: reader.parseDocument(), notes: reader.notes };
+  } catch (err) {
+    return failedImport(err, reader.notes);
+  }
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import { importYaml } from "./yamlImporter";
+import { losslessNumber } from "./losslessNumber";
+
+const inference = { detectNumbers: true, emptyAsNull: false };
+
+describe("importYaml", () => {
+  it("reads nested mappings and sequences, including compact items", () => {
+    const { data, error } = importYaml(
+      `# config
+name: demo
+version: 1.2
+enabled: yes
+servers:
+  - host: a.example
+    port: 80
+  - host: b.example
+    ports: [80, 443]
+tags:
+- x
+- - nested
+  - list
+empty:
+`,
+      inference
+    );
+    expect(error).toBeUndefined();
+    expect(data).toEqual({
+      name: "demo",
+      version: 1.2,
+      enabled: "yes",
+      servers: [
+        { host: "a.example", port: 80 },
+        { host: "b.example", ports: [80, 443] },
+      ],
+      tags: ["x", ["nested", "list"]],
+      empty: null,
+    });
+  });
+
+  it("resolves core schema scalars", () => {
+    const { data } = importYaml(
+      "a: ~\nb: True\nc: 0x1F\nd: 0o17\ne: +.5\nf: 007\ng: 12345678901234567890\nh: 1e3\ni: '123'\nj: 1.0.0",
+      inference
+    );
+    expect(data).toEqual({ a: null, b: true, c: 31, d: 15, e: 0.5, f: 7, g: losslessNumber("12345678901234567890"), h: 1000, i: "123", j: "1.0.0" });
+    expect(importYaml("n: 42", { detectNumbers: false, emptyAsNull: false }).data).toEqual({ n: "42" });
+  });
+
+  it("reads quoted, plain multi-line and block scalars", () => {
+    const { data } = importYaml(
+      [
+        'dq: "tab\\t\\u00e9 \\"q\\""',
+        "sq: 'it''s'",
+        "plain: first",
+        "  second # comment",
+        "lit: |",
+        "  line 1",
+        "    indented",
+        "",
+        "fold: >-",
+        "  folded",
+        "  text",
+        "",
+        "  para",
+        "keep: |+",
+        "  x",
+        "",
+        "end: 'multi",
+        "  line'",
+      ].join("\n"),
+      inference
+    );
+    expect(data).toEqual({
+      dq: 'tab\té "q"',
+      sq: "it's",
+      plain: "first second",
+      lit: "line 1\n  indented\n",
+      fold: "folded text\npara",
+      keep: "x\n\n",
+      end: "multi line",
+    });
+  });
+
+  it("reads flow collections over several lines", () => {
+    const { data } = importYaml("a: {x: 1, y: [true, null,\n  \"s\"], z: }\nb: [k: v]\n", inference);
+    expect(data).toEqual({ a: { x: 1, y: [true, null, "s"], z: null }, b: [{ k: "v" }] });
+  });
+
+  it("expands anchors, aliases and merge keys with notes", () => {
+    const { data, notes } = importYaml(
+      "base: &b\n  size: 1\n  color: red\nitem:\n  <<: *b\n  color: blue\ncopy: *b\nagain: *b\n",
+      inference
+    );
+    expect(data).toEqual({
+      base: { size: 1, color: "red" },
+      item: { size: 1, color: "blue" },
+      copy: { size: 1, color: "red" },
+      again: { size: 1, color: "red" },
+    });
+    expect(notes.map((n) => [n.kind, n.line])).toEqual([
+      ["alias", 5],
+      ["merge-key", 5],
+    ]);
+  });
+
+  it("honours standard tags and notes the rest", () => {
+    const { data, notes } = importYaml("a: !!str 12\nb: !!float '3'\nc: !point 1\n", inference);
+    expect(data).toEqual({ a: "12", b: 3, c: 1 });
+    expect(notes.map((n) => n.kind)).toEqual(["tag"]);
+  });
+
+  it("notes duplicate keys, non-string keys and special floats", () => {
+    const { data, notes } = importYaml("a: 1\na: 2\n1: one\nx: .inf\n", inference);
+    expect(data).toEqual({ a: 2, "1": "one", x: null });
+    expect(notes.map((n) => [n.kind, n.line])).toEqual([
+      ["duplicate-key", 2],
+      ["non-string-key", 3],
+      ["special-float", 4],
+    ]);
+  });
+
+  it("combines several documents into an array", () => {
+    const { data, notes } = importYaml("%YAML 1.2\n---\na: 1\n--- b\n...\n---\n- c\n", inference);
+    expect(data).toEqual([{ a: 1 }, "b", ["c"]]);
+    expect(notes.map((n) => n.kind)).toEqual(["multi-document"]);
+  });
+
+  it("reports errors with a line", () => {
+    expect(importYaml("a: 1\n  b: 2\n", inference).errorLine).toBe(2);
+    expect(importYaml("a: *missing", inference).error).toBe("Line 1: Unknown alias *missing");
+    expect(importYaml('a: "open\nb: 1', inference).error).toBe("Line 1: Unterminated quoted string");
+  });
+
+  it("stops an alias bomb", () => {
+    const lines = ["a: &a [x, x, x, x, x, x, x, x, x, x]"];
+    for (let n = 0; n < 8; n++) {
+      const prev = String.fromCharCode(97 + n);
+      const next = String.fromCharCode(98 + n);
+      lines.push(`${next}: &${next} [${Array(10).fill("*" + prev).join(", ")}]`);
+    }
+    expect(importYaml(lines.join("\n"), inference).error).toMatch(/too many nodes/);
+  });
+});
@@ -0,0 +1,695 @@
+import type { JsonArray, JsonObject, JsonValue } from "./fileLoader";
+import { failedImport, ImportFailure, type ConversionNote, type ImportResult, type InferenceOptions } from "./importers";
+import { isLosslessNumber, parseNumberLiteral } from "./losslessNumber";
+
+interface Line {
+  /** Leading spaces */
+  indent: number;
+  /** Content after the indentation, trailing whitespace removed */
+  text: string;
+  /** The whole source line, for block scalars */
+  raw: string;
+  /** 1-based source line */
+  line: number;
+}
+
+interface Props {
+  anchor?: string;
+  tag?: string;
+  rest: string;
+}
+
+/** Aliases are copied on expansion; this caps the copies so an alias bomb fails instead of hanging */
+const MAX_ALIAS_NODES = 1_000_000;
+
+const DOUBLE_ESCAPES: Record<string, string> = {
+  "0": "\0", a: "\x07", b: "\b", t: "\t", "\t": "\t", n: "\n", v: "\v", f: "\f", r: "\r", e: "\x1b",
+  " ": " ", '"': '"', "/": "/", "\\": "\\", N: "\x85", _: "\xa0", L: "\u2028", P: "\u2029",
+};
+const HEX_ESCAPE_WIDTH: Record<string, number> = { x: 2, u: 4, U: 8 };
+
+/** Raised by the flow reader when the text ends inside a bracket or quote, so more lines are needed */
+class Incomplete {}
+
+function isDocMarker(line: Line): boolean {
+  return line.indent === 0 && /^(---|\.\.\.)(\s|$)/.test(line.text);
+}
+
+function isSeqItem(text: string): boolean {
+  return text === "-" || /^-[ \t]/.test(text);
+}
+
+/** Cut a " # comment" off a plain scalar */
+function stripComment(text: string): string {
+  const m = /(^|[ \t])#/.exec(text);
+  return (m ? text.slice(0, m.index) : text).trimEnd();
+}
+
+/** Where the ": " of a block mapping entry is, or -1 when the line is not one */
+function findMappingColon(text: string): number {
+  let j = 0;
+  if (text[0] === '"' || text[0] === "'") {
+    const q = text[0];
+    for (j = 1; j < text.length; j++) {
+      if (q === '"' && text[j] === "\\") j++;
+      else if (text[j] === q) {
+        if (q === "'" && text[j + 1] === "'") j++;
+        else break;
+      }
+    }
+    if (j >= text.length) return -1;
+    j++;
+    while (text[j] === " " || text[j] === "\t") j++;
+    return text[j] === ":" && (j + 1 === text.length || /[ \t]/.test(text[j + 1])) ? j : -1;
+  }
+  if (/^[[{#|>*&!%@`-]/.test(text) && !/^-[^ \t]/.test(text)) return -1;
+  for (; j < text.length; j++) {
+    if (text[j] === "#" && j > 0 && /[ \t]/.test(text[j - 1])) return -1;
+    if (text[j] === ":" && (j + 1 === text.length || /[ \t]/.test(text[j + 1]))) return j;
+  }
+  return -1;
+}
+
+/** "+01.50e3" → "1.50e3": YAML number text in JSON number grammar */
+function normalizeNumber(text: string): string {
+  const m = /^([-+]?)(\d*)(?:\.(\d*))?(?:[eE]([-+]?\d+))?$/.exec(text)!;
+  const int = m[2].replace(/^0+(?=\d)/, "") || "0";
+  const frac = m[3] ? "." + m[3] : "";
+  const exp = m[4] ? "e" + m[4] : "";
+  return (m[1] === "-" ? "-" : "") + int + frac + exp;
+}
+
+class YamlReader {
+  private readonly lines: Line[];
+  private i = 0;
+  readonly notes: ConversionNote[] = [];
+  private readonly noted = new Set<string>();
+  private readonly anchors = new Map<string, JsonValue>();
+  private aliasNodes = 0;
+
+  constructor(
+    text: string,
+    private readonly inference: InferenceOptions
+  ) {
+    if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+    this.lines = text.split(/\r?\n/).map((raw, n) => {
+      const indent = /^ */.exec(raw)![0].length;
+      return { indent, text: raw.slice(indent).trim(), raw, line: n + 1 };
+    });
+  }
+
+  fail(message: string, line = this.lines[Math.min(this.i, this.lines.length - 1)]?.line ?? 1): never {
+    throw new ImportFailure(line, message);
+  }
+
+  note(kind: string, message: string, line: number, onceId?: string) {
+    if (onceId !== undefined) {
+      if (this.noted.has(onceId)) return;
+      this.noted.add(onceId);
+    }
+    this.notes.push({ kind, message, line });
+  }
+
+  /** Next line that is not blank or a comment */
+  current(): Line | undefined {
+    while (this.i < this.lines.length && (this.lines[this.i].text === "" || this.lines[this.i].text[0] === "#")) this.i++;
+    return this.lines[this.i];
+  }
+
+  parseStream(): JsonValue {
+    const docs: JsonValue[] = [];
+    let first = true;
+    for (;;) {
+      let line = this.current();
+      while (first && line && line.indent === 0 && line.text[0] === "%") {
+        this.i++;
+        line = this.current();
+      }
+      if (!line) break;
+      first = false;
+      if (line.indent === 0 && /^\.\.\.(\s|$)/.test(line.text)) {
+        this.i++;
+        continue;
+      }
+      if (isDocMarker(line)) {
+        const rest = line.text.slice(3).trim();
+        if (rest === "" || rest[0] === "#") this.i++;
+        // "--- value": the rest of the marker line is the document's first line
+        else this.lines[this.i] = { ...line, indent: 0, text: rest };
+        const next = this.current();
+        if (!next || isDocMarker(next)) {
+          docs.push(null);
+          continue;
+        }
+      }
+      docs.push(this.parseNode(0, -1));
+      const after = this.current();
+      if (after && !isDocMarker(after)) this.fail("Unexpected content; check the indentation", after.line);
+    }
+
+    if (docs.length <= 1) return docs[0] ?? null;
+    this.note("multi-document", `${docs.length} YAML documents were combined into one array`, 1);
+    return docs;
+  }
+
+  /** The node starting at the next content line, or null when that line is not indented past `parentIndent` */
+  parseNode(minIndent: number, parentIndent: number): JsonValue {
+    const line = this.current();
+    if (!line || isDocMarker(line) || line.indent < minIndent) return null;
+    return this.parseBlockNode(line.indent, parentIndent);
+  }
+
+  parseBlockNode(indent: number, parentIndent: number): JsonValue {
+    const { text } = this.lines[this.i];
+    if (isSeqItem(text)) return this.parseSequence(indent);
+    if (text[0] === "?" && /^\?(\s|$)/.test(text)) this.fail("Complex mapping keys (?) are not supported");
+    if (findMappingColon(text) >= 0) return this.parseMapping(indent);
+    return this.parseInlineValue(text, parentIndent, false);
+  }
+
+  parseSequence(indent: number): JsonArray {
+    const out: JsonArray = [];
+    for (;;) {
+      const line = this.current();
+      if (!line || isDocMarker(line) || line.indent < indent) break;
+      if (line.indent > indent) this.fail("Bad indentation in a sequence");
+      if (!isSeqItem(line.text)) break;
+      const m = /^-([ \t]*)(.*)$/.exec(line.text)!;
+      if (m[2] === "" || m[2][0] === "#") {
+        this.i++;
+        out.push(this.parseNode(indent + 1, indent));
+      } else {
+        // "- key: value": the item's content continues as if it started on its own line
+        this.lines[this.i] = { ...line, indent: indent + 1 + m[1].length, text: m[2] };
+        out.push(this.parseBlockNode(indent + 1 + m[1].length, indent));
+      }
+    }
+    return out;
+  }
+
+  parseMapping(indent: number): JsonObject {
+    const out: JsonObject = {};
+    // Keys that came from a merge (<<) and may be overridden without a duplicate note
+    const merged = new Set<string>();
+    for (;;) {
+      const line = this.current();
+      if (!line || isDocMarker(line) || line.indent < indent) break;
+      if (line.indent > indent) this.fail("Bad indentation in a mapping");
+      if (isSeqItem(line.text)) break;
+      if (/^\?(\s|$)/.test(line.text)) this.fail("Complex mapping keys (?) are not supported");
+      const colon = findMappingColon(line.text);
+      if (colon < 0) this.fail('Expected a "key: value" entry');
+      const keyText = line.text.slice(0, colon).trimEnd();
+      const key = this.parseKey(keyText, line.line);
+      const value = this.parseInlineValue(line.text.slice(colon + 1).trim(), indent, true);
+
+      if (key === "<<" && keyText === "<<") {
+        this.merge(out, merged, value, line.line);
+        continue;
+      }
+      if (Object.prototype.hasOwnProperty.call(out, key) && !merged.has(key)) {
+        this.note("duplicate-key", `Key "${key}" repeats; the last value was kept`, line.line);
+      }
+      merged.delete(key);
+      out[key] = value;
+    }
+    return out;
+  }
+
+  /** `<<: *base` or `<<: [*a, *b]` — keys already present win, earlier sources win over later ones */
+  merge(target: JsonObject, merged: Set<string>, value: JsonValue, line: number) {
+    const sources = Array.isArray(value) ? value : [value];
+    for (const source of sources) {
+      if (source === null || typeof source !== "object" || Array.isArray(source) || isLosslessNumber(source)) {
+        this.fail("A merge key (<<) needs a mapping or a list of mappings", line);
+      }
+      for (const k of Object.keys(source)) {
+        if (Object.prototype.hasOwnProperty.call(target, k)) continue;
+        target[k] = source[k];
+        merged.add(k);
+      }
+    }
+    this.note("merge-key", "Merge keys (<<) were expanded into plain keys", line, "merge-key");
+  }
+
+  /** Keys are always strings in JSON; plain keys that YAML would type are noted */
+  parseKey(text: string, line: number): string {
+    if (text[0] === '"' || text[0] === "'") return new FlowReader(this, text, line).parseQuoted();
+    if (text[0] === "&" || text[0] === "!") this.fail("Anchors and tags on keys are not supported", line);
+    const typed = this.resolvePlain(text, line, false);
+    if (typeof typed !== "string") {
+      this.note("non-string-key", `Key ${text} is not a string in YAML; it was kept as the text "${text}"`, line);
+    }
+    return text;
+  }
+
+  readProps(text: string, line: number): Props {
+    const props: Props = { rest: text };
+    for (;;) {
+      const m = /^([&!])([^\s,[\]{}]*)\s*/.exec(props.rest);
+      if (!m) return props;
+      if (m[1] === "&") {
+        if (props.anchor !== undefined || m[2] === "") this.fail("Bad anchor", line);
+        props.anchor = m[2];
+      } else {
+        if (props.tag !== undefined) this.fail("A node has two tags", line);
+        props.tag = m[1] + m[2];
+      }
+      props.rest = props.rest.slice(m[0].length);
+    }
+  }
+
+  /**
+   * A value that starts partway through the current line (after "key:" or
+   * "- "), including the lines it continues onto. `parentIndent` is the
+   * indentation of the entry that owns it.
+   */
+  parseInlineValue(text: string, parentIndent: number, inMapping: boolean): JsonValue {
+    const line = this.lines[this.i];
+    const { anchor, tag, rest } = this.readProps(text, line.line);
+    let value: JsonValue;
+    if (rest === "" || rest[0] === "#") {
+      this.i++;
+      const next = this.current();
+      // A mapping's value may be a sequence at the key's own indentation
+      const sameIndentSeq = inMapping && next && next.indent === parentIndent && isSeqItem(next.text);
+      if (next && !isDocMarker(next) && (next.indent > parentIndent || sameIndentSeq)) {
+        value = this.parseBlockNode(next.indent, parentIndent);
+        value = tag ? this.applyTag(tag, value, null, line.line) : value;
+      } else {
+        value = tag ? this.applyTag(tag, null, "", line.line) : null;
+      }
+    } else if (rest[0] === "|" || rest[0] === ">") {
+      const text = this.parseBlockScalar(rest, parentIndent);
+      value = tag ? this.applyTag(tag, text, text, line.line) : text;
+    } else if (rest[0] === "*") {
+      const m = /^\*(\S+)\s*(#.*)?$/.exec(rest);
+      if (!m) this.fail("Unexpected text after an alias");
+      this.i++;
+      value = this.alias(m[1], line.line);
+    } else if (rest[0] === '"' || rest[0] === "'" || rest[0] === "[" || rest[0] === "{") {
+      const { value: parsed, quoted } = this.parseFlow(rest);
+      value = tag ? this.applyTag(tag, parsed, quoted ? (parsed as string) : null, line.line) : parsed;
+    } else {
+      const plain = this.parsePlain(rest, parentIndent);
+      value = tag ? this.applyTag(tag, null, plain, line.line) : this.resolvePlain(plain, line.line);
+    }
+    if (anchor !== undefined) this.setAnchor(anchor, value);
+    return value;
+  }
+
+  setAnchor(name: string, value: JsonValue) {
+    this.anchors.set(name, value);
+  }
+
+  /** A plain scalar and its continuation lines, folded with spaces */
+  parsePlain(first: string, parentIndent: number): string {
+    let out = stripComment(first);
+    this.i++;
+    if (out !== first) return out;
+    for (let j = this.i, blanks = 0; j < this.lines.length; j++) {
+      const line = this.lines[j];
+      if (line.text === "") {
+        blanks++;
+        continue;
+      }
+      if (line.text[0] === "#" || line.indent <= parentIndent || isDocMarker(line)) break;
+      // "key: value" cannot continue a plain scalar; this is almost always over-indentation
+      if (findMappingColon(line.text) >= 0) this.fail("Unexpected mapping entry; check the indentation", line.line);
+      const text = stripComment(line.text);
+      out += blanks > 0 ? "\n".repeat(blanks) + text : " " + text;
+      blanks = 0;
+      this.i = j + 1;
+      if (text !== line.text) break;
+    }
+    return out;
+  }
+
+  /** `|` literal and `>` folded scalars with chomping (+/-) and indentation indicators */
+  parseBlockScalar(header: string, parentIndent: number): string {
+    const headerLine = this.lines[this.i].line;
+    const m = /^([|>])(?:([1-9])([+-])?|([+-])([1-9])?)?\s*(#.*)?$/.exec(header);
+    if (!m) this.fail("Bad block scalar header", headerLine);
+    const folded = m[1] === ">";
+    const chomp = m[3] ?? m[4] ?? "";
+    const explicit = m[2] ?? m[5];
+    this.i++;
+
+    let blockIndent = explicit ? Math.max(parentIndent, 0) + Number(explicit) : -1;
+    const body: string[] = [];
+    for (; this.i < this.lines.length; this.i++) {
+      const line = this.lines[this.i];
+      if (line.raw.trim() === "") {
+        body.push(blockIndent >= 0 ? line.raw.slice(blockIndent) : "");
+        continue;
+      }
+      if (blockIndent < 0) {
+        if (line.indent <= parentIndent) break;
+        blockIndent = line.indent;
+      }
+      if (line.indent < blockIndent || isDocMarker(line)) break;
+      body.push(line.raw.slice(blockIndent));
+    }
+
+    let end = body.length;
+    while (end > 0 && body[end - 1].trim() === "") end--;
+    const trailing = body.length - end;
+    const content = body.slice(0, end);
+
+    let text: string;
+    if (!folded) {
+      text = content.join("\n");
+    } else {
+      text = "";
+      let blanks = 0;
+      let prevMore = false;
+      content.forEach((line, n) => {
+        if (line.trim() === "") {
+          blanks++;
+          return;
+        }
+        const more = /^[ \t]/.test(line);
+        if (n - blanks === 0) text += "\n".repeat(blanks);
+        else if (blanks > 0) text += "\n".repeat(blanks + (more || prevMore ? 1 : 0));
+        else text += more || prevMore ? "\n" : " ";
+        text += line;
+        blanks = 0;
+        prevMore = more;
+      });
+    }
+    if (chomp === "-" || content.length === 0) return chomp === "+" ? "\n".repeat(trailing) : text;
+    return text + "\n" + (chomp === "+" ? "\n".repeat(trailing) : "");
+  }
+
+  /** Quoted scalars and flow collections, reading further lines while brackets or quotes are open */
+  parseFlow(first: string): { value: JsonValue; quoted: boolean } {
+    const startLine = this.lines[this.i].line;
+    const quoted = first[0] === '"' || first[0] === "'";
+    const finish = (reader: FlowReader) => {
+      const value = quoted ? reader.parseQuoted() : reader.parseValue();
+      reader.expectEnd();
+      return value;
+    };
+    try {
+      const value = finish(new FlowReader(this, first, startLine));
+      this.i++;
+      return { value, quoted };
+    } catch (err) {
+      if (!(err instanceof Incomplete)) throw err;
+    }
+    // Most values fit on one line; only multi-line ones pay for joining the rest of the document
+    const src = [first].concat(this.lines.slice(this.i + 1).map((l) => l.raw)).join("\n");
+    const reader = new FlowReader(this, src, startLine);
+    let value: JsonValue;
+    try {
+      value = quoted ? reader.parseQuoted() : reader.parseValue();
+    } catch (err) {
+      if (err instanceof Incomplete) this.fail(quoted ? "Unterminated quoted string" : "Unterminated flow collection", startLine);
+      throw err;
+    }
+    const used = src.slice(0, reader.pos).split("\n").length - 1;
+    const lineEnd = src.indexOf("\n", reader.pos);
+    const tail = src.slice(reader.pos, lineEnd === -1 ? src.length : lineEnd).trim();
+    if (tail !== "" && tail[0] !== "#") this.fail("Unexpected text after a flow value", startLine + used);
+    this.i += used + 1;
+    return { value, quoted };
+  }
+
+  alias(name: string, line: number): JsonValue {
+    if (!this.anchors.has(name)) this.fail(`Unknown alias *${name}`, line);
+    this.note("alias", `Alias *${name} was expanded into a copy; the shared reference is lost`, line, `alias:${name}`);
+    return this.copy(this.anchors.get(name)!, line);
+  }
+
+  copy(value: JsonValue, line: number): JsonValue {
+    if (++this.aliasNodes > MAX_ALIAS_NODES) this.fail("Aliases expand to too many nodes", line);
+    if (value === null || typeof value !== "object" || isLosslessNumber(value)) return value;
+    if (Array.isArray(value)) return value.map((v) => this.copy(v, line));
+    const out: JsonObject = {};
+    for (const k of Object.keys(value)) out[k] = this.copy(value[k], line);
+    return out;
+  }
+
+  /** Core schema: null, booleans, ints (decimal, 0o, 0x) and floats; everything else is a string */
+  resolvePlain(text: string, line: number, report = true): JsonValue {
+    if (text === "" || /^(~|null|Null|NULL)$/.test(text)) return null;
+    if (/^(true|True|TRUE)$/.test(text)) return true;
+    if (/^(false|False|FALSE)$/.test(text)) return false;
+    if (!this.inference.detectNumbers) return text;
+    if (/^[-+]?\.(inf|Inf|INF)$/.test(text) || /^\.(nan|NaN|NAN)$/.test(text)) {
+      if (report) this.note("special-float", `${text} has no JSON equivalent; became null`, line);
+      return null;
+    }
+    if (/^0o[0-7]+$/.test(text) || /^0x[0-9A-Fa-f]+$/.test(text)) return parseNumberLiteral(BigInt(text).toString(), true);
+    if (/^[-+]?(\.\d+|\d+(\.\d*)?)([eE][-+]?\d+)?$/.test(text)) return parseNumberLiteral(normalizeNumber(text), true);
+    return text;
+  }
+
+  /**
+   * Standard tags retype the scalar; other tags have no JSON meaning and are
+   * dropped with a note. `text` is the scalar's source text, null for collections.
+   */
+  applyTag(tag: string, value: JsonValue, text: string | null, line: number): JsonValue {
+    const standard = tag.startsWith("!!") ? tag.slice(2) : "";
+    if (standard === "map" || standard === "seq" || standard === "omap" || standard === "set") return value;
+    if (text !== null) {
+      if (standard === "str") return text;
+      if (standard === "null") return null;
+      if (standard === "int" || standard === "float" || standard === "bool") {
+        const typed = this.resolvePlain(text.trim(), line);
+        const ok = standard === "bool" ? typeof typed === "boolean" : typeof typed === "number" || isLosslessNumber(typed);
+        if (!ok) this.fail(`"${text}" is not a valid ${tag}`, line);
+        return typed;
+      }
+      if (standard === "binary") {
+        this.note("binary", "!!binary data was kept as base64 text", line, "binary");
+        return text.replace(/\s/g, "");
+      }
+      if (standard === "timestamp") {
+        this.note("datetime", `Timestamp ${text} became a string`, line);
+        return text;
+      }
+    }
+    this.note("tag", `Tag ${tag} has no JSON equivalent and was ignored`, line, `tag:${tag}`);
+    return text !== null && value === null ? this.resolvePlain(text, line) : value;
+  }
+}
+
+/** Flow-style YAML ([…], {…}, quoted scalars) over a piece of source text */
+class FlowReader {
+  pos = 0;
+  /** Line counting resumes from here; pos only moves forward */
+  private countedTo = 0;
+  private countedLine: number;
+
+  constructor(
+    private readonly yaml: YamlReader,
+    private readonly src: string,
+    firstLine: number
+  ) {
+    this.countedLine = firstLine;
+  }
+
+  get line(): number {
+    for (; this.countedTo < this.pos && this.countedTo < this.src.length; this.countedTo++) {
+      if (this.src[this.countedTo] === "\n") this.countedLine++;
+    }
+    return this.countedLine;
+  }
+
+  fail(message: string): never {
+    return this.yaml.fail(message, this.line);
+  }
+
+  skipSpace() {
+    for (;;) {
+      const ch = this.src[this.pos];
+      if (ch === " " || ch === "\t" || ch === "\n" || ch === "\r") this.pos++;
+      else if (ch === "#" && (this.pos === 0 || /\s/.test(this.src[this.pos - 1]))) {
+        while (this.pos < this.src.length && this.src[this.pos] !== "\n") this.pos++;
+      } else return;
+    }
+  }
+
+  expectEnd() {
+    this.skipSpace();
+    if (this.pos < this.src.length) this.fail("Unexpected text after a flow value");
+  }
+
+  parseValue(): JsonValue {
+    this.skipSpace();
+    const head = this.src.slice(this.pos, this.pos + 256);
+    const props = this.yaml.readProps(head, this.line);
+    this.pos += head.length - props.rest.length;
+    this.skipSpace();
+    const ch = this.src[this.pos];
+    if (ch === undefined) throw new Incomplete();
+    let value: JsonValue;
+    let text: string | null = null;
+    if (ch === "[") value = this.parseSeq();
+    else if (ch === "{") value = this.parseMap();
+    else if (ch === '"' || ch === "'") value = text = this.parseQuoted();
+    else if (ch === "*") {
+      const m = /^\*([^\s,[\]{}]+)/.exec(this.src.slice(this.pos));
+      if (!m) this.fail("Bad alias");
+      this.pos += m[0].length;
+      value = this.yaml.alias(m[1], this.line);
+    } else {
+      text = this.parsePlain();
+      value = props.tag ? null : this.yaml.resolvePlain(text, this.line);
+    }
+    if (props.tag) value = this.yaml.applyTag(props.tag, value, text, this.line);
+    if (props.anchor !== undefined) this.yaml.setAnchor(props.anchor, value);
+    return value;
+  }
+
+  /** Plain scalar inside a flow collection: ends at , [ ] { } or ": " */
+  parsePlain(): string {
+    const start = this.pos;
+    for (; this.pos < this.src.length; this.pos++) {
+      const ch = this.src[this.pos];
+      if (ch === "," || ch === "]" || ch === "}" || ch === "[" || ch === "{") break;
+      if (ch === ":" && /^[\s,\]}]?$/.test(this.src[this.pos + 1] ?? "")) break;
+      if (ch === "#" && /\s/.test(this.src[this.pos - 1] ?? "")) break;
+    }
+    return this.src.slice(start, this.pos).replace(/\s*\n\s*/g, " ").trim();
+  }
+
+  parseSeq(): JsonArray {
+    this.pos++;
+    const out: JsonArray = [];
+    for (;;) {
+      this.skipSpace();
+      if (this.pos >= this.src.length) throw new Incomplete();
+      if (this.src[this.pos] === "]") break;
+      let item = this.parseValue();
+      this.skipSpace();
+      // [a: 1] is a list holding the single-pair mapping {a: 1}
+      if (this.src[this.pos] === ":") {
+        this.pos++;
+        item = { [this.keyOf(item)]: this.parseEntryValue() };
+        this.skipSpace();
+      }
+      out.push(item);
+      if (this.src[this.pos] === ",") this.pos++;
+      else if (this.pos >= this.src.length) throw new Incomplete();
+      else if (this.src[this.pos] !== "]") this.fail('Expected "," or "]"');
+    }
+    this.pos++;
+    return out;
+  }
+
+  parseMap(): JsonObject {
+    this.pos++;
+    const out: JsonObject = {};
+    for (;;) {
+      this.skipSpace();
+      if (this.pos >= this.src.length) throw new Incomplete();
+      if (this.src[this.pos] === "}") break;
+      const line = this.line;
+      const key = this.keyOf(this.parseValue());
+      this.skipSpace();
+      let value: JsonValue = null;
+      if (this.src[this.pos] === ":") {
+        this.pos++;
+        value = this.parseEntryValue();
+        this.skipSpace();
+      }
+      if (Object.prototype.hasOwnProperty.call(out, key)) {
+        this.yaml.note("duplicate-key", `Key "${key}" repeats; the last value was kept`, line);
+      }
+      out[key] = value;
+      if (this.src[this.pos] === ",") this.pos++;
+      else if (this.pos >= this.src.length) throw new Incomplete();
+      else if (this.src[this.pos] !== "}") this.fail('Expected "," or "}"');
+    }
+    this.pos++;
+    return out;
+  }
+
+  /** Value after ":" — may be empty, meaning null */
+  parseEntryValue(): JsonValue {
+    this.skipSpace();
+    const ch = this.src[this.pos];
+    if (ch === "," || ch === "}" || ch === "]") return null;
+    return this.parseValue();
+  }
+
+  keyOf(value: JsonValue): string {
+    if (typeof value === "string") return value;
+    if (value !== null && typeof value === "object" && !isLosslessNumber(value)) this.fail("Collection keys are not supported");
+    const text = value === null ? "null" : isLosslessNumber(value) ? value.value : String(value);
+    this.yaml.note("non-string-key", `Key ${text} is not a string in YAML; it was kept as the text "${text}"`, this.line);
+    return text;
+  }
+
+  parseQuoted(): string {
+    const q = this.src[this.pos];
+    this.pos++;
+    let out = "";
+    for (;;) {
+      if (this.pos >= this.src.length) throw new Incomplete();
+      const ch = this.src[this.pos];
+      if (ch === q) {
+        if (q === "'" && this.src[this.pos + 1] === "'") {
+          out += "'";
+          this.pos += 2;
+          continue;
+        }
+        this.pos++;
+        return out;
+      }
+      if (ch === "\n" || ch === "\r") {
+        out = out.replace(/[ \t]+$/, "") + this.foldBreak();
+        continue;
+      }
+      if (q === '"' && ch === "\\") {
+        const code = this.src[this.pos + 1];
+        if (code === undefined) throw new Incomplete();
+        if (code === "\n" || code === "\r") {
+          // Escaped line break: joins the lines without a space
+          this.pos++;
+          const folded = this.foldBreak();
+          out += folded === " " ? "" : folded.slice(1);
+          continue;
+        }
+        this.pos += 2;
+        if (DOUBLE_ESCAPES[code] !== undefined) {
+          out += DOUBLE_ESCAPES[code];
+          continue;
+        }
+        const width = HEX_ESCAPE_WIDTH[code];
+        const hex = width ? this.src.slice(this.pos, this.pos + width) : "";
+        if (!width || hex.length !== width || !/^[0-9A-Fa-f]+$/.test(hex)) this.fail(`Invalid escape "\\${code}"`);
+        this.pos += width;
+        out += String.fromCodePoint(parseInt(hex, 16));
+        continue;
+      }
+      out += ch;
+      this.pos++;
+    }
+  }
+
+  /** A line break inside quotes: one break folds to a space, n+1 breaks keep n newlines */
+  foldBreak(): string {
+    let breaks = 0;
+    while (this.pos < this.src.length && /[ \t\r\n]/.test(this.src[this.pos])) {
+      if (this.src[this.pos] === "\n") breaks++;
+      this.pos++;
+    }
+    return breaks <= 1 ? " " : "\n".repeat(breaks - 1);
+  }
+}
+
+/**
+ * YAML 1.2 (core schema) to JSON. Aliases are expanded into copies, several
+ * documents become an array, and anything JSON cannot hold is noted.
+ */
+export function importYaml(text: string, inference: InferenceOptions): ImportResult {
+  const reader = new YamlReader(text, inference);
+  try {
+    return { data: reader.parseStream(), notes: reader.notes };
+  } catch (err) {
+    return failedImport(err, reader.notes);
+  }
+}
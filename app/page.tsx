@@ -2,25 +2,47 @@
 
 import { useState, useCallback, useEffect, useRef, useMemo } from "react";
 import JsonEditor from "./components/JsonEditor";
-import VirtualSourceViewer from "./components/VirtualSourceViewer";
+import VirtualSourceViewer, { type VirtualSourceViewerRef } from "./components/VirtualSourceViewer";
 import LoadingOverlay from "./components/LoadingOverlay";
+import ExportDialog from "./components/ExportDialog";
+import OrderListDialog, { type OrderListSettings } from "./components/OrderListDialog";
+import MergeDialog from "./components/MergeDialog";
+import SortPreview from "./components/SortPreview";
+import ChangesPanel from "./components/ChangesPanel";
+import SortKeyControls from "./components/SortKeyControls";
 import { fruitCatalog, vehicleInventory } from "./test-data";
-import {
-  analyzeJsonStructure,
-  getSortableContainers,
-  getAllPaths,
-  evaluatePath,
-  getFieldValue,
-  isPathProtected,
-  type ContainerInfo,
-  type StructureAnalysis
-} from "./utils/pathAnalyzer";
+import type { ContainerInfo, StructureAnalysis } from "./lib/pathAnalyzer";
 import { generateLargeTestData } from "./utils/testDataGenerator";
-import { sortContainer as _sortContainer, type SortReport } from "./lib/sorter";
+import { COMPARATORS, type ComparatorId } from "./lib/comparators";
+import { canonicalizeKeyOrder, describeSortKeys, type SortKeySpec, type SortParams, type SortReport, type SortResult } from "./lib/sorter";
+import { parseJsonFile, parseJsonBytes, importBytes, detectDialect, detectFormat, detectImportFormat, type DocumentFormat } from "./lib/fileLoader";
+import type { ConversionNote } from "./lib/importers";
+import { describeEncoding, encodeText, type EncodingInfo, type LineEnding } from "./lib/encoding";
+import { repairJson, describeFix, type RepairResult } from "./lib/repairer";
+import { errorExcerpt, type ParseErrorInfo, type JsonDialect, type CommentMap, type DuplicateKey, type DuplicateKeyPolicy } from "./lib/jsonParser";
+import { stringifyWithComments, remapComments } from "./lib/jsonc";
+import { DEFAULT_ORDER_FILE_OPTIONS, type OrderList, type UnmatchedElement, type UnmatchedEntry } from "./lib/orderList";
+import { graftSubtree, type LazyNode } from "./lib/streamParser";
+import { setIn, updateIn } from "./lib/pathCopy";
+import { stringifyNdjson, type NdjsonLineError } from "./lib/ndjson";
+import { isLosslessNumber } from "./lib/losslessNumber";
+import { serialize, serializeWithLines, canonicalize, DEFAULT_SERIALIZE_OPTIONS, type SerializeOptions } from "./lib/serializer";
+import { diffJson, type JsonChange } from "./lib/differ";
+import { applyPatch, createPatch } from "./lib/jsonPatch";
+import type { LoaderRequest, LoaderResponse } from "./workers/loader.worker";
+import { SORT_WORKER_PROTOCOL_VERSION, type SortWorkerJob, type SortWorkerRequest, type SortWorkerRequestBody, type SortWorkerResponse } from "./workers/protocol";
+import type { JobProgress } from "./lib/jobs";
 
 type JsonValue = string | number | boolean | null | JsonObject | JsonArray;
 type JsonObject = { [key: string]: JsonValue };
 type JsonArray = JsonValue[];
+type JobKind = "analyze" | "sort" | "diff";
+
+// Files above this size open in read-only index mode (top levels only, subtrees loaded on expand)
+const INDEX_MODE_BYTES = 100 * 1024 * 1024;
+// Below this size a failed stream parse is re-read as text so the error panel can offer a repair
+const TEXT_FALLBACK_BYTES = 20 * 1024 * 1024;
+const INDEX_MATERIALIZE_DEPTH = 2;
 
 export default function Home() {
   const [sourceFileName, setSourceFileName] = useState<string>("");
@@ -35,7 +57,7 @@ export default function Home() {
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("asc");
   const [lastSort, setLastSort] = useState<string>("");
   const [protectedPaths, setProtectedPaths] = useState<Set<string>>(new Set([]));  // Start with no protections - user can add as needed
-  const [jsonError, setJsonError] = useState<{ error: string; raw: string; suggestions: string[] } | null>(null);
+  const [jsonError, setJsonError] = useState<{ error: string; raw: string; suggestions: string[]; detail?: ParseErrorInfo; repair?: RepairResult } | null>(null);
   const [leftPaneWidth, setLeftPaneWidth] = useState<number>(50); // percentage
   const [isResizing, setIsResizing] = useState<boolean>(false);
   const [structureAnalysis, setStructureAnalysis] = useState<StructureAnalysis | null>(null);
@@ -43,17 +65,81 @@ export default function Home() {
   const [protectedContainers, setProtectedContainers] = useState<ContainerInfo[]>([]);
   const [lineMap, setLineMap] = useState<Map<string, number>>(new Map());
 
-  // Undo history now stores both data and lineMap
-  const [undoHistory, setUndoHistory] = useState<{ data: JsonObject, lineMap: Map<string, number> }[]>([]);
+  // Input dialect (auto = by file extension) and the comments kept for JSONC/JSON5 round trips
+  const [loadDialect, setLoadDialect] = useState<"auto" | JsonDialect | "ndjson">("auto");
+  const [sourceDialect, setSourceDialect] = useState<JsonDialect>("json");
+  const [comments, setComments] = useState<CommentMap | null>(null);
+  const [saveDialect, setSaveDialect] = useState<"json" | "original">("original");
+  // NDJSON loads as a virtual root array; bad lines are listed instead of failing the load
+  const [sourceFormat, setSourceFormat] = useState<DocumentFormat>("json");
+  const [lineErrors, setLineErrors] = useState<NdjsonLineError[]>([]);
+  // Repeated object keys found on load, resolved by the chosen policy (JSON.parse would keep the last)
+  const [duplicateKeyPolicy, setDuplicateKeyPolicy] = useState<DuplicateKeyPolicy>("keep-last");
+  const [duplicates, setDuplicates] = useState<DuplicateKey[]>([]);
+  // YAML/TOML/CSV/XML are converted on load; the notes list what did not carry over exactly
+  const [importNotes, setImportNotes] = useState<ConversionNote[]>([]);
+  const [importOptions, setImportOptions] = useState<{ headerRow: boolean; detectNumbers: boolean; emptyAsNull: boolean }>({
+    headerRow: true,
+    detectNumbers: true,
+    emptyAsNull: false,
+  });
+  // Detected source encoding, and the output encoding for Save (UTF-8, LF, no BOM = Unix safe)
+  const [sourceEncoding, setSourceEncoding] = useState<(EncodingInfo & { lineEnding?: LineEnding | "mixed" | null }) | null>(null);
+  const [saveBom, setSaveBom] = useState<boolean>(false);
+  const [saveLineEnding, setSaveLineEnding] = useState<LineEnding>("lf");
+  // Output style for Save, the text views and sort line numbers; canonical (RFC 8785) is for hashing/signing
+  const [outputStyle, setOutputStyle] = useState<SerializeOptions>(DEFAULT_SERIALIZE_OPTIONS);
+  const [canonicalOutput, setCanonicalOutput] = useState<boolean>(false);
+  // Canonical text is one line with sorted keys, so views and line numbers use that layout
+  const viewStyle = useMemo<SerializeOptions>(
+    () => (canonicalOutput ? { indent: 0, compactArrayWidth: 0, sortKeys: true } : outputStyle),
+    [canonicalOutput, outputStyle]
+  );
+  // Export dialog: CSV/TSV/Markdown tables from an array container, YAML/NDJSON of a subtree
+  const [showExport, setShowExport] = useState<boolean>(false);
+  const [showMerge, setShowMerge] = useState<boolean>(false);
+  const [showChanges, setShowChanges] = useState<boolean>(false);
+  const [identityKeys, setIdentityKeys] = useState<string>("");
+  // Amber marks on the text views' changed lines, from a line diff in the sort worker
+  const [diffHighlight, setDiffHighlight] = useState<boolean>(false);
+  const [lineChanges, setLineChanges] = useState<{ removed: Set<number>; added: Set<number> } | null>(null);
+  const [diffContext, setDiffContext] = useState<number>(3);
+  const [patchWithTests, setPatchWithTests] = useState<boolean>(false);
+  // Node the tree view scrolls to when a change is picked
+  const [editorFocus, setEditorFocus] = useState<{ path: string } | null>(null);
+
+  // Streaming load: byte progress, and index mode for very large files (read-only, lazy subtrees)
+  const [loadProgress, setLoadProgress] = useState<{ done: number; total: number } | null>(null);
+  // Checkpoint of the running sort or analysis in the sort worker
+  const [jobProgress, setJobProgress] = useState<(JobProgress & { etaMs?: number }) | null>(null);
+  const [forceIndexMode, setForceIndexMode] = useState<boolean>(false);
+  const [indexMode, setIndexMode] = useState<boolean>(false);
+  const [lazyNodes, setLazyNodes] = useState<Map<string, LazyNode>>(new Map());
+  const [loadingLazyPath, setLoadingLazyPath] = useState<string | null>(null);
+
+  // Undo history now stores data, lineMap and (for JSONC/JSON5) comments
+  const [undoHistory, setUndoHistory] = useState<{ data: JsonObject, lineMap: Map<string, number>, comments?: CommentMap | null }[]>([]);
   const [sortFieldOptions, setSortFieldOptions] = useState<string[]>([]);
+  // Multi-key sort: how the selected field compares, then tie-breaking keys in order
+  const [primarySortKey, setPrimarySortKey] = useState<Omit<SortKeySpec, "key" | "direction">>({ type: "auto", nulls: "last" });
+  const [thenByKeys, setThenByKeys] = useState<SortKeySpec[]>([]);
   const [isSorting, setIsSorting] = useState<boolean>(false);
   const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
   const [analysisSkipped, setAnalysisSkipped] = useState<boolean>(false);
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
   const [isFileLoading, setIsFileLoading] = useState<boolean>(false);
   const [manualSortField, setManualSortField] = useState<string>("");
-  const [txOrderText, setTxOrderText] = useState<string | null>(null);
-  const [txOrderFileName, setTxOrderFileName] = useState<string>("");
+  // Order-by-list sort: the reference list and what it applies to, kept between runs
+  const [orderListSettings, setOrderListSettings] = useState<OrderListSettings>({
+    fileName: "",
+    text: "",
+    fileOptions: DEFAULT_ORDER_FILE_OPTIONS,
+    params: { containerPath: "view.classes.*.attributes", groupKey: "name", matchKey: "viewname", unmatched: "append" },
+  });
+  const [showOrderList, setShowOrderList] = useState<boolean>(false);
+  // Dry-run sort report awaiting Apply or Discard
+  const [sortPreview, setSortPreview] = useState<SortReport | null>(null);
+  const [orderMisses, setOrderMisses] = useState<{ unmatchedEntries: UnmatchedEntry[]; unmatchedElements: UnmatchedElement[] } | null>(null);
   const [scanStatusMsg, setScanStatusMsg] = useState<string>("");
   const scanStartRef = useRef<number>(0);
   const [leftSearch, setLeftSearch] = useState<string>("");
@@ -64,61 +150,125 @@ export default function Home() {
   const [editorViewMode, setEditorViewMode] = useState<"tree" | "text">("text");
   const [lastSortReport, setLastSortReport] = useState<SortReport | null>(null);
   const workerRef = useRef<Worker | null>(null);
-  const sortParamsRef = useRef<{ containerPath: string; sortField: string; countBefore: number; direction: "asc" | "desc"; startMs: number } | null>(null);
+  const loaderWorkerRef = useRef<Worker | null>(null);
+  const pendingLoadRef = useRef<File | null>(null);
+  // The sort worker's handler is set up once; finished sorts go through the current render's commit
+  const commitSortRef = useRef<(sorted: SortResult["data"], report: SortReport) => void>(() => {});
+  // The loader worker's handler is bound once; it reaches the current text-path loader through this
+  const loadFromBytesRef = useRef<(bytes: Uint8Array, fileName: string, dialect: JsonDialect, format?: DocumentFormat) => void>(() => {});
   const leftSearchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const rightSearchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const protectedDropdownRef = useRef<HTMLDetailsElement>(null);
+  const rawErrorViewerRef = useRef<VirtualSourceViewerRef>(null);
+  const sourceViewerRef = useRef<VirtualSourceViewerRef>(null);
+  const editedViewerRef = useRef<VirtualSourceViewerRef>(null);
+
+  // The loader worker builds the lineMap with the same serializer as the text views
+  const requestLineMap = (data: JsonValue, format: SerializeOptions) => {
+    const request: LoaderRequest = { type: "LINES", data, format };
+    loaderWorkerRef.current?.postMessage(request);
+  };
+
+  // Analysis and sorts go to the sort worker, stamped with the protocol version
+  const postToSortWorker = (body: SortWorkerRequestBody) => {
+    const request: SortWorkerRequest = { version: SORT_WORKER_PROTOCOL_VERSION, ...body };
+    workerRef.current?.postMessage(request);
+  };
+
+  // Every worker job gets an ID; only the latest analysis and the latest sort are waited for,
+  // so messages of a replaced or cancelled job are dropped
+  const jobIdRef = useRef(0);
+  const activeJobsRef = useRef<Record<JobKind, number | null>>({ analyze: null, sort: null, diff: null });
+  const startWorkerJob = (job: SortWorkerJob) => {
+    const kind: JobKind = job.type === "ANALYZE" ? "analyze" : job.type === "LINE_DIFF" ? "diff" : "sort";
+    const previous = activeJobsRef.current[kind];
+    if (previous !== null) postToSortWorker({ type: "CANCEL", jobId: previous });
+    const jobId = ++jobIdRef.current;
+    activeJobsRef.current[kind] = jobId;
+    setJobProgress(null);
+    postToSortWorker({ ...job, jobId });
+  };
+  // The overlay's Cancel; a line diff runs in the background and is left alone
+  const cancelWorkerJobs = () => {
+    const active = activeJobsRef.current;
+    if (active.analyze !== null) {
+      setScanStatusMsg("Scan cancelled");
+      setIsFileLoading(false);
+    }
+    (["analyze", "sort"] as JobKind[]).forEach((kind) => {
+      const jobId = active[kind];
+      if (jobId !== null) postToSortWorker({ type: "CANCEL", jobId });
+      active[kind] = null;
+    });
+    setJobProgress(null);
+    setIsSorting(false);
+    setIsAnalyzing(false);
+  };
 
   // Initialize Worker
   useEffect(() => {
-    workerRef.current = new Worker('/worker.js');
-
-    workerRef.current.onmessage = (e) => {
-      const { type, success, result, itemCount, error } = e.data;
-
-      if (success) {
-        if (type === 'ANALYZE_RESULT') {
-          setStructureAnalysis(result.structureAnalysis);
-          setContainerOptions(result.containerOptions);
-          setProtectedContainers(result.protectedContainers);
-          if (result.lineMap) setLineMap(result.lineMap);
-          setIsAnalyzing(false);
-          setIsFileLoading(false);
-          // Show scan duration
-          if (scanStartRef.current > 0) {
-            const elapsed = Date.now() - scanStartRef.current;
-            const h = String(Math.floor(elapsed / 3600000)).padStart(2, '0');
-            const m = String(Math.floor((elapsed % 3600000) / 60000)).padStart(2, '0');
-            const s = String(Math.floor((elapsed % 60000) / 1000)).padStart(2, '0');
-            setScanStatusMsg(`Scanned in ${h}:${m}:${s}`);
-            scanStartRef.current = 0;
-          }
-        } else if (type === 'SORT_RESULT') {
-          // Build sort report
-          const params = sortParamsRef.current;
-          const countAfter: number = itemCount ?? 0;
-          setLastSortReport({
-            containerPath: params?.containerPath ?? "",
-            sortKey: params?.sortField ?? "",
-            direction: params?.direction ?? "asc",
-            countBefore: countAfter,
-            countAfter,
-            integrityPassed: true,
-            movementLog: [],
-            durationMs: params ? Date.now() - params.startMs : 0,
-          });
+    workerRef.current = new Worker(new URL("./workers/sort.worker.ts", import.meta.url));
 
-          // Push current state to undo history before updating
-          setUndoHistory(prev => [...prev, { data: editedData as JsonObject, lineMap: lineMap }]);
+    workerRef.current.onmessage = (e: MessageEvent<SortWorkerResponse>) => {
+      const msg = e.data;
+      if (msg.version !== SORT_WORKER_PROTOCOL_VERSION) {
+        console.error(`[sort] worker speaks protocol ${msg.version}, page ${SORT_WORKER_PROTOCOL_VERSION}`);
+        return;
+      }
+      const active = activeJobsRef.current;
+      const kind = (Object.keys(active) as JobKind[]).find((k) => active[k] === msg.jobId);
+      // A late message from a job that was replaced or cancelled must not touch newer state
+      if (!kind || msg.type === "CANCELLED") return;
+      if (msg.type === "PROGRESS") {
+        if (kind !== "diff") setJobProgress({ ...msg.progress, etaMs: msg.etaMs });
+        return;
+      }
+      active[kind] = null;
+      if (kind !== "diff") setJobProgress(null);
 
-          setEditedData(result);
-          if (e.data.lineMap) setLineMap(e.data.lineMap);
-          setIsSorting(false);
-          console.log(`✓ Sort complete: ${itemCount} items sorted. LineMap size: ${e.data.lineMap?.size}`);
+      if (msg.type === "ANALYZE_RESULT") {
+        const { result } = msg;
+        setStructureAnalysis(result.structureAnalysis);
+        setContainerOptions(result.containerOptions);
+        setProtectedContainers(result.protectedContainers);
+        setIsAnalyzing(false);
+        setIsFileLoading(false);
+        // Show scan duration
+        if (scanStartRef.current > 0) {
+          const elapsed = Date.now() - scanStartRef.current;
+          const h = String(Math.floor(elapsed / 3600000)).padStart(2, '0');
+          const m = String(Math.floor((elapsed % 3600000) / 60000)).padStart(2, '0');
+          const s = String(Math.floor((elapsed % 60000) / 1000)).padStart(2, '0');
+          setScanStatusMsg(`Scanned in ${h}:${m}:${s}`);
+          scanStartRef.current = 0;
+        }
+      } else if (msg.type === "SORT_RESULT") {
+        setIsSorting(false);
+        const { data, report } = msg.result;
+        if (report.dryRun) setSortPreview(report);
+        else commitSortRef.current(data, report);
+        if (msg.orderMisses) setOrderMisses(msg.orderMisses);
+        console.log(`[sort] ${report.integrityPassed ? `done — ${report.countAfter} items sorted` : `failed — ${report.error}`}`);
+      } else if (msg.type === "LINE_DIFF_RESULT") {
+        const { removed, added, unified } = msg.result;
+        setLineChanges({ removed: new Set(removed), added: new Set(added) });
+        if (unified !== undefined) {
+          if (!unified) {
+            alert("No differences: the edited document reads the same as the source.");
+            return;
+          }
+          const blob = new Blob([unified], { type: "text/x-diff" });
+          const url = URL.createObjectURL(blob);
+          const a = document.createElement("a"); a.href = url; a.download = "changes.diff"; a.click();
+          URL.revokeObjectURL(url);
         }
       } else {
-        console.error(error);
-        alert(type === 'SORT_RESULT' ? 'Sort failed: ' + error : 'Analysis failed: ' + error);
+        console.error(msg.error);
+        if (msg.request === "LINE_DIFF") {
+          alert('Diff failed: ' + msg.error);
+          return;
+        }
+        alert(msg.request === "ANALYZE" ? 'Analysis failed: ' + msg.error : 'Sort failed: ' + msg.error);
         setIsSorting(false);
         setIsAnalyzing(false);
         setIsFileLoading(false);
@@ -137,12 +287,114 @@ export default function Home() {
     };
   }, []); // Empty dependency array = run once on mount
 
+  // Loader worker — chunked streaming parse and lazy subtree loading
+  useEffect(() => {
+    loaderWorkerRef.current = new Worker(new URL("./workers/loader.worker.ts", import.meta.url));
+
+    loaderWorkerRef.current.onmessage = (e: MessageEvent<LoaderResponse>) => {
+      const msg = e.data;
+      if (msg.type === "LOAD_PROGRESS") {
+        setLoadProgress({ done: msg.bytesRead, total: msg.totalBytes });
+      } else if (msg.type === "LOAD_RESULT") {
+        const file = pendingLoadRef.current;
+        pendingLoadRef.current = null;
+        setLoadProgress(null);
+        if (!msg.success) {
+          // Small files are re-read as text so the error panel can show the source and offer a repair
+          if (file && file.size <= TEXT_FALLBACK_BYTES) {
+            file.arrayBuffer().then(
+              (buf) => loadFromBytesRef.current(new Uint8Array(buf), file.name, "json"),
+              () => {
+                setLoadError("Failed to read file");
+                setIsFileLoading(false);
+              }
+            );
+            return;
+          }
+          setLoadError(msg.error);
+          setIsFileLoading(false);
+          return;
+        }
+        const json = msg.data as JsonObject;
+        // One shared tree: edits never mutate in place (sorts return new data), so no deep clone is needed
+        setSourceData(json);
+        setEditedData(json);
+        // The stream's map counts lines of the file as it was written; only the index-mode tree
+        // shows that layout, the text views are rebuilt in the view style (see the lineMap effect)
+        setLineMap(msg.indexMode ? msg.lineMap : new Map());
+        setIndexMode(msg.indexMode);
+        setLazyNodes(new Map(msg.lazyNodes.map((n) => [n.path, n])));
+        setSourceDialect("json");
+        setComments(null);
+        setSourceFormat("json");
+        setLineErrors([]);
+        setDuplicates(msg.duplicates);
+        setImportNotes([]);
+        setSourceEncoding(msg.encoding);
+        setUndoHistory([]);
+        setLoadError(null);
+        setValidation(null);
+        setJsonError(null);
+        setCollapsedPaths(new Set());
+        setEditorViewMode(msg.indexMode ? 'tree' : 'text');
+        setIsFileLoading(false);
+      } else if (msg.type === "LINES_RESULT") {
+        setLineMap(msg.lineMap);
+      } else if (msg.type === "MATERIALIZE_RESULT") {
+        setLoadingLazyPath(null);
+        if (!msg.success) {
+          alert('Could not load subtree: ' + msg.error);
+          return;
+        }
+        setEditedData((prev) => prev && (graftSubtree(prev, msg.path, msg.data) as JsonObject));
+        setSourceData((prev) => prev && (graftSubtree(prev, msg.path, msg.data) as JsonObject));
+        setLineMap((prev) => {
+          const next = new Map(prev);
+          msg.lineMap.forEach((line, path) => next.set(path, line));
+          return next;
+        });
+        if (msg.duplicates.length > 0) setDuplicates((prev) => [...prev, ...msg.duplicates]);
+        setLazyNodes((prev) => {
+          const next = new Map(prev);
+          next.delete(msg.path);
+          msg.lazyNodes.forEach((n) => next.set(n.path, n));
+          return next;
+        });
+        setCollapsedPaths((prev) => {
+          const next = new Set(prev);
+          next.delete(msg.path);
+          return next;
+        });
+      }
+    };
+
+    loaderWorkerRef.current.onerror = (err) => {
+      console.error(err);
+      pendingLoadRef.current = null;
+      setLoadProgress(null);
+      setLoadingLazyPath(null);
+      setIsFileLoading(false);
+    };
+
+    return () => {
+      loaderWorkerRef.current?.terminate();
+    };
+  }, []);
+
 
 
   const [collapsedPaths, setCollapsedPaths] = useState<Set<string>>(new Set());
 
   // Analyze JSON structure whenever data changes
   useEffect(() => {
+    if (indexMode) {
+      // Index mode holds only the top levels; a structure scan would be meaningless
+      setAnalysisSkipped(false);
+      setStructureAnalysis(null);
+      setContainerOptions([]);
+      setProtectedContainers([]);
+      return;
+    }
     if (editedData && workerRef.current) {
       // Skip auto-analysis for large files to prevent hang
       // Check for array length or object key count instead of stringifying
@@ -157,7 +409,6 @@ export default function Home() {
       }
 
       if (isLarge) {
-        console.log("Large file detected (>2000 items). Skipping auto-analysis.");
         setAnalysisSkipped(true);
         setStructureAnalysis(null); // Clear previous analysis
         return;
@@ -167,90 +418,143 @@ export default function Home() {
       setIsAnalyzing(true);
       setScanStatusMsg("Scanning...");
       scanStartRef.current = Date.now();
-      // Send to worker for initial analysis and Line Map generation
-      workerRef.current.postMessage({
-        type: 'ANALYZE',
-        data: editedData,
-        jsonString: JSON.stringify(editedData, null, 2) // Pass raw text for line mapping
-      });
+      startWorkerJob({ type: "ANALYZE", data: editedData });
     } else {
       setStructureAnalysis(null);
       setContainerOptions([]);
       setProtectedContainers([]);
       setSortFieldOptions([]);
     }
-  }, [editedData]);
+  }, [editedData, indexMode]);
 
   const handleMouseDown = useCallback(() => {
     setIsResizing(true);
   }, []);
 
   const loadTestFile = (type: "fruit" | "cars") => {
-    const data = type === "fruit" ? fruitCatalog : vehicleInventory;
-    const mutableData = JSON.parse(JSON.stringify(data));
+    // The fixtures are readonly constants; documents are never changed in place, so they can be used as they are
+    const data = (type === "fruit" ? fruitCatalog : vehicleInventory) as unknown as JsonObject;
     setSourceFileName(`test-${type}.json`);
-    setSourceData(mutableData);
-    setEditedData(JSON.parse(JSON.stringify(data)));
+    setSourceData(data);
+    setEditedData(data);
+    setSourceDialect("json");
+    setComments(null);
+    setSourceFormat("json");
+    setLineErrors([]);
+    setDuplicates([]);
+    setImportNotes([]);
+    setSourceEncoding(null);
+    setIndexMode(false);
+    setLazyNodes(new Map());
     setLoadError(null);
     setValidation(null);
     setJsonError(null);
     // Auto-collapse for large test data
-    const topKeys = new Set(Object.keys(mutableData));
+    const topKeys = new Set(Object.keys(data));
     setCollapsedPaths(topKeys.size > 100 ? topKeys : new Set());
     setEditorViewMode('text');
   };
 
+  // Text path: JSONC/JSON5/NDJSON and imported formats, and the fallback when a streamed JSON parse fails
+  const loadFromBytes = (bytes: Uint8Array, fileName: string, dialect: JsonDialect, format?: DocumentFormat) => {
+    let text = "";
+    try {
+      const importFormat = detectImportFormat(fileName);
+      const loaded = importFormat
+        ? importBytes(bytes, fileName, importFormat, {
+            inference: { detectNumbers: importOptions.detectNumbers, emptyAsNull: importOptions.emptyAsNull },
+            csv: { headerRow: importOptions.headerRow },
+          })
+        : parseJsonBytes(bytes, fileName, { dialect, format, duplicateKeys: duplicateKeyPolicy });
+      text = loaded.text;
+      setSourceEncoding({ encoding: loaded.encoding!, bom: loaded.bom!, lineEnding: loaded.lineEnding });
+      if (loaded.error !== undefined && importFormat) {
+        setLoadError(loaded.error);
+        setJsonError({ error: loaded.error, raw: text, suggestions: [] });
+        return;
+      }
+      if (loaded.error !== undefined) {
+        // Try an automatic repair so the error panel can offer it
+        const repair = repairJson(text, { duplicateKeys: duplicateKeyPolicy });
+        setLoadError(loaded.error);
+        setJsonError({
+          error: loaded.error,
+          raw: text,
+          suggestions: repair.fixes.map(describeFix),
+          detail: loaded.errorDetail,
+          repair: repair.data !== undefined ? repair : undefined,
+        });
+        return;
+      }
+      const json = loaded.data as JsonObject;
+      setSourceDialect(importFormat ? "json" : dialect);
+      setComments(loaded.comments && loaded.comments.size > 0 ? loaded.comments : null);
+      setSourceFormat(loaded.format ?? "json");
+      setLineErrors(loaded.lineErrors ?? []);
+      setDuplicates(loaded.duplicates ?? []);
+      setImportNotes(loaded.importNotes ?? []);
+      // The old document's map must not outlive it; the lineMap effect builds the new one
+      setLineMap(new Map());
+      setUndoHistory([]);
+      setIndexMode(false);
+      setLazyNodes(new Map());
+      setSourceData(json);
+      setEditedData(json);
+      setLoadError(null);
+      setValidation(null);
+      setJsonError(null);
+      // Auto-collapse top-level keys for large files to prevent UI freeze
+      const topKeys = Object.keys(json);
+      const totalElements = topKeys.reduce((sum, k) => {
+        const v = json[k];
+        return sum + (Array.isArray(v) ? v.length : (v && typeof v === 'object' ? Object.keys(v).length : 1));
+      }, 0);
+      if (totalElements > 500) {
+        setCollapsedPaths(new Set(topKeys));
+        setEditorViewMode('text');
+      } else {
+        setCollapsedPaths(new Set());
+        setEditorViewMode('text');
+      }
+    } catch (err: any) {
+      setLoadError(err.message || String(err));
+      setJsonError({
+        error: err.message,
+        raw: text,
+        suggestions: []
+      });
+    } finally {
+      setIsFileLoading(false);
+    }
+  };
+  loadFromBytesRef.current = loadFromBytes;
+
   const handleFileLoad = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
     setSourceFileName(file.name);
     setIsFileLoading(true);
-    const reader = new FileReader();
+    const format = loadDialect === "ndjson" ? "ndjson" : detectFormat(file.name);
+    const dialect = loadDialect === "auto" ? detectDialect(file.name) : loadDialect === "ndjson" ? "json" : loadDialect;
 
-    reader.onload = (event) => {
-      try {
-        const text = event.target?.result as string;
-        const json = JSON.parse(text);
-        setSourceData(json);
-        setEditedData(JSON.parse(JSON.stringify(json)));
-        setLoadError(null);
-        setValidation(null);
-        setJsonError(null);
-        // Auto-collapse top-level keys for large files to prevent UI freeze
-        const topKeys = Object.keys(json);
-        const totalElements = topKeys.reduce((sum, k) => {
-          const v = json[k];
-          return sum + (Array.isArray(v) ? v.length : (v && typeof v === 'object' ? Object.keys(v).length : 1));
-        }, 0);
-        if (totalElements > 500) {
-          setCollapsedPaths(new Set(topKeys));
-          setEditorViewMode('text');
-          console.log(`Large file detected (${totalElements} elements) — auto-switched to Text View`);
-        } else {
-          setCollapsedPaths(new Set());
-          setEditorViewMode('text');
-        }
-
-        // Send to worker for initial analysis and Line Map generation
-        if (workerRef.current) {
-          workerRef.current.postMessage({
-            type: 'ANALYZE',
-            data: json,
-            jsonString: text // Pass raw text for line mapping
-          });
-        }
-      } catch (err: any) {
-        setLoadError(err.message || String(err));
-        setJsonError({
-          error: err.message,
-          raw: event.target?.result as string,
-          suggestions: []
-        });
-      } finally {
-        setIsFileLoading(false);
-      }
-    };
+    // Strict JSON streams through the loader worker; the main thread never holds the raw text
+    if (dialect === "json" && format !== "ndjson" && !detectImportFormat(file.name) && loaderWorkerRef.current) {
+      const indexed = forceIndexMode || file.size > INDEX_MODE_BYTES;
+      pendingLoadRef.current = file;
+      setLoadProgress({ done: 0, total: file.size });
+      const request: LoaderRequest = {
+        type: "LOAD",
+        file,
+        indexMode: indexed,
+        materializeDepth: INDEX_MATERIALIZE_DEPTH,
+        duplicateKeys: duplicateKeyPolicy,
+      };
+      loaderWorkerRef.current.postMessage(request);
+      return;
+    }
 
+    const reader = new FileReader();
+    reader.onload = (event) => loadFromBytes(new Uint8Array(event.target?.result as ArrayBuffer), file.name, dialect, format);
     reader.onerror = () => {
       setLoadError("Failed to read file");
       setIsFileLoading(false);
@@ -258,10 +562,68 @@ export default function Home() {
 
     // Small delay to let React render loading state before blocking read
     setTimeout(() => {
-      reader.readAsText(file);
+      reader.readAsArrayBuffer(file);
     }, 50);
   };
 
+  const loadLazySubtree = useCallback((path: string) => {
+    if (!loaderWorkerRef.current) return;
+    setLoadingLazyPath(path);
+    const request: LoaderRequest = { type: "MATERIALIZE", path };
+    loaderWorkerRef.current.postMessage(request);
+  }, []);
+
+  const acceptRepair = () => {
+    const repaired = jsonError?.repair?.data;
+    if (repaired === undefined) return;
+    setSourceData(repaired as JsonObject);
+    setEditedData(repaired as JsonObject);
+    setSourceDialect("json");
+    setComments(null);
+    setSourceFormat("json");
+    setLineErrors([]);
+    setDuplicates(jsonError?.repair?.duplicates ?? []);
+    setImportNotes([]);
+    // The repair is new text, not the bytes that failed to load
+    setSourceEncoding(null);
+    setUndoHistory([]);
+    setIndexMode(false);
+    setLazyNodes(new Map());
+    setLoadError(null);
+    setValidation(null);
+    setJsonError(null);
+    setCollapsedPaths(new Set());
+    setEditorViewMode('text');
+  };
+
+  // The merge replaces the edited document as one undoable edit; with nothing loaded it is loaded as the source too
+  const applyMerge = (data: JsonObject, fileName: string) => {
+    setShowMerge(false);
+    if (editedData) {
+      setUndoHistory(prev => [...prev, { data: editedData, lineMap, comments }]);
+      setEditedData(data);
+      return;
+    }
+    setSourceFileName(fileName);
+    setSourceData(data);
+    setEditedData(data);
+    setUndoHistory([]);
+    setSourceDialect("json");
+    setComments(null);
+    setSourceFormat("json");
+    setLineErrors([]);
+    setDuplicates([]);
+    setImportNotes([]);
+    setSourceEncoding(null);
+    setIndexMode(false);
+    setLazyNodes(new Map());
+    setLoadError(null);
+    setValidation(null);
+    setJsonError(null);
+    setCollapsedPaths(new Set());
+    setEditorViewMode('text');
+  };
+
   const validate = () => {
     if (!editedData) {
       setValidation({ ok: false, msg: "No data loaded" });
@@ -283,33 +645,50 @@ export default function Home() {
   // Classes stay in their original order. Each attribute object moves as a whole unit.
   // Works with any file that has view.classes[].attributes[].viewname structure.
   const sortAttributesByViewname = useCallback((data: JsonObject): JsonObject => {
-    const clone = JSON.parse(JSON.stringify(data));
-    const classes = (clone as any)?.view?.classes;
+    const classes = (data as any)?.view?.classes;
     if (!Array.isArray(classes)) {
       alert('Expected view.classes to be an array');
-      return clone;
+      return data;
     }
     let totalSorted = 0;
-    classes.forEach((cls: any) => {
-      if (!cls || !Array.isArray(cls.attributes)) return;
-      cls.attributes.sort((a: any, b: any) => {
-        const va = String(a?.viewname ?? '');
-        const vb = String(b?.viewname ?? '');
-        return va.localeCompare(vb);
-      });
+    // Only view, view.classes and each sorted attributes array are copied; the attributes themselves are shared
+    const sortedClasses = classes.map((cls: any) => {
+      if (!cls || !Array.isArray(cls.attributes)) return cls;
       totalSorted += cls.attributes.length;
+      return updateIn(cls, ["attributes"], (attributes) =>
+        (attributes as JsonArray).slice().sort((a: any, b: any) => {
+          const va = String(a?.viewname ?? '');
+          const vb = String(b?.viewname ?? '');
+          return va.localeCompare(vb);
+        })
+      );
     });
     console.log(`✓ Sorted ${totalSorted} attributes across ${classes.length} classes by viewname`);
-    return clone;
+    return setIn(data, ["view", "classes"], sortedClasses) as JsonObject;
   }, []);
 
   const saveCopy = () => {
     if (!editedData || !sourceFileName) return;
     setIsProcessing(true);
     setTimeout(() => {
-      const baseName = sourceFileName.replace(/\.json$/i, "");
-      const copy = `${baseName}_copy.json`;
-      const blob = new Blob([JSON.stringify(editedData, null, 2)], { type: "application/json" });
+      const extension = sourceFileName.match(/\.(json[c5l]?|ndjson)$/i)?.[1] ?? "json";
+      // Imported YAML/TOML/CSV/XML are saved as JSON
+      const baseName = sourceFileName.replace(/\.(json[c5l]?|ndjson|ya?ml|toml|[ct]sv|xml)$/i, "");
+      const keepDialect = saveDialect === "original" && sourceDialect !== "json";
+      const keepNdjson = saveDialect === "original" && sourceFormat === "ndjson" && Array.isArray(editedData);
+      const copy = `${baseName}_copy.${keepNdjson ? extension : keepDialect ? sourceDialect : "json"}`;
+      const canonical = !keepNdjson && !keepDialect && canonicalOutput ? canonicalize(editedData) : null;
+      if (canonical?.error) {
+        alert("Cannot write canonical JSON: " + canonical.error);
+        setIsProcessing(false);
+        return;
+      }
+      const text = keepNdjson
+        ? stringifyNdjson(editedData as JsonArray)
+        : keepDialect
+          ? stringifyWithComments(editedData, comments ?? new Map())
+          : canonical?.text ?? serialize(editedData, outputStyle);
+      const blob = new Blob([encodeText(text, { bom: saveBom, lineEnding: saveLineEnding })], { type: "application/json" });
       const url = URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
@@ -324,15 +703,127 @@ export default function Home() {
 
   // VirtualSourceViewer handles highlighting efficiently on-the-fly.
   // We no longer need pre-computed HTML strings.
+  // The text views are serialize(editedData, viewStyle), so every edit and every style change rebuilds
+  // the map; in index mode it stays the stream loader's, which is where the lazy nodes are
+  useEffect(() => {
+    if (!editedData || indexMode) return;
+    requestLineMap(editedData, viewStyle);
+  }, [editedData, viewStyle, indexMode]);
+
   const sourceJsonString = useMemo(() => {
-    if (!sourceData) return '';
-    return JSON.stringify(sourceData, null, 2);
-  }, [sourceData]);
+    if (!sourceData || indexMode) return '';
+    return serialize(sourceData, viewStyle);
+  }, [sourceData, indexMode, viewStyle]);
 
   const editedJsonString = useMemo(() => {
-    if (!editedData) return '';
-    return JSON.stringify(editedData, null, 2);
-  }, [editedData]);
+    if (!editedData || indexMode) return '';
+    return serialize(editedData, viewStyle);
+  }, [editedData, indexMode, viewStyle]);
+
+  // Structural diff for the changes panel, and where each node sits in the two text views
+  const changes = useMemo<JsonChange[]>(() => {
+    if (!showChanges || !sourceData || !editedData || indexMode) return [];
+    const keys = identityKeys.split(",").map((k) => k.trim()).filter(Boolean);
+    return diffJson(sourceData, editedData, { identityKeys: keys });
+  }, [showChanges, sourceData, editedData, indexMode, identityKeys]);
+
+  const changeLines = useMemo(() => {
+    if (!showChanges || !sourceData || !editedData || indexMode) return null;
+    return {
+      source: serializeWithLines(sourceData, viewStyle).lines,
+      edited: serializeWithLines(editedData, viewStyle).lines,
+    };
+  }, [showChanges, sourceData, editedData, indexMode, viewStyle]);
+
+  // A removed node is shown at its nearest ancestor on the edited side, an added one on the source side
+  const showChange = (change: JsonChange) => {
+    if (!changeLines) return;
+    const nearest = (lines: Map<string, number>, path: string) => {
+      while (path && !lines.has(path)) path = path.includes(".") ? path.slice(0, path.lastIndexOf(".")) : "";
+      return path;
+    };
+    const sourcePath = nearest(changeLines.source, change.oldPath ?? change.path);
+    const editedPath = nearest(changeLines.edited, change.path);
+    sourceViewerRef.current?.scrollToLine(changeLines.source.get(sourcePath) ?? 1);
+    if (editorViewMode === 'text') {
+      editedViewerRef.current?.scrollToLine(changeLines.edited.get(editedPath) ?? 1);
+      return;
+    }
+    setCollapsedPaths((prev) => {
+      const next = new Set(prev);
+      const parts = editedPath ? editedPath.split(".") : [];
+      for (let i = 1; i < parts.length; i++) next.delete(parts.slice(0, i).join("."));
+      return next;
+    });
+    setEditorFocus({ path: editedPath });
+  };
+
+  // Re-diff a moment after the texts stop changing; a newer request replaces one still running
+  useEffect(() => {
+    setLineChanges(null);
+    if (!diffHighlight || indexMode || !sourceJsonString || sourceJsonString === editedJsonString) return;
+    const timer = setTimeout(() => {
+      startWorkerJob({ type: "LINE_DIFF", source: sourceJsonString, edited: editedJsonString, options: { algorithm: "patience" } });
+    }, 300);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [diffHighlight, indexMode, sourceJsonString, editedJsonString]);
+
+  const downloadUnifiedDiff = () => {
+    if (!sourceJsonString || !editedJsonString) return;
+    const name = sourceFileName || "document.json";
+    startWorkerJob({
+      type: "LINE_DIFF",
+      source: sourceJsonString,
+      edited: editedJsonString,
+      options: { algorithm: "patience" },
+      unified: { context: diffContext, fromFile: `a/${name}`, toFile: `b/${name}` },
+    });
+  };
+
+  // The changes as an RFC 6902 patch; arrays are matched with the changes panel's identity keys
+  const exportPatch = () => {
+    if (!sourceData || !editedData) return;
+    setIsProcessing(true);
+    setTimeout(() => {
+      const keys = identityKeys.split(",").map((k) => k.trim()).filter(Boolean);
+      const patch = createPatch(sourceData, editedData, { identityKeys: keys, withTests: patchWithTests });
+      setIsProcessing(false);
+      if (patch.length === 0) {
+        alert("No differences: there is nothing to patch.");
+        return;
+      }
+      const baseName = (sourceFileName || "document.json").replace(/\.[^.]+$/, "");
+      const blob = new Blob([serialize(patch, outputStyle)], { type: "application/json-patch+json" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a"); a.href = url; a.download = `${baseName}.patch.json`; a.click();
+      URL.revokeObjectURL(url);
+    }, 50);
+  };
+
+  // Replay a patch file on the edited document as one undoable edit; a failing operation leaves it as it was
+  const applyPatchFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !editedData) return;
+    file.text().then((text) => {
+      const loaded = parseJsonFile(text, file.name, { format: "json" });
+      if (loaded.error) {
+        alert(`Could not read ${file.name}: ${loaded.error}`);
+        return;
+      }
+      const { data, error } = applyPatch(editedData, loaded.data);
+      if (error) {
+        alert(`Patch not applied — ${error}`);
+        return;
+      }
+      // Comments stay keyed by path; the patch may have moved what they were on
+      setUndoHistory(prev => [...prev, { data: editedData, lineMap, comments }]);
+      setEditedData(data as JsonObject);
+    }).catch((err: unknown) => {
+      alert(`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    });
+  };
 
   const toggleCollapse = useCallback((path: string) => {
     setCollapsedPaths((prev) => {
@@ -351,7 +842,7 @@ export default function Home() {
     setIsProcessing(true);
     // Use setTimeout so overlay renders before heavy work
     setTimeout(() => {
-      const isObject = (v: any): v is JsonObject => v !== null && typeof v === "object" && !Array.isArray(v);
+      const isObject = (v: any): v is JsonObject => v !== null && typeof v === "object" && !Array.isArray(v) && !isLosslessNumber(v);
       const isArray = (v: any): v is JsonArray => Array.isArray(v);
 
       const allPaths = new Set<string>();
@@ -379,24 +870,173 @@ export default function Home() {
     }, 50);
   }, []);
 
+  // Container, first field and key list for Sort and Preview, from the path box and the key controls
+  const buildSortRequest = (): { containerPath: string; sortField?: string; keys: SortKeySpec[] } | null => {
+    if (!editedData || !sortContainer) {
+      alert('Please enter a sort path first');
+      return null;
+    }
+
+    const selectedPath = sortContainer.trim();
+
+    // Match against containerOptions to find container path + sort field
+    const match = (containerOptions as any[]).find((c: any) => {
+      const fullPath = c.sortField ? `${c.path}.${c.sortField}` : c.path;
+      return fullPath === selectedPath;
+    });
+
+    const containerPath: string = match?.path ?? selectedPath;
+    const sortField: string | undefined = match?.sortField ?? undefined;
+
+    // The selected field is the first key; "then by" keys break its ties.
+    // A dictionary with no field sorts by key name, with the chosen comparator.
+    const keys: SortKeySpec[] = sortField
+      ? [{ key: sortField, direction: sortDirection, ...primarySortKey }, ...thenByKeys.filter((k) => k.key.trim())]
+      : match?.type === "object"
+        ? [{ key: "", source: "key", direction: sortDirection, ...primarySortKey }, ...thenByKeys.filter((k) => k.key.trim())]
+        : [];
+    return { containerPath, sortField, keys };
+  };
+
+  // A finished sort: its report, an undo point, comments following their array elements, fresh line numbers
+  const commitSortResult = (sorted: SortResult["data"], report: SortReport) => {
+    setLastSortReport(report);
+    setOrderMisses(null);
+    if (!report.integrityPassed || !editedData) return;
+    setUndoHistory(prev => [...prev, { data: editedData, lineMap, comments }]);
+    if (comments) {
+      // Innermost containers first, while the paths around them still match the comments;
+      // reordered object members keep their paths
+      const depth = (path: string) => (path ? path.split(".").length : 0);
+      const byDepth = report.containers.filter((c) => c.kind === "array").sort((a, b) => depth(b.path) - depth(a.path));
+      setComments(byDepth.reduce((acc, c) => remapComments(acc, c.path, c.movementLog), comments));
+    }
+    setEditedData(sorted as JsonObject);
+  };
+  commitSortRef.current = commitSortResult;
+
+  // Sorts run in the sort worker: a dry run opens the preview, a real one commits
+  const runWorkerSort = (params: Omit<SortParams, "keysFor">) => {
+    if (!editedData || !workerRef.current) return;
+    setIsSorting(true);
+    startWorkerJob({ type: "SORT", data: editedData, params });
+  };
+
+  // Order-by-list sort, in the sort worker; the report carries comments along with their elements
+  const applyOrderList = (settings: OrderListSettings, list: OrderList) => {
+    setOrderListSettings(settings);
+    setShowOrderList(false);
+    if (!editedData) return;
+    const { params } = settings;
+    setSortPreview(null);
+    if (!workerRef.current) {
+      alert('Worker not ready');
+      return;
+    }
+    setIsSorting(true);
+    startWorkerJob({ type: "SORT_TX", data: editedData, list, params: { ...params, format: viewStyle } });
+  };
+
   return (
     <div className="app">
+      {showOrderList && editedData && (
+        <OrderListDialog
+          data={editedData}
+          sourceFileName={sourceFileName}
+          initial={orderListSettings}
+          containerPaths={Array.from(new Set(containerOptions.map((c) => c.path)))}
+          onApply={applyOrderList}
+          onClose={() => setShowOrderList(false)}
+        />
+      )}
+      {showMerge && (
+        <MergeDialog
+          current={editedData ? { fileName: sourceFileName || "document.json", data: editedData } : null}
+          identityKeys={identityKeys}
+          onApply={(data, fileName) => applyMerge(data as JsonObject, fileName)}
+          onClose={() => setShowMerge(false)}
+        />
+      )}
+      {showExport && editedData && (
+        <ExportDialog
+          data={editedData}
+          fileName={sourceFileName || "data.json"}
+          output={{ bom: saveBom, lineEnding: saveLineEnding }}
+          onClose={() => setShowExport(false)}
+        />
+      )}
       <LoadingOverlay
-        isLoading={isSorting || isGenerating || isAnalyzing || isFileLoading || isProcessing}
+        isLoading={isSorting || isGenerating || isAnalyzing || isFileLoading || isProcessing || loadingLazyPath !== null}
         message={
           isSorting ? "Sorting..." :
             isGenerating ? "Data Generation in Progress..." :
               isAnalyzing ? "Analyzing JSON Structure..." :
                 isFileLoading ? "Reading File..." :
-                  isProcessing ? "Processing..." :
-                    "Loading..."
+                  loadingLazyPath !== null ? `Loading ${loadingLazyPath}...` :
+                    isProcessing ? "Processing..." :
+                      "Loading..."
         }
+        progress={isFileLoading ? loadProgress : null}
+        jobProgress={isSorting || isAnalyzing ? jobProgress : null}
+        onCancel={isSorting || isAnalyzing ? cancelWorkerJobs : undefined}
       />
       <div className="toolbar">
         <label>
           Load JSON file
-          <input type="file" accept=".json" onChange={handleFileLoad} />
+          <input type="file" accept=".json,.jsonc,.json5,.ndjson,.jsonl,.yaml,.yml,.toml,.csv,.tsv,.xml" onChange={handleFileLoad} />
         </label>
+        <details style={{ position: "relative" }}>
+          <summary
+            title="How YAML/TOML/CSV/XML files are converted (applies to the next load)"
+            style={{ cursor: "pointer", padding: "0.4rem", border: "1px solid #00ffff", borderRadius: "4px", listStyle: "none" }}
+          >
+            Import options ▾
+          </summary>
+          <div style={{
+            position: "absolute", top: "100%", left: 0, zIndex: 20, marginTop: "0.25rem", padding: "0.5rem",
+            background: "var(--surface)", border: "1px solid #00ffff", borderRadius: "4px",
+            display: "flex", flexDirection: "column", gap: "0.25rem", whiteSpace: "nowrap", fontSize: "13px"
+          }}>
+            <label style={{ border: "none", display: "flex", alignItems: "center", gap: "0.25rem" }}>
+              <input type="checkbox" checked={importOptions.headerRow} onChange={(e) => setImportOptions({ ...importOptions, headerRow: e.target.checked })} />
+              CSV: first row is a header
+            </label>
+            <label style={{ border: "none", display: "flex", alignItems: "center", gap: "0.25rem" }}>
+              <input type="checkbox" checked={importOptions.detectNumbers} onChange={(e) => setImportOptions({ ...importOptions, detectNumbers: e.target.checked })} />
+              Detect numbers
+            </label>
+            <label style={{ border: "none", display: "flex", alignItems: "center", gap: "0.25rem" }}>
+              <input type="checkbox" checked={importOptions.emptyAsNull} onChange={(e) => setImportOptions({ ...importOptions, emptyAsNull: e.target.checked })} />
+              Empty cells/text as null
+            </label>
+          </div>
+        </details>
+        <select
+          value={loadDialect}
+          onChange={(e) => setLoadDialect(e.target.value as "auto" | JsonDialect | "ndjson")}
+          title="Input format — Auto picks JSONC/JSON5/NDJSON from the extension, and NDJSON from line-per-record content"
+          style={{ padding: "0.4rem", background: "var(--surface)", color: "var(--text)", border: "1px solid #00ffff", borderRadius: "4px" }}
+        >
+          <option value="auto">Auto</option>
+          <option value="json">JSON</option>
+          <option value="jsonc">JSONC</option>
+          <option value="json5">JSON5</option>
+          <option value="ndjson">NDJSON</option>
+        </select>
+        <label title={`Open read-only, loading subtrees on expand (always on above ${INDEX_MODE_BYTES / (1024 * 1024)}MB)`} style={{ border: "none", display: "flex", alignItems: "center", gap: "0.25rem" }}>
+          <input type="checkbox" checked={forceIndexMode} onChange={(e) => setForceIndexMode(e.target.checked)} />
+          Index mode
+        </label>
+        <select
+          value={duplicateKeyPolicy}
+          onChange={(e) => setDuplicateKeyPolicy(e.target.value as DuplicateKeyPolicy)}
+          title="What to keep when an object repeats a key (applies to the next load)"
+          style={{ padding: "0.4rem", background: "var(--surface)", color: "var(--text)", border: "1px solid #00ffff", borderRadius: "4px" }}
+        >
+          <option value="keep-last">Dup keys: keep last</option>
+          <option value="keep-first">Dup keys: keep first</option>
+          <option value="rename">Dup keys: rename (key~2)</option>
+        </select>
         <button onClick={() => loadTestFile("fruit")}>Load fruit test</button>
         <button onClick={() => loadTestFile("cars")}>Load cars test</button>
         <button
@@ -409,19 +1049,11 @@ export default function Home() {
               alert('Worker not ready');
               return;
             }
-            sortParamsRef.current = {
-              containerPath: 'view.classes.*.attributes',
-              sortField: 'viewname',
-              countBefore: -1,
-              direction: 'asc',
-              startMs: Date.now(),
-            };
             setIsSorting(true);
-            workerRef.current.postMessage({
-              type: 'SORT_VIEWNAME',
-              data: editedData,
-            });
+            setSortPreview(null);
+            startWorkerJob({ type: "SORT_VIEWNAME", data: editedData, format: viewStyle });
           }}
+          disabled={indexMode}
           style={{ background: '#e65100', borderColor: '#ff6d00' }}
           title="Sort all attributes within each class by viewname (runs in worker — safe for large files)"
         >
@@ -433,53 +1065,20 @@ export default function Home() {
               alert('Load a JSON file first');
               return;
             }
-            if (!workerRef.current) {
-              alert('Worker not ready');
-              return;
-            }
-            const doSort = (orderText: string, fileName: string) => {
-              sortParamsRef.current = {
-                containerPath: 'view.classes.*.attributes',
-                sortField: 'viewname (TX: ' + fileName + ')',
-                countBefore: -1,
-                direction: 'asc',
-                startMs: Date.now(),
-              };
-              setIsSorting(true);
-              workerRef.current!.postMessage({
-                type: 'SORT_TX',
-                data: editedData,
-                orderText,
-              });
-            };
-            if (txOrderText) {
-              // Order file already loaded — apply immediately
-              doSort(txOrderText, txOrderFileName);
-            } else {
-              // First time — prompt for order file
-              const input = document.createElement('input');
-              input.type = 'file';
-              input.accept = '.txt,.csv';
-              input.onchange = (ev) => {
-                const file = (ev.target as HTMLInputElement).files?.[0];
-                if (!file) return;
-                const reader = new FileReader();
-                reader.onload = (re) => {
-                  const text = re.target?.result as string;
-                  if (!text) { alert('Empty sort order file'); return; }
-                  setTxOrderText(text);
-                  setTxOrderFileName(file.name);
-                  doSort(text, file.name);
-                };
-                reader.readAsText(file);
-              };
-              input.click();
-            }
+            setShowOrderList(true);
           }}
+          disabled={indexMode}
           style={{ background: '#6a1b9a', borderColor: '#ab47bc' }}
-          title={txOrderText ? `TX Sort using ${txOrderFileName} (click to apply)` : 'Pick a sort order file first, then click to apply'}
+          title={orderListSettings.fileName ? `Order by list using ${orderListSettings.fileName}` : 'Order containers exactly as a reference list file says, or export their current order as one'}
         >
-          📋 TX Sort{txOrderText ? ` (${txOrderFileName})` : ''}
+          📋 Order by List{orderListSettings.fileName ? ` (${orderListSettings.fileName})` : ''}
+        </button>
+        <button
+          onClick={() => setShowMerge(true)}
+          disabled={indexMode}
+          title="Overlay files on the current document or on each other, e.g. prod.json over base.json, as a JSON Merge Patch or a deep merge"
+        >
+          🔀 Merge Files…
         </button>
         <button
           onClick={() => {
@@ -496,7 +1095,7 @@ export default function Home() {
                 const largeData = generateLargeTestData(editedData, 1000);
                 if (largeData) {
                   setSourceData(largeData);
-                  setEditedData(JSON.parse(JSON.stringify(largeData)));
+                  setEditedData(largeData);
                   // Add checkmark to console
                   console.log(`✓ Generated 1,000 rows at ${new Date().toLocaleTimeString()}`);
                   alert('Generated 1,000 rows of test data!');
@@ -509,12 +1108,20 @@ export default function Home() {
               }
             }, 50);
           }}
-          disabled={isGenerating}
+          disabled={isGenerating || indexMode}
           style={{ background: '#ff6600', borderColor: '#ff6600', opacity: isGenerating ? 0.7 : 1 }}
           title="Generate 1,000 randomized rows from current data structure"
         >
           {isGenerating ? "Generating..." : "🔥 Generate 1k rows"}
         </button>
+        {sourceEncoding && (
+          <span
+            title={sourceEncoding.lineEnding ? `Line endings: ${sourceEncoding.lineEnding.toUpperCase()}` : undefined}
+            style={{ color: sourceEncoding.encoding === "utf-8" && !sourceEncoding.bom ? "#888" : "#fbbf24", fontSize: "12px", fontFamily: "monospace", whiteSpace: "nowrap" }}
+          >
+            {describeEncoding(sourceEncoding)}
+          </span>
+        )}
         {scanStatusMsg && (
           <span style={{
             color: isAnalyzing ? "#fbbf24" : "#4ade80",
@@ -532,7 +1139,7 @@ export default function Home() {
             placeholder={isAnalyzing ? "Analyzing structure..." : "Sort path (e.g. view.classes)"}
             value={sortContainer}
             onChange={(e) => setSortContainer(e.target.value)}
-            disabled={isAnalyzing}
+            disabled={isAnalyzing || indexMode}
             style={{
               padding: "0.4rem",
               background: isAnalyzing ? "#222" : "#0a1929",
@@ -553,7 +1160,7 @@ export default function Home() {
             ))}
           </datalist>
 
-          {editedData && (
+          {editedData && !indexMode && (
             <button
               onClick={() => {
                 if (editedData && workerRef.current) {
@@ -561,11 +1168,7 @@ export default function Home() {
                   setIsAnalyzing(true);
                   setScanStatusMsg("Scanning...");
                   scanStartRef.current = Date.now();
-                  workerRef.current.postMessage({
-                    type: 'ANALYZE',
-                    data: editedData,
-                    jsonString: JSON.stringify(editedData, null, 2)
-                  });
+                  startWorkerJob({ type: "ANALYZE", data: editedData });
                 }
               }}
               disabled={isAnalyzing}
@@ -584,11 +1187,7 @@ export default function Home() {
                   setIsAnalyzing(true);
                   setScanStatusMsg("Scanning...");
                   scanStartRef.current = Date.now();
-                  workerRef.current.postMessage({
-                    type: 'ANALYZE',
-                    data: editedData,
-                    jsonString: JSON.stringify(editedData, null, 2) // Pass raw text for line mapping
-                  });
+                  startWorkerJob({ type: "ANALYZE", data: editedData });
                 }
               }}
               style={{ background: "#9c27b0", borderColor: "#9c27b0" }}
@@ -633,63 +1232,115 @@ export default function Home() {
             <option value="asc">A→Z</option>
             <option value="desc">Z→A</option>
           </select>
+          <select
+            value={primarySortKey.type}
+            onChange={(e) => setPrimarySortKey({ ...primarySortKey, type: e.target.value as ComparatorId })}
+            title="How the sort field's values compare"
+            style={{ padding: "0.4rem", background: "var(--surface)", color: "var(--text)", border: "1px solid #00ffff", borderRadius: "4px" }}
+          >
+            {(Object.keys(COMPARATORS) as ComparatorId[]).map((id) => (
+              <option key={id} value={id}>{COMPARATORS[id].label}</option>
+            ))}
+          </select>
+          <details style={{ position: "relative" }}>
+            <summary
+              title="How the sort field compares, and further keys that break its ties"
+              style={{ cursor: "pointer", padding: "0.4rem", border: "1px solid #00ffff", borderRadius: "4px", listStyle: "none" }}
+            >
+              Keys{thenByKeys.length > 0 ? ` (${thenByKeys.length + 1})` : ""} ▾
+            </summary>
+            <div style={{
+              position: "absolute", top: "100%", left: 0, zIndex: 1000, marginTop: "0.25rem", padding: "0.5rem",
+              background: "var(--surface)", border: "1px solid #00ffff", borderRadius: "4px",
+              display: "flex", flexDirection: "column", gap: "0.35rem", whiteSpace: "nowrap", fontSize: "13px"
+            }}>
+              <div style={{ display: "flex", alignItems: "center", gap: "0.25rem" }}>
+                <span style={{ width: "10rem", color: "#888" }}>Sort field</span>
+                <SortKeyControls spec={primarySortKey} onChange={(next) => setPrimarySortKey({ ...primarySortKey, ...next })} />
+              </div>
+              {thenByKeys.map((k, i) => {
+                const update = (next: Partial<SortKeySpec>) => setThenByKeys(thenByKeys.map((old, j) => (j === i ? { ...old, ...next } : old)));
+                return (
+                  <div key={i} style={{ display: "flex", alignItems: "center", gap: "0.25rem" }}>
+                    <input
+                      value={k.key}
+                      placeholder="then by field (dotted)"
+                      onChange={(e) => update({ key: e.target.value })}
+                      style={{ width: "10rem", padding: "0.2rem", background: "var(--bg)", color: "var(--text)", border: "1px solid var(--border)" }}
+                    />
+                    <select value={k.direction} onChange={(e) => update({ direction: e.target.value as "asc" | "desc" })}>
+                      <option value="asc">A→Z</option>
+                      <option value="desc">Z→A</option>
+                    </select>
+                    <SortKeyControls spec={k} onChange={update} />
+                    <button onClick={() => setThenByKeys(thenByKeys.filter((_, j) => j !== i))} title="Remove this key" style={{ padding: "0 0.4rem" }}>✕</button>
+                  </div>
+                );
+              })}
+              <button
+                onClick={() => setThenByKeys([...thenByKeys, { key: "", direction: "asc", type: "auto", nulls: "last" }])}
+                style={{ alignSelf: "flex-start", padding: "0.2rem 0.5rem" }}
+              >
+                + Then by
+              </button>
+            </div>
+          </details>
           <button
             onClick={() => {
-              if (!editedData || !sortContainer) {
-                alert('Please enter a sort path first');
-                return;
-              }
+              const request = buildSortRequest();
+              if (!request || !editedData) return;
+              const { containerPath, sortField, keys } = request;
 
-              const selectedPath = sortContainer.trim();
-
-              // Match against containerOptions to find container path + sort field
-              const match = (containerOptions as any[]).find((c: any) => {
-                const fullPath = c.sortField ? `${c.path}.${c.sortField}` : c.path;
-                return fullPath === selectedPath;
-              });
-
-              const containerPath = match?.path ?? selectedPath;
-              const sortField = match?.sortField ?? undefined;
-
-              console.log(`[sort] Sending — container: "${containerPath}", field: "${sortField ?? '(keys)'}", dir: "${sortDirection}"`);
-
-              // Store params for the report
-              sortParamsRef.current = {
-                containerPath,
-                sortField: sortField ?? "",
-                countBefore: -1, // Will be set from worker response
-                direction: sortDirection,
-                startMs: Date.now(),
-              };
-
-              setIsSorting(true);
-
-              if (workerRef.current) {
-                workerRef.current.postMessage({
-                  type: 'SORT',
-                  data: editedData,
-                  containerPath,
-                  sortField,
-                  sortDirection,
-                  lineMap,
-                });
-              } else {
-                console.error('[sort] Worker not initialized');
-                setIsSorting(false);
-              }
+              console.log(`[sort] Sending — container: "${containerPath}", keys: "${keys.length ? describeSortKeys(keys) : '(keys)'}", dir: "${sortDirection}"`);
+
+              setSortPreview(null);
+              // The report's movement log carries comments along with their elements
+              runWorkerSort({ containerPath, sortKey: sortField ?? "", direction: sortDirection, keys, format: viewStyle });
             }}
             title="Sort the selected container"
             style={{ padding: "0.4rem 0.8rem", fontWeight: "bold" }}
-            disabled={isSorting || !sortContainer}
+            disabled={isSorting || !sortContainer || indexMode}
           >
             {isSorting ? "Sorting..." : "Sort"}
           </button>
+          <button
+            onClick={() => {
+              const request = buildSortRequest();
+              if (!request || !editedData) return;
+              const { containerPath, sortField, keys } = request;
+              runWorkerSort({ containerPath, sortKey: sortField ?? "", direction: sortDirection, keys, format: viewStyle, dryRun: true });
+            }}
+            title="Dry run: list what the sort would move, then apply or discard it"
+            style={{ padding: "0.4rem 0.8rem" }}
+            disabled={isSorting || !sortContainer || indexMode}
+          >
+            Preview
+          </button>
+          <button
+            onClick={() => {
+              if (!editedData) return;
+              const { data: sorted, report } = canonicalizeKeyOrder(editedData, { direction: "asc", type: "ordinal", format: viewStyle });
+              setLastSortReport(report);
+              setOrderMisses(null);
+              setSortPreview(null);
+              if (!report.integrityPassed) return;
+              // Key order never changes a path, so comments stay where they are
+              setUndoHistory(prev => [...prev, { data: editedData, lineMap, comments }]);
+              setEditedData(sorted as JsonObject);
+            }}
+            title="Sort the keys of every object in the document by name, leaving arrays in their order"
+            style={{ padding: "0.4rem 0.8rem" }}
+            disabled={isSorting || !editedData || indexMode}
+          >
+            Canonicalise keys
+          </button>
           <button
             onClick={() => {
               if (undoHistory.length === 0) return;
               const previous = undoHistory[undoHistory.length - 1];
               setEditedData(previous.data);
               setLineMap(previous.lineMap);
+              if (previous.comments !== undefined) setComments(previous.comments);
               setUndoHistory(undoHistory.slice(0, -1));
             }}
             disabled={undoHistory.length === 0}
@@ -700,7 +1351,114 @@ export default function Home() {
           </button>
         </div>
         <button onClick={validate}>Validate</button>
-        <button onClick={saveCopy} disabled={!sourceFileName}>Save a copy</button>
+        {(sourceDialect !== "json" || sourceFormat === "ndjson") && (
+          <select
+            value={saveDialect}
+            onChange={(e) => setSaveDialect(e.target.value as "json" | "original")}
+            title="Write strict JSON or keep the original format (JSONC/JSON5 comments, or one record per line)"
+            style={{ padding: "0.4rem", background: "var(--surface)", color: "var(--text)", border: "1px solid #00ffff", borderRadius: "4px" }}
+          >
+            <option value="original">Save as {sourceFormat === "ndjson" ? "NDJSON" : sourceDialect.toUpperCase()}</option>
+            <option value="json">Save as strict JSON</option>
+          </select>
+        )}
+        <select
+          value={canonicalOutput ? "canonical" : String(outputStyle.indent)}
+          onChange={(e) => {
+            const v = e.target.value;
+            setCanonicalOutput(v === "canonical");
+            if (v !== "canonical") setOutputStyle({ ...outputStyle, indent: v === "tab" ? "tab" : Number(v) });
+          }}
+          title="Output style for Save a copy, the text views and sort line numbers"
+          style={{ padding: "0.4rem", background: "var(--surface)", color: "var(--text)", border: "1px solid #00ffff", borderRadius: "4px" }}
+        >
+          <option value="2">2 spaces</option>
+          <option value="4">4 spaces</option>
+          <option value="tab">Tabs</option>
+          <option value="0">Minified</option>
+          <option value="canonical">Canonical (RFC 8785)</option>
+        </select>
+        {!canonicalOutput && outputStyle.indent !== 0 && (
+          <label title="Keep short arrays of numbers and strings on one line" style={{ border: "none", display: "flex", alignItems: "center", gap: "0.25rem" }}>
+            <input
+              type="checkbox"
+              checked={outputStyle.compactArrayWidth > 0}
+              onChange={(e) => setOutputStyle({ ...outputStyle, compactArrayWidth: e.target.checked ? 80 : 0 })}
+            />
+            Compact arrays
+          </label>
+        )}
+        {!canonicalOutput && (
+          <label title="Write object keys in sorted order" style={{ border: "none", display: "flex", alignItems: "center", gap: "0.25rem" }}>
+            <input type="checkbox" checked={outputStyle.sortKeys} onChange={(e) => setOutputStyle({ ...outputStyle, sortKeys: e.target.checked })} />
+            Sort keys
+          </label>
+        )}
+        <select
+          value={saveLineEnding}
+          onChange={(e) => setSaveLineEnding(e.target.value as LineEnding)}
+          title="Line endings for Save a copy (output is always UTF-8)"
+          style={{ padding: "0.4rem", background: "var(--surface)", color: "var(--text)", border: "1px solid #00ffff", borderRadius: "4px" }}
+        >
+          <option value="lf">UTF-8 · LF</option>
+          <option value="crlf">UTF-8 · CRLF</option>
+        </select>
+        <label title="Write a UTF-8 byte order mark" style={{ border: "none", display: "flex", alignItems: "center", gap: "0.25rem" }}>
+          <input type="checkbox" checked={saveBom} onChange={(e) => setSaveBom(e.target.checked)} />
+          BOM
+        </label>
+        <button onClick={saveCopy} disabled={!sourceFileName || indexMode}>Save a copy</button>
+        <button onClick={() => setShowExport(true)} disabled={!editedData || indexMode} title="Export as CSV, TSV, a Markdown table, YAML or NDJSON">
+          Export…
+        </button>
+        <button
+          onClick={() => setShowChanges(!showChanges)}
+          disabled={!editedData || indexMode}
+          title="List every change between the source and the edited document"
+          style={{ background: showChanges ? '#00ffff33' : undefined }}
+        >
+          Changes
+        </button>
+        <label title="Mark the lines that differ between the two text views" style={{ border: "none", display: "flex", alignItems: "center", gap: "0.25rem" }}>
+          <input type="checkbox" checked={diffHighlight} disabled={!editedData || indexMode} onChange={(e) => setDiffHighlight(e.target.checked)} />
+          Highlight changes
+        </label>
+        <select
+          value={diffContext}
+          onChange={(e) => setDiffContext(Number(e.target.value))}
+          title="Unchanged lines around each change in the unified diff"
+          style={{ padding: "0.4rem", background: "var(--surface)", color: "var(--text)", border: "1px solid #00ffff", borderRadius: "4px" }}
+        >
+          <option value={0}>0 lines context</option>
+          <option value={3}>3 lines context</option>
+          <option value={10}>10 lines context</option>
+        </select>
+        <button onClick={downloadUnifiedDiff} disabled={!editedData || indexMode} title="Download the text views' differences as a unified diff">
+          ⬇ .diff
+        </button>
+        <details style={{ position: "relative" }}>
+          <summary
+            title="Export the changes as an RFC 6902 JSON Patch, or apply one to the edited document"
+            style={{ cursor: "pointer", padding: "0.4rem", border: "1px solid #00ffff", borderRadius: "4px", listStyle: "none" }}
+          >
+            Patch ▾
+          </summary>
+          <div style={{
+            position: "absolute", top: "100%", left: 0, zIndex: 20, marginTop: "0.25rem", padding: "0.5rem",
+            background: "var(--surface)", border: "1px solid #00ffff", borderRadius: "4px",
+            display: "flex", flexDirection: "column", gap: "0.35rem", whiteSpace: "nowrap", fontSize: "13px"
+          }}>
+            <button onClick={exportPatch} disabled={!editedData || indexMode}>⬇ Export patch</button>
+            <label title="Test each old value before it is replaced or removed, so the patch fails on a document that has drifted" style={{ border: "none", display: "flex", alignItems: "center", gap: "0.25rem" }}>
+              <input type="checkbox" checked={patchWithTests} onChange={(e) => setPatchWithTests(e.target.checked)} />
+              Include test operations
+            </label>
+            <label style={{ display: "flex", alignItems: "center", gap: "0.25rem" }}>
+              Apply patch…
+              <input type="file" accept=".json" onChange={applyPatchFile} disabled={!editedData || indexMode} />
+            </label>
+          </div>
+        </details>
         {validation && (
           <span className={validation.ok ? "validation-ok" : "validation-err"}>
             {validation.msg}
@@ -709,6 +1467,43 @@ export default function Home() {
         {loadError && <span className="validation-err">{loadError}</span>}
       </div>
 
+      {/* Load warnings — skipped NDJSON lines, repeated keys and lossy import conversions; the rest of the file is loaded */}
+      {(lineErrors.length > 0 || duplicates.length > 0 || importNotes.length > 0) && (
+        <details style={{
+          padding: "0.3rem 1rem",
+          background: "rgba(251,191,36,0.08)",
+          borderBottom: "1px solid #fbbf24",
+          fontSize: "12px", fontFamily: "monospace", flexShrink: 0
+        }}>
+          <summary style={{ cursor: "pointer", color: "#fbbf24" }}>
+            ⚠ Load warnings:
+            {lineErrors.length > 0 && ` ${lineErrors.length} NDJSON line${lineErrors.length === 1 ? "" : "s"} skipped (${Array.isArray(editedData) ? editedData.length : 0} records loaded)`}
+            {lineErrors.length > 0 && duplicates.length > 0 && ","}
+            {duplicates.length > 0 && ` ${duplicates.length} duplicate key${duplicates.length === 1 ? "" : "s"} (${duplicateKeyPolicy})`}
+            {(lineErrors.length > 0 || duplicates.length > 0) && importNotes.length > 0 && ","}
+            {importNotes.length > 0 && ` ${importNotes.length} conversion note${importNotes.length === 1 ? "" : "s"}`}
+            <button onClick={() => { setLineErrors([]); setDuplicates([]); setImportNotes([]); }} style={{ marginLeft: "1rem", background: "transparent", border: "none", color: "#888", cursor: "pointer", fontSize: "14px" }}>✕</button>
+          </summary>
+          <ul style={{ margin: "0.25rem 0", paddingLeft: "1.25rem", maxHeight: "160px", overflow: "auto" }}>
+            {lineErrors.slice(0, 500).map((err) => <li key={`line-${err.line}`}>line {err.line}: {err.message}</li>)}
+            {lineErrors.length > 500 && <li>…and {lineErrors.length - 500} more skipped lines</li>}
+            {duplicates.slice(0, 500).map((d, idx) => (
+              <li key={`dup-${idx}`}>
+                line {d.line}, col {d.column}: duplicate key <b>{d.path}</b>
+                {d.renamedTo ? ` → stored as "${d.renamedTo}"` : duplicateKeyPolicy === "keep-first" ? " (later value dropped)" : " (earlier value replaced)"}
+              </li>
+            ))}
+            {duplicates.length > 500 && <li>…and {duplicates.length - 500} more duplicate keys</li>}
+            {importNotes.slice(0, 500).map((n, idx) => (
+              <li key={`import-${idx}`}>
+                {n.line !== undefined && `line ${n.line}: `}[{n.kind}] {n.message}
+              </li>
+            ))}
+            {importNotes.length > 500 && <li>…and {importNotes.length - 500} more conversion notes</li>}
+          </ul>
+        </details>
+      )}
+
       {/* Sort Report bar — shown after every sort, stays on undo */}
       {lastSortReport && (
         <div style={{
@@ -722,16 +1517,41 @@ export default function Home() {
             {lastSortReport.integrityPassed ? "✓ Sort OK" : "✗ Sort FAILED"}
           </span>
           <span>path: <b>{lastSortReport.containerPath}</b></span>
-          <span>key: <b>{lastSortReport.sortKey || "(keys)"}</b> {lastSortReport.direction}</span>
+          <span>key: <b>{lastSortReport.keys.length > 1 ? describeSortKeys(lastSortReport.keys) : lastSortReport.sortKey || "(keys)"}</b>{lastSortReport.keys.length > 1 ? "" : ` ${lastSortReport.direction}`}</span>
+          {lastSortReport.containers.length > 1 && <span>containers: <b>{lastSortReport.containers.length}</b></span>}
           <span>before: <b>{lastSortReport.countBefore}</b> → after: <b>{lastSortReport.countAfter}</b></span>
           <span style={{ color: "#888" }}>{lastSortReport.durationMs}ms</span>
           {lastSortReport.error && <span style={{ color: "#ef4444" }}>{lastSortReport.error}</span>}
+          {orderMisses && (orderMisses.unmatchedElements.length > 0 || orderMisses.unmatchedEntries.length > 0) && (
+            <button
+              onClick={() => {
+                const rows = [
+                  `Elements matching no list entry (${orderMisses.unmatchedElements.length})`,
+                  ...orderMisses.unmatchedElements.map((m) => `${m.path}${m.group ? `  group: ${m.group}` : ""}  value: ${JSON.stringify(m.value)}`),
+                  "",
+                  `List entries matching no element (${orderMisses.unmatchedEntries.length})`,
+                  ...orderMisses.unmatchedEntries.map((m) => `${m.group ? `${m.group}: ` : ""}${JSON.stringify(m.value)}`),
+                ];
+                const blob = new Blob([rows.join("\n")], { type: "text/plain" });
+                const url = URL.createObjectURL(blob);
+                const a = document.createElement("a"); a.href = url; a.download = "order-list-misses.txt"; a.click();
+                URL.revokeObjectURL(url);
+              }}
+              title="Download the unmatched elements and list entries"
+              style={{ padding: "0.15rem 0.5rem", fontSize: "11px", background: "transparent", border: "1px solid #ab47bc", color: "#ab47bc", borderRadius: "3px", cursor: "pointer" }}
+            >
+              ⬇ Unmatched: {orderMisses.unmatchedElements.length} elements, {orderMisses.unmatchedEntries.length} list entries
+            </button>
+          )}
           {lastSortReport.integrityPassed && lastSortReport.movementLog.length > 0 && (
             <button
               onClick={() => {
                 const r = lastSortReport;
-                const header = `Movement Log | path: ${r.containerPath} | key: ${r.sortKey} | dir: ${r.direction} | ${new Date().toISOString()}\nTotal elements: ${r.countBefore}\n\n`;
-                const rows = r.movementLog.map(e => `[${e.oldIndex}] line ${e.fromLine} → line ${e.toLine}  key: ${e.keyValue}`).join("\n");
+                const header = `Movement Log | path: ${r.containerPath} | keys: ${describeSortKeys(r.keys)} | ${new Date().toISOString()}\nTotal elements: ${r.countBefore}\n\n`;
+                const entryRow = (e: SortReport["movementLog"][number]) => `[${e.entryKey !== undefined ? JSON.stringify(e.entryKey) : e.oldIndex}] line ${e.fromLine} → line ${e.toLine}  key: ${e.keyTuple.map((v) => JSON.stringify(v)).join(", ")}`;
+                const rows = r.containers.length > 1
+                  ? r.containers.map(c => `${c.path || "(root)"} — ${c.countBefore} ${c.kind === "object" ? "keys" : "elements"}\n` + c.movementLog.map(entryRow).join("\n")).join("\n\n")
+                  : r.movementLog.map(entryRow).join("\n");
                 const blob = new Blob([header + rows], { type: "text/plain" });
                 const url = URL.createObjectURL(blob);
                 const a = document.createElement("a"); a.href = url; a.download = "movement-log.txt"; a.click();
@@ -742,10 +1562,32 @@ export default function Home() {
               ⬇ Movement Log ({lastSortReport.movementLog.length})
             </button>
           )}
-          <button onClick={() => setLastSortReport(null)} style={{ marginLeft: "auto", background: "transparent", border: "none", color: "#888", cursor: "pointer", fontSize: "14px" }}>✕</button>
+          <button onClick={() => { setLastSortReport(null); setOrderMisses(null); }} style={{ marginLeft: "auto", background: "transparent", border: "none", color: "#888", cursor: "pointer", fontSize: "14px" }}>✕</button>
         </div>
       )}
 
+      {sortPreview && (
+        <SortPreview
+          report={sortPreview}
+          onApply={() => {
+            const r = sortPreview;
+            setSortPreview(null);
+            runWorkerSort({ containerPath: r.containerPath, sortKey: r.sortKey, direction: r.direction, keys: r.keys, format: viewStyle });
+          }}
+          onDiscard={() => setSortPreview(null)}
+        />
+      )}
+
+      {showChanges && editedData && sourceData && !indexMode && (
+        <ChangesPanel
+          changes={changes}
+          identityKeys={identityKeys}
+          onIdentityKeysChange={setIdentityKeys}
+          onSelect={showChange}
+          onClose={() => setShowChanges(false)}
+        />
+      )}
+
       {editedData && sourceData && (
         <div className="panes">
           <div className="pane" style={{ width: `${leftPaneWidth}%` }}>
@@ -770,10 +1612,21 @@ export default function Home() {
               />
             </div>
             <div className="pane-content">
-              <VirtualSourceViewer
-                jsonString={sourceJsonString}
-                searchTerm={debouncedLeftSearch}
-              />
+              {indexMode ? (
+                <div style={{ padding: "1rem", color: "var(--muted)", fontSize: "13px", lineHeight: 1.6 }}>
+                  <div style={{ color: "#fbbf24", fontWeight: "bold", marginBottom: "0.5rem" }}>Index mode (read-only)</div>
+                  This file is too large to hold as text. Only its top {INDEX_MATERIALIZE_DEPTH} levels are loaded;
+                  expand a node in the tree on the right to load it from disk. Sorting, scanning and saving are disabled.
+                  <div style={{ marginTop: "0.5rem" }}>{lazyNodes.size} subtrees not loaded yet.</div>
+                </div>
+              ) : (
+                <VirtualSourceViewer
+                  ref={sourceViewerRef}
+                  jsonString={sourceJsonString}
+                  searchTerm={debouncedLeftSearch}
+                  diffLines={diffHighlight ? lineChanges?.removed : undefined}
+                />
+              )}
             </div>
           </div>
           <div
@@ -786,6 +1639,7 @@ export default function Home() {
               <div style={{ display: "flex", gap: "0.5rem" }}>
                 <button
                   onClick={() => setEditorViewMode(editorViewMode === 'tree' ? 'text' : 'tree')}
+                  disabled={indexMode}
                   className="header-btn"
                   style={{ background: editorViewMode === 'text' ? '#00ffff33' : undefined }}
                   title="Toggle between Tree View and Text View"
@@ -834,8 +1688,10 @@ export default function Home() {
             <div className="pane-content">
               {editorViewMode === 'text' ? (
                 <VirtualSourceViewer
+                  ref={editedViewerRef}
                   jsonString={editedJsonString}
                   searchTerm={debouncedRightSearch}
+                  diffLines={diffHighlight ? lineChanges?.added : undefined}
                 />
               ) : (
                 <JsonEditor
@@ -848,6 +1704,9 @@ export default function Home() {
                   toggleCollapse={toggleCollapse}
                   searchTerm={debouncedRightSearch}
                   lineMap={lineMap}
+                  lazyNodes={indexMode ? lazyNodes : undefined}
+                  onLoadLazy={loadLazySubtree}
+                  focus={editorFocus}
                 />
               )}
             </div>
@@ -861,12 +1720,64 @@ export default function Home() {
             <div>
               <strong>JSON Parse Error:</strong> {jsonError.error}
             </div>
-            <button onClick={() => setJsonError(null)} style={{ padding: "0.5rem 1rem" }}>✕ Close</button>
+            <div style={{ display: "flex", gap: "0.5rem" }}>
+              {jsonError.repair && (
+                <button
+                  onClick={acceptRepair}
+                  style={{ padding: "0.5rem 1rem", background: "#166534", borderColor: "#4ade80" }}
+                  title="Load the repaired JSON into both panes"
+                >
+                  ✓ Accept repair ({jsonError.suggestions.length} fixes)
+                </button>
+              )}
+              <button onClick={() => setJsonError(null)} style={{ padding: "0.5rem 1rem" }}>✕ Close</button>
+            </div>
           </div>
-          <div style={{ flex: 1, overflow: "auto", padding: "1rem" }}>
-            <pre style={{ whiteSpace: "pre-wrap", fontFamily: "monospace", fontSize: "13px" }}>
-              {jsonError.raw}
-            </pre>
+          {jsonError.suggestions.length > 0 && (
+            <div style={{ padding: "0.5rem 1rem", background: "rgba(74,222,128,0.06)", borderBottom: "1px solid #333", maxHeight: "200px", overflow: "auto", fontSize: "12px" }}>
+              <div style={{ color: jsonError.repair ? "#4ade80" : "#fbbf24", marginBottom: "0.25rem" }}>
+                {jsonError.repair ? "Suggested repairs:" : "Attempted repairs (result still invalid):"}
+              </div>
+              <ul style={{ margin: 0, paddingLeft: "1.25rem" }}>
+                {jsonError.suggestions.map((s, idx) => <li key={idx}>{s}</li>)}
+              </ul>
+            </div>
+          )}
+          {jsonError.detail && (
+            <div style={{ padding: "0.5rem 1rem", background: "#0f172a", borderBottom: "1px solid #333", fontSize: "12px" }}>
+              <div style={{ display: "flex", gap: "1.5rem", alignItems: "center", marginBottom: "0.5rem" }}>
+                <span>line <b>{jsonError.detail.line}</b>, column <b>{jsonError.detail.column}</b> (offset {jsonError.detail.offset})</span>
+                <span>expected <b>{jsonError.detail.expected}</b>, found <b style={{ color: "#ef4444" }}>{jsonError.detail.found}</b></span>
+                <button
+                  onClick={() => rawErrorViewerRef.current?.scrollToLine(jsonError.detail!.line)}
+                  style={{ padding: "0.15rem 0.5rem", fontSize: "11px" }}
+                >
+                  ↧ Jump to line {jsonError.detail.line}
+                </button>
+              </div>
+              <pre style={{ margin: 0, fontFamily: "monospace", fontSize: "13px", lineHeight: "18px" }}>
+                {errorExcerpt(jsonError.raw, jsonError.detail).map((l) => (
+                  <div key={l.lineNumber} style={{ background: l.markerIndex !== undefined ? "rgba(239,68,68,0.18)" : undefined }}>
+                    <span style={{ color: "#4a5568", display: "inline-block", width: "60px", textAlign: "right", paddingRight: "10px" }}>{l.lineNumber}</span>
+                    {l.markerIndex === undefined ? l.text : (
+                      <>
+                        {l.text.slice(0, l.markerIndex)}
+                        <span style={{ background: "#ef4444", color: "#000" }}>{l.text[l.markerIndex] ?? " "}</span>
+                        {l.text.slice(l.markerIndex + 1)}
+                      </>
+                    )}
+                  </div>
+                ))}
+              </pre>
+            </div>
+          )}
+          <div style={{ flex: 1, overflow: "hidden" }}>
+            <VirtualSourceViewer
+              ref={rawErrorViewerRef}
+              jsonString={jsonError.raw}
+              searchTerm=""
+              markedLine={jsonError.detail?.line}
+            />
           </div>
         </div>
       )}
@@ -0,0 +1,175 @@
+/* eslint-disable no-restricted-globals */
+import type { JsonValue } from "../lib/fileLoader";
+import type { DuplicateKey, DuplicateKeyPolicy, ParseErrorInfo } from "../lib/jsonParser";
+import { StreamingJsonParser, INVALID_UTF8, type LazyNode } from "../lib/streamParser";
+import { decodeWindows1252, sniffEncoding, type EncodingInfo, type TextEncodingName } from "../lib/encoding";
+import { serializeWithLines, type SerializeOptions } from "../lib/serializer";
+
+// ==========================================
+// LOADER WORKER
+// Reads a File in chunks and parses it incrementally, so the main thread never
+// holds the raw text and never blocks on JSON.parse.
+//   LOAD        — full parse (or index mode: only the top levels, rest lazy)
+//   MATERIALIZE — parse one lazy subtree from its byte range on expand
+//   LINES       — lineMap of edited data in the chosen output style (after a sort)
+// Sorting and structure analysis run in sort.worker.ts.
+// ==========================================
+
+export type LoaderRequest =
+  | { type: "LOAD"; file: File; indexMode: boolean; materializeDepth: number; duplicateKeys: DuplicateKeyPolicy }
+  | { type: "MATERIALIZE"; path: string }
+  | { type: "LINES"; data: JsonValue; format: SerializeOptions };
+
+export type LoaderResponse =
+  | { type: "LOAD_PROGRESS"; bytesRead: number; totalBytes: number }
+  | {
+      type: "LOAD_RESULT";
+      success: true;
+      data: JsonValue;
+      lineMap: Map<string, number>;
+      lazyNodes: LazyNode[];
+      duplicates: DuplicateKey[];
+      sizeBytes: number;
+      encoding: EncodingInfo;
+      indexMode: boolean;
+    }
+  | { type: "LOAD_RESULT"; success: false; error: string; errorDetail?: ParseErrorInfo }
+  | {
+      type: "MATERIALIZE_RESULT";
+      success: true;
+      path: string;
+      data: JsonValue;
+      lineMap: Map<string, number>;
+      lazyNodes: LazyNode[];
+      duplicates: DuplicateKey[];
+    }
+  | { type: "MATERIALIZE_RESULT"; success: false; path: string; error: string }
+  | { type: "LINES_RESULT"; lineMap: Map<string, number> };
+
+const CHUNK_BYTES = 4 * 1024 * 1024;
+/** Lazy subtrees smaller than this are parsed completely when expanded */
+const FULL_MATERIALIZE_BYTES = 8 * 1024 * 1024;
+
+let currentFile: File | null = null;
+let materializeDepth = Infinity;
+let duplicateKeys: DuplicateKeyPolicy = "keep-last";
+const lazyIndex = new Map<string, LazyNode>();
+
+const post = (msg: LoaderResponse) => self.postMessage(msg);
+
+/**
+ * Feed a blob to the parser chunk by chunk. Anything other than UTF-8 is
+ * transcoded on the way, which shifts byte offsets — so no index mode then.
+ */
+async function readInto(
+  parser: StreamingJsonParser,
+  blob: Blob,
+  onChunk?: (bytesRead: number) => void,
+  transcodeFrom?: TextEncodingName
+) {
+  // windows-1252 is one byte per character, so chunks decode independently
+  const decoder = transcodeFrom && transcodeFrom !== "windows-1252" ? new TextDecoder(transcodeFrom) : null;
+  const decode = (buf: ArrayBuffer) =>
+    decoder ? decoder.decode(buf, { stream: true }) : decodeWindows1252(new Uint8Array(buf));
+  const encoder = new TextEncoder();
+  let bytesRead = 0;
+  for (let at = 0; at < blob.size && !parser.failed; at += CHUNK_BYTES) {
+    const buf = await blob.slice(at, at + CHUNK_BYTES).arrayBuffer();
+    parser.push(transcodeFrom ? encoder.encode(decode(buf)) : new Uint8Array(buf));
+    bytesRead += buf.byteLength;
+    onChunk?.(bytesRead);
+  }
+  if (decoder && !parser.failed) parser.push(encoder.encode(decoder.decode()));
+}
+
+async function load(file: File, indexMode: boolean, depth: number, policy: DuplicateKeyPolicy) {
+  currentFile = file;
+  duplicateKeys = policy;
+  lazyIndex.clear();
+
+  const head = new Uint8Array(await file.slice(0, 4096).arrayBuffer());
+  let encoding: EncodingInfo = sniffEncoding(head) ?? { encoding: "utf-8", bom: false };
+  const progress = (bytesRead: number) => post({ type: "LOAD_PROGRESS", bytesRead, totalBytes: file.size });
+
+  const parse = async () => {
+    const transcode = encoding.encoding !== "utf-8";
+    if (transcode) indexMode = false;
+    materializeDepth = indexMode ? depth : Infinity;
+    const parser = new StreamingJsonParser({ materializeDepth, lossless: true, duplicateKeys });
+    await readInto(parser, file, progress, transcode ? encoding.encoding : undefined);
+    return parser.end();
+  };
+
+  let result = await parse();
+  if (result.error?.expected === INVALID_UTF8 && encoding.encoding === "utf-8" && !encoding.bom) {
+    // No BOM and not UTF-8: the usual suspect is a Windows ANSI export
+    encoding = { encoding: "windows-1252", bom: false };
+    result = await parse();
+  }
+  if (result.error) {
+    post({ type: "LOAD_RESULT", success: false, error: result.error.message, errorDetail: result.error });
+    return;
+  }
+  result.lazyNodes.forEach((n) => lazyIndex.set(n.path, n));
+  post({
+    type: "LOAD_RESULT",
+    success: true,
+    data: result.data!,
+    lineMap: result.lineMap,
+    lazyNodes: result.lazyNodes,
+    duplicates: result.duplicates,
+    sizeBytes: file.size,
+    encoding,
+    indexMode,
+  });
+}
+
+async function materialize(path: string) {
+  const node = lazyIndex.get(path);
+  if (!currentFile || !node) {
+    post({ type: "MATERIALIZE_RESULT", success: false, path, error: `No unloaded subtree at "${path}"` });
+    return;
+  }
+  // Small subtrees load completely; big ones get the same window, relative to their own root
+  const parser = new StreamingJsonParser({
+    basePath: node.path,
+    baseOffset: node.start,
+    baseLine: node.line,
+    materializeDepth: node.end - node.start <= FULL_MATERIALIZE_BYTES ? Infinity : materializeDepth,
+    lossless: true,
+    duplicateKeys,
+  });
+  await readInto(parser, currentFile.slice(node.start, node.end));
+  const result = parser.end();
+  if (result.error) {
+    post({ type: "MATERIALIZE_RESULT", success: false, path, error: result.error.message });
+    return;
+  }
+  lazyIndex.delete(path);
+  result.lazyNodes.forEach((n) => lazyIndex.set(n.path, n));
+  post({
+    type: "MATERIALIZE_RESULT",
+    success: true,
+    path,
+    data: result.data!,
+    lineMap: result.lineMap,
+    lazyNodes: result.lazyNodes,
+    duplicates: result.duplicates,
+  });
+}
+
+self.onmessage = (e: MessageEvent<LoaderRequest>) => {
+  const msg = e.data;
+  if (msg.type === "LINES") {
+    // Same serializer as the text view, so the numbers match what is shown
+    post({ type: "LINES_RESULT", lineMap: serializeWithLines(msg.data, msg.format).lines });
+    return;
+  }
+  const job = msg.type === "LOAD" ? load(msg.file, msg.indexMode, msg.materializeDepth, msg.duplicateKeys) : materialize(msg.path);
+  job.catch((error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("[loader] error:", message);
+    if (msg.type === "LOAD") post({ type: "LOAD_RESULT", success: false, error: message });
+    else post({ type: "MATERIALIZE_RESULT", success: false, path: msg.path, error: message });
+  });
+};
@@ -0,0 +1,69 @@
+import type { LineDiffOptions } from "../lib/differ";
+import type { JsonValue } from "../lib/fileLoader";
+import type { JobProgress } from "../lib/jobs";
+import type { OrderList, OrderSortParams, OrderSortResult } from "../lib/orderList";
+import type { SortOptions, StructureAnalysis } from "../lib/pathAnalyzer";
+import type { SerializeOptions } from "../lib/serializer";
+import type { SortParams, SortResult } from "../lib/sorter";
+
+// ==========================================
+// SORT WORKER PROTOCOL
+// Messages between page.tsx and sort.worker.ts. Every message carries the
+// protocol version; the worker answers a request from another version with
+// an ERROR instead of guessing at its shape. Bump the version whenever a
+// message changes.
+//
+// Each request is a job with an ID the page picks. The worker posts PROGRESS
+// while the job runs and one result, ERROR or CANCELLED at the end, all with
+// that ID; the page ignores whatever belongs to a job it no longer waits for.
+// ==========================================
+
+export const SORT_WORKER_PROTOCOL_VERSION = 3;
+
+export type SortWorkerJob =
+  | { type: "ANALYZE"; data: JsonValue }
+  /** sortContainer with its full report; a dry run for the preview */
+  | { type: "SORT"; data: JsonValue; params: Omit<SortParams, "keysFor"> }
+  /** sortByOrderList: order containers by a parsed order file */
+  | { type: "SORT_TX"; data: JsonValue; list: OrderList; params: OrderSortParams }
+  /** Every class's attributes by viewname, classes left in place */
+  | { type: "SORT_VIEWNAME"; data: JsonValue; format?: SerializeOptions }
+  /** Line diff of the two text views; with `unified`, also the diff as a .diff file */
+  | { type: "LINE_DIFF"; source: string; edited: string; options?: LineDiffOptions; unified?: UnifiedDiffRequest };
+
+export interface UnifiedDiffRequest {
+  context: number;
+  fromFile: string;
+  toFile: string;
+}
+
+export type SortWorkerRequestBody =
+  | ({ jobId: number } & SortWorkerJob)
+  /** Stop a running job at its next checkpoint; it answers CANCELLED */
+  | { type: "CANCEL"; jobId: number };
+
+export type SortWorkerRequest = { version: number } & SortWorkerRequestBody;
+
+export interface AnalyzeResult extends SortOptions {
+  structureAnalysis: StructureAnalysis;
+}
+
+export interface LineDiffResult {
+  /** 1-based source lines the edit removed */
+  removed: number[];
+  /** 1-based edited lines the edit added */
+  added: number[];
+  unified?: string;
+}
+
+export type SortWorkerResponseBody =
+  | { type: "ANALYZE_RESULT"; jobId: number; result: AnalyzeResult }
+  /** A dry run's `result.data` is null: the page still holds the input */
+  | { type: "SORT_RESULT"; jobId: number; result: SortResult; orderMisses?: Pick<OrderSortResult, "unmatchedEntries" | "unmatchedElements"> }
+  | { type: "LINE_DIFF_RESULT"; jobId: number; result: LineDiffResult }
+  /** etaMs: time left in the current phase, once there is a rate to go by */
+  | { type: "PROGRESS"; jobId: number; progress: JobProgress; etaMs?: number }
+  | { type: "CANCELLED"; jobId: number }
+  | { type: "ERROR"; jobId: number; request: SortWorkerRequestBody["type"]; error: string };
+
+export type SortWorkerResponse = { version: number } & SortWorkerResponseBody;
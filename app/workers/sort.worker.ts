@@ -0,0 +1,146 @@
+/* eslint-disable no-restricted-globals */
+import { analyzeJsonStructureJob, buildSortOptions, splitSortPath } from "../lib/pathAnalyzer";
+import { isPathPattern } from "../lib/pathPattern";
+import { sortByOrderListJob } from "../lib/orderList";
+import { sortContainerJob, type SortParams, type SortResult } from "../lib/sorter";
+import { driveJob, type Job } from "../lib/jobs";
+import { changedLineNumbers, lineDiffJob, unifiedDiff } from "../lib/differ";
+import type { JsonValue } from "../lib/fileLoader";
+import {
+  SORT_WORKER_PROTOCOL_VERSION,
+  type AnalyzeResult,
+  type LineDiffResult,
+  type SortWorkerJob,
+  type SortWorkerRequest,
+  type SortWorkerResponse,
+  type SortWorkerResponseBody,
+} from "./protocol";
+
+// ==========================================
+// SORT WORKER
+// Structure analysis and sorts off the main thread, with the same library
+// code the page and the tests use. Message shapes are in protocol.ts.
+//   ANALYZE       — sortable containers and fields for the sort dropdown
+//   SORT          — sortContainer; a typed path that runs past its container
+//                   sorts that container by the rest of the path
+//   SORT_TX       — sortByOrderList with a parsed order file
+//   SORT_VIEWNAME — view.classes.*.attributes by viewname
+//   LINE_DIFF     — changed lines of the two text views, optionally as a unified diff
+//   CANCEL        — stop a job at its next checkpoint
+// Jobs run in slices (lib/jobs.ts), so a CANCEL gets through while one runs.
+// ==========================================
+
+const post = (body: SortWorkerResponseBody) => {
+  const msg: SortWorkerResponse = { version: SORT_WORKER_PROTOCOL_VERSION, ...body };
+  self.postMessage(msg);
+};
+
+const running = new Set<number>();
+const cancelled = new Set<number>();
+
+function* analyzeJob(data: JsonValue): Job<AnalyzeResult> {
+  const scan = analyzeJsonStructureJob(data);
+  let step = scan.next();
+  while (!step.done) {
+    yield step.value;
+    step = scan.next();
+  }
+  const structureAnalysis = step.value;
+  return { structureAnalysis, ...buildSortOptions(structureAnalysis) };
+}
+
+function sortJob(data: JsonValue, params: Omit<SortParams, "keysFor">): Job<SortResult> {
+  if (!isPathPattern(params.containerPath) && !(params.keys && params.keys.length > 0)) {
+    const split = splitSortPath(data, params.containerPath);
+    if (split) {
+      params = { ...params, containerPath: split.containerPath, sortKey: split.sortField };
+    }
+  }
+  return sortContainerJob(data, params);
+}
+
+function* diffJob(msg: Extract<SortWorkerJob, { type: "LINE_DIFF" }>): Job<LineDiffResult> {
+  const lines = lineDiffJob(msg.source, msg.edited, msg.options);
+  let step = lines.next();
+  while (!step.done) {
+    yield step.value;
+    step = lines.next();
+  }
+  const entries = step.value;
+  const result: LineDiffResult = changedLineNumbers(entries);
+  if (msg.unified) {
+    yield { phase: "Unified diff", processed: 0, total: 1 };
+    result.unified = unifiedDiff(entries, msg.unified);
+  }
+  return result;
+}
+
+/** Drive a job to its result, posting progress; a cancelled job answers CANCELLED instead */
+async function run<T>(jobId: number, job: Job<T>, done: (value: T) => void) {
+  running.add(jobId);
+  try {
+    const outcome = await driveJob(job, {
+      isCancelled: () => cancelled.has(jobId),
+      onProgress: (progress, etaMs) => post({ type: "PROGRESS", jobId, progress, etaMs }),
+    });
+    if (outcome.cancelled) post({ type: "CANCELLED", jobId });
+    else done(outcome.value);
+  } finally {
+    running.delete(jobId);
+    cancelled.delete(jobId);
+  }
+}
+
+async function start(msg: SortWorkerJob & { jobId: number }): Promise<void> {
+  const { jobId } = msg;
+  if (msg.type === "ANALYZE") {
+    return run(jobId, analyzeJob(msg.data), (result) => post({ type: "ANALYZE_RESULT", jobId, result }));
+  }
+  if (msg.type === "SORT") {
+    // A dry run posts back the input it was given; the page keeps its own copy, so send none
+    const { dryRun } = msg.params;
+    return run(jobId, sortJob(msg.data, msg.params), (result) =>
+      post({ type: "SORT_RESULT", jobId, result: dryRun ? { ...result, data: null } : result })
+    );
+  }
+  if (msg.type === "SORT_TX") {
+    return run(jobId, sortByOrderListJob(msg.data, msg.list, msg.params), ({ unmatchedEntries, unmatchedElements, ...result }) =>
+      post({ type: "SORT_RESULT", jobId, result, orderMisses: { unmatchedEntries, unmatchedElements } })
+    );
+  }
+  if (msg.type === "LINE_DIFF") {
+    return run(jobId, diffJob(msg), (result) => post({ type: "LINE_DIFF_RESULT", jobId, result }));
+  }
+  const job = sortContainerJob(msg.data, {
+    containerPath: "view.classes.*.attributes",
+    sortKey: "viewname",
+    direction: "asc",
+    // A missing viewname reads as "" and so comes first, as it always has
+    keys: [{ key: "viewname", direction: "asc", type: "string", nulls: "first" }],
+    format: msg.format,
+  });
+  return run(jobId, job, (result) => post({ type: "SORT_RESULT", jobId, result }));
+}
+
+self.onmessage = (e: MessageEvent<SortWorkerRequest>) => {
+  const msg = e.data;
+  if (msg.version !== SORT_WORKER_PROTOCOL_VERSION) {
+    post({
+      type: "ERROR",
+      jobId: msg.jobId,
+      request: msg.type,
+      error: `Protocol version ${msg.version} is not supported; the worker speaks version ${SORT_WORKER_PROTOCOL_VERSION}. Reload the page.`,
+    });
+    return;
+  }
+  if (msg.type === "CANCEL") {
+    // A job that already finished has nothing left to stop
+    if (running.has(msg.jobId)) cancelled.add(msg.jobId);
+    return;
+  }
+  start(msg).catch((error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("[sort worker] error:", message);
+    post({ type: "ERROR", jobId: msg.jobId, request: msg.type, error: message });
+  });
+};